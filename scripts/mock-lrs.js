@@ -0,0 +1,124 @@
+/**
+ * A Learning Record Store for trying out xAPI statements locally. It keeps
+ * statements in memory and answers the parts of the xAPI statements API the
+ * app uses. The app sends statements through the `xapi-statements` function
+ * of a local Supabase project, so point that at it:
+ *
+ *   npm run mock-lrs
+ *   echo XAPI_ENDPOINT=http://host.docker.internal:8090/xapi > supabase/functions/.env
+ *   supabase functions serve --env-file supabase/functions/.env
+ *   VITE_XAPI_ENABLED=true npm run dev
+ *
+ * Statements it receives are logged and can be read back from
+ * GET /xapi/statements. MOCK_LRS_FAILURE_RATE (0 to 1) makes that share of
+ * requests fail with a 503, to see the app's retry queue at work.
+ */
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8090);
+const FAILURE_RATE = Number(process.env.MOCK_LRS_FAILURE_RATE ?? 0);
+
+const statements = new Map();
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Experience-API-Version',
+  'Access-Control-Expose-Headers': 'X-Experience-API-Version',
+};
+
+function send(response, status, body) {
+  response.writeHead(status, {
+    ...CORS_HEADERS,
+    'X-Experience-API-Version': '1.0.3',
+    ...(body !== undefined && { 'Content-Type': 'application/json' }),
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    request.on('data', chunk => (data += chunk));
+    request.on('end', () => resolve(data));
+    request.on('error', reject);
+  });
+}
+
+/** Checks the properties every statement needs, returning what is wrong. */
+function problem(statement) {
+  if (!statement || typeof statement !== 'object') return 'a statement must be an object';
+  for (const field of ['actor', 'verb', 'object']) {
+    if (!statement[field]) return `a statement needs ${field}`;
+  }
+  if (!statement.verb.id) return 'a verb needs an id';
+  return null;
+}
+
+/** Stores statements, all or none. Returns their ids, or the status and reason they were refused. */
+function store(incoming) {
+  for (const statement of incoming) {
+    const error = problem(statement);
+    if (error) return { status: 400, error };
+    const existing = statement.id && statements.get(statement.id);
+    const { stored: _stored, ...kept } = existing?.statement ?? {};
+    if (existing && JSON.stringify(kept) !== JSON.stringify(statement)) {
+      return { status: 409, error: `statement ${statement.id} already exists with different content` };
+    }
+  }
+
+  const stored = new Date().toISOString();
+  const ids = incoming.map(statement => {
+    const id = statement.id ?? randomUUID();
+    if (!statements.has(id)) {
+      statements.set(id, { statement: { ...statement, id, stored }, stored });
+      console.log(`${statement.verb.display?.['en-US'] ?? statement.verb.id} ${statement.object.id} (${id})`);
+    }
+    return id;
+  });
+  return { ids };
+}
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url ?? '/', `http://localhost:${PORT}`);
+  if (request.method === 'OPTIONS') return send(response, 204);
+  if (url.pathname !== '/xapi/statements') return send(response, 404, { error: 'Not found' });
+  if (!request.headers['x-experience-api-version']) {
+    return send(response, 400, { error: 'Missing X-Experience-API-Version header' });
+  }
+  if (request.method !== 'GET' && Math.random() < FAILURE_RATE) {
+    console.log('Failing on purpose');
+    return send(response, 503, { error: 'Unavailable' });
+  }
+
+  if (request.method === 'GET') {
+    const id = url.searchParams.get('statementId');
+    if (id) {
+      const entry = statements.get(id);
+      return entry ? send(response, 200, entry.statement) : send(response, 404, { error: 'Not found' });
+    }
+    return send(response, 200, { statements: [...statements.values()].map(entry => entry.statement), more: '' });
+  }
+
+  let body;
+  try {
+    body = JSON.parse(await readBody(request));
+  } catch {
+    return send(response, 400, { error: 'The body is not JSON' });
+  }
+
+  if (request.method === 'POST') {
+    const { ids, status, error } = store(Array.isArray(body) ? body : [body]);
+    return ids ? send(response, 200, ids) : send(response, status, { error });
+  }
+  if (request.method === 'PUT') {
+    const id = url.searchParams.get('statementId');
+    if (!id || (body.id && body.id !== id)) return send(response, 400, { error: 'statementId does not match' });
+    const { ids, status, error } = store([{ ...body, id }]);
+    return ids ? send(response, 204) : send(response, status, { error });
+  }
+  return send(response, 405, { error: 'Method not allowed' });
+});
+
+server.listen(PORT, () => console.log(`Mock LRS listening on http://localhost:${PORT}/xapi`));
@@ -1,9 +1,25 @@
+import { BrowserRouter, Routes, Route, Navigate, useLocation, Location } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import Auth from './components/Auth';
 import Dashboard from './components/Dashboard';
+import RequireAuth from './components/RequireAuth';
+import CertificateVerification from './components/CertificateVerification';
+import { paths } from './lib/routes';
+
+function LoginRoute() {
+  const { user } = useAuth();
+  const location = useLocation();
+
+  if (user) {
+    const from = (location.state as { from?: Location } | null)?.from;
+    return <Navigate to={from ? `${from.pathname}${from.search}${from.hash}` : paths.courses} replace />;
+  }
+
+  return <Auth />;
+}
 
 function AppContent() {
-  const { user, loading } = useAuth();
+  const { loading } = useAuth();
 
   if (loading) {
     return (
@@ -13,13 +29,28 @@ function AppContent() {
     );
   }
 
-  return user ? <Dashboard /> : <Auth />;
+  return (
+    <Routes>
+      <Route path={paths.login} element={<LoginRoute />} />
+      <Route path="/verify/:code?" element={<CertificateVerification />} />
+      <Route
+        path="/*"
+        element={
+          <RequireAuth>
+            <Dashboard />
+          </RequireAuth>
+        }
+      />
+    </Routes>
+  );
 }
 
 function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <BrowserRouter>
+        <AppContent />
+      </BrowserRouter>
     </AuthProvider>
   );
 }
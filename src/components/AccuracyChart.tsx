@@ -0,0 +1,77 @@
+import { DaySummary } from '../lib/activity';
+
+type Props = {
+  days: DaySummary[];
+};
+
+const WIDTH = 700;
+const HEIGHT = 160;
+// Room so points on the edges are not clipped.
+const PAD = 6;
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC', month: 'short', day: 'numeric' });
+
+export default function AccuracyChart({ days }: Props) {
+  const answered = days.map((d, i) => ({ ...d, index: i })).filter(d => d.accuracy !== null);
+  const answers = answered.reduce((sum, d) => sum + d.answers, 0);
+  const correct = answered.reduce((sum, d) => sum + d.correct, 0);
+
+  const x = (index: number) => PAD + (index / Math.max(days.length - 1, 1)) * (WIDTH - 2 * PAD);
+  const y = (accuracy: number) => PAD + (1 - accuracy) * (HEIGHT - 2 * PAD);
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="font-semibold text-slate-900">Accuracy</h3>
+        <span className="text-sm text-slate-500">
+          {answers > 0 ? `${Math.round((correct / answers) * 100)}% of ${answers} answers` : 'No answers'}
+        </span>
+      </div>
+      {answered.length === 0 ? (
+        <p className="text-sm text-slate-500 py-12 text-center">No questions answered in this range.</p>
+      ) : (
+        <>
+          <div className="flex">
+            <div className="flex flex-col justify-between text-xs text-slate-400 pr-2 text-right">
+              <span>100%</span>
+              <span>50%</span>
+              <span>0%</span>
+            </div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Accuracy per day">
+              {[0, 0.5, 1].map(level => (
+                <line
+                  key={level}
+                  x1="0"
+                  y1={y(level)}
+                  x2={WIDTH}
+                  y2={y(level)}
+                  strokeDasharray={level === 0 ? undefined : '4 4'}
+                  className="stroke-slate-200"
+                />
+              ))}
+              <polyline
+                points={answered.map(d => `${x(d.index)},${y(d.accuracy ?? 0)}`).join(' ')}
+                fill="none"
+                strokeWidth="2"
+                strokeLinejoin="round"
+                className="stroke-green-500"
+              />
+              {answered.map(d => (
+                <circle key={d.day} cx={x(d.index)} cy={y(d.accuracy ?? 0)} r="4" className="fill-green-600">
+                  <title>
+                    {`${formatDay(d.day)}: ${Math.round((d.accuracy ?? 0) * 100)}% (${d.correct} of ${d.answers})`}
+                  </title>
+                </circle>
+              ))}
+            </svg>
+          </div>
+          <div className="flex justify-between text-xs text-slate-400 mt-1 pl-10">
+            <span>{formatDay(days[0].day)}</span>
+            <span>{formatDay(days[days.length - 1].day)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
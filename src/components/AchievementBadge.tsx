@@ -0,0 +1,30 @@
+import { AchievementIcon } from '../lib/supabase';
+import { Award, Star, Flame, Trophy, Zap, Target, BookOpen } from 'lucide-react';
+
+type Props = {
+  icon: AchievementIcon;
+  unlocked: boolean;
+};
+
+const ICONS: Record<AchievementIcon, typeof Award> = {
+  award: Award,
+  star: Star,
+  flame: Flame,
+  trophy: Trophy,
+  zap: Zap,
+  target: Target,
+  book: BookOpen,
+};
+
+export default function AchievementBadge({ icon, unlocked }: Props) {
+  const Icon = ICONS[icon];
+  return (
+    <div
+      className={`w-12 h-12 rounded-xl flex items-center justify-center flex-shrink-0 ${
+        unlocked ? 'bg-yellow-100' : 'bg-slate-100'
+      }`}
+    >
+      <Icon className={`w-6 h-6 ${unlocked ? 'text-yellow-600' : 'text-slate-400'}`} />
+    </div>
+  );
+}
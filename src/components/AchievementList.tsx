@@ -0,0 +1,74 @@
+import { useState, useEffect } from 'react';
+import { Achievement, LearnerMetric, UserAchievement } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import AchievementBadge from './AchievementBadge';
+
+type Props = {
+  userId: string;
+};
+
+export default function AchievementList({ userId }: Props) {
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [unlocked, setUnlocked] = useState<UserAchievement[]>([]);
+  const [metrics, setMetrics] = useState<LearnerMetric[]>([]);
+
+  useEffect(() => {
+    Promise.all([db.achievements.list(), db.engagement.listAchievements(userId), db.engagement.metrics(userId)])
+      .then(([all, mine, totals]) => {
+        setAchievements(all);
+        setUnlocked(mine);
+        setMetrics(totals);
+      })
+      .catch(error => console.error('Error loading achievements:', error));
+  }, [userId]);
+
+  const unlockedAt = (achievement: Achievement) => unlocked.find(u => u.achievement_id === achievement.id)?.unlocked_at;
+  const sorted = [...achievements].sort((a, b) => Number(!unlockedAt(a)) - Number(!unlockedAt(b)));
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-slate-700 mb-2">
+        Achievements ({unlocked.length} of {achievements.length})
+      </h3>
+      {achievements.length === 0 ? (
+        <p className="text-sm text-slate-500">No achievements to earn yet.</p>
+      ) : (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {sorted.map(achievement => {
+            const earned = unlockedAt(achievement);
+            const value = metrics.find(m => m.metric === achievement.metric)?.value ?? 0;
+            return (
+              <li
+                key={achievement.id}
+                className={`flex items-start space-x-3 p-3 border rounded-lg ${
+                  earned ? 'border-yellow-200 bg-yellow-50' : 'border-slate-200'
+                }`}
+              >
+                <AchievementBadge icon={achievement.icon} unlocked={!!earned} />
+                <div className="flex-1 min-w-0">
+                  <p className={`font-medium ${earned ? 'text-slate-900' : 'text-slate-500'}`}>{achievement.name}</p>
+                  <p className="text-xs text-slate-600">{achievement.description}</p>
+                  {earned ? (
+                    <p className="text-xs text-slate-500 mt-1">Unlocked {new Date(earned).toLocaleDateString()}</p>
+                  ) : (
+                    <div className="mt-2">
+                      <div className="w-full bg-slate-200 rounded-full h-1.5">
+                        <div
+                          className="bg-yellow-500 h-1.5 rounded-full"
+                          style={{ width: `${Math.min(100, (value / achievement.threshold) * 100)}%` }}
+                        />
+                      </div>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {Math.min(value, achievement.threshold)} / {achievement.threshold}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
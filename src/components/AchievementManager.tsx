@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import { Achievement, AchievementMetric } from '../lib/supabase';
+import { db, Saveable, AchievementInput } from '../lib/repositories';
+import { emptyAchievement, saveAchievement, deleteAchievement } from '../lib/authoring';
+import { ACHIEVEMENT_ICONS, ACHIEVEMENT_METRIC_LABELS } from '../lib/gamification';
+import { ArrowLeft, Pencil, Trash2, Plus, Save } from 'lucide-react';
+import AchievementBadge from './AchievementBadge';
+
+type Props = {
+  onBack: () => void;
+};
+
+const inputClass =
+  'w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export default function AchievementManager({ onBack }: Props) {
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [draft, setDraft] = useState<Saveable<AchievementInput>>(emptyAchievement());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadAchievements();
+  }, []);
+
+  const loadAchievements = async () => {
+    try {
+      setAchievements(await db.achievements.list());
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const update = (changes: Partial<AchievementInput>) => setDraft({ ...draft, ...changes });
+
+  const handleSave = async () => {
+    setError('');
+    if (!draft.name.trim()) {
+      setError('Achievement name is required.');
+      return;
+    }
+    if (!Number.isInteger(draft.threshold) || draft.threshold < 1) {
+      setError('The target must be a whole number of at least 1.');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveAchievement(draft);
+    setSaving(false);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setDraft(emptyAchievement());
+    loadAchievements();
+  };
+
+  const handleEdit = ({ id, name, description, icon, metric, threshold }: Achievement) => {
+    setError('');
+    setDraft({ id, name, description, icon, metric, threshold });
+  };
+
+  const handleDelete = async (achievement: Achievement) => {
+    if (!confirm(`Delete "${achievement.name}"? Learners who unlocked it will lose the badge.`)) return;
+    const { error } = await deleteAchievement(achievement.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    if (draft.id === achievement.id) setDraft(emptyAchievement());
+    loadAchievements();
+  };
+
+  return (
+    <div>
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 mb-6 transition"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        <span>Back to Authoring</span>
+      </button>
+
+      <div className="bg-white rounded-xl border border-slate-200 p-8 mb-8">
+        <h2 className="text-2xl font-bold text-slate-900 mb-1">Achievements</h2>
+        <p className="text-sm text-slate-500 mb-6">
+          Badges unlock for a learner the next time they learn after reaching the target.
+        </p>
+
+        <div className="space-y-2">
+          {achievements.map(achievement => (
+            <div
+              key={achievement.id}
+              className={`flex items-center justify-between p-3 border rounded-lg ${
+                draft.id === achievement.id ? 'border-blue-400 bg-blue-50' : 'border-slate-200'
+              }`}
+            >
+              <div className="flex items-center space-x-3">
+                <AchievementBadge icon={achievement.icon} unlocked />
+                <div>
+                  <span className="font-medium text-slate-900">{achievement.name}</span>
+                  <p className="text-sm text-slate-500">
+                    {ACHIEVEMENT_METRIC_LABELS[achievement.metric]}: {achievement.threshold}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => handleEdit(achievement)}
+                  aria-label="Edit"
+                  className="p-2 text-slate-400 hover:text-blue-600 transition"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(achievement)}
+                  aria-label="Delete"
+                  className="p-2 text-slate-400 hover:text-red-600 transition"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+          {achievements.length === 0 && (
+            <p className="text-sm text-slate-500">No achievements yet. Add the first one below.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 p-8">
+        <h3 className="text-xl font-bold text-slate-900 mb-6">{draft.id ? 'Edit Achievement' : 'New Achievement'}</h3>
+
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Name</label>
+            <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Description</label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => update({ description: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Unlocks On</label>
+              <select
+                value={draft.metric}
+                onChange={(e) => update({ metric: e.target.value as AchievementMetric })}
+                className={inputClass}
+              >
+                {(Object.keys(ACHIEVEMENT_METRIC_LABELS) as AchievementMetric[]).map(metric => (
+                  <option key={metric} value={metric}>{ACHIEVEMENT_METRIC_LABELS[metric]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Target</label>
+              <input
+                type="number"
+                min={1}
+                value={draft.threshold}
+                onChange={(e) => update({ threshold: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Icon</label>
+            <div className="flex flex-wrap gap-2">
+              {ACHIEVEMENT_ICONS.map(icon => (
+                <button
+                  key={icon}
+                  onClick={() => update({ icon })}
+                  aria-label={icon}
+                  aria-pressed={draft.icon === icon}
+                  className={`p-1 rounded-xl border-2 transition ${
+                    draft.icon === icon ? 'border-blue-500' : 'border-transparent hover:border-slate-300'
+                  }`}
+                >
+                  <AchievementBadge icon={icon} unlocked={draft.icon === icon} />
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+        <div className="flex items-center justify-end space-x-3 mt-6">
+          {draft.id && (
+            <button
+              onClick={() => { setDraft(emptyAchievement()); setError(''); }}
+              className="px-4 py-2 text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {draft.id ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+            <span>{draft.id ? 'Save Achievement' : 'Add Achievement'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
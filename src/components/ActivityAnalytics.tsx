@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react';
+import { Course, DailyActivity } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { ActivityRange, RangePreset, courseVelocity, presetRange, summarizeDays } from '../lib/activity';
+import ActivityRangePicker from './ActivityRangePicker';
+import DailyMinutesChart from './DailyMinutesChart';
+import AccuracyChart from './AccuracyChart';
+import ActivityHeatmap from './ActivityHeatmap';
+import CourseVelocityList from './CourseVelocityList';
+
+type Props = {
+  userId: string;
+  courses: Course[];
+  timeZone: string;
+  weekStartsOn: number;
+};
+
+export default function ActivityAnalytics({ userId, courses, timeZone, weekStartsOn }: Props) {
+  const [preset, setPreset] = useState<RangePreset | null>('30d');
+  const [custom, setCustom] = useState<ActivityRange | null>(null);
+  const [rows, setRows] = useState<DailyActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const range = preset || !custom ? presetRange(preset ?? '30d', new Date(), timeZone) : custom;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    db.activity
+      .daily(userId, range, timeZone)
+      .then(data => {
+        if (!cancelled) setRows(data);
+      })
+      .catch(error => console.error('Error loading activity:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, range.from, range.to, timeZone]);
+
+  const handleCustom = (next: ActivityRange) => {
+    setCustom(next);
+    setPreset(null);
+  };
+
+  const days = summarizeDays(rows, range);
+
+  return (
+    <div className="bg-white rounded-xl p-8 border border-slate-200 mb-8">
+      <h2 className="text-2xl font-bold text-slate-900 mb-6">Activity History</h2>
+      <ActivityRangePicker range={range} preset={preset} onPreset={setPreset} onCustom={handleCustom} />
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <DailyMinutesChart days={days} />
+            <AccuracyChart days={days} />
+          </div>
+          <ActivityHeatmap days={days} weekStartsOn={weekStartsOn} />
+          <CourseVelocityList velocity={courseVelocity(rows, range)} courses={courses} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { DaySummary, HEAT_LEVEL_LABELS, heatLevel, heatmapWeeks } from '../lib/activity';
+import { WEEKDAY_LABELS } from '../lib/goals';
+
+type Props = {
+  days: DaySummary[];
+  weekStartsOn: number;
+};
+
+const LEVEL_CLASSES = ['bg-slate-100', 'bg-green-200', 'bg-green-400', 'bg-green-600', 'bg-green-800'];
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+
+export default function ActivityHeatmap({ days, weekStartsOn }: Props) {
+  const weeks = heatmapWeeks(days, weekStartsOn);
+  const weekdays = Array.from({ length: 7 }, (_, i) => WEEKDAY_LABELS[(weekStartsOn + i) % 7]);
+  const activeDays = days.filter(d => d.minutes > 0).length;
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="font-semibold text-slate-900">Consistency</h3>
+        <span className="text-sm text-slate-500">
+          Active on {activeDays} of {days.length} days
+        </span>
+      </div>
+      <div className="flex overflow-x-auto pb-2">
+        <div className="flex flex-col gap-1 pr-2 text-xs text-slate-400">
+          {weekdays.map((label, i) => (
+            <span key={label} className="h-3 leading-3">
+              {i % 2 === 0 ? label.slice(0, 3) : ''}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {weeks.map((week, i) => (
+            <div key={i} className="flex flex-col gap-1">
+              {week.map((day, j) =>
+                day ? (
+                  <div
+                    key={day.day}
+                    title={`${formatDay(day.day)}: ${day.minutes} min`}
+                    className={`w-3 h-3 rounded-sm ${LEVEL_CLASSES[heatLevel(day.minutes)]}`}
+                  />
+                ) : (
+                  <div key={`empty-${j}`} className="w-3 h-3" />
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-end space-x-1 mt-2 text-xs text-slate-500">
+        <span className="mr-1">Less</span>
+        {LEVEL_CLASSES.map((className, level) => (
+          <div key={className} title={HEAT_LEVEL_LABELS[level]} className={`w-3 h-3 rounded-sm ${className}`} />
+        ))}
+        <span className="ml-1">More</span>
+      </div>
+    </div>
+  );
+}
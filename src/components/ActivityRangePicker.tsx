@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { ActivityRange, MAX_RANGE_DAYS, RANGE_PRESET_LABELS, RangePreset, rangeLength } from '../lib/activity';
+
+type Props = {
+  range: ActivityRange;
+  /** The preset the range came from, or null for a custom range. */
+  preset: RangePreset | null;
+  onPreset: (preset: RangePreset) => void;
+  onCustom: (range: ActivityRange) => void;
+};
+
+const inputClass =
+  'px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export default function ActivityRangePicker({ range, preset, onPreset, onCustom }: Props) {
+  const [draft, setDraft] = useState(range);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setDraft(range);
+    setError('');
+  }, [range.from, range.to]);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.from || !draft.to) {
+      setError('Choose both a start and an end date.');
+      return;
+    }
+    if (draft.from > draft.to) {
+      setError('The start date must be on or before the end date.');
+      return;
+    }
+    if (rangeLength(draft) > MAX_RANGE_DAYS) {
+      setError(`Ranges can be at most ${MAX_RANGE_DAYS} days long.`);
+      return;
+    }
+    setError('');
+    onCustom(draft);
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(RANGE_PRESET_LABELS) as RangePreset[]).map(option => (
+          <button
+            key={option}
+            onClick={() => onPreset(option)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium transition ${
+              preset === option ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {RANGE_PRESET_LABELS[option]}
+          </button>
+        ))}
+        <form onSubmit={handleApply} className="flex flex-wrap items-center gap-2 sm:ml-auto">
+          <input
+            type="date"
+            value={draft.from}
+            max={draft.to || undefined}
+            onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+            aria-label="From"
+            className={inputClass}
+          />
+          <span className="text-sm text-slate-500">to</span>
+          <input
+            type="date"
+            value={draft.to}
+            min={draft.from || undefined}
+            onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+            aria-label="To"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition ${
+              preset === null ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            Apply
+          </button>
+        </form>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { GradeResult } from '../lib/grading';
+
+type Props = {
+  /** Null when the answer was queued offline and has not been graded yet. */
+  result: GradeResult | null;
+  /** Shown after the verdict when the answer was not fully correct. */
+  correctAnswer?: string;
+};
+
+export default function AnswerFeedback({ result, correctAnswer }: Props) {
+  if (!result) {
+    return (
+      <div className="p-4 rounded-lg mb-6 bg-slate-50 border border-slate-200">
+        <p className="font-semibold text-slate-900">Answer saved</p>
+        <p className="text-slate-700">It will be graded when you're back online.</p>
+      </div>
+    );
+  }
+
+  const { score, explanation } = result;
+  const tone = score === 1 ? 'green' : score > 0 ? 'amber' : 'red';
+  const verdict = score === 1 ? 'Correct!' : score > 0 ? `Partially correct (${Math.round(score * 100)}%)` : 'Incorrect';
+
+  return (
+    <div className={`p-4 rounded-lg mb-6 ${
+      tone === 'green' ? 'bg-green-50 border border-green-200' :
+      tone === 'amber' ? 'bg-amber-50 border border-amber-200' :
+      'bg-red-50 border border-red-200'
+    }`}>
+      <p className={`font-semibold ${explanation ? 'mb-2' : ''} ${
+        tone === 'green' ? 'text-green-900' : tone === 'amber' ? 'text-amber-900' : 'text-red-900'
+      }`}>
+        {verdict}
+        {score < 1 && correctAnswer && ` — the answer is "${correctAnswer}"`}
+      </p>
+      {explanation && <p className="text-slate-700">{explanation}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+type Props = {
+  options: string[];
+  selectedAnswer: string;
+  revealed: boolean;
+  /** Null while the answer is locked in but not yet graded. */
+  isCorrect: boolean | null;
+  onSelect: (option: string) => void;
+};
+
+export default function AnswerOptions({ options, selectedAnswer, revealed, isCorrect, onSelect }: Props) {
+  const graded = revealed && isCorrect !== null;
+
+  return (
+    <div className="space-y-3">
+      {options.map((option, index) => (
+        <button
+          key={index}
+          onClick={() => !revealed && onSelect(option)}
+          disabled={revealed}
+          className={`w-full text-left p-4 border-2 rounded-lg transition ${
+            selectedAnswer === option
+              ? graded
+                ? isCorrect
+                  ? 'border-green-500 bg-green-50'
+                  : 'border-red-500 bg-red-50'
+                : 'border-blue-500 bg-blue-50'
+              : 'border-slate-200 hover:border-slate-300'
+          } ${revealed ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+        >
+          <div className="flex items-center space-x-3">
+            <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
+              selectedAnswer === option
+                ? graded
+                  ? isCorrect
+                    ? 'border-green-500 bg-green-500'
+                    : 'border-red-500 bg-red-500'
+                  : 'border-blue-500 bg-blue-500'
+                : 'border-slate-300'
+            }`}>
+              {selectedAnswer === option && (
+                <div className="w-2 h-2 bg-white rounded-full"></div>
+              )}
+            </div>
+            <span className="font-medium text-slate-900">{option}</span>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+import { useState } from 'react';
+import { Assessment, AnswerKey, MatchingPair, QuestionType } from '../lib/supabase';
+import {
+  AssessmentDraft,
+  QUESTION_TYPE_LABELS,
+  saveAssessment,
+  deleteAssessment,
+  validateAssessment,
+  changeQuestionType,
+} from '../lib/authoring';
+import { TRUE_FALSE_OPTIONS } from '../lib/grading';
+import { Plus, Trash2, Check } from 'lucide-react';
+import SkillPicker from './SkillPicker';
+
+type Props = {
+  draft: AssessmentDraft;
+  onSaved: (assessment: Assessment) => void;
+  onDeleted: () => void;
+  onCancel: () => void;
+};
+
+const inputClass =
+  'w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export default function AssessmentEditor({ draft: initialDraft, onSaved, onDeleted, onCancel }: Props) {
+  const [draft, setDraft] = useState(initialDraft);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const update = (changes: Partial<AssessmentDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+  const updateKey = (changes: Partial<AnswerKey>) => update({ answer_key: { ...draft.answer_key, ...changes } });
+
+  const type = draft.question_type;
+  const correctOptions = draft.answer_key.correct_options ?? [];
+  const pairs = draft.answer_key.pairs ?? [];
+
+  const isMarked = (option: string) =>
+    type === 'multiple_select' ? correctOptions.includes(option) : draft.correct_answer === option;
+
+  const toggleMarked = (option: string) => {
+    if (!option.trim()) return;
+    if (type === 'multiple_select') {
+      updateKey({
+        correct_options: isMarked(option)
+          ? correctOptions.filter(o => o !== option)
+          : [...correctOptions, option],
+      });
+    } else {
+      update({ correct_answer: option });
+    }
+  };
+
+  const updateOption = (index: number, value: string) => {
+    const previous = draft.options[index];
+    update({
+      options: draft.options.map((o, i) => (i === index ? value : o)),
+      ...(draft.correct_answer === previous && { correct_answer: value }),
+      ...(correctOptions.includes(previous) && {
+        answer_key: { ...draft.answer_key, correct_options: correctOptions.map(o => (o === previous ? value : o)) },
+      }),
+    });
+  };
+
+  const removeOption = (index: number) => {
+    const removed = draft.options[index];
+    update({
+      options: draft.options.filter((_, i) => i !== index),
+      ...(draft.correct_answer === removed && { correct_answer: '' }),
+      ...(correctOptions.includes(removed) && {
+        answer_key: { ...draft.answer_key, correct_options: correctOptions.filter(o => o !== removed) },
+      }),
+    });
+  };
+
+  const updatePair = (index: number, changes: Partial<MatchingPair>) =>
+    updateKey({ pairs: pairs.map((p, i) => (i === index ? { ...p, ...changes } : p)) });
+
+  const optionsHint =
+    type === 'ordering' ? 'list them in the correct order' :
+    type === 'multiple_select' ? 'select every correct one' :
+    'select the correct one';
+
+  const handleSave = async () => {
+    const validationError = validateAssessment(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await saveAssessment(draft);
+    setSaving(false);
+
+    if (error) {
+      setError(error.message);
+    } else if (data) {
+      onSaved(data);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id || !confirm('Delete this question?')) return;
+    const { error } = await deleteAssessment(draft.id);
+    if (error) {
+      setError(error.message);
+    } else {
+      onDeleted();
+    }
+  };
+
+  return (
+    <div className="p-6 border-2 border-blue-200 bg-blue-50/30 rounded-xl space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-slate-700 mb-2">Question</label>
+          <textarea
+            value={draft.question}
+            onChange={(e) => update({ question: e.target.value })}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Question Type</label>
+          <select
+            value={type}
+            onChange={(e) => setDraft(changeQuestionType(draft, e.target.value as QuestionType))}
+            className={inputClass}
+          >
+            {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {(type === 'single_choice' || type === 'multiple_select' || type === 'ordering') && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            {type === 'ordering' ? 'Items' : 'Options'} <span className="font-normal text-slate-500">— {optionsHint}</span>
+          </label>
+          <div className="space-y-2">
+            {draft.options.map((option, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                {type === 'ordering' ? (
+                  <span className="w-8 flex-shrink-0 text-center text-sm font-semibold text-slate-500">{index + 1}.</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => toggleMarked(option)}
+                    aria-label="Mark as correct"
+                    className={`w-8 h-8 flex-shrink-0 border-2 flex items-center justify-center transition ${
+                      type === 'multiple_select' ? 'rounded-lg' : 'rounded-full'
+                    } ${
+                      option.trim() && isMarked(option)
+                        ? 'border-green-500 bg-green-500 text-white'
+                        : 'border-slate-300 text-transparent hover:border-green-400'
+                    }`}
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                )}
+                <input
+                  value={option}
+                  onChange={(e) => updateOption(index, e.target.value)}
+                  placeholder={`${type === 'ordering' ? 'Item' : 'Option'} ${index + 1}`}
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeOption(index)}
+                  disabled={draft.options.length <= 2}
+                  className="p-2 text-slate-400 hover:text-red-600 transition disabled:opacity-30"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => update({ options: [...draft.options, ''] })}
+            className="mt-2 flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>{type === 'ordering' ? 'Add item' : 'Add option'}</span>
+          </button>
+        </div>
+      )}
+
+      {type === 'true_false' && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">The statement is</label>
+          <div className="flex space-x-2">
+            {TRUE_FALSE_OPTIONS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => update({ correct_answer: option })}
+                className={`px-5 py-2 rounded-lg border-2 font-medium transition ${
+                  draft.correct_answer === option
+                    ? 'border-green-500 bg-green-50 text-green-800'
+                    : 'border-slate-300 text-slate-700 hover:border-green-400'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {type === 'numeric' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Expected Value</label>
+            <input
+              type="number"
+              step="any"
+              value={draft.answer_key.value ?? ''}
+              onChange={(e) => updateKey({ value: e.target.value === '' ? undefined : Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">
+              Tolerance <span className="font-normal text-slate-500">— ± accepted</span>
+            </label>
+            <input
+              type="number"
+              step="any"
+              min={0}
+              value={draft.answer_key.tolerance ?? ''}
+              onChange={(e) => updateKey({ tolerance: e.target.value === '' ? undefined : Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {type === 'short_text' && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            Accepted Answers <span className="font-normal text-slate-500">— one per line; wrap in /slashes/ for a regular expression</span>
+          </label>
+          <textarea
+            value={(draft.answer_key.accepted ?? []).join('\n')}
+            onChange={(e) => updateKey({ accepted: e.target.value.split('\n') })}
+            rows={3}
+            className={`${inputClass} font-mono text-sm`}
+          />
+          <label className="flex items-center space-x-2 mt-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={!!draft.answer_key.case_sensitive}
+              onChange={(e) => updateKey({ case_sensitive: e.target.checked })}
+            />
+            <span>Case sensitive</span>
+          </label>
+        </div>
+      )}
+
+      {type === 'matching' && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            Pairs <span className="font-normal text-slate-500">— right-hand items are shuffled for learners</span>
+          </label>
+          <div className="space-y-2">
+            {pairs.map((pair, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <input
+                  value={pair.prompt}
+                  onChange={(e) => updatePair(index, { prompt: e.target.value })}
+                  placeholder="Item"
+                  className={inputClass}
+                />
+                <input
+                  value={pair.match}
+                  onChange={(e) => updatePair(index, { match: e.target.value })}
+                  placeholder="Matches"
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={() => updateKey({ pairs: pairs.filter((_, i) => i !== index) })}
+                  disabled={pairs.length <= 2}
+                  className="p-2 text-slate-400 hover:text-red-600 transition disabled:opacity-30"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => updateKey({ pairs: [...pairs, { prompt: '', match: '' }] })}
+            className="mt-2 flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add pair</span>
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-slate-700 mb-2">Explanation</label>
+          <textarea
+            value={draft.explanation}
+            onChange={(e) => update({ explanation: e.target.value })}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Difficulty</label>
+          <select
+            value={draft.difficulty}
+            onChange={(e) => update({ difficulty: e.target.value as Assessment['difficulty'] })}
+            className={inputClass}
+          >
+            <option value="easy">Easy</option>
+            <option value="medium">Medium</option>
+            <option value="hard">Hard</option>
+          </select>
+        </div>
+      </div>
+
+      <SkillPicker
+        value={draft.skill_ids ?? []}
+        onChange={(skill_ids) => update({ skill_ids })}
+        hint="Leave empty to use the lesson's skills."
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center justify-between">
+        <div>
+          {draft.id && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Delete question</span>
+            </button>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="px-5 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Question'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { Question, QuizAttempt, UserAssessment } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { QuestionSolution, describeCorrectAnswer } from '../lib/grading';
+import { CheckCircle, XCircle } from 'lucide-react';
+
+type Props = {
+  attempt: QuizAttempt;
+  questions: Question[];
+};
+
+/** The answers to a finished attempt, which are only released once it is over. */
+export default function AttemptReview({ attempt, questions }: Props) {
+  const [solutions, setSolutions] = useState<QuestionSolution[]>([]);
+  const [answers, setAnswers] = useState<UserAssessment[]>([]);
+
+  useEffect(() => {
+    loadReview();
+  }, [attempt.id]);
+
+  const loadReview = async () => {
+    try {
+      const [solved, given] = await Promise.all([
+        db.quizAttempts.review(attempt.id),
+        db.answers.listByAttempt(attempt.id),
+      ]);
+      setSolutions(solved);
+      setAnswers(given);
+    } catch (error) {
+      console.error('Error loading attempt review:', error);
+    }
+  };
+
+  if (solutions.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-md mx-auto mb-8 text-left">
+      <h4 className="text-sm font-semibold text-slate-900 mb-2">Review your answers</h4>
+      <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+        {solutions.map(solution => {
+          const question = questions.find(q => q.id === solution.id);
+          if (!question) return null;
+          const score = answers.find(a => a.assessment_id === solution.id)?.score;
+
+          return (
+            <li key={solution.id} className="px-4 py-3 text-sm">
+              <div className="flex items-start space-x-2">
+                {score === 1 ? (
+                  <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-green-600" />
+                ) : (
+                  <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-500" />
+                )}
+                <div>
+                  <p className="font-medium text-slate-900">{question.question}</p>
+                  <p className="text-slate-700 mt-1">
+                    Answer: {describeCorrectAnswer(question.question_type, solution)}
+                    {score !== undefined && score > 0 && score < 1 && ` · you scored ${Math.round(score * 100)}%`}
+                  </p>
+                  {solution.explanation && <p className="text-slate-500 mt-1">{solution.explanation}</p>}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
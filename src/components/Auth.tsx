@@ -1,5 +1,9 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { usingMemoryBackend } from '../lib/repositories';
+import { DEMO_EMAIL, DEMO_PASSWORD } from '../lib/demoData';
+import { paths } from '../lib/routes';
 import { BookOpen, Mail, Lock, User } from 'lucide-react';
 
 export default function Auth() {
@@ -129,7 +133,22 @@ export default function Auth() {
               ? "Don't have an account? Sign up"
               : 'Already have an account? Sign in'}
           </button>
+          <p className="mt-3">
+            <Link to={paths.verify()} className="text-slate-500 hover:text-slate-700 text-sm">
+              Verify a certificate
+            </Link>
+          </p>
         </div>
+
+        {usingMemoryBackend && (
+          <div className="mt-6 p-4 rounded-lg bg-blue-50 border border-blue-200 text-sm text-blue-900">
+            <p className="font-semibold mb-1">Demo mode</p>
+            <p>
+              Data is stored in this browser only. Sign in as <code>{DEMO_EMAIL}</code> with
+              password <code>{DEMO_PASSWORD}</code>.
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { Course } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { CourseDraft, emptyCourse } from '../lib/authoring';
+import { Plus, PenSquare, Globe, EyeOff, Upload, Network, Award } from 'lucide-react';
+import CourseEditor from './CourseEditor';
+import CourseImportDialog from './CourseImportDialog';
+import SkillManager from './SkillManager';
+import AchievementManager from './AchievementManager';
+
+type Props = {
+  onCoursesChanged: () => void;
+};
+
+export default function AuthoringConsole({ onCoursesChanged }: Props) {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [editing, setEditing] = useState<CourseDraft | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [managingSkills, setManagingSkills] = useState(false);
+  const [managingAchievements, setManagingAchievements] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadCourses();
+  }, []);
+
+  const loadCourses = async () => {
+    try {
+      setCourses(await db.courses.listEditable());
+    } catch (error) {
+      console.error('Error loading courses:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <CourseEditor
+        draft={editing}
+        onBack={() => { setEditing(null); loadCourses(); }}
+        onSaved={onCoursesChanged}
+      />
+    );
+  }
+
+  if (managingSkills) {
+    return <SkillManager onBack={() => setManagingSkills(false)} />;
+  }
+
+  if (managingAchievements) {
+    return <AchievementManager onBack={() => setManagingAchievements(false)} />;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {importing && (
+        <CourseImportDialog
+          onClose={() => setImporting(false)}
+          onImported={() => { loadCourses(); onCoursesChanged(); }}
+        />
+      )}
+
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 mb-2">Authoring</h1>
+          <p className="text-slate-600">Create courses, organize lessons and write questions</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setManagingSkills(true)}
+            className="flex items-center space-x-2 px-5 py-3 text-slate-700 border border-slate-300 rounded-lg font-medium hover:bg-slate-50 transition"
+          >
+            <Network className="w-5 h-5" />
+            <span>Skills</span>
+          </button>
+          <button
+            onClick={() => setManagingAchievements(true)}
+            className="flex items-center space-x-2 px-5 py-3 text-slate-700 border border-slate-300 rounded-lg font-medium hover:bg-slate-50 transition"
+          >
+            <Award className="w-5 h-5" />
+            <span>Achievements</span>
+          </button>
+          <button
+            onClick={() => setImporting(true)}
+            className="flex items-center space-x-2 px-5 py-3 text-slate-700 border border-slate-300 rounded-lg font-medium hover:bg-slate-50 transition"
+          >
+            <Upload className="w-5 h-5" />
+            <span>Import</span>
+          </button>
+          <button
+            onClick={() => setEditing(emptyCourse())}
+            className="flex items-center space-x-2 px-5 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+          >
+            <Plus className="w-5 h-5" />
+            <span>New Course</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 divide-y divide-slate-200">
+        {courses.map(course => (
+          <div
+            key={course.id}
+            onClick={() => setEditing(course)}
+            className="flex items-center justify-between p-6 hover:bg-slate-50 cursor-pointer transition group"
+          >
+            <div>
+              <h3 className="text-lg font-semibold text-slate-900 group-hover:text-blue-600 transition">
+                {course.title}
+              </h3>
+              <p className="text-sm text-slate-600 mt-1 line-clamp-1">{course.description}</p>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className={`flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium ${
+                course.is_published ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'
+              }`}>
+                {course.is_published ? <Globe className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+                <span>{course.is_published ? 'Published' : 'Draft'}</span>
+              </span>
+              <PenSquare className="w-5 h-5 text-slate-400 group-hover:text-blue-600 transition" />
+            </div>
+          </div>
+        ))}
+
+        {courses.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-slate-600">No courses yet. Create your first one.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import { SkillLevelCalibration } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { LEVEL_LABELS } from '../lib/skillCalibration';
+import { ArrowRight } from 'lucide-react';
+
+type Props = {
+  userId: string;
+};
+
+const STATUS_LABELS: Record<SkillLevelCalibration['status'], { label: string; className: string }> = {
+  pending: { label: 'Suggested', className: 'bg-blue-100 text-blue-700' },
+  applied: { label: 'Applied', className: 'bg-green-100 text-green-700' },
+  dismissed: { label: 'Declined', className: 'bg-slate-100 text-slate-600' },
+};
+
+export default function CalibrationHistory({ userId }: Props) {
+  const [history, setHistory] = useState<SkillLevelCalibration[]>([]);
+
+  useEffect(() => {
+    db.calibrations.listByUser(userId)
+      .then(setHistory)
+      .catch(error => console.error('Error loading skill level history:', error));
+  }, [userId]);
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-slate-700 mb-2">Skill Level History</h3>
+      {history.length === 0 ? (
+        <p className="text-sm text-slate-500">No changes yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+          {history.map(entry => {
+            const status = STATUS_LABELS[entry.status];
+            return (
+              <li key={entry.id} className="px-4 py-3">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="flex items-center space-x-2 text-sm font-medium text-slate-900">
+                    <span>{LEVEL_LABELS[entry.from_level]}</span>
+                    <ArrowRight className="w-4 h-4 text-slate-400" />
+                    <span>{LEVEL_LABELS[entry.to_level]}</span>
+                  </span>
+                  <span className="flex items-center space-x-2">
+                    <span className="text-xs text-slate-500">{new Date(entry.created_at).toLocaleDateString()}</span>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${status.className}`}>
+                      {entry.source === 'manual' ? 'Changed by you' : status.label}
+                    </span>
+                  </span>
+                </div>
+                <ul className="text-xs text-slate-600 space-y-0.5">
+                  {entry.reasons.map(reason => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
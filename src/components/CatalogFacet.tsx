@@ -0,0 +1,31 @@
+type Props<T extends string> = {
+  label: string;
+  options: Record<T, string>;
+  selected: T[];
+  onChange: (selected: T[]) => void;
+};
+
+export default function CatalogFacet<T extends string>({ label, options, selected, onChange }: Props<T>) {
+  const toggle = (value: T) =>
+    onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-slate-500 w-24">{label}</span>
+      {(Object.keys(options) as T[]).map(value => (
+        <button
+          key={value}
+          onClick={() => toggle(value)}
+          aria-pressed={selected.includes(value)}
+          className={`px-3 py-1 rounded-full text-sm border transition ${
+            selected.includes(value)
+              ? 'bg-blue-50 border-blue-400 text-blue-700'
+              : 'border-slate-300 text-slate-600 hover:bg-slate-50'
+          }`}
+        >
+          {options[value]}
+        </button>
+      ))}
+    </div>
+  );
+}
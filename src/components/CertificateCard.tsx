@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Certificate } from '../lib/supabase';
+import { downloadCertificate, formatCertificateCode, verificationUrl } from '../lib/certificates';
+import { paths } from '../lib/routes';
+import { Award, Download, Link as LinkIcon } from 'lucide-react';
+
+type Props = {
+  certificate: Certificate;
+};
+
+export default function CertificateCard({ certificate }: Props) {
+  const [downloading, setDownloading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleDownload = async () => {
+    setError('');
+    setDownloading(true);
+    try {
+      await downloadCertificate(certificate);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(verificationUrl(certificate.code));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Could not copy the link. Copy the verification code instead.');
+    }
+  };
+
+  return (
+    <div className="flex items-start space-x-4 border border-yellow-200 bg-yellow-50 rounded-lg p-4">
+      <div className="w-12 h-12 bg-yellow-100 rounded-xl flex items-center justify-center flex-shrink-0">
+        <Award className="w-6 h-6 text-yellow-600" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-semibold text-slate-900">{certificate.course_title}</p>
+        <p className="text-sm text-slate-600">
+          Completed {new Date(certificate.completed_at).toLocaleDateString()} · Code{' '}
+          <Link to={paths.verify(certificate.code)} className="font-mono text-blue-600 hover:text-blue-700">
+            {formatCertificateCode(certificate.code)}
+          </Link>
+        </p>
+        <div className="flex items-center space-x-2 mt-3">
+          <button
+            onClick={handleDownload}
+            disabled={downloading}
+            className="flex items-center space-x-2 px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>{downloading ? 'Preparing...' : 'Download PDF'}</span>
+          </button>
+          <button
+            onClick={handleCopy}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm text-slate-700 border border-slate-300 bg-white rounded-lg hover:bg-slate-50 transition"
+          >
+            <LinkIcon className="w-4 h-4" />
+            <span>{copied ? 'Copied!' : 'Copy verification link'}</span>
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      </div>
+    </div>
+  );
+}
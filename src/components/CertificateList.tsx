@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { Certificate } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import CertificateCard from './CertificateCard';
+
+type Props = {
+  userId: string;
+};
+
+export default function CertificateList({ userId }: Props) {
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+
+  useEffect(() => {
+    db.certificates
+      .listByUser(userId)
+      .then(setCertificates)
+      .catch(error => console.error('Error loading certificates:', error));
+  }, [userId]);
+
+  return (
+    <div className="bg-white rounded-xl p-8 border border-slate-200 mb-8">
+      <h2 className="text-2xl font-bold text-slate-900 mb-6">Certificates</h2>
+      {certificates.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {certificates.map(certificate => (
+            <CertificateCard key={certificate.id} certificate={certificate} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-slate-600">Finish a course to earn your first certificate.</p>
+      )}
+    </div>
+  );
+}
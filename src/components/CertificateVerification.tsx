@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { CertificateVerification as Verification } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { formatCertificateCode, isCertificateCode, normalizeCertificateCode } from '../lib/certificates';
+import { paths } from '../lib/routes';
+import { BookOpen, BadgeCheck, XCircle, Search } from 'lucide-react';
+
+export default function CertificateVerification() {
+  const { code = '' } = useParams<{ code?: string }>();
+  const navigate = useNavigate();
+  const [input, setInput] = useState(formatCertificateCode(code));
+  const [result, setResult] = useState<Verification | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setInput(formatCertificateCode(code));
+    setResult(null);
+    setError('');
+    if (!code) return;
+    if (!isCertificateCode(code)) {
+      setError('That is not a valid verification code. Codes have 12 letters and digits.');
+      return;
+    }
+
+    setChecking(true);
+    db.certificates
+      .verify(code)
+      .then(found => {
+        setResult(found);
+        if (!found) setError('No certificate has this verification code.');
+      })
+      .catch(() => setError('The certificate could not be checked. Try again in a moment.'))
+      .finally(() => setChecking(false));
+  }, [code]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    navigate(paths.verify(normalizeCertificateCode(input)));
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-lg bg-white rounded-2xl shadow-xl p-8">
+        <Link to={paths.login} className="flex items-center justify-center space-x-3 mb-8">
+          <div className="w-10 h-10 bg-blue-600 rounded-xl flex items-center justify-center">
+            <BookOpen className="w-6 h-6 text-white" />
+          </div>
+          <span className="text-xl font-bold text-slate-900">AdaptLearn</span>
+        </Link>
+
+        <h1 className="text-2xl font-bold text-slate-900 text-center mb-2">Verify a Certificate</h1>
+        <p className="text-slate-600 text-center mb-6">
+          Enter the verification code printed on the certificate.
+        </p>
+
+        <form onSubmit={handleSubmit} className="flex items-center space-x-2 mb-6">
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="XXXX-XXXX-XXXX"
+            aria-label="Verification code"
+            className="flex-1 px-4 py-3 font-mono uppercase border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!input.trim()}
+            className="flex items-center space-x-2 px-4 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            <Search className="w-4 h-4" />
+            <span>Check</span>
+          </button>
+        </form>
+
+        {checking && (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+
+        {result && (
+          <div className="border border-green-200 bg-green-50 rounded-xl p-6">
+            <div className="flex items-center space-x-2 mb-4">
+              <BadgeCheck className="w-6 h-6 text-green-600" />
+              <span className="font-semibold text-green-800">Valid certificate</span>
+            </div>
+            <dl className="space-y-3 text-sm">
+              <div>
+                <dt className="text-slate-500">Awarded to</dt>
+                <dd className="text-lg font-semibold text-slate-900">{result.learner_name}</dd>
+              </div>
+              <div>
+                <dt className="text-slate-500">Course</dt>
+                <dd className="font-medium text-slate-900">{result.course_title}</dd>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <dt className="text-slate-500">Completed</dt>
+                  <dd className="text-slate-900">{formatDate(result.completed_at)}</dd>
+                </div>
+                <div>
+                  <dt className="text-slate-500">Issued</dt>
+                  <dd className="text-slate-900">{formatDate(result.issued_at)}</dd>
+                </div>
+              </div>
+              <div>
+                <dt className="text-slate-500">Verification code</dt>
+                <dd className="font-mono text-slate-900">{formatCertificateCode(result.code)}</dd>
+              </div>
+            </dl>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start space-x-2 border border-red-200 bg-red-50 rounded-xl p-4 text-sm text-red-700">
+            <XCircle className="w-5 h-5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { InteractiveStep } from '../lib/supabase';
+import { runCodeTests, TestResult } from '../lib/interactive';
+import { Play, CheckCircle, XCircle, RotateCcw } from 'lucide-react';
+
+type Props = {
+  step: Extract<InteractiveStep, { type: 'code' }>;
+  onResult: (passed: boolean) => void;
+};
+
+export default function CodeExerciseStep({ step, onResult }: Props) {
+  const [code, setCode] = useState(step.starter_code);
+  const [results, setResults] = useState<TestResult[]>([]);
+  const [error, setError] = useState('');
+  const [running, setRunning] = useState(false);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError('');
+    const outcome = await runCodeTests(code, step.function_name, step.tests);
+    setResults(outcome.results);
+    setError(outcome.error ?? '');
+    setRunning(false);
+    onResult(!outcome.error && outcome.results.length > 0 && outcome.results.every(r => r.passed));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    setCode(code.slice(0, selectionStart) + '  ' + code.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + 2;
+    });
+  };
+
+  const passedCount = results.filter(r => r.passed).length;
+
+  return (
+    <div>
+      <div className="rounded-xl overflow-hidden border border-slate-800 mb-4">
+        <div className="flex items-center justify-between px-4 py-2 bg-slate-800 text-slate-300 text-xs font-medium">
+          <span>JavaScript</span>
+          <button
+            onClick={() => setCode(step.starter_code)}
+            className="flex items-center space-x-1 hover:text-white transition"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            <span>Reset</span>
+          </button>
+        </div>
+        <textarea
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+          rows={Math.max(8, code.split('\n').length + 1)}
+          className="w-full p-4 bg-slate-900 text-slate-100 font-mono text-sm leading-6 outline-none resize-y"
+        />
+      </div>
+
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-sm text-slate-600">
+          {results.length > 0 && `${passedCount} of ${results.length} tests passing`}
+        </span>
+        <button
+          onClick={handleRun}
+          disabled={running}
+          className="flex items-center space-x-2 px-5 py-2.5 bg-slate-900 text-white rounded-lg font-medium hover:bg-slate-800 transition disabled:opacity-50"
+        >
+          <Play className="w-4 h-4" />
+          <span>{running ? 'Running...' : 'Run Tests'}</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 mb-4 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800 font-mono whitespace-pre-wrap">
+          {error}
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <ul className="space-y-2">
+          {results.map((result, index) => (
+            <li
+              key={index}
+              className={`flex items-start space-x-3 p-3 rounded-lg text-sm ${
+                result.passed ? 'bg-green-50' : 'bg-red-50'
+              }`}
+            >
+              {result.passed ? (
+                <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+              ) : (
+                <XCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              )}
+              <div className="font-mono">
+                <p className="text-slate-900">{result.description}</p>
+                {!result.passed && (
+                  <p className="text-red-700 mt-1">
+                    {result.error ?? `Expected ${JSON.stringify(step.tests[index].expected)}, got ${result.actual}`}
+                  </p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Course, CourseSearchHit, UserProgress } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { paths } from '../lib/routes';
+import {
+  CatalogFilters,
+  CatalogSort,
+  LessonSummary,
+  DIFFICULTY_LABELS,
+  DURATION_LABELS,
+  CONTENT_TYPE_LABELS,
+  STATUS_LABELS,
+  SORT_LABELS,
+  parseCatalogParams,
+  toCatalogParams,
+  filterCourses,
+  matchCourses,
+} from '../lib/catalog';
+import { Search, X } from 'lucide-react';
+import CourseCard from './CourseCard';
+import CatalogFacet from './CatalogFacet';
+
+type Props = {
+  courses: Course[];
+  userProgress: UserProgress[];
+};
+
+// Wait this long after the last keystroke before searching.
+const SEARCH_DELAY_MS = 300;
+
+export default function CourseCatalog({ courses, userProgress }: Props) {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseCatalogParams(searchParams);
+  const [queryInput, setQueryInput] = useState(filters.query);
+  const [hits, setHits] = useState<CourseSearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [lessons, setLessons] = useState<LessonSummary[]>([]);
+
+  const update = (changes: Partial<CatalogFilters>) =>
+    setSearchParams(toCatalogParams({ ...filters, ...changes }), { replace: true });
+
+  useEffect(() => {
+    db.lessons.listSummaries(courses.map(c => c.id))
+      .then(setLessons)
+      .catch(error => console.error('Error loading lesson summaries:', error));
+  }, [courses]);
+
+  // Keeps the box in step with back/forward navigation.
+  useEffect(() => {
+    setQueryInput(filters.query);
+  }, [filters.query]);
+
+  useEffect(() => {
+    if (queryInput === filters.query) return;
+    const timer = setTimeout(() => update({ query: queryInput }), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [queryInput]);
+
+  useEffect(() => {
+    const query = filters.query.trim();
+    if (!query) {
+      setHits([]);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    db.courses.search(query)
+      // Offline, fall back to matching the titles and descriptions we already have.
+      .catch(() => matchCourses(query, courses, []))
+      .then(results => {
+        if (!cancelled) setHits(results);
+      })
+      .finally(() => {
+        if (!cancelled) setSearching(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters.query, courses]);
+
+  const results = filterCourses(courses, filters, { hits, lessons, progress: userProgress });
+  const hasFilters =
+    !!filters.query || filters.difficulty.length + filters.duration.length + filters.types.length + filters.status.length > 0;
+
+  const clearFilters = () => {
+    setQueryInput('');
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-slate-900 mb-6">Available Courses</h2>
+
+      <div className="bg-white rounded-xl border border-slate-200 p-6 mb-6 space-y-4">
+        <div className="relative">
+          <Search className="w-5 h-5 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={queryInput}
+            onChange={(e) => setQueryInput(e.target.value)}
+            placeholder="Search courses and lessons"
+            className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          />
+        </div>
+
+        <CatalogFacet
+          label="Difficulty"
+          options={DIFFICULTY_LABELS}
+          selected={filters.difficulty}
+          onChange={difficulty => update({ difficulty })}
+        />
+        <CatalogFacet
+          label="Length"
+          options={DURATION_LABELS}
+          selected={filters.duration}
+          onChange={duration => update({ duration })}
+        />
+        <CatalogFacet
+          label="Includes"
+          options={CONTENT_TYPE_LABELS}
+          selected={filters.types}
+          onChange={types => update({ types })}
+        />
+        <CatalogFacet
+          label="Progress"
+          options={STATUS_LABELS}
+          selected={filters.status}
+          onChange={status => update({ status })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between mb-6">
+        <p className="text-sm text-slate-500">
+          {searching ? 'Searching…' : `${results.length} ${results.length === 1 ? 'course' : 'courses'}`}
+          {hasFilters && (
+            <button onClick={clearFilters} className="inline-flex items-center ml-3 text-blue-600 hover:text-blue-700">
+              <X className="w-4 h-4 mr-1" />
+              Clear filters
+            </button>
+          )}
+        </p>
+        <select
+          value={filters.sort}
+          onChange={(e) => update({ sort: e.target.value as CatalogSort })}
+          className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+        >
+          {(Object.keys(SORT_LABELS) as CatalogSort[])
+            .filter(sort => sort !== 'relevance' || filters.query.trim())
+            .map(sort => (
+              <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+            ))}
+        </select>
+      </div>
+
+      {results.length === 0 && !searching ? (
+        <div className="bg-white rounded-xl border border-slate-200 p-12 text-center text-slate-500">
+          No courses match these filters.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {results.map((course) => (
+            <CourseCard
+              key={course.id}
+              course={course}
+              progress={userProgress.filter(p => p.course_id === course.id)}
+              onClick={() => navigate(paths.course(course.id))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,45 +1,93 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase, Course, Lesson, UserProgress } from '../lib/supabase';
-import { ArrowLeft, PlayCircle, CheckCircle, Circle, Clock } from 'lucide-react';
+import { Course, Lesson, UserProgress, LearningPath, Profile, Certificate } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { refreshLearningPath } from '../lib/learningPath';
+import { paths } from '../lib/routes';
+import { getOfflineCourse, removeOfflineCourse } from '../lib/offlineStore';
+import { downloadCourse, withPendingProgress } from '../lib/offlineSync';
+import { certificateCriteria } from '../lib/certificates';
+import { CourseGating, isUnlocked, lessonRequirements, loadCourseGating } from '../lib/prerequisites';
+import {
+  ArrowLeft,
+  PlayCircle,
+  CheckCircle,
+  Circle,
+  Clock,
+  Sparkles,
+  ChevronRight,
+  Download,
+  CloudOff,
+  Lock,
+} from 'lucide-react';
 import LessonView from './LessonView';
+import RequirementList from './RequirementList';
+import CertificateCard from './CertificateCard';
 
 type Props = {
   course: Course;
+  skillLevel: Profile['skill_level'];
+  learningStyle: Profile['learning_style'];
   onBack: () => void;
   onProgressUpdate: () => void;
 };
 
-export default function CourseDetail({ course, onBack, onProgressUpdate }: Props) {
+export default function CourseDetail({ course, skillLevel, learningStyle, onBack, onProgressUpdate }: Props) {
   const { user } = useAuth();
   const [lessons, setLessons] = useState<Lesson[]>([]);
   const [userProgress, setUserProgress] = useState<UserProgress[]>([]);
-  const [selectedLesson, setSelectedLesson] = useState<Lesson | null>(null);
+  const [learningPath, setLearningPath] = useState<LearningPath | null>(null);
+  const [gating, setGating] = useState<CourseGating>({ course: [], lessons: {} });
   const [loading, setLoading] = useState(true);
+  const [downloadedAt, setDownloadedAt] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+
+  const { lessonId, questionId } = useParams<{ lessonId?: string; questionId?: string }>();
+  const navigate = useNavigate();
+  const openLessonId = useRef(lessonId);
 
   useEffect(() => {
     loadLessons();
   }, [course.id, user]);
 
+  // Closing a lesson (including with the browser back button) refreshes progress.
+  useEffect(() => {
+    if (openLessonId.current && !lessonId) {
+      loadLessons();
+      onProgressUpdate();
+    }
+    openLessonId.current = lessonId;
+  }, [lessonId]);
+
   const loadLessons = async () => {
     if (!user) return;
 
     try {
-      const [lessonsResult, progressResult] = await Promise.all([
-        supabase
-          .from('lessons')
-          .select('*')
-          .eq('course_id', course.id)
-          .order('order_index', { ascending: true }),
-        supabase
-          .from('user_progress')
-          .select('*')
-          .eq('user_id', user.id)
-          .eq('course_id', course.id),
+      const [lessonRows, progressRows, gatingRows, certificateRow] = await Promise.all([
+        db.lessons.listByCourse(course.id).catch(() => null),
+        db.progress.listByCourse(user.id, course.id).catch(() => []),
+        // Offline, lessons stay open; the server still checks the rules when progress syncs.
+        loadCourseGating(user.id, course.id).catch(() => null),
+        db.certificates.get(user.id, course.id).catch(() => null),
       ]);
+      if (gatingRows) setGating(gatingRows);
+      setCertificate(certificateRow);
+
+      const cached = await getOfflineCourse(course.id).catch(() => undefined);
+      setDownloadedAt(cached?.downloaded_at ?? null);
 
-      if (lessonsResult.data) setLessons(lessonsResult.data);
-      if (progressResult.data) setUserProgress(progressResult.data);
+      if (lessonRows) setLessons(lessonRows);
+      else if (cached) setLessons(cached.lessons);
+      if (cached && lessonRows) {
+        downloadCourse(course.id).catch(error => console.error('Error refreshing offline copy:', error));
+      }
+      setUserProgress(await withPendingProgress(progressRows, user.id, course.id));
+
+      if (lessonRows) {
+        setLearningPath(await refreshLearningPath(user.id, course.id, skillLevel));
+      }
     } catch (error) {
       console.error('Error loading lessons:', error);
     } finally {
@@ -62,21 +110,49 @@ export default function CourseDetail({ course, onBack, onProgressUpdate }: Props
     return <PlayCircle className="w-5 h-5 text-blue-600" />;
   };
 
+  const handleToggleOffline = async () => {
+    setDownloading(true);
+    try {
+      if (downloadedAt) {
+        await removeOfflineCourse(course.id);
+        setDownloadedAt(null);
+      } else {
+        await downloadCourse(course.id);
+        setDownloadedAt(new Date().toISOString());
+      }
+    } catch (error) {
+      console.error('Error updating offline copy:', error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const isLessonUnlocked = (lessonId: string) => isUnlocked(lessonRequirements(gating, lessonId));
+
   const handleLessonClick = (lesson: Lesson) => {
-    setSelectedLesson(lesson);
+    if (!isLessonUnlocked(lesson.id)) return;
+    navigate(paths.lesson(course.id, lesson.id));
   };
 
   const handleLessonClose = () => {
-    setSelectedLesson(null);
-    loadLessons();
-    onProgressUpdate();
+    navigate(paths.course(course.id));
   };
 
+  const selectedLesson =
+    lessonId && isLessonUnlocked(lessonId) ? lessons.find(l => l.id === lessonId) : undefined;
+
   if (selectedLesson) {
     return (
       <LessonView
         lesson={selectedLesson}
         course={course}
+        learningStyle={learningStyle}
+        questionId={questionId}
+        onQuestionChange={(id) =>
+          navigate(id ? paths.question(course.id, selectedLesson.id, id) : paths.lesson(course.id, selectedLesson.id), {
+            replace: true,
+          })
+        }
         onClose={handleLessonClose}
       />
     );
@@ -90,6 +166,17 @@ export default function CourseDetail({ course, onBack, onProgressUpdate }: Props
     );
   }
 
+  if (lessonId) {
+    return <Navigate to={paths.course(course.id)} replace />;
+  }
+
+  const nextUp = (learningPath?.recommended_order ?? [])
+    .map(item => ({ item, lesson: lessons.find(l => l.id === item.lesson_id) }))
+    .filter((entry): entry is { item: typeof entry.item; lesson: Lesson } => !!entry.lesson)
+    .filter(({ lesson }) => isLessonUnlocked(lesson.id))
+    .slice(0, 3);
+  const courseLocked = !isUnlocked(gating.course);
+
   const completedCount = userProgress.filter(p => p.status === 'completed').length;
   const progressPercentage = lessons.length > 0 ? Math.round((completedCount / lessons.length) * 100) : 0;
 
@@ -128,6 +215,21 @@ export default function CourseDetail({ course, onBack, onProgressUpdate }: Props
                 <p className="text-lg font-semibold text-slate-900">{progressPercentage}%</p>
               </div>
             </div>
+            <button
+              onClick={handleToggleOffline}
+              disabled={downloading}
+              title={downloadedAt ? `Downloaded ${new Date(downloadedAt).toLocaleString()}` : undefined}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition disabled:opacity-50 ${
+                downloadedAt
+                  ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                  : 'text-slate-700 border border-slate-300 hover:bg-slate-50'
+              }`}
+            >
+              {downloadedAt ? <CloudOff className="w-4 h-4" /> : <Download className="w-4 h-4" />}
+              <span>
+                {downloading ? 'Saving...' : downloadedAt ? 'Available offline' : 'Download for offline'}
+              </span>
+            </button>
           </div>
 
           <div className="w-full bg-slate-200 rounded-full h-3">
@@ -136,23 +238,81 @@ export default function CourseDetail({ course, onBack, onProgressUpdate }: Props
               style={{ width: `${progressPercentage}%` }}
             ></div>
           </div>
+
+          <div className="mt-6">
+            {certificate ? (
+              <CertificateCard certificate={certificate} />
+            ) : (
+              <p className="text-sm text-slate-500">{certificateCriteria(course)}</p>
+            )}
+          </div>
         </div>
       </div>
 
+      {courseLocked && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-6 mb-8">
+          <div className="flex items-center space-x-2 mb-3">
+            <Lock className="w-5 h-5 text-amber-700" />
+            <h2 className="text-lg font-semibold text-amber-900">This course is locked</h2>
+          </div>
+          <RequirementList requirements={gating.course} />
+        </div>
+      )}
+
+      {nextUp.length > 0 && (
+        <div className="bg-white rounded-xl border border-slate-200 p-8 mb-8">
+          <div className="flex items-center space-x-3 mb-6">
+            <div className="w-10 h-10 bg-blue-100 rounded-xl flex items-center justify-center">
+              <Sparkles className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-slate-900">Next Up for You</h2>
+              <p className="text-sm text-slate-600">{learningPath?.reason}</p>
+            </div>
+          </div>
+          <div className="space-y-3">
+            {nextUp.map(({ item, lesson }, index) => (
+              <div
+                key={item.lesson_id}
+                onClick={() => handleLessonClick(lesson)}
+                className="flex items-center justify-between p-4 border border-blue-100 bg-blue-50/40 rounded-lg hover:bg-blue-50 cursor-pointer transition group"
+              >
+                <div className="flex items-center space-x-4">
+                  <span className="w-8 h-8 rounded-full bg-blue-600 text-white text-sm font-bold flex items-center justify-center flex-shrink-0">
+                    {index + 1}
+                  </span>
+                  <div>
+                    <h3 className="font-semibold text-slate-900 group-hover:text-blue-600 transition">
+                      {lesson.title}
+                    </h3>
+                    <p className="text-sm text-slate-600 mt-0.5">{item.reason}</p>
+                  </div>
+                </div>
+                <ChevronRight className="w-5 h-5 text-slate-400 group-hover:text-blue-600 transition" />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="bg-white rounded-xl border border-slate-200 p-8">
         <h2 className="text-2xl font-bold text-slate-900 mb-6">Course Content</h2>
         <div className="space-y-3">
           {lessons.map((lesson, index) => {
             const progress = getLessonProgress(lesson.id);
+            const ownRequirements = gating.lessons[lesson.id] ?? [];
+            const locked = !isLessonUnlocked(lesson.id);
             return (
               <div
                 key={lesson.id}
                 onClick={() => handleLessonClick(lesson)}
-                className="flex items-center justify-between p-4 border border-slate-200 rounded-lg hover:bg-slate-50 cursor-pointer transition group"
+                className={`flex items-center justify-between p-4 border border-slate-200 rounded-lg transition group ${
+                  locked ? 'bg-slate-50 cursor-not-allowed' : 'hover:bg-slate-50 cursor-pointer'
+                }`}
               >
                 <div className="flex items-center space-x-4 flex-1">
                   <div className="flex-shrink-0">
-                    {getProgressIcon(lesson.id)}
+                    {locked ? <Lock className="w-5 h-5 text-slate-400" /> : getProgressIcon(lesson.id)}
                   </div>
                   <div className="flex-1">
                     <div className="flex items-center space-x-3">
@@ -168,9 +328,16 @@ export default function CourseDetail({ course, onBack, onProgressUpdate }: Props
                         {lesson.content_type}
                       </span>
                     </div>
-                    <h3 className="text-lg font-semibold text-slate-900 group-hover:text-blue-600 transition">
+                    <h3 className={`text-lg font-semibold transition ${
+                      locked ? 'text-slate-500' : 'text-slate-900 group-hover:text-blue-600'
+                    }`}>
                       {lesson.title}
                     </h3>
+                    {locked && !isUnlocked(ownRequirements) && (
+                      <div className="mt-1">
+                        <RequirementList requirements={ownRequirements} />
+                      </div>
+                    )}
                     <div className="flex items-center space-x-1 text-sm text-slate-600 mt-1">
                       <Clock className="w-4 h-4" />
                       <span>{lesson.estimated_minutes} min</span>
@@ -0,0 +1,358 @@
+import { useState, useEffect } from 'react';
+import { Course, Lesson } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import {
+  CourseDraft,
+  LessonDraft,
+  saveCourse,
+  deleteLesson,
+  reorderLessons,
+  emptyLesson,
+} from '../lib/authoring';
+import { exportCourseBundle, downloadBundle } from '../lib/courseBundle';
+import { certificateCriteria } from '../lib/certificates';
+import { ArrowLeft, ChevronUp, ChevronDown, Pencil, Trash2, Plus, Eye, Globe, EyeOff, Download } from 'lucide-react';
+import LessonEditor from './LessonEditor';
+import LessonView from './LessonView';
+import PrerequisiteEditor from './PrerequisiteEditor';
+import VariantOutcomes from './VariantOutcomes';
+
+type Props = {
+  draft: CourseDraft;
+  onBack: () => void;
+  onSaved: (course: Course) => void;
+};
+
+const inputClass =
+  'w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export default function CourseEditor({ draft: initialDraft, onBack, onSaved }: Props) {
+  const [draft, setDraft] = useState(initialDraft);
+  const [course, setCourse] = useState<Course | null>(null);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [editingLesson, setEditingLesson] = useState<LessonDraft | null>(null);
+  const [previewLesson, setPreviewLesson] = useState<Lesson | null>(null);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadCourse();
+  }, [draft.id]);
+
+  const loadCourse = async () => {
+    if (!draft.id) return;
+
+    try {
+      const [found, lessonRows] = await Promise.all([
+        db.courses.get(draft.id),
+        db.lessons.listByCourse(draft.id),
+      ]);
+
+      if (found) setCourse(found);
+      setLessons(lessonRows);
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  const update = (changes: Partial<CourseDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const persist = async (next: CourseDraft) => {
+    setError('');
+    if (!next.title.trim()) {
+      setError('Enter a course title.');
+      return;
+    }
+    const passing = next.certificate_passing_score;
+    if (passing != null && !(passing >= 0 && passing <= 1)) {
+      setError('The certificate passing score must be between 0 and 100%.');
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await saveCourse(next);
+    setSaving(false);
+
+    if (error) {
+      setError(error.message);
+    } else if (data) {
+      setDraft({ ...next, id: data.id });
+      setCourse(data);
+      onSaved(data);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!draft.id) return;
+    try {
+      downloadBundle(await exportCourseBundle(draft.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleTogglePublish = () => {
+    const next = { ...draft, is_published: !draft.is_published };
+    setDraft(next);
+    if (draft.id) persist(next);
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= lessons.length) return;
+
+    const reordered = [...lessons];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setLessons(reordered.map((lesson, i) => ({ ...lesson, order_index: i })));
+
+    const { error } = await reorderLessons(reordered.map(l => l.id));
+    if (error) {
+      setError(error.message);
+      loadCourse();
+    }
+  };
+
+  const handleDeleteLesson = async (lesson: Lesson) => {
+    if (!confirm(`Delete "${lesson.title}" and its questions?`)) return;
+
+    const { error } = await deleteLesson(lesson.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+
+    const remaining = lessons.filter(l => l.id !== lesson.id);
+    setLessons(remaining);
+    await reorderLessons(remaining.map(l => l.id));
+  };
+
+  if (editingLesson && course) {
+    return (
+      <LessonEditor
+        course={course}
+        draft={editingLesson}
+        onBack={() => { setEditingLesson(null); loadCourse(); }}
+        onSaved={() => loadCourse()}
+      />
+    );
+  }
+
+  return (
+    <div>
+      {previewLesson && course && (
+        <LessonView
+          lesson={previewLesson}
+          course={course}
+          preview
+          onClose={() => setPreviewLesson(null)}
+        />
+      )}
+
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 mb-6 transition"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        <span>Back to Authoring</span>
+      </button>
+
+      <div className="bg-white rounded-xl border border-slate-200 p-8 mb-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-slate-900">
+            {draft.id ? 'Edit Course' : 'New Course'}
+          </h2>
+          <div className="flex items-center space-x-2">
+            {draft.id && (
+              <button
+                onClick={handleExport}
+                className="flex items-center space-x-2 px-4 py-2 text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition"
+              >
+                <Download className="w-4 h-4" />
+                <span>Export</span>
+              </button>
+            )}
+            <button
+              onClick={handleTogglePublish}
+              disabled={saving}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition ${
+                draft.is_published
+                  ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                  : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+              }`}
+            >
+              {draft.is_published ? <Globe className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+              <span>{draft.is_published ? 'Published' : 'Draft'}</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Title</label>
+            <input
+              value={draft.title}
+              onChange={(e) => update({ title: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Description</label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => update({ description: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Difficulty</label>
+              <select
+                value={draft.difficulty_level}
+                onChange={(e) => update({ difficulty_level: e.target.value as Course['difficulty_level'] })}
+                className={inputClass}
+              >
+                <option value="beginner">Beginner</option>
+                <option value="intermediate">Intermediate</option>
+                <option value="advanced">Advanced</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Estimated Hours</label>
+              <input
+                type="number"
+                min={0}
+                value={draft.estimated_hours}
+                onChange={(e) => update({ estimated_hours: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Thumbnail URL</label>
+              <input
+                value={draft.thumbnail_url}
+                onChange={(e) => update({ thumbnail_url: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Certificate Passing Score (%)</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              placeholder="None"
+              value={draft.certificate_passing_score == null ? '' : Math.round(draft.certificate_passing_score * 100)}
+              onChange={(e) =>
+                update({ certificate_passing_score: e.target.value === '' ? null : Number(e.target.value) / 100 })
+              }
+              className={inputClass}
+            />
+            <p className="text-xs text-slate-500 mt-1">{certificateCriteria(draft)}</p>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => persist(draft)}
+              disabled={saving}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Course'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {course && <PrerequisiteEditor course={course} />}
+
+      {course && (
+        <div className="bg-white rounded-xl border border-slate-200 p-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-slate-900">Lessons</h2>
+            <button
+              onClick={() => setEditingLesson(emptyLesson(course.id, lessons.length))}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Lesson</span>
+            </button>
+          </div>
+
+          <div className="space-y-3">
+            {lessons.map((lesson, index) => (
+              <div
+                key={lesson.id}
+                className="flex items-center justify-between p-4 border border-slate-200 rounded-lg"
+              >
+                <div className="flex items-center space-x-4">
+                  <div className="flex flex-col">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move up"
+                      className="text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === lessons.length - 1}
+                      aria-label="Move down"
+                      className="text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div>
+                    <div className="flex items-center space-x-3">
+                      <span className="text-sm font-medium text-slate-500">Lesson {index + 1}</span>
+                      <span className="px-2 py-1 rounded text-xs font-medium bg-slate-100 text-slate-700">
+                        {lesson.content_type}
+                      </span>
+                    </div>
+                    <h3 className="font-semibold text-slate-900">{lesson.title}</h3>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => setPreviewLesson(lesson)}
+                    aria-label="Preview"
+                    className="p-2 text-slate-400 hover:text-blue-600 transition"
+                  >
+                    <Eye className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setEditingLesson(lesson)}
+                    aria-label="Edit"
+                    className="p-2 text-slate-400 hover:text-blue-600 transition"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteLesson(lesson)}
+                    aria-label="Delete"
+                    className="p-2 text-slate-400 hover:text-red-600 transition"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            {lessons.length === 0 && (
+              <p className="text-center py-8 text-slate-500">No lessons yet. Add the first one.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {course && <VariantOutcomes courseId={course.id} lessons={lessons} />}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import {
+  CourseBundle,
+  ConflictStrategy,
+  ImportReport,
+  validateBundle,
+  importCourseBundle,
+} from '../lib/courseBundle';
+import { X, Upload, AlertTriangle, CheckCircle, FileJson } from 'lucide-react';
+
+type Props = {
+  onClose: () => void;
+  onImported: (courseId: string) => void;
+};
+
+export default function CourseImportDialog({ onClose, onImported }: Props) {
+  const [bundle, setBundle] = useState<CourseBundle | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [strategy, setStrategy] = useState<ConflictStrategy>('abort');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const runDryRun = async (next: CourseBundle, nextStrategy: ConflictStrategy) => {
+    setWorking(true);
+    try {
+      setReport(await importCourseBundle(next, { dryRun: true, strategy: nextStrategy }));
+    } catch (error) {
+      setErrors([(error as Error).message]);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setErrors([]);
+    setBundle(null);
+    setReport(null);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setErrors(['File is not valid JSON.']);
+      return;
+    }
+
+    const result = validateBundle(parsed);
+    setErrors(result.errors);
+    if (result.bundle) {
+      setBundle(result.bundle);
+      runDryRun(result.bundle, strategy);
+    }
+  };
+
+  const handleStrategyChange = (next: ConflictStrategy) => {
+    setStrategy(next);
+    if (bundle) runDryRun(bundle, next);
+  };
+
+  const handleImport = async () => {
+    if (!bundle) return;
+    setWorking(true);
+    try {
+      const result = await importCourseBundle(bundle, { dryRun: false, strategy });
+      setReport(result);
+      if (result.courseId) onImported(result.courseId);
+    } catch (error) {
+      setErrors([(error as Error).message]);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const imported = report && !report.dryRun && report.courseId;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">Import Course Bundle</h2>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex items-center justify-center rounded-lg hover:bg-slate-100 transition"
+          >
+            <X className="w-6 h-6 text-slate-600" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-6">
+          <label className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-slate-300 rounded-xl cursor-pointer hover:border-blue-400 hover:bg-blue-50/40 transition">
+            {fileName ? <FileJson className="w-10 h-10 text-blue-600 mb-3" /> : <Upload className="w-10 h-10 text-slate-400 mb-3" />}
+            <span className="font-medium text-slate-900">{fileName || 'Choose a .course.json file'}</span>
+            <span className="text-sm text-slate-500 mt-1">Nothing is written until you confirm the import</span>
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            />
+          </label>
+
+          {errors.length > 0 && (
+            <div className="p-4 rounded-lg bg-red-50 border border-red-200">
+              <p className="font-semibold text-red-900 mb-2">This bundle can't be imported</p>
+              <ul className="list-disc list-inside text-sm text-red-800 space-y-1">
+                {errors.map((error, index) => <li key={index}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {report && (
+            <div className="p-6 rounded-xl border border-slate-200 space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-slate-500 uppercase tracking-wide">
+                  {report.dryRun ? 'Dry run' : 'Import result'}
+                </p>
+                {imported && (
+                  <span className="flex items-center space-x-1 text-sm font-medium text-green-700">
+                    <CheckCircle className="w-4 h-4" />
+                    <span>Imported as draft</span>
+                  </span>
+                )}
+              </div>
+              <h3 className="text-xl font-semibold text-slate-900">{report.courseTitle}</h3>
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="p-3 bg-slate-50 rounded-lg">
+                  <p className="text-2xl font-bold text-slate-900">{report.lessonCount}</p>
+                  <p className="text-xs text-slate-600">Lessons</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg">
+                  <p className="text-2xl font-bold text-slate-900">{report.assessmentCount}</p>
+                  <p className="text-xs text-slate-600">Questions</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg">
+                  <p className="text-2xl font-bold text-slate-900">{report.mediaCount}</p>
+                  <p className="text-xs text-slate-600">Media references</p>
+                </div>
+              </div>
+
+              {report.conflicts.length > 0 && (
+                <div className="p-4 rounded-lg bg-orange-50 border border-orange-200">
+                  <div className="flex items-center space-x-2 font-semibold text-orange-900 mb-2">
+                    <AlertTriangle className="w-4 h-4" />
+                    <span>Conflicts</span>
+                  </div>
+                  <ul className="text-sm text-orange-800 space-y-1 mb-4">
+                    {report.conflicts.map((conflict, index) => <li key={index}>{conflict}</li>)}
+                  </ul>
+                  <select
+                    value={strategy}
+                    onChange={(e) => handleStrategyChange(e.target.value as ConflictStrategy)}
+                    disabled={!!imported}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none bg-white"
+                  >
+                    <option value="abort">Don't import</option>
+                    <option value="rename">Import as a copy with a new title</option>
+                    <option value="replace">Replace the existing course (deletes its progress)</option>
+                  </select>
+                </div>
+              )}
+
+              {report.warnings.length > 0 && (
+                <ul className="text-sm text-slate-600 list-disc list-inside space-y-1">
+                  {report.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+            >
+              {imported ? 'Done' : 'Cancel'}
+            </button>
+            {!imported && (
+              <button
+                onClick={handleImport}
+                disabled={!report || report.action === 'blocked' || working}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {working ? 'Working...' : 'Import Course'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
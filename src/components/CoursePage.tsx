@@ -0,0 +1,81 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Course, Profile } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { getOfflineCourse } from '../lib/offlineStore';
+import { paths } from '../lib/routes';
+import CourseDetail from './CourseDetail';
+
+type Props = {
+  courses: Course[];
+  skillLevel: Profile['skill_level'];
+  learningStyle: Profile['learning_style'];
+  onProgressUpdate: () => void;
+};
+
+/**
+ * Resolves the course in the URL. Deep links can point at courses outside the
+ * catalog list (drafts for authors, or courses only available offline), so a
+ * miss falls back to a direct lookup.
+ */
+export default function CoursePage({ courses, skillLevel, learningStyle, onProgressUpdate }: Props) {
+  const { courseId } = useParams<{ courseId: string }>();
+  const navigate = useNavigate();
+  const listed = courses.find(c => c.id === courseId) ?? null;
+  const [course, setCourse] = useState<Course | null>(listed);
+  const [loading, setLoading] = useState(!listed);
+
+  useEffect(() => {
+    if (listed) {
+      setCourse(listed);
+      setLoading(false);
+    } else {
+      loadCourse();
+    }
+  }, [courseId, listed]);
+
+  const loadCourse = async () => {
+    if (!courseId) return;
+    setLoading(true);
+
+    try {
+      const found = await db.courses.get(courseId).catch(() => null);
+      const cached = found ? undefined : await getOfflineCourse(courseId).catch(() => undefined);
+      setCourse(found ?? cached?.course ?? null);
+    } catch (error) {
+      console.error('Error loading course:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!course) {
+    return (
+      <div className="text-center py-20">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Course not found</h2>
+        <p className="text-slate-600 mb-6">It may have been unpublished, or the link is incorrect.</p>
+        <Link to={paths.courses} className="text-blue-600 font-medium hover:text-blue-700">
+          Back to Courses
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <CourseDetail
+      course={course}
+      skillLevel={skillLevel}
+      learningStyle={learningStyle}
+      onBack={() => navigate(paths.courses)}
+      onProgressUpdate={onProgressUpdate}
+    />
+  );
+}
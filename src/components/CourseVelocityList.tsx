@@ -0,0 +1,55 @@
+import { Course } from '../lib/supabase';
+import { CourseVelocity } from '../lib/activity';
+
+type Props = {
+  velocity: CourseVelocity[];
+  courses: Course[];
+};
+
+export default function CourseVelocityList({ velocity, courses }: Props) {
+  const fastest = Math.max(...velocity.map(v => v.perWeek), 0);
+
+  return (
+    <div>
+      <h3 className="font-semibold text-slate-900 mb-3">Course Velocity</h3>
+      {velocity.length === 0 ? (
+        <p className="text-sm text-slate-500">No lessons completed in this range.</p>
+      ) : (
+        <div className="space-y-4">
+          {velocity.map(v => {
+            const title = courses.find(c => c.id === v.courseId)?.title ?? 'Removed course';
+            const busiestWeek = Math.max(...v.weekly, 1);
+            return (
+              <div key={v.courseId}>
+                <div className="flex items-baseline justify-between mb-1">
+                  <span className="text-sm font-medium text-slate-900 truncate mr-4">{title}</span>
+                  <span className="text-sm text-slate-500 whitespace-nowrap">
+                    {v.perWeek.toFixed(1)} lessons/week · {v.lessonsCompleted} total
+                  </span>
+                </div>
+                <div className="w-full bg-slate-100 rounded-full h-2 mb-1">
+                  <div
+                    className="bg-purple-500 h-2 rounded-full"
+                    style={{ width: `${fastest > 0 ? (v.perWeek / fastest) * 100 : 0}%` }}
+                  ></div>
+                </div>
+                {v.weekly.length > 1 && (
+                  <div className="flex items-end gap-px h-6" aria-label="Lessons completed each week">
+                    {v.weekly.map((count, i) => (
+                      <div
+                        key={i}
+                        title={`Week ${i + 1}: ${count} ${count === 1 ? 'lesson' : 'lessons'}`}
+                        className={`flex-1 rounded-sm ${count > 0 ? 'bg-purple-300' : 'bg-slate-100'}`}
+                        style={{ height: `${Math.max((count / busiestWeek) * 100, 8)}%` }}
+                      ></div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { DaySummary } from '../lib/activity';
+
+type Props = {
+  days: DaySummary[];
+};
+
+const WIDTH = 700;
+const HEIGHT = 160;
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC', month: 'short', day: 'numeric' });
+
+export default function DailyMinutesChart({ days }: Props) {
+  const max = Math.max(...days.map(d => d.minutes), 0);
+  const total = days.reduce((sum, d) => sum + d.minutes, 0);
+  const active = days.filter(d => d.minutes > 0).length;
+  const slot = WIDTH / Math.max(days.length, 1);
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="font-semibold text-slate-900">Daily Minutes</h3>
+        <span className="text-sm text-slate-500">
+          {total} min total · {active > 0 ? Math.round(total / active) : 0} min per active day
+        </span>
+      </div>
+      {max === 0 ? (
+        <p className="text-sm text-slate-500 py-12 text-center">No learning time in this range.</p>
+      ) : (
+        <>
+          <div className="flex">
+            <div className="flex flex-col justify-between text-xs text-slate-400 pr-2 text-right">
+              <span>{max}</span>
+              <span>0</span>
+            </div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Minutes per day">
+              <line x1="0" y1={HEIGHT} x2={WIDTH} y2={HEIGHT} className="stroke-slate-200" />
+              {days.map((d, i) => {
+                const height = (d.minutes / max) * HEIGHT;
+                return (
+                  <rect
+                    key={d.day}
+                    x={i * slot + slot * 0.1}
+                    y={HEIGHT - height}
+                    width={slot * 0.8}
+                    height={height}
+                    rx={Math.min(3, slot * 0.2)}
+                    className="fill-blue-500 hover:fill-blue-600"
+                  >
+                    <title>{`${formatDay(d.day)}: ${d.minutes} min`}</title>
+                  </rect>
+                );
+              })}
+            </svg>
+          </div>
+          <div className="flex justify-between text-xs text-slate-400 mt-1 pl-6">
+            <span>{formatDay(days[0].day)}</span>
+            <span>{formatDay(days[days.length - 1].day)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
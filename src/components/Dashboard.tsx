@@ -1,39 +1,96 @@
 import { useState, useEffect } from 'react';
+import { Routes, Route, Navigate, NavLink, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase, Course, UserProgress, Profile } from '../lib/supabase';
-import { LogOut, BookOpen, Award, Clock, TrendingUp, User } from 'lucide-react';
-import CourseCard from './CourseCard';
-import CourseDetail from './CourseDetail';
+import {
+  Course,
+  UserProgress,
+  Profile,
+  LearningPath,
+  SkillLevelCalibration,
+  XpEvent,
+  LearningStreak,
+  AppNotification,
+} from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { LogOut, BookOpen, Award, Clock, TrendingUp, User, Sparkles, ChevronRight } from 'lucide-react';
+import CourseCatalog from './CourseCatalog';
+import CoursePage from './CoursePage';
 import ProgressDashboard from './ProgressDashboard';
-
-type View = 'courses' | 'course-detail' | 'progress' | 'profile';
+import ReviewQueue from './ReviewQueue';
+import AuthoringConsole from './AuthoringConsole';
+import SyncStatus from './SyncStatus';
+import SkillLevelNotice from './SkillLevelNotice';
+import CalibrationHistory from './CalibrationHistory';
+import EngagementSummary from './EngagementSummary';
+import AchievementList from './AchievementList';
+import NotificationCenter from './NotificationCenter';
+import ReminderSettings from './ReminderSettings';
+import LearningRecordSettings from './LearningRecordSettings';
+import { syncReviewStates } from '../lib/spacedRepetition';
+import { listOfflineCourses } from '../lib/offlineStore';
+import { startOfflineSync } from '../lib/offlineSync';
+import { startGoalReminders } from '../lib/goalReminders';
+import { startStatementSync } from '../lib/xapiSync';
+import { paths } from '../lib/routes';
+import { learningMinutes } from '../lib/progress';
+import { calibrateSkillLevel, acceptCalibration, dismissCalibration, changeSkillLevel } from '../lib/skillCalibration';
 
 export default function Dashboard() {
   const { user, signOut } = useAuth();
   const [courses, setCourses] = useState<Course[]>([]);
   const [userProgress, setUserProgress] = useState<UserProgress[]>([]);
   const [profile, setProfile] = useState<Profile | null>(null);
-  const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
-  const [currentView, setCurrentView] = useState<View>('courses');
+  const [learningPaths, setLearningPaths] = useState<LearningPath[]>([]);
+  const [reviewsDue, setReviewsDue] = useState(0);
+  const [calibration, setCalibration] = useState<SkillLevelCalibration | null>(null);
+  const [xpEvents, setXpEvents] = useState<XpEvent[]>([]);
+  const [streak, setStreak] = useState<LearningStreak | null>(null);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
   const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
 
   useEffect(() => {
     loadData();
+    loadReviewCount();
   }, [user]);
 
+  useEffect(() => startOfflineSync(), []);
+
+  useEffect(() => {
+    if (!profile) return;
+    return startGoalReminders(profile, created => setNotifications(prev => [...created, ...prev]));
+  }, [profile?.id, profile?.time_zone, profile?.week_starts_on, profile?.reminder_hour, profile?.browser_reminders]);
+
+  useEffect(() => {
+    if (!profile) return;
+    return startStatementSync(profile);
+  }, [profile?.id, profile?.full_name]);
+
   const loadData = async () => {
     if (!user) return;
 
     try {
-      const [coursesResult, progressResult, profileResult] = await Promise.all([
-        supabase.from('courses').select('*').eq('is_published', true).order('created_at', { ascending: false }),
-        supabase.from('user_progress').select('*').eq('user_id', user.id),
-        supabase.from('profiles').select('*').eq('id', user.id).maybeSingle(),
+      const [courseList, progressRows, profileRow, paths, xpRows, streakRow, notificationRows] = await Promise.all([
+        db.courses.listPublished().catch(async () => {
+          const downloaded = await listOfflineCourses().catch(() => []);
+          return downloaded.map(entry => entry.course);
+        }),
+        db.progress.listByUser(user.id).catch(() => null),
+        db.profiles.get(user.id).catch(() => null),
+        db.learningPaths.listByUser(user.id).catch(() => null),
+        db.engagement.listXp(user.id).catch(() => null),
+        db.engagement.getStreak(user.id).catch(() => undefined),
+        db.notifications.listByUser(user.id).catch(() => null),
       ]);
 
-      if (coursesResult.data) setCourses(coursesResult.data);
-      if (progressResult.data) setUserProgress(progressResult.data);
-      if (profileResult.data) setProfile(profileResult.data);
+      setCourses(courseList);
+      if (progressRows) setUserProgress(progressRows);
+      if (profileRow) setProfile(profileRow);
+      if (paths) setLearningPaths(paths);
+      if (xpRows) setXpEvents(xpRows);
+      if (streakRow !== undefined) setStreak(streakRow);
+      if (notificationRows) setNotifications(notificationRows);
+      if (profileRow) loadCalibration(profileRow);
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -41,9 +98,32 @@ export default function Dashboard() {
     }
   };
 
+  const loadReviewCount = async () => {
+    if (!user) return;
+
+    try {
+      await syncReviewStates(user.id);
+      setReviewsDue(await db.reviewStates.countDue(user.id, new Date().toISOString()));
+    } catch (error) {
+      console.error('Error loading review count:', error);
+    }
+  };
+
+  const loadCalibration = async (current: Profile) => {
+    try {
+      const result = await calibrateSkillLevel(current);
+      setCalibration(result);
+      if (result?.status === 'applied') {
+        setProfile(prev => prev ? { ...prev, skill_level: result.to_level } : null);
+      }
+    } catch (error) {
+      console.error('Error calibrating skill level:', error);
+    }
+  };
+
   const calculateStats = () => {
     const completedLessons = userProgress.filter(p => p.status === 'completed').length;
-    const totalTime = userProgress.reduce((sum, p) => sum + p.time_spent_minutes, 0);
+    const totalTime = learningMinutes(userProgress);
     const inProgressCourses = new Set(
       userProgress.filter(p => p.status === 'in_progress').map(p => p.course_id)
     ).size;
@@ -52,30 +132,87 @@ export default function Dashboard() {
   };
 
   const stats = calculateStats();
+  const canAuthor = profile?.role === 'author' || profile?.role === 'admin';
 
-  const handleCourseClick = (course: Course) => {
-    setSelectedCourse(course);
-    setCurrentView('course-detail');
-  };
+  const nextUp = learningPaths
+    .map(path => ({
+      path,
+      course: courses.find(c => c.id === path.course_id),
+      item: path.recommended_order[0],
+    }))
+    .filter(entry => entry.course && entry.item)
+    .slice(0, 3);
 
-  const handleBackToCourses = () => {
-    setSelectedCourse(null);
-    setCurrentView('courses');
-  };
+  const navClass = ({ isActive }: { isActive: boolean }) =>
+    `px-4 py-2 rounded-lg font-medium transition ${
+      isActive ? 'bg-blue-50 text-blue-600' : 'text-slate-600 hover:bg-slate-100'
+    }`;
 
   const updateProfile = async (updates: Partial<Profile>) => {
     if (!user) return;
 
-    const { error } = await supabase
-      .from('profiles')
-      .update(updates)
-      .eq('id', user.id);
-
-    if (!error) {
+    try {
+      await db.profiles.update(user.id, updates);
       setProfile(prev => prev ? { ...prev, ...updates } : null);
+    } catch (error) {
+      console.error('Error updating profile:', error);
+    }
+  };
+
+  const handleReadNotifications = async (ids: string[]) => {
+    try {
+      await db.notifications.markRead(ids);
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(n => (ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n)));
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const handleAcceptCalibration = async () => {
+    if (!calibration) return;
+
+    try {
+      await acceptCalibration(calibration);
+      setProfile(prev => prev ? { ...prev, skill_level: calibration.to_level } : null);
+      setCalibration(null);
+    } catch (error) {
+      console.error('Error changing skill level:', error);
+    }
+  };
+
+  const handleDismissCalibration = async () => {
+    if (!calibration) return;
+
+    try {
+      if (calibration.status === 'pending') await dismissCalibration(calibration);
+      setCalibration(null);
+    } catch (error) {
+      console.error('Error dismissing skill level suggestion:', error);
+    }
+  };
+
+  const handleSkillLevelChange = async (level: Profile['skill_level']) => {
+    if (!profile) return;
+
+    try {
+      await changeSkillLevel(profile, level);
+      setProfile({ ...profile, skill_level: level });
+      setCalibration(null);
+    } catch (error) {
+      console.error('Error changing skill level:', error);
     }
   };
 
+  const coursePage = (
+    <CoursePage
+      courses={courses}
+      skillLevel={profile?.skill_level ?? 'beginner'}
+      learningStyle={profile?.learning_style ?? 'visual'}
+      onProgressUpdate={() => { loadData(); loadReviewCount(); }}
+    />
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center">
@@ -97,36 +234,33 @@ export default function Dashboard() {
             </div>
 
             <div className="flex items-center space-x-4">
-              <button
-                onClick={() => setCurrentView('courses')}
-                className={`px-4 py-2 rounded-lg font-medium transition ${
-                  currentView === 'courses' || currentView === 'course-detail'
-                    ? 'bg-blue-50 text-blue-600'
-                    : 'text-slate-600 hover:bg-slate-100'
-                }`}
-              >
+              <SyncStatus />
+              <NotificationCenter notifications={notifications} onRead={handleReadNotifications} />
+              <NavLink to={paths.courses} className={navClass}>
                 Courses
-              </button>
-              <button
-                onClick={() => setCurrentView('progress')}
-                className={`px-4 py-2 rounded-lg font-medium transition ${
-                  currentView === 'progress'
-                    ? 'bg-blue-50 text-blue-600'
-                    : 'text-slate-600 hover:bg-slate-100'
-                }`}
-              >
+              </NavLink>
+              <NavLink to={paths.progress} className={navClass}>
                 Progress
-              </button>
-              <button
-                onClick={() => setCurrentView('profile')}
-                className={`px-4 py-2 rounded-lg font-medium transition ${
-                  currentView === 'profile'
-                    ? 'bg-blue-50 text-blue-600'
-                    : 'text-slate-600 hover:bg-slate-100'
-                }`}
+              </NavLink>
+              <NavLink
+                to={paths.reviews}
+                className={(state) => `flex items-center space-x-2 ${navClass(state)}`}
               >
+                <span>Reviews</span>
+                {reviewsDue > 0 && (
+                  <span className="min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-orange-500 text-white text-xs font-semibold text-center">
+                    {reviewsDue}
+                  </span>
+                )}
+              </NavLink>
+              {canAuthor && (
+                <NavLink to={paths.author} className={navClass}>
+                  Author
+                </NavLink>
+              )}
+              <NavLink to={paths.profile} className={navClass}>
                 Profile
-              </button>
+              </NavLink>
               <button
                 onClick={signOut}
                 className="flex items-center space-x-2 px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
@@ -140,145 +274,207 @@ export default function Dashboard() {
       </nav>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {currentView === 'courses' && (
-          <>
-            <div className="mb-8">
-              <h1 className="text-3xl font-bold text-slate-900 mb-2">
-                Welcome back, {profile?.full_name || 'Learner'}!
-              </h1>
-              <p className="text-slate-600">Continue your learning journey</p>
-            </div>
+        <Routes>
+          <Route index element={<Navigate to={paths.courses} replace />} />
+          <Route
+            path="courses"
+            element={
+              <>
+                <div className="mb-8">
+                  <h1 className="text-3xl font-bold text-slate-900 mb-2">
+                    Welcome back, {profile?.full_name || 'Learner'}!
+                  </h1>
+                  <p className="text-slate-600">Continue your learning journey</p>
+                </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-              <div className="bg-white rounded-xl p-6 border border-slate-200">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-slate-600 text-sm font-medium">Completed Lessons</p>
-                    <p className="text-3xl font-bold text-slate-900 mt-2">{stats.completedLessons}</p>
-                  </div>
-                  <div className="w-12 h-12 bg-green-100 rounded-xl flex items-center justify-center">
-                    <Award className="w-6 h-6 text-green-600" />
+                {calibration && (
+                  <SkillLevelNotice
+                    calibration={calibration}
+                    onAccept={handleAcceptCalibration}
+                    onDismiss={handleDismissCalibration}
+                  />
+                )}
+
+                <EngagementSummary xpEvents={xpEvents} streak={streak} timeZone={profile?.time_zone || 'UTC'} />
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+                  <div className="bg-white rounded-xl p-6 border border-slate-200">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-slate-600 text-sm font-medium">Completed Lessons</p>
+                        <p className="text-3xl font-bold text-slate-900 mt-2">{stats.completedLessons}</p>
+                      </div>
+                      <div className="w-12 h-12 bg-green-100 rounded-xl flex items-center justify-center">
+                        <Award className="w-6 h-6 text-green-600" />
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
 
-              <div className="bg-white rounded-xl p-6 border border-slate-200">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-slate-600 text-sm font-medium">Learning Time</p>
-                    <p className="text-3xl font-bold text-slate-900 mt-2">{stats.totalTime}m</p>
+                  <div className="bg-white rounded-xl p-6 border border-slate-200">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-slate-600 text-sm font-medium">Learning Time</p>
+                        <p className="text-3xl font-bold text-slate-900 mt-2">{stats.totalTime}m</p>
+                      </div>
+                      <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
+                        <Clock className="w-6 h-6 text-blue-600" />
+                      </div>
+                    </div>
                   </div>
-                  <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
-                    <Clock className="w-6 h-6 text-blue-600" />
+
+                  <div className="bg-white rounded-xl p-6 border border-slate-200">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-slate-600 text-sm font-medium">Active Courses</p>
+                        <p className="text-3xl font-bold text-slate-900 mt-2">{stats.inProgressCourses}</p>
+                      </div>
+                      <div className="w-12 h-12 bg-orange-100 rounded-xl flex items-center justify-center">
+                        <TrendingUp className="w-6 h-6 text-orange-600" />
+                      </div>
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              <div className="bg-white rounded-xl p-6 border border-slate-200">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-slate-600 text-sm font-medium">Active Courses</p>
-                    <p className="text-3xl font-bold text-slate-900 mt-2">{stats.inProgressCourses}</p>
+                {nextUp.length > 0 && (
+                  <div className="mb-8">
+                    <div className="flex items-center space-x-2 mb-6">
+                      <Sparkles className="w-6 h-6 text-blue-600" />
+                      <h2 className="text-2xl font-bold text-slate-900">Next Up for You</h2>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                      {nextUp.map(({ path, course, item }) => (
+                        <div
+                          key={path.id}
+                          onClick={() => course && navigate(paths.lesson(course.id, item.lesson_id))}
+                          className="bg-white rounded-xl p-6 border border-slate-200 cursor-pointer hover:border-blue-300 hover:shadow-md transition group"
+                        >
+                          <p className="text-xs font-medium text-blue-600 uppercase tracking-wide mb-2">
+                            {course?.title}
+                          </p>
+                          <h3 className="text-lg font-semibold text-slate-900 group-hover:text-blue-600 transition mb-2">
+                            {item.lesson_title}
+                          </h3>
+                          <p className="text-sm text-slate-600 mb-4">{item.reason}</p>
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-slate-500">{path.reason}</span>
+                            <ChevronRight className="w-4 h-4 text-slate-400 group-hover:text-blue-600 transition" />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
                   </div>
-                  <div className="w-12 h-12 bg-orange-100 rounded-xl flex items-center justify-center">
-                    <TrendingUp className="w-6 h-6 text-orange-600" />
-                  </div>
-                </div>
-              </div>
-            </div>
+                )}
 
-            <div>
-              <h2 className="text-2xl font-bold text-slate-900 mb-6">Available Courses</h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {courses.map((course) => (
-                  <CourseCard
-                    key={course.id}
-                    course={course}
-                    progress={userProgress.filter(p => p.course_id === course.id)}
-                    onClick={() => handleCourseClick(course)}
-                  />
-                ))}
-              </div>
-            </div>
-          </>
-        )}
-
-        {currentView === 'course-detail' && selectedCourse && (
-          <CourseDetail
-            course={selectedCourse}
-            onBack={handleBackToCourses}
-            onProgressUpdate={loadData}
+                <CourseCatalog courses={courses} userProgress={userProgress} />
+              </>
+            }
           />
-        )}
-
-        {currentView === 'progress' && (
-          <ProgressDashboard
-            userProgress={userProgress}
-            courses={courses}
-            profile={profile}
+          <Route path="courses/:courseId" element={coursePage} />
+          <Route path="courses/:courseId/lessons/:lessonId" element={coursePage} />
+          <Route path="courses/:courseId/lessons/:lessonId/questions/:questionId" element={coursePage} />
+          <Route
+            path="progress"
+            element={
+              <ProgressDashboard
+                userProgress={userProgress}
+                courses={courses}
+                profile={profile}
+              />
+            }
           />
-        )}
-
-        {currentView === 'profile' && profile && (
-          <div className="max-w-2xl mx-auto">
-            <div className="bg-white rounded-xl p-8 border border-slate-200">
-              <div className="flex items-center space-x-4 mb-8">
-                <div className="w-20 h-20 bg-blue-100 rounded-full flex items-center justify-center">
-                  <User className="w-10 h-10 text-blue-600" />
-                </div>
-                <div>
-                  <h2 className="text-2xl font-bold text-slate-900">{profile.full_name}</h2>
-                  <p className="text-slate-600">{profile.email}</p>
-                </div>
-              </div>
+          <Route
+            path="reviews"
+            element={<ReviewQueue onReviewed={() => { loadData(); loadReviewCount(); }} />}
+          />
+          <Route
+            path="author"
+            element={canAuthor ? <AuthoringConsole onCoursesChanged={loadData} /> : <Navigate to={paths.courses} replace />}
+          />
+          <Route
+            path="profile"
+            element={profile && (
+              <div className="max-w-2xl mx-auto">
+                <div className="bg-white rounded-xl p-8 border border-slate-200">
+                  <div className="flex items-center space-x-4 mb-8">
+                    <div className="w-20 h-20 bg-blue-100 rounded-full flex items-center justify-center">
+                      <User className="w-10 h-10 text-blue-600" />
+                    </div>
+                    <div>
+                      <h2 className="text-2xl font-bold text-slate-900">{profile.full_name}</h2>
+                      <p className="text-slate-600">{profile.email}</p>
+                    </div>
+                  </div>
 
-              <div className="space-y-6">
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-2">
-                    Full Name
-                  </label>
-                  <input
-                    type="text"
-                    value={profile.full_name}
-                    onChange={(e) => updateProfile({ full_name: e.target.value })}
-                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-                  />
-                </div>
+                  <div className="space-y-6">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-2">
+                        Full Name
+                      </label>
+                      <input
+                        type="text"
+                        value={profile.full_name}
+                        onChange={(e) => updateProfile({ full_name: e.target.value })}
+                        className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                      />
+                    </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-2">
-                    Learning Style
-                  </label>
-                  <select
-                    value={profile.learning_style}
-                    onChange={(e) => updateProfile({ learning_style: e.target.value as any })}
-                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-                  >
-                    <option value="visual">Visual</option>
-                    <option value="auditory">Auditory</option>
-                    <option value="kinesthetic">Kinesthetic</option>
-                    <option value="reading">Reading/Writing</option>
-                  </select>
-                </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-2">
+                        Learning Style
+                      </label>
+                      <select
+                        value={profile.learning_style}
+                        onChange={(e) => updateProfile({ learning_style: e.target.value as any })}
+                        className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                      >
+                        <option value="visual">Visual</option>
+                        <option value="auditory">Auditory</option>
+                        <option value="kinesthetic">Kinesthetic</option>
+                        <option value="reading">Reading/Writing</option>
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-2">
+                        Skill Level
+                      </label>
+                      <select
+                        value={profile.skill_level}
+                        onChange={(e) => handleSkillLevelChange(e.target.value as Profile['skill_level'])}
+                        className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                      >
+                        <option value="beginner">Beginner</option>
+                        <option value="intermediate">Intermediate</option>
+                        <option value="advanced">Advanced</option>
+                      </select>
+                      <label className="flex items-center space-x-2 mt-3 text-sm text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={profile.skill_level_mode === 'auto'}
+                          onChange={(e) => updateProfile({ skill_level_mode: e.target.checked ? 'auto' : 'suggest' })}
+                        />
+                        <span>Adjust my level automatically from my results instead of asking first</span>
+                      </label>
+                    </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-2">
-                    Skill Level
-                  </label>
-                  <select
-                    value={profile.skill_level}
-                    onChange={(e) => updateProfile({ skill_level: e.target.value as any })}
-                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-                  >
-                    <option value="beginner">Beginner</option>
-                    <option value="intermediate">Intermediate</option>
-                    <option value="advanced">Advanced</option>
-                  </select>
+                    <ReminderSettings profile={profile} onChange={updateProfile} />
+
+                    <LearningRecordSettings profile={profile} />
+
+                    <CalibrationHistory key={profile.skill_level} userId={profile.id} />
+
+                    <AchievementList userId={profile.id} />
+                  </div>
                 </div>
               </div>
-            </div>
-          </div>
-        )}
+            )}
+          />
+          <Route path="*" element={<Navigate to={paths.courses} replace />} />
+        </Routes>
+
+
+
+
       </main>
     </div>
   );
@@ -0,0 +1,76 @@
+import { LearningStreak, XpEvent } from '../lib/supabase';
+import { activeStreak, activityDay, xpLevel, FREEZE_EVERY_DAYS } from '../lib/gamification';
+import { Flame, Snowflake, Zap } from 'lucide-react';
+
+type Props = {
+  xpEvents: XpEvent[];
+  streak: LearningStreak | null;
+  /** The learner's time zone, which streak days follow. */
+  timeZone: string;
+};
+
+export default function EngagementSummary({ xpEvents, streak, timeZone }: Props) {
+  const xp = xpEvents.reduce((sum, e) => sum + e.points, 0);
+  const { level, levelXp, nextLevelXp } = xpLevel(xp);
+  const today = activityDay(new Date().toISOString(), timeZone);
+  const days = activeStreak(streak, today);
+  const activeToday = streak?.last_active_on === today;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+      <div className="bg-white rounded-xl p-6 border border-slate-200">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <p className="text-slate-600 text-sm font-medium">Level {level}</p>
+            <p className="text-3xl font-bold text-slate-900 mt-2">{xp} XP</p>
+          </div>
+          <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center">
+            <Zap className="w-6 h-6 text-purple-600" />
+          </div>
+        </div>
+        <div className="w-full bg-slate-200 rounded-full h-2">
+          <div
+            className="bg-purple-600 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${((xp - levelXp) / (nextLevelXp - levelXp)) * 100}%` }}
+          />
+        </div>
+        <p className="text-xs text-slate-500 mt-2">{nextLevelXp - xp} XP to level {level + 1}</p>
+      </div>
+
+      <div className="bg-white rounded-xl p-6 border border-slate-200">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <p className="text-slate-600 text-sm font-medium">Learning Streak</p>
+            <p className="text-3xl font-bold text-slate-900 mt-2">
+              {days} {days === 1 ? 'day' : 'days'}
+            </p>
+          </div>
+          <div
+            className={`w-12 h-12 rounded-xl flex items-center justify-center ${
+              days > 0 ? 'bg-orange-100' : 'bg-slate-100'
+            }`}
+          >
+            <Flame className={`w-6 h-6 ${days > 0 ? 'text-orange-600' : 'text-slate-400'}`} />
+          </div>
+        </div>
+        <div className="flex items-center justify-between text-xs text-slate-500">
+          <span>
+            {activeToday
+              ? 'Done for today. Come back tomorrow!'
+              : days > 0
+                ? 'Study a lesson or answer a question today to keep it going.'
+                : 'Study a lesson or answer a question to start a streak.'}
+          </span>
+          <span
+            className="flex items-center space-x-1 flex-shrink-0 ml-3"
+            title={`Each streak freeze covers one missed day. You earn one every ${FREEZE_EVERY_DAYS} days.`}
+          >
+            <Snowflake className="w-4 h-4 text-blue-500" />
+            <span>{streak?.freezes_available ?? 0}</span>
+          </span>
+        </div>
+        <p className="text-xs text-slate-500 mt-1">Longest streak: {streak?.longest_streak ?? 0}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { InteractiveStep } from '../lib/supabase';
+import { checkBlanks, BLANK_MARKER } from '../lib/interactive';
+
+type Props = {
+  step: Extract<InteractiveStep, { type: 'fill_blank' }>;
+  onResult: (passed: boolean) => void;
+};
+
+export default function FillBlankStep({ step, onResult }: Props) {
+  const parts = step.template.split(BLANK_MARKER);
+  const [answers, setAnswers] = useState<string[]>(() => step.blanks.map(() => ''));
+  const [checked, setChecked] = useState<boolean[] | null>(null);
+
+  const handleChange = (index: number, value: string) => {
+    setAnswers(prev => prev.map((answer, i) => (i === index ? value : answer)));
+    setChecked(null);
+  };
+
+  const handleCheck = () => {
+    const result = checkBlanks(answers, step.blanks);
+    setChecked(result);
+    onResult(result.every(Boolean));
+  };
+
+  return (
+    <div>
+      <div className="p-6 bg-slate-50 border border-slate-200 rounded-xl font-mono text-sm leading-10 text-slate-800 whitespace-pre-wrap mb-6">
+        {parts.map((part, index) => (
+          <span key={index}>
+            {part}
+            {index < parts.length - 1 && (
+              <input
+                value={answers[index] ?? ''}
+                onChange={(e) => handleChange(index, e.target.value)}
+                aria-label={`Blank ${index + 1}`}
+                size={Math.max(6, (answers[index] ?? '').length + 2)}
+                className={`mx-1 px-2 py-1 rounded-md border-2 bg-white outline-none transition ${
+                  checked === null
+                    ? 'border-slate-300 focus:border-blue-500'
+                    : checked[index]
+                      ? 'border-green-500 bg-green-50'
+                      : 'border-red-500 bg-red-50'
+                }`}
+              />
+            )}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-600">
+          {checked && `${checked.filter(Boolean).length} of ${checked.length} blanks correct`}
+        </span>
+        <button
+          onClick={handleCheck}
+          disabled={answers.some(answer => !answer.trim())}
+          className="px-5 py-2.5 bg-slate-900 text-white rounded-lg font-medium hover:bg-slate-800 transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Check Answers
+        </button>
+      </div>
+    </div>
+  );
+}
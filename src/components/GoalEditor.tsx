@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Course, LearningGoal } from '../lib/supabase';
+import { db, GoalInput, Saveable } from '../lib/repositories';
+import { GOAL_KIND_LABELS, localDay } from '../lib/goals';
+import { Save, Plus } from 'lucide-react';
+
+type Props = {
+  userId: string;
+  timeZone: string;
+  courses: Course[];
+  goals: LearningGoal[];
+  /** The goal to edit; a new goal is added without it. */
+  goal?: LearningGoal;
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+const inputClass =
+  'w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+const DEFAULT_TARGETS = { weekly_minutes: 120, weekly_lessons: 3 };
+
+export default function GoalEditor({ userId, timeZone, courses, goals, goal, onSaved, onCancel }: Props) {
+  const taken = (kind: LearningGoal['kind']) =>
+    kind !== 'course_deadline' && goals.some(g => g.kind === kind && g.id !== goal?.id);
+  const firstKind = (Object.keys(GOAL_KIND_LABELS) as LearningGoal['kind'][]).find(kind => !taken(kind));
+  const blank = (kind: LearningGoal['kind']): Saveable<GoalInput> =>
+    kind === 'course_deadline'
+      ? { user_id: userId, kind, target: null, course_id: courses[0]?.id ?? null, deadline: null }
+      : { user_id: userId, kind, target: DEFAULT_TARGETS[kind], course_id: null, deadline: null };
+
+  const [draft, setDraft] = useState<Saveable<GoalInput>>(() =>
+    goal
+      ? {
+          id: goal.id,
+          user_id: goal.user_id,
+          kind: goal.kind,
+          target: goal.target,
+          course_id: goal.course_id,
+          deadline: goal.deadline,
+        }
+      : blank(firstKind ?? 'course_deadline')
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async () => {
+    setError('');
+    if (draft.kind === 'course_deadline') {
+      if (!draft.course_id || !draft.deadline) {
+        setError('Choose a course and a date to finish it by.');
+        return;
+      }
+      if (draft.deadline < localDay(new Date(), timeZone)) {
+        setError('The deadline cannot be in the past.');
+        return;
+      }
+    } else if (!Number.isInteger(draft.target) || (draft.target ?? 0) < 1) {
+      setError('The target must be a whole number of at least 1.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await db.goals.save(draft);
+      onSaved();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-6 space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-2">Goal</label>
+        <select
+          value={draft.kind}
+          onChange={(e) => setDraft(blank(e.target.value as LearningGoal['kind']))}
+          disabled={!!goal}
+          className={inputClass}
+        >
+          {(Object.keys(GOAL_KIND_LABELS) as LearningGoal['kind'][]).map(kind => (
+            <option key={kind} value={kind} disabled={taken(kind)}>
+              {GOAL_KIND_LABELS[kind]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {draft.kind === 'course_deadline' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Course</label>
+            <select
+              value={draft.course_id ?? ''}
+              onChange={(e) => setDraft({ ...draft, course_id: e.target.value })}
+              className={inputClass}
+            >
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>{course.title}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Finish By</label>
+            <input
+              type="date"
+              value={draft.deadline ?? ''}
+              onChange={(e) => setDraft({ ...draft, deadline: e.target.value || null })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            {draft.kind === 'weekly_minutes' ? 'Minutes per Week' : 'Lessons per Week'}
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={draft.target ?? ''}
+            onChange={(e) => setDraft({ ...draft, target: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center justify-end space-x-3">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+        >
+          {goal ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+          <span>{goal ? 'Save Goal' : 'Add Goal'}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { GoalState } from '../lib/goals';
+
+type Props = {
+  fraction: number;
+  state: GoalState;
+  children?: React.ReactNode;
+};
+
+const STROKES: Record<GoalState, string> = {
+  done: 'stroke-green-500',
+  on_track: 'stroke-blue-600',
+  behind: 'stroke-orange-500',
+  overdue: 'stroke-red-500',
+};
+
+const RADIUS = 42;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+export default function GoalRing({ fraction, state, children }: Props) {
+  return (
+    <div className="relative w-28 h-28 flex-shrink-0">
+      <svg viewBox="0 0 100 100" className="w-full h-full -rotate-90">
+        <circle cx="50" cy="50" r={RADIUS} fill="none" strokeWidth="10" className="stroke-slate-200" />
+        <circle
+          cx="50"
+          cy="50"
+          r={RADIUS}
+          fill="none"
+          strokeWidth="10"
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - fraction)}
+          className={`${STROKES[state]} transition-all duration-300`}
+        />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center text-center">{children}</div>
+    </div>
+  );
+}
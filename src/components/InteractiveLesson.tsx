@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { InteractiveStep, StepProgress } from '../lib/supabase';
+import { CheckCircle, ChevronLeft, ChevronRight, Code, ListOrdered, TextCursorInput } from 'lucide-react';
+import CodeExerciseStep from './CodeExerciseStep';
+import FillBlankStep from './FillBlankStep';
+import OrderStep from './OrderStep';
+import MarkdownContent from './MarkdownContent';
+
+type Props = {
+  steps: InteractiveStep[];
+  initialProgress: Record<string, StepProgress>;
+  onStepProgress: (stepProgress: Record<string, StepProgress>, completionPercentage: number) => Promise<void>;
+  onFinish: () => void;
+};
+
+const stepIcons = {
+  code: Code,
+  fill_blank: TextCursorInput,
+  order: ListOrdered,
+};
+
+export default function InteractiveLesson({ steps, initialProgress, onStepProgress, onFinish }: Props) {
+  const [stepProgress, setStepProgress] = useState(initialProgress);
+  const [currentIndex, setCurrentIndex] = useState(() => {
+    const firstOpen = steps.findIndex(step => !initialProgress[step.id]?.completed);
+    return firstOpen === -1 ? 0 : firstOpen;
+  });
+
+  const step = steps[currentIndex];
+  const completedCount = steps.filter(s => stepProgress[s.id]?.completed).length;
+  const allComplete = completedCount === steps.length;
+
+  const handleResult = async (passed: boolean) => {
+    const previous = stepProgress[step.id];
+    const next = {
+      ...stepProgress,
+      [step.id]: {
+        completed: previous?.completed || passed,
+        attempts: (previous?.attempts ?? 0) + 1,
+        completed_at: previous?.completed_at ?? (passed ? new Date().toISOString() : undefined),
+      },
+    };
+    setStepProgress(next);
+
+    const completed = steps.filter(s => next[s.id]?.completed).length;
+    await onStepProgress(next, Math.round((completed / steps.length) * 100));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2 mb-6 overflow-x-auto pb-2">
+        {steps.map((s, index) => {
+          const Icon = stepIcons[s.type];
+          const done = stepProgress[s.id]?.completed;
+          return (
+            <button
+              key={s.id}
+              onClick={() => setCurrentIndex(index)}
+              className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition ${
+                index === currentIndex
+                  ? 'bg-blue-600 text-white'
+                  : done
+                    ? 'bg-green-50 text-green-700 hover:bg-green-100'
+                    : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+              }`}
+            >
+              {done && index !== currentIndex ? <CheckCircle className="w-4 h-4" /> : <Icon className="w-4 h-4" />}
+              <span>{index + 1}. {s.title}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="w-full bg-slate-200 rounded-full h-2 mb-8">
+        <div
+          className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+          style={{ width: `${(completedCount / steps.length) * 100}%` }}
+        ></div>
+      </div>
+
+      <div className="mb-6">
+        <MarkdownContent content={step.prompt} />
+      </div>
+
+      {step.type === 'code' && <CodeExerciseStep key={step.id} step={step} onResult={handleResult} />}
+      {step.type === 'fill_blank' && <FillBlankStep key={step.id} step={step} onResult={handleResult} />}
+      {step.type === 'order' && <OrderStep key={step.id} step={step} onResult={handleResult} />}
+
+      {stepProgress[step.id]?.completed && (
+        <div className="mt-6 p-4 rounded-lg bg-green-50 border border-green-200 flex items-center space-x-2 text-green-900 font-medium">
+          <CheckCircle className="w-5 h-5" />
+          <span>Step complete</span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-8 pt-6 border-t border-slate-200">
+        <button
+          onClick={() => setCurrentIndex(currentIndex - 1)}
+          disabled={currentIndex === 0}
+          className="flex items-center space-x-2 px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <ChevronLeft className="w-5 h-5" />
+          <span>Previous</span>
+        </button>
+        {currentIndex < steps.length - 1 ? (
+          <button
+            onClick={() => setCurrentIndex(currentIndex + 1)}
+            className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+          >
+            <span>Next Step</span>
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        ) : (
+          <button
+            onClick={onFinish}
+            disabled={!allComplete}
+            className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CheckCircle className="w-5 h-5" />
+            <span>{allComplete ? 'Finish Lesson' : `${completedCount} of ${steps.length} steps done`}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect } from 'react';
+import { Profile } from '../lib/supabase';
+import { StatementSyncState, subscribeStatementSync, flushStatements, downloadStatements } from '../lib/xapiSync';
+import { Download, RefreshCw } from 'lucide-react';
+
+type Props = {
+  profile: Profile;
+};
+
+export default function LearningRecordSettings({ profile }: Props) {
+  const [sync, setSync] = useState<StatementSyncState | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => subscribeStatementSync(setSync), []);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setMessage('');
+    try {
+      const count = await downloadStatements(profile);
+      setMessage(`Exported ${count} ${count === 1 ? 'statement' : 'statements'}.`);
+    } catch (error) {
+      console.error('Error exporting statements:', error);
+      setMessage('Your statements could not be exported. Try again in a moment.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleRetry = () => {
+    flushStatements().catch(error => console.error('Error sending xAPI statements:', error));
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-slate-700 mb-2">Learning Record Store</h3>
+      <div className="space-y-4 border border-slate-200 rounded-lg p-4">
+        {sync?.configured ? (
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              <p className="text-slate-700">
+                {sync.pending > 0
+                  ? `${sync.pending} ${sync.pending === 1 ? 'statement' : 'statements'} waiting to be sent`
+                  : 'Your learning activity is up to date in the LRS'}
+              </p>
+              {sync.error && <p className="text-red-600 mt-1">{sync.error}; retrying automatically.</p>}
+              {!sync.error && sync.lastSentAt && (
+                <p className="text-slate-500 mt-1">Last sent {new Date(sync.lastSentAt).toLocaleString()}</p>
+              )}
+            </div>
+            {sync.pending > 0 && (
+              <button
+                onClick={handleRetry}
+                disabled={sync.sending}
+                className="flex items-center space-x-2 px-3 py-2 text-sm text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${sync.sending ? 'animate-spin' : ''}`} />
+                <span>Send Now</span>
+              </button>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-600">
+            No Learning Record Store is connected, so your activity is not being sent anywhere.
+          </p>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-slate-600">Download all of your learning activity as xAPI statements.</p>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="flex items-center space-x-2 px-3 py-2 text-sm text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>{exporting ? 'Exporting...' : 'Export JSON'}</span>
+          </button>
+        </div>
+        {message && <p className="text-sm text-slate-600">{message}</p>}
+      </div>
+    </div>
+  );
+}
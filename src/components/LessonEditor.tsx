@@ -0,0 +1,412 @@
+import { useState, useEffect } from 'react';
+import { Assessment, Course, Lesson } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { LessonDraft, AssessmentDraft, QUESTION_TYPE_LABELS, saveLesson, emptyAssessment } from '../lib/authoring';
+import { describeCorrectAnswer } from '../lib/grading';
+import { ArrowLeft, Eye, Plus, Pencil } from 'lucide-react';
+import AssessmentEditor from './AssessmentEditor';
+import PrerequisiteEditor from './PrerequisiteEditor';
+import SkillPicker from './SkillPicker';
+import VariantEditor from './VariantEditor';
+import MarkdownContent from './MarkdownContent';
+import LessonView from './LessonView';
+
+type Props = {
+  course: Course;
+  draft: LessonDraft;
+  onBack: () => void;
+  onSaved: (lesson: Lesson) => void;
+};
+
+const inputClass =
+  'w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export default function LessonEditor({ course, draft: initialDraft, onBack, onSaved }: Props) {
+  const [draft, setDraft] = useState(initialDraft);
+  const [contentTab, setContentTab] = useState<'write' | 'preview'>('write');
+  const [stepsJson, setStepsJson] = useState(JSON.stringify(initialDraft.interactive_steps ?? [], null, 2));
+  const [captionsJson, setCaptionsJson] = useState(JSON.stringify(initialDraft.caption_tracks ?? [], null, 2));
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [editingAssessment, setEditingAssessment] = useState<AssessmentDraft | null>(null);
+  const [previewLesson, setPreviewLesson] = useState<Lesson | null>(null);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadAssessments();
+  }, [draft.id]);
+
+  const loadAssessments = async () => {
+    if (!draft.id) return;
+
+    try {
+      setAssessments(await db.assessments.listByLessons([draft.id]));
+    } catch (error) {
+      console.error('Error loading questions:', error);
+    }
+  };
+
+  const update = (changes: Partial<LessonDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  const parseJson = <T,>(label: string, value: string): T | null => {
+    try {
+      const parsed = JSON.parse(value || '[]');
+      if (!Array.isArray(parsed)) throw new Error('Expected an array');
+      return parsed as T;
+    } catch (err) {
+      setError(`${label} must be a JSON array: ${(err as Error).message}`);
+      return null;
+    }
+  };
+
+  const buildDraft = (): LessonDraft | null => {
+    const interactive_steps = parseJson<LessonDraft['interactive_steps']>('Interactive steps', stepsJson);
+    const caption_tracks = parseJson<LessonDraft['caption_tracks']>('Caption tracks', captionsJson);
+    if (!interactive_steps || !caption_tracks) return null;
+    return { ...draft, interactive_steps, caption_tracks };
+  };
+
+  const handleSave = async () => {
+    setError('');
+    if (!draft.title.trim()) {
+      setError('Enter a lesson title.');
+      return;
+    }
+
+    const next = buildDraft();
+    if (!next) return;
+
+    setSaving(true);
+    const { data, error } = await saveLesson(next);
+    setSaving(false);
+
+    if (error) {
+      setError(error.message);
+    } else if (data) {
+      setDraft({ ...next, id: data.id });
+      setSaved(true);
+      onSaved(data);
+    }
+  };
+
+  const handlePreview = () => {
+    setError('');
+    const next = buildDraft();
+    if (next) {
+      setPreviewLesson({ ...next, id: next.id ?? 'preview', created_at: new Date().toISOString() });
+    }
+  };
+
+  return (
+    <div>
+      {previewLesson && (
+        <LessonView
+          lesson={previewLesson}
+          course={course}
+          preview
+          onClose={() => setPreviewLesson(null)}
+        />
+      )}
+
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 mb-6 transition"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        <span>Back to {course.title}</span>
+      </button>
+
+      <div className="bg-white rounded-xl border border-slate-200 p-8 mb-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-slate-900">
+            {draft.id ? 'Edit Lesson' : 'New Lesson'}
+          </h2>
+          <button
+            onClick={handlePreview}
+            className="flex items-center space-x-2 px-4 py-2 text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition"
+          >
+            <Eye className="w-4 h-4" />
+            <span>Preview as Learner</span>
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Title</label>
+            <input
+              value={draft.title}
+              onChange={(e) => update({ title: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Content Type</label>
+              <select
+                value={draft.content_type}
+                onChange={(e) => update({ content_type: e.target.value as Lesson['content_type'] })}
+                className={inputClass}
+              >
+                <option value="text">Text</option>
+                <option value="video">Video</option>
+                <option value="interactive">Interactive</option>
+                <option value="quiz">Quiz</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Difficulty</label>
+              <select
+                value={draft.difficulty_level}
+                onChange={(e) => update({ difficulty_level: e.target.value as Lesson['difficulty_level'] })}
+                className={inputClass}
+              >
+                <option value="beginner">Beginner</option>
+                <option value="intermediate">Intermediate</option>
+                <option value="advanced">Advanced</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Estimated Minutes</label>
+              <input
+                type="number"
+                min={1}
+                value={draft.estimated_minutes}
+                onChange={(e) => update({ estimated_minutes: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <SkillPicker
+            value={draft.skill_ids ?? []}
+            onChange={(skill_ids) => update({ skill_ids })}
+            hint="Questions without skills of their own count towards these."
+          />
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-slate-700">Content (Markdown)</label>
+              <div className="flex bg-slate-100 rounded-lg p-1 text-sm">
+                {(['write', 'preview'] as const).map(tab => (
+                  <button
+                    key={tab}
+                    onClick={() => setContentTab(tab)}
+                    className={`px-3 py-1 rounded-md capitalize transition ${
+                      contentTab === tab ? 'bg-white shadow-sm text-slate-900' : 'text-slate-600'
+                    }`}
+                  >
+                    {tab}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {contentTab === 'write' ? (
+              <textarea
+                value={draft.content}
+                onChange={(e) => update({ content: e.target.value })}
+                rows={14}
+                className={`${inputClass} font-mono text-sm`}
+              />
+            ) : (
+              <div className="p-6 border border-slate-200 rounded-lg min-h-[14rem]">
+                <MarkdownContent content={draft.content} />
+              </div>
+            )}
+          </div>
+
+          {draft.content_type === 'video' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Video URL</label>
+                <input
+                  value={draft.video_url ?? ''}
+                  onChange={(e) => update({ video_url: e.target.value, video_duration_seconds: null })}
+                  placeholder="https://..."
+                  className={inputClass}
+                />
+                {draft.video_url && (
+                  <video
+                    key={draft.video_url}
+                    src={draft.video_url}
+                    preload="metadata"
+                    className="hidden"
+                    onLoadedMetadata={(e) => {
+                      const duration = e.currentTarget.duration;
+                      if (Number.isFinite(duration) && duration > 0 && duration !== draft.video_duration_seconds) {
+                        update({ video_duration_seconds: duration });
+                      }
+                    }}
+                  />
+                )}
+                <p className="text-xs text-slate-500 mt-1">
+                  {draft.video_duration_seconds
+                    ? `Length: ${Math.round(draft.video_duration_seconds)} seconds. Learners complete the lesson after playing 90% of it.`
+                    : 'The length is read from the video once it loads; learners need 90% of it played to complete the lesson.'}
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Caption Tracks <span className="font-normal text-slate-500">— JSON array of {'{ src, srclang, label }'}</span>
+                </label>
+                <textarea
+                  value={captionsJson}
+                  onChange={(e) => { setCaptionsJson(e.target.value); setSaved(false); }}
+                  rows={4}
+                  className={`${inputClass} font-mono text-sm`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Transcript (Markdown)</label>
+                <textarea
+                  value={draft.transcript ?? ''}
+                  onChange={(e) => update({ transcript: e.target.value })}
+                  rows={6}
+                  className={inputClass}
+                />
+              </div>
+            </>
+          )}
+
+          {draft.content_type === 'quiz' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Max Attempts <span className="font-normal text-slate-500">— leave blank for unlimited</span>
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.max_attempts ?? ''}
+                  onChange={(e) => update({ max_attempts: e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : null })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Score That Counts</label>
+                <select
+                  value={draft.attempt_scoring ?? 'best'}
+                  onChange={(e) => update({ attempt_scoring: e.target.value as Lesson['attempt_scoring'] })}
+                  className={inputClass}
+                >
+                  <option value="best">Best attempt</option>
+                  <option value="latest">Latest attempt</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          {draft.content_type === 'interactive' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Interactive Steps <span className="font-normal text-slate-500">— JSON array of code, fill_blank and order steps</span>
+              </label>
+              <textarea
+                value={stepsJson}
+                onChange={(e) => { setStepsJson(e.target.value); setSaved(false); }}
+                rows={14}
+                className={`${inputClass} font-mono text-sm`}
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex items-center justify-end space-x-4">
+            {saved && <span className="text-sm text-green-700">Saved</span>}
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Lesson'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {draft.id && draft.content_type !== 'quiz' && <VariantEditor lessonId={draft.id} />}
+
+      {draft.id && <PrerequisiteEditor course={course} lessonId={draft.id} />}
+
+      {draft.id && (
+        <div className="bg-white rounded-xl border border-slate-200 p-8">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-2xl font-bold text-slate-900">Questions</h2>
+              {draft.content_type !== 'quiz' && (
+                <p className="text-sm text-slate-500 mt-1">Questions are asked when the content type is Quiz.</p>
+              )}
+            </div>
+            <button
+              onClick={() => setEditingAssessment(emptyAssessment(draft.id!))}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Question</span>
+            </button>
+          </div>
+
+          <div className="space-y-3">
+            {editingAssessment && !editingAssessment.id && (
+              <AssessmentEditor
+                draft={editingAssessment}
+                onSaved={() => { setEditingAssessment(null); loadAssessments(); }}
+                onDeleted={() => setEditingAssessment(null)}
+                onCancel={() => setEditingAssessment(null)}
+              />
+            )}
+
+            {assessments.map((assessment, index) =>
+              editingAssessment?.id === assessment.id ? (
+                <AssessmentEditor
+                  key={assessment.id}
+                  draft={editingAssessment}
+                  onSaved={() => { setEditingAssessment(null); loadAssessments(); }}
+                  onDeleted={() => { setEditingAssessment(null); loadAssessments(); }}
+                  onCancel={() => setEditingAssessment(null)}
+                />
+              ) : (
+                <div
+                  key={assessment.id}
+                  className="flex items-start justify-between p-4 border border-slate-200 rounded-lg"
+                >
+                  <div>
+                    <div className="flex items-center space-x-2 mb-1">
+                      <span className="text-sm font-medium text-slate-500">Q{index + 1}</span>
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                        assessment.difficulty === 'easy' ? 'bg-green-100 text-green-700' :
+                        assessment.difficulty === 'hard' ? 'bg-red-100 text-red-700' :
+                        'bg-yellow-100 text-yellow-700'
+                      }`}>
+                        {assessment.difficulty}
+                      </span>
+                    </div>
+                    <p className="font-medium text-slate-900">{assessment.question}</p>
+                    <p className="text-sm text-slate-500 mt-1">
+                      {QUESTION_TYPE_LABELS[assessment.question_type]} · answer: {describeCorrectAnswer(assessment.question_type, assessment)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setEditingAssessment(assessment)}
+                    className="p-2 text-slate-400 hover:text-blue-600 transition"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                </div>
+              )
+            )}
+
+            {assessments.length === 0 && !editingAssessment && (
+              <p className="text-center py-8 text-slate-500">No questions yet.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
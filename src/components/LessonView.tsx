@@ -1,115 +1,186 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase, Lesson, Course, Assessment, UserProgress } from '../lib/supabase';
-import { X, CheckCircle, ChevronRight } from 'lucide-react';
+import { Lesson, LessonVariant, Course, Assessment, Question, Profile, StepProgress, UserProgress } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { getOfflineCourse } from '../lib/offlineStore';
+import { saveProgress, submitAnswer, withPendingProgress } from '../lib/offlineSync';
+import { AnswerValue, gradeLocally, toQuestion } from '../lib/grading';
+import { createEngagementTracker, EngagementTracker } from '../lib/engagement';
+import { pickVariant } from '../lib/lessonVariants';
+import { X, CheckCircle } from 'lucide-react';
+import QuizView from './QuizView';
+import QuizSession from './QuizSession';
+import MarkdownContent from './MarkdownContent';
+import VideoPlayer from './VideoPlayer';
+import InteractiveLesson from './InteractiveLesson';
+import VariantSwitcher from './VariantSwitcher';
 
 type Props = {
   lesson: Lesson;
   course: Course;
+  /** Picks the matching content variant when the lesson has one. */
+  learningStyle?: Profile['learning_style'];
+  preview?: boolean;
+  questionId?: string;
+  onQuestionChange?: (questionId: string | null) => void;
   onClose: () => void;
 };
 
-export default function LessonView({ lesson, course, onClose }: Props) {
+export default function LessonView({
+  lesson,
+  course,
+  learningStyle,
+  preview = false,
+  questionId,
+  onQuestionChange,
+  onClose,
+}: Props) {
   const { user } = useAuth();
-  const [assessments, setAssessments] = useState<Assessment[]>([]);
-  const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<string>('');
-  const [showExplanation, setShowExplanation] = useState(false);
-  const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
-  const [quizCompleted, setQuizCompleted] = useState(false);
-  const [score, setScore] = useState(0);
-  const [startTime] = useState(Date.now());
+  const [questions, setQuestions] = useState<Question[]>([]);
+  // Only loaded in author previews, which are graded in the browser and not recorded.
+  const [answerKey, setAnswerKey] = useState<Assessment[]>([]);
+  const [stepProgress, setStepProgress] = useState<Record<string, StepProgress> | null>(null);
+  const [variants, setVariants] = useState<LessonVariant[]>([]);
+  const [variantStyle, setVariantStyle] = useState<Profile['learning_style'] | null>(null);
+  const engagement = useRef<EngagementTracker | null>(null);
+
+  useEffect(() => {
+    if (!user || preview) return;
+
+    const tracker = createEngagementTracker({
+      onHeartbeat: seconds =>
+        updateProgress('in_progress', 0, undefined, seconds).catch(error =>
+          console.error('Error saving lesson time:', error)
+        ),
+    });
+    engagement.current = tracker;
+    return () => {
+      engagement.current = null;
+      tracker.stop();
+    };
+  }, [lesson.id, user?.id, preview]);
 
   useEffect(() => {
     if (lesson.content_type === 'quiz') {
-      loadAssessments();
+      loadQuestions();
+    } else {
+      loadVariants();
+    }
+    if (lesson.content_type === 'interactive') {
+      loadStepProgress();
     }
     updateProgress('in_progress', 0);
+    recordOpened();
   }, [lesson.id]);
 
-  const loadAssessments = async () => {
-    const { data } = await supabase
-      .from('assessments')
-      .select('*')
-      .eq('lesson_id', lesson.id);
+  const recordOpened = () => {
+    if (!user || preview) return;
 
-    if (data) setAssessments(data);
+    db.activity
+      .recordLessonOpened({
+        user_id: user.id,
+        course_id: course.id,
+        lesson_id: lesson.id,
+        occurred_at: new Date().toISOString(),
+      })
+      .catch(error => console.error('Error recording lesson open:', error));
   };
 
-  const updateProgress = async (status: string, completionPercentage: number) => {
-    if (!user) return;
-
-    const timeSpent = Math.round((Date.now() - startTime) / 60000);
-
-    const progressData = {
-      user_id: user.id,
-      lesson_id: lesson.id,
-      course_id: course.id,
-      status,
-      completion_percentage: completionPercentage,
-      time_spent_minutes: timeSpent,
-      last_accessed_at: new Date().toISOString(),
-      ...(status === 'completed' && { completed_at: new Date().toISOString() }),
-    };
-
-    const { data: existing } = await supabase
-      .from('user_progress')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('lesson_id', lesson.id)
-      .maybeSingle();
+  const loadQuestions = async () => {
+    try {
+      if (preview) {
+        const assessments = await db.assessments.listByLessons([lesson.id]);
+        setAnswerKey(assessments);
+        setQuestions(assessments.map(toQuestion));
+      } else {
+        setQuestions(await db.questions.listByLessons([lesson.id]));
+      }
+    } catch {
+      const cached = await getOfflineCourse(course.id).catch(() => undefined);
+      setQuestions(cached?.questions?.filter(q => q.lesson_id === lesson.id) ?? []);
+    }
+  };
 
-    if (existing) {
-      await supabase
-        .from('user_progress')
-        .update(progressData)
-        .eq('id', existing.id);
-    } else {
-      await supabase.from('user_progress').insert(progressData);
+  const loadVariants = async () => {
+    let rows: LessonVariant[];
+    try {
+      rows = await db.lessonVariants.listByLessons([lesson.id]);
+    } catch {
+      const cached = await getOfflineCourse(course.id).catch(() => undefined);
+      rows = cached?.variants?.filter(v => v.lesson_id === lesson.id) ?? [];
     }
+    setVariants(rows);
+    if (rows.length > 0) selectVariant(pickVariant(rows, learningStyle)?.learning_style ?? null);
   };
 
-  const handleCompleteLesson = async () => {
-    await updateProgress('completed', 100);
-    onClose();
+  const selectVariant = (style: Profile['learning_style'] | null) => {
+    setVariantStyle(style);
+    if (!user || preview) return;
+
+    db.lessonVariants
+      .recordView({ user_id: user.id, lesson_id: lesson.id, learning_style: style, viewed_at: new Date().toISOString() })
+      .catch(error => console.error('Error recording lesson variant:', error));
   };
 
-  const handleAnswerSubmit = async () => {
-    if (!selectedAnswer || !user) return;
+  const gradeQuestion = async (
+    question: Question,
+    answer: AnswerValue,
+    timeTakenSeconds: number,
+    attemptId: string | null = null
+  ) => {
+    if (preview) {
+      const assessment = answerKey.find(a => a.id === question.id);
+      return assessment ? gradeLocally(assessment, answer) : null;
+    }
+    if (!user) return null;
 
-    const currentAssessment = assessments[currentQuestion];
-    const correct = selectedAnswer === currentAssessment.correct_answer;
-    setIsCorrect(correct);
-    setShowExplanation(true);
+    return submitAnswer(user.id, {
+      assessment_id: question.id,
+      answer,
+      time_taken_seconds: timeTakenSeconds,
+      attempt_id: attemptId,
+    });
+  };
 
-    if (correct) {
-      setScore(score + 1);
+  const loadStepProgress = async () => {
+    if (!user || preview) {
+      setStepProgress({});
+      return;
     }
 
-    const timeTaken = Math.round((Date.now() - startTime) / 1000);
+    const saved = await db.progress.get(user.id, lesson.id).catch(() => null);
+    const rows = await withPendingProgress(saved ? [saved] : [], user.id, course.id);
+    setStepProgress(rows.find(r => r.lesson_id === lesson.id)?.step_progress ?? {});
+  };
+
+  const updateProgress = async (
+    status: string,
+    completionPercentage: number,
+    steps?: Record<string, StepProgress>,
+    seconds = engagement.current?.takeSeconds() ?? 0
+  ) => {
+    if (!user || preview) return;
 
-    await supabase.from('user_assessments').insert({
+    await saveProgress({
       user_id: user.id,
-      assessment_id: currentAssessment.id,
-      user_answer: selectedAnswer,
-      is_correct: correct,
-      time_taken_seconds: timeTaken,
+      lesson_id: lesson.id,
+      course_id: course.id,
+      status: status as UserProgress['status'],
+      completion_percentage: completionPercentage,
+      time_delta_seconds: seconds,
+      last_accessed_at: new Date().toISOString(),
+      ...(status === 'completed' && { completed_at: new Date().toISOString() }),
+      ...(steps && { step_progress: steps }),
     });
-
-    const progress = Math.round(((currentQuestion + 1) / assessments.length) * 100);
-    await updateProgress('in_progress', progress);
   };
 
-  const handleNextQuestion = () => {
-    if (currentQuestion < assessments.length - 1) {
-      setCurrentQuestion(currentQuestion + 1);
-      setSelectedAnswer('');
-      setShowExplanation(false);
-      setIsCorrect(null);
-    } else {
-      setQuizCompleted(true);
-      updateProgress('completed', 100);
-    }
+  const variant = variants.find(v => v.learning_style === variantStyle) ?? null;
+  const isVideo = lesson.content_type === 'video' && !!lesson.video_url;
+  const interactiveSteps = lesson.content_type === 'interactive' ? lesson.interactive_steps ?? [] : [];
+
+  const handleCompleteLesson = async () => {
+    await updateProgress('completed', 100);
+    onClose();
   };
 
   return (
@@ -117,7 +188,14 @@ export default function LessonView({ lesson, course, onClose }: Props) {
       <div className="bg-white rounded-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
         <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
           <div>
-            <h2 className="text-2xl font-bold text-slate-900">{lesson.title}</h2>
+            <div className="flex items-center space-x-3">
+              <h2 className="text-2xl font-bold text-slate-900">{lesson.title}</h2>
+              {preview && (
+                <span className="px-2 py-1 rounded text-xs font-medium bg-purple-100 text-purple-700">
+                  Preview
+                </span>
+              )}
+            </div>
             <p className="text-sm text-slate-600 mt-1">{course.title}</p>
           </div>
           <button
@@ -129,145 +207,68 @@ export default function LessonView({ lesson, course, onClose }: Props) {
         </div>
 
         <div className="p-8">
-          {lesson.content_type === 'quiz' && assessments.length > 0 ? (
-            quizCompleted ? (
-              <div className="text-center py-12">
-                <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-6">
-                  <CheckCircle className="w-10 h-10 text-green-600" />
-                </div>
-                <h3 className="text-3xl font-bold text-slate-900 mb-2">Quiz Completed!</h3>
-                <p className="text-xl text-slate-600 mb-8">
-                  You scored {score} out of {assessments.length}
-                </p>
-                <div className="w-full max-w-md mx-auto bg-slate-200 rounded-full h-4 mb-8">
-                  <div
-                    className="bg-green-600 h-4 rounded-full transition-all duration-300"
-                    style={{ width: `${(score / assessments.length) * 100}%` }}
-                  ></div>
-                </div>
-                <button
-                  onClick={onClose}
-                  className="px-8 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
-                >
-                  Continue Learning
-                </button>
-              </div>
+          {lesson.content_type === 'quiz' && questions.length > 0 ? (
+            user && !preview ? (
+              <QuizSession
+                lesson={lesson}
+                questions={questions}
+                grade={gradeQuestion}
+                initialQuestionId={questionId}
+                onQuestionChange={onQuestionChange}
+                onProgress={updateProgress}
+                onClose={onClose}
+              />
             ) : (
-              <div>
-                <div className="mb-8">
-                  <div className="flex items-center justify-between mb-4">
-                    <span className="text-sm font-medium text-slate-600">
-                      Question {currentQuestion + 1} of {assessments.length}
-                    </span>
-                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${
-                      assessments[currentQuestion].difficulty === 'easy' ? 'bg-green-100 text-green-700' :
-                      assessments[currentQuestion].difficulty === 'hard' ? 'bg-red-100 text-red-700' :
-                      'bg-yellow-100 text-yellow-700'
-                    }`}>
-                      {assessments[currentQuestion].difficulty}
-                    </span>
-                  </div>
-                  <div className="w-full bg-slate-200 rounded-full h-2">
-                    <div
-                      className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${((currentQuestion + 1) / assessments.length) * 100}%` }}
-                    ></div>
-                  </div>
-                </div>
+              <QuizView
+                questions={questions}
+                grade={gradeQuestion}
+                initialQuestionId={questionId}
+                onQuestionChange={onQuestionChange}
+                onProgress={updateProgress}
+                onClose={onClose}
+              />
+            )
+          ) : (
+            <div>
+              {isVideo && <VideoPlayer lesson={lesson} preview={preview} onProgress={updateProgress} />}
 
-                <div className="mb-8">
-                  <h3 className="text-xl font-semibold text-slate-900 mb-6">
-                    {assessments[currentQuestion].question}
-                  </h3>
+              {variants.length > 0 && (
+                <VariantSwitcher
+                  variants={variants}
+                  selected={variantStyle}
+                  learningStyle={learningStyle}
+                  onSelect={selectVariant}
+                />
+              )}
 
-                  <div className="space-y-3">
-                    {assessments[currentQuestion].options.map((option, index) => (
-                      <button
-                        key={index}
-                        onClick={() => !showExplanation && setSelectedAnswer(option)}
-                        disabled={showExplanation}
-                        className={`w-full text-left p-4 border-2 rounded-lg transition ${
-                          selectedAnswer === option
-                            ? showExplanation
-                              ? isCorrect
-                                ? 'border-green-500 bg-green-50'
-                                : 'border-red-500 bg-red-50'
-                              : 'border-blue-500 bg-blue-50'
-                            : 'border-slate-200 hover:border-slate-300'
-                        } ${showExplanation ? 'cursor-not-allowed' : 'cursor-pointer'}`}
-                      >
-                        <div className="flex items-center space-x-3">
-                          <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
-                            selectedAnswer === option
-                              ? showExplanation
-                                ? isCorrect
-                                  ? 'border-green-500 bg-green-500'
-                                  : 'border-red-500 bg-red-500'
-                                : 'border-blue-500 bg-blue-500'
-                              : 'border-slate-300'
-                          }`}>
-                            {selectedAnswer === option && (
-                              <div className="w-2 h-2 bg-white rounded-full"></div>
-                            )}
-                          </div>
-                          <span className="font-medium text-slate-900">{option}</span>
-                        </div>
-                      </button>
-                    ))}
-                  </div>
-                </div>
+              {variant?.audio_url && <audio controls src={variant.audio_url} className="w-full mb-6" />}
+
+              <div className="mb-8">
+                <MarkdownContent content={variant ? variant.content : lesson.content} />
+              </div>
 
-                {showExplanation && (
-                  <div className={`p-4 rounded-lg mb-6 ${
-                    isCorrect ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
-                  }`}>
-                    <p className={`font-semibold mb-2 ${
-                      isCorrect ? 'text-green-900' : 'text-red-900'
-                    }`}>
-                      {isCorrect ? 'Correct!' : 'Incorrect'}
-                    </p>
-                    <p className="text-slate-700">{assessments[currentQuestion].explanation}</p>
-                  </div>
-                )}
+              {interactiveSteps.length > 0 && stepProgress && (
+                <InteractiveLesson
+                  steps={interactiveSteps}
+                  initialProgress={stepProgress}
+                  onStepProgress={(steps, percentage) =>
+                    updateProgress(percentage === 100 ? 'completed' : 'in_progress', percentage, steps)
+                  }
+                  onFinish={onClose}
+                />
+              )}
 
+              {!isVideo && interactiveSteps.length === 0 && (
                 <div className="flex justify-end">
-                  {!showExplanation ? (
-                    <button
-                      onClick={handleAnswerSubmit}
-                      disabled={!selectedAnswer}
-                      className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      Submit Answer
-                    </button>
-                  ) : (
-                    <button
-                      onClick={handleNextQuestion}
-                      className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
-                    >
-                      <span>{currentQuestion < assessments.length - 1 ? 'Next Question' : 'Complete Quiz'}</span>
-                      <ChevronRight className="w-5 h-5" />
-                    </button>
-                  )}
+                  <button
+                    onClick={handleCompleteLesson}
+                    className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+                  >
+                    <CheckCircle className="w-5 h-5" />
+                    <span>Mark as Complete</span>
+                  </button>
                 </div>
-              </div>
-            )
-          ) : (
-            <div>
-              <div className="prose max-w-none mb-8">
-                <div className="text-slate-700 leading-relaxed whitespace-pre-wrap">
-                  {lesson.content}
-                </div>
-              </div>
-
-              <div className="flex justify-end">
-                <button
-                  onClick={handleCompleteLesson}
-                  className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
-                >
-                  <CheckCircle className="w-5 h-5" />
-                  <span>Mark as Complete</span>
-                </button>
-              </div>
+              )}
             </div>
           )}
         </div>
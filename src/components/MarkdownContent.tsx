@@ -0,0 +1,78 @@
+import { useMemo } from 'react';
+import Markdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeSlug from 'rehype-slug';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { toString } from 'hast-util-to-string';
+import { extractToc, sanitizeSchema, TOC_MIN_HEADINGS } from '../lib/markdown';
+import { List } from 'lucide-react';
+import MermaidDiagram from './MermaidDiagram';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+
+type Props = {
+  content: string;
+};
+
+export default function MarkdownContent({ content }: Props) {
+  const toc = useMemo(() => extractToc(content), [content]);
+
+  return (
+    <div>
+      {toc.length >= TOC_MIN_HEADINGS && (
+        <nav className="mb-8 p-5 bg-slate-50 border border-slate-200 rounded-xl">
+          <div className="flex items-center space-x-2 mb-3 text-sm font-semibold text-slate-900">
+            <List className="w-4 h-4" />
+            <span>In this lesson</span>
+          </div>
+          <ol className="space-y-1.5 text-sm">
+            {toc.map(entry => (
+              <li key={entry.id} className={entry.depth === 3 ? 'pl-4' : ''}>
+                <a href={`#${entry.id}`} className="text-slate-600 hover:text-blue-600 transition">
+                  {entry.text}
+                </a>
+              </li>
+            ))}
+          </ol>
+        </nav>
+      )}
+
+      <div className="prose prose-slate max-w-none prose-headings:scroll-mt-28 prose-a:text-blue-600 prose-img:rounded-xl prose-pre:bg-slate-50 prose-pre:text-slate-800 prose-pre:border prose-pre:border-slate-200">
+        <Markdown
+          remarkPlugins={[remarkGfm, remarkMath]}
+          rehypePlugins={[
+            [rehypeSanitize, sanitizeSchema],
+            rehypeSlug,
+            rehypeKatex,
+            [rehypeHighlight, { plainText: ['mermaid'] }],
+          ]}
+          components={{
+            pre({ node, children, ...props }) {
+              const code = node?.children[0];
+              const className = code?.type === 'element' ? code.properties.className : undefined;
+              if (Array.isArray(className) && className.includes('language-mermaid')) {
+                return <MermaidDiagram code={toString(code!)} />;
+              }
+              return <pre {...props}>{children}</pre>;
+            },
+            table({ children }) {
+              return (
+                <div className="overflow-x-auto">
+                  <table>{children}</table>
+                </div>
+              );
+            },
+            img({ src, alt, title }) {
+              return <img src={src} alt={alt ?? ''} title={title} loading="lazy" />;
+            },
+          }}
+        >
+          {content}
+        </Markdown>
+      </div>
+    </div>
+  );
+}
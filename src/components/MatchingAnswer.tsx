@@ -0,0 +1,51 @@
+import { MatchingPair } from '../lib/supabase';
+
+type Props = {
+  prompts: string[];
+  choices: string[];
+  matches: Record<string, string>;
+  revealed: boolean;
+  /** The correct pairs, once the server has graded the answer. */
+  solution: MatchingPair[] | null;
+  onChange: (matches: Record<string, string>) => void;
+};
+
+export default function MatchingAnswer({ prompts, choices, matches, revealed, solution, onChange }: Props) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-500">Match each item on the left with one on the right.</p>
+      {prompts.map(prompt => {
+        const chosen = matches[prompt] ?? '';
+        const match = solution?.find(pair => pair.prompt === prompt)?.match;
+        const graded = revealed && match !== undefined;
+        const correct = chosen === match;
+        return (
+          <div
+            key={prompt}
+            className={`grid grid-cols-1 md:grid-cols-2 gap-3 items-center p-4 border-2 rounded-lg ${
+              !graded ? 'border-slate-200' : correct ? 'border-green-500 bg-green-50' : 'border-red-300'
+            }`}
+          >
+            <span className="font-medium text-slate-900">{prompt}</span>
+            <div>
+              <select
+                value={chosen}
+                disabled={revealed}
+                onChange={(e) => onChange({ ...matches, [prompt]: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none disabled:cursor-not-allowed"
+              >
+                <option value="">Choose...</option>
+                {choices.map(choice => (
+                  <option key={choice} value={choice}>{choice}</option>
+                ))}
+              </select>
+              {graded && !correct && (
+                <p className="text-sm text-green-700 mt-1">Correct match: {match}</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { useEffect, useId, useState } from 'react';
+
+type Props = {
+  code: string;
+};
+
+export default function MermaidDiagram({ code }: Props) {
+  const id = `mermaid-${useId().replace(/:/g, '')}`;
+  const [svg, setSvg] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const { default: mermaid } = await import('mermaid');
+        mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'neutral' });
+        const { svg } = await mermaid.render(id, code);
+        if (!cancelled) setSvg(svg);
+      } catch (error) {
+        console.error('Error rendering diagram:', error);
+        if (!cancelled) setFailed(true);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, code]);
+
+  if (failed) {
+    return (
+      <pre>
+        <code>{code}</code>
+      </pre>
+    );
+  }
+
+  if (!svg) {
+    return <div className="h-32 rounded-lg bg-slate-100 animate-pulse not-prose" />;
+  }
+
+  // Mermaid's strict security level sanitizes the generated SVG.
+  return (
+    <div
+      className="not-prose flex justify-center my-6 overflow-x-auto"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
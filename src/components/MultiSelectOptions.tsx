@@ -0,0 +1,64 @@
+import { Check } from 'lucide-react';
+
+type Props = {
+  options: string[];
+  selected: string[];
+  revealed: boolean;
+  /** Null until the server has graded the answer. */
+  correctOptions: string[] | null;
+  onChange: (selected: string[]) => void;
+};
+
+export default function MultiSelectOptions({ options, selected, revealed, correctOptions, onChange }: Props) {
+  const graded = revealed && correctOptions !== null;
+  const toggle = (option: string) => {
+    onChange(selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-500">Select all that apply.</p>
+      {options.map((option, index) => {
+        const checked = selected.includes(option);
+        const shouldCheck = correctOptions?.includes(option) ?? false;
+        return (
+          <button
+            key={index}
+            onClick={() => !revealed && toggle(option)}
+            disabled={revealed}
+            className={`w-full text-left p-4 border-2 rounded-lg transition ${
+              graded
+                ? shouldCheck
+                  ? checked
+                    ? 'border-green-500 bg-green-50'
+                    : 'border-green-300 border-dashed'
+                  : checked
+                    ? 'border-red-500 bg-red-50'
+                    : 'border-slate-200'
+                : checked
+                  ? 'border-blue-500 bg-blue-50'
+                  : revealed
+                    ? 'border-slate-200'
+                    : 'border-slate-200 hover:border-slate-300'
+            } ${revealed ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+          >
+            <div className="flex items-center space-x-3">
+              <div className={`w-6 h-6 rounded border-2 flex items-center justify-center ${
+                checked
+                  ? graded
+                    ? shouldCheck
+                      ? 'border-green-500 bg-green-500'
+                      : 'border-red-500 bg-red-500'
+                    : 'border-blue-500 bg-blue-500'
+                  : 'border-slate-300'
+              }`}>
+                {checked && <Check className="w-4 h-4 text-white" />}
+              </div>
+              <span className="font-medium text-slate-900">{option}</span>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
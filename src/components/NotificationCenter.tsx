@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AppNotification } from '../lib/supabase';
+import { Bell } from 'lucide-react';
+
+type Props = {
+  notifications: AppNotification[];
+  onRead: (ids: string[]) => void;
+};
+
+export default function NotificationCenter({ notifications, onRead }: Props) {
+  const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
+  const unread = notifications.filter(n => !n.read_at);
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read_at) onRead([notification.id]);
+    setOpen(false);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-label={`Notifications${unread.length > 0 ? ` (${unread.length} unread)` : ''}`}
+        aria-expanded={open}
+        className="relative p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+      >
+        <Bell className="w-5 h-5" />
+        {unread.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] px-1 py-0.5 rounded-full bg-red-500 text-white text-xs font-semibold text-center">
+            {unread.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-slate-200 rounded-xl shadow-lg z-20">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200">
+            <span className="font-semibold text-slate-900">Notifications</span>
+            {unread.length > 0 && (
+              <button
+                onClick={() => onRead(unread.map(n => n.id))}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-slate-500 text-center">You have no notifications.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-slate-100">
+              {notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-slate-50 transition ${
+                      notification.read_at ? '' : 'bg-blue-50'
+                    }`}
+                  >
+                    <p className="text-sm font-medium text-slate-900">{notification.title}</p>
+                    {notification.body && <p className="text-sm text-slate-600 mt-0.5">{notification.body}</p>}
+                    <p className="text-xs text-slate-400 mt-1">{new Date(notification.created_at).toLocaleString()}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { InteractiveStep } from '../lib/supabase';
+import { checkOrder, shuffle } from '../lib/interactive';
+import { GripVertical, ChevronUp, ChevronDown } from 'lucide-react';
+
+type Props = {
+  step: Extract<InteractiveStep, { type: 'order' }>;
+  onResult: (passed: boolean) => void;
+};
+
+export default function OrderStep({ step, onResult }: Props) {
+  const [items, setItems] = useState(() => shuffle(step.items));
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [result, setResult] = useState<boolean | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= items.length || from === to) return;
+    setItems(prev => {
+      const next = [...prev];
+      const [item] = next.splice(from, 1);
+      next.splice(to, 0, item);
+      return next;
+    });
+    setResult(null);
+  };
+
+  const handleCheck = () => {
+    const passed = checkOrder(items, step.items);
+    setResult(passed);
+    onResult(passed);
+  };
+
+  return (
+    <div>
+      <ol className="space-y-2 mb-6">
+        {items.map((item, index) => (
+          <li
+            key={item}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              if (dragIndex !== null && dragIndex !== index) {
+                move(dragIndex, index);
+                setDragIndex(index);
+              }
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            className={`flex items-center space-x-3 p-4 bg-white border-2 rounded-lg cursor-grab active:cursor-grabbing transition ${
+              dragIndex === index
+                ? 'border-blue-500 shadow-md'
+                : result === null
+                  ? 'border-slate-200 hover:border-slate-300'
+                  : result
+                    ? 'border-green-500 bg-green-50'
+                    : item === step.items[index]
+                      ? 'border-green-300'
+                      : 'border-red-300'
+            }`}
+          >
+            <GripVertical className="w-5 h-5 text-slate-400 flex-shrink-0" />
+            <span className="w-6 text-sm font-semibold text-slate-500">{index + 1}.</span>
+            <span className="flex-1 font-medium text-slate-900">{item}</span>
+            <div className="flex flex-col">
+              <button
+                onClick={() => move(index, index - 1)}
+                disabled={index === 0}
+                aria-label="Move up"
+                className="text-slate-400 hover:text-slate-700 disabled:opacity-30"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => move(index, index + 1)}
+                disabled={index === items.length - 1}
+                aria-label="Move down"
+                className="text-slate-400 hover:text-slate-700 disabled:opacity-30"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex items-center justify-between">
+        <span className={`text-sm ${result === false ? 'text-red-700' : 'text-slate-600'}`}>
+          {result === false && 'Not quite — items outlined in red are out of place.'}
+        </span>
+        <button
+          onClick={handleCheck}
+          className="px-5 py-2.5 bg-slate-900 text-white rounded-lg font-medium hover:bg-slate-800 transition"
+        >
+          Check Order
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { ChevronUp, ChevronDown } from 'lucide-react';
+
+type Props = {
+  items: string[];
+  /** Null until the server has graded the answer. */
+  correctOrder: string[] | null;
+  revealed: boolean;
+  onChange: (items: string[]) => void;
+};
+
+export default function OrderingAnswer({ items, correctOrder, revealed, onChange }: Props) {
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= items.length) return;
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-slate-500 mb-3">Put the items in the correct order.</p>
+      <ol className="space-y-2">
+        {items.map((item, index) => (
+          <li
+            key={item}
+            className={`flex items-center space-x-3 p-4 bg-white border-2 rounded-lg transition ${
+              !revealed || !correctOrder
+                ? 'border-slate-200'
+                : item === correctOrder[index]
+                  ? 'border-green-500 bg-green-50'
+                  : 'border-red-300'
+            }`}
+          >
+            <span className="w-6 text-sm font-semibold text-slate-500">{index + 1}.</span>
+            <span className="flex-1 font-medium text-slate-900">{item}</span>
+            {!revealed && (
+              <div className="flex flex-col">
+                <button
+                  onClick={() => move(index, index - 1)}
+                  disabled={index === 0}
+                  aria-label="Move up"
+                  className="text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => move(index, index + 1)}
+                  disabled={index === items.length - 1}
+                  aria-label="Move down"
+                  className="text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { Course, Lesson, Prerequisite } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { savePrerequisite, deletePrerequisite } from '../lib/authoring';
+import { describeRequirement } from '../lib/prerequisites';
+import { Lock, Plus, Trash2 } from 'lucide-react';
+
+type Props = {
+  course: Course;
+  /** Edits the lesson's rules; without it, the rules on the whole course. */
+  lessonId?: string;
+};
+
+type Kind = 'lesson' | 'quiz' | 'course';
+
+const inputClass =
+  'w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export default function PrerequisiteEditor({ course, lessonId }: Props) {
+  const [rules, setRules] = useState<Prerequisite[]>([]);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [kind, setKind] = useState<Kind>(lessonId ? 'lesson' : 'course');
+  const [requiredId, setRequiredId] = useState('');
+  const [minScore, setMinScore] = useState(80);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadRules();
+  }, [course.id, lessonId]);
+
+  const loadRules = async () => {
+    try {
+      const [ruleRows, lessonRows, courseRows] = await Promise.all([
+        db.prerequisites.listByCourse(course.id),
+        db.lessons.listByCourse(course.id),
+        db.courses.listEditable(),
+      ]);
+      setRules(ruleRows.filter(r => (lessonId ? r.lesson_id === lessonId : r.course_id === course.id)));
+      setLessons(lessonRows);
+      setCourses(courseRows);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const candidates =
+    kind === 'course'
+      ? courses.filter(c => c.id !== course.id)
+      : lessons.filter(l => l.id !== lessonId && (kind === 'lesson' || l.content_type === 'quiz'));
+
+  const handleAdd = async () => {
+    setError('');
+    if (!requiredId) {
+      setError(`Choose a ${kind === 'course' ? 'course' : 'lesson'}.`);
+      return;
+    }
+    if (kind === 'quiz' && !(minScore > 0 && minScore <= 100)) {
+      setError('Minimum score must be between 1 and 100%.');
+      return;
+    }
+
+    const { error } = await savePrerequisite({
+      lesson_id: lessonId ?? null,
+      course_id: lessonId ? null : course.id,
+      required_lesson_id: kind === 'course' ? null : requiredId,
+      required_course_id: kind === 'course' ? requiredId : null,
+      min_score: kind === 'quiz' ? minScore / 100 : null,
+    });
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setRequiredId('');
+    loadRules();
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await deletePrerequisite(id);
+    if (error) setError(error.message);
+    else setRules(rules.filter(r => r.id !== id));
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-8 mb-8">
+      <div className="flex items-center space-x-2 mb-1">
+        <Lock className="w-5 h-5 text-slate-500" />
+        <h2 className="text-2xl font-bold text-slate-900">Prerequisites</h2>
+      </div>
+      <p className="text-sm text-slate-500 mb-6">
+        Learners can't start this {lessonId ? 'lesson' : 'course'} until every rule is met.
+      </p>
+
+      <div className="space-y-2 mb-6">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center justify-between p-3 border border-slate-200 rounded-lg">
+            <span className="text-slate-900">{describeRequirement(rule, lessons, courses)}</span>
+            <button
+              onClick={() => handleDelete(rule.id)}
+              aria-label="Remove"
+              className="p-2 text-slate-400 hover:text-red-600 transition"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        {rules.length === 0 && <p className="text-sm text-slate-500">No prerequisites. Anyone can start it.</p>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Requirement</label>
+          <select
+            value={kind}
+            onChange={(e) => { setKind(e.target.value as Kind); setRequiredId(''); }}
+            className={inputClass}
+          >
+            {lessonId && <option value="lesson">Complete a lesson</option>}
+            {lessonId && <option value="quiz">Score on a quiz</option>}
+            <option value="course">Complete a course</option>
+          </select>
+        </div>
+        <div className={kind === 'quiz' ? '' : 'md:col-span-2'}>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            {kind === 'course' ? 'Course' : kind === 'quiz' ? 'Quiz' : 'Lesson'}
+          </label>
+          <select value={requiredId} onChange={(e) => setRequiredId(e.target.value)} className={inputClass}>
+            <option value="">Choose...</option>
+            {candidates.map(item => (
+              <option key={item.id} value={item.id}>{item.title}</option>
+            ))}
+          </select>
+        </div>
+        {kind === 'quiz' && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Minimum Score (%)</label>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={minScore}
+              onChange={(e) => setMinScore(Number(e.target.value))}
+              className={inputClass}
+            />
+          </div>
+        )}
+        <button
+          onClick={handleAdd}
+          className="flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Rule</span>
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+    </div>
+  );
+}
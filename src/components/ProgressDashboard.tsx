@@ -1,5 +1,20 @@
+import { useState, useEffect } from 'react';
 import { UserProgress, Course, Profile } from '../lib/supabase';
+import { learningMinutes } from '../lib/progress';
+import {
+  browserTimeZone,
+  evaluateGoals,
+  GoalData,
+  weekBounds,
+  weekSettings,
+  weeklyTotals,
+} from '../lib/goals';
 import { Award, TrendingUp, Target, Calendar } from 'lucide-react';
+import SkillMap from './SkillMap';
+import { loadGoalData } from '../lib/goalReminders';
+import WeeklyGoals from './WeeklyGoals';
+import CertificateList from './CertificateList';
+import ActivityAnalytics from './ActivityAnalytics';
 
 type Props = {
   userProgress: UserProgress[];
@@ -8,18 +23,28 @@ type Props = {
 };
 
 export default function ProgressDashboard({ userProgress, courses, profile }: Props) {
-  const calculateWeeklyStats = () => {
-    const oneWeekAgo = new Date();
-    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-
-    const weeklyProgress = userProgress.filter(
-      p => new Date(p.last_accessed_at) >= oneWeekAgo
-    );
-
-    const lessonsThisWeek = weeklyProgress.filter(p => p.status === 'completed').length;
-    const minutesThisWeek = weeklyProgress.reduce((sum, p) => sum + p.time_spent_minutes, 0);
+  const [goalData, setGoalData] = useState<GoalData>({ goals: [], time: [], lessons: [] });
+  const now = new Date();
+  const settings = profile ? weekSettings(profile) : { timeZone: browserTimeZone(), weekStartsOn: 1 };
+  const week = weekBounds(now, settings.timeZone, settings.weekStartsOn);
+
+  useEffect(() => {
+    loadGoals();
+  }, [profile?.id, settings.timeZone, settings.weekStartsOn, userProgress]);
+
+  const loadGoals = async () => {
+    if (!profile) return;
+
+    try {
+      setGoalData(await loadGoalData(profile.id, week));
+    } catch (error) {
+      console.error('Error loading goals:', error);
+    }
+  };
 
-    return { lessonsThisWeek, minutesThisWeek };
+  const calculateWeeklyStats = () => {
+    const { minutes, lessons } = weeklyTotals(week, goalData.time, userProgress);
+    return { lessonsThisWeek: lessons, minutesThisWeek: minutes };
   };
 
   const getCourseProgress = (courseId: string) => {
@@ -31,7 +56,7 @@ export default function ProgressDashboard({ userProgress, courses, profile }: Pr
 
   const { lessonsThisWeek, minutesThisWeek } = calculateWeeklyStats();
   const totalCompleted = userProgress.filter(p => p.status === 'completed').length;
-  const totalTime = userProgress.reduce((sum, p) => sum + p.time_spent_minutes, 0);
+  const totalTime = learningMinutes(userProgress);
 
   const activeCourses = courses.filter(course =>
     userProgress.some(p => p.course_id === course.id && p.status !== 'not_started')
@@ -90,6 +115,17 @@ export default function ProgressDashboard({ userProgress, courses, profile }: Pr
         </div>
       </div>
 
+      {profile && (
+        <WeeklyGoals
+          userId={profile.id}
+          timeZone={settings.timeZone}
+          weekStart={week.start}
+          courses={courses}
+          results={evaluateGoals(goalData, userProgress, settings, now)}
+          onChanged={loadGoals}
+        />
+      )}
+
       <div className="bg-white rounded-xl p-8 border border-slate-200 mb-8">
         <h2 className="text-2xl font-bold text-slate-900 mb-6">Active Courses</h2>
         <div className="space-y-6">
@@ -130,6 +166,19 @@ export default function ProgressDashboard({ userProgress, courses, profile }: Pr
         </div>
       </div>
 
+      {profile && (
+        <ActivityAnalytics
+          userId={profile.id}
+          courses={courses}
+          timeZone={settings.timeZone}
+          weekStartsOn={settings.weekStartsOn}
+        />
+      )}
+
+      {profile && <CertificateList userId={profile.id} />}
+
+      {profile && <SkillMap userId={profile.id} />}
+
       {profile && (
         <div className="bg-white rounded-xl p-8 border border-slate-200">
           <h2 className="text-2xl font-bold text-slate-900 mb-6">Learning Profile</h2>
@@ -0,0 +1,84 @@
+import { Question } from '../lib/supabase';
+import { AnswerValue, GradeResult, TRUE_FALSE_OPTIONS } from '../lib/grading';
+import AnswerOptions from './AnswerOptions';
+import MultiSelectOptions from './MultiSelectOptions';
+import OrderingAnswer from './OrderingAnswer';
+import MatchingAnswer from './MatchingAnswer';
+
+type Props = {
+  question: Question;
+  answer: AnswerValue;
+  submitted: boolean;
+  /** Null until the answer has been graded, which may be later than submission when offline. */
+  result: GradeResult | null;
+  onChange: (answer: AnswerValue) => void;
+};
+
+/** Renders the answer control for each question type. */
+export default function QuestionInput({ question, answer, submitted, result, onChange }: Props) {
+  const solution = result?.solution ?? null;
+
+  switch (question.question_type) {
+    case 'multiple_select':
+      return (
+        <MultiSelectOptions
+          options={question.options}
+          selected={answer as string[]}
+          revealed={submitted}
+          correctOptions={solution ? solution.answer_key.correct_options ?? [] : null}
+          onChange={onChange}
+        />
+      );
+    case 'ordering':
+      return (
+        <OrderingAnswer
+          items={answer as string[]}
+          correctOrder={solution?.options ?? null}
+          revealed={submitted}
+          onChange={onChange}
+        />
+      );
+    case 'matching':
+      return (
+        <MatchingAnswer
+          prompts={question.matching?.prompts ?? []}
+          choices={question.matching?.choices ?? []}
+          matches={answer as Record<string, string>}
+          revealed={submitted}
+          solution={solution ? solution.answer_key.pairs ?? [] : null}
+          onChange={onChange}
+        />
+      );
+    case 'numeric':
+    case 'short_text':
+      return (
+        <input
+          type={question.question_type === 'numeric' ? 'number' : 'text'}
+          step="any"
+          value={answer as string}
+          disabled={submitted}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={question.question_type === 'numeric' ? 'Enter a number' : 'Type your answer'}
+          className={`w-full px-4 py-3 border-2 rounded-lg outline-none transition ${
+            !submitted
+              ? 'border-slate-200 focus:border-blue-500'
+              : !result
+                ? 'border-slate-300 bg-slate-50'
+                : result.is_correct
+                  ? 'border-green-500 bg-green-50'
+                  : 'border-red-500 bg-red-50'
+          }`}
+        />
+      );
+    default:
+      return (
+        <AnswerOptions
+          options={question.question_type === 'true_false' ? TRUE_FALSE_OPTIONS : question.options}
+          selectedAnswer={answer as string}
+          revealed={submitted}
+          isCorrect={result ? result.is_correct : null}
+          onSelect={onChange}
+        />
+      );
+  }
+}
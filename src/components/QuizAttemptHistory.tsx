@@ -0,0 +1,42 @@
+import { Lesson, QuizAttempt } from '../lib/supabase';
+import { attemptsLeft, countedAttempt } from '../lib/quizAttempts';
+
+type Props = {
+  lesson: Lesson;
+  attempts: QuizAttempt[];
+};
+
+export default function QuizAttemptHistory({ lesson, attempts }: Props) {
+  const finished = attempts.filter(a => a.status === 'completed');
+  if (finished.length === 0) return null;
+
+  const counted = countedAttempt(lesson, attempts);
+  const left = attemptsLeft(lesson, attempts);
+
+  return (
+    <div className="w-full max-w-md mx-auto mb-8 text-left">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-slate-900">Your attempts</h4>
+        <span className="text-xs text-slate-500">
+          {lesson.attempt_scoring === 'latest' ? 'Latest score counts' : 'Best score counts'}
+          {left !== null && ` · ${left} ${left === 1 ? 'attempt' : 'attempts'} left`}
+        </span>
+      </div>
+      <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+        {finished.map((attempt, index) => (
+          <li key={attempt.id} className="flex items-center justify-between px-4 py-2 text-sm">
+            <span className="text-slate-600">
+              Attempt {index + 1} · {new Date(attempt.finished_at ?? attempt.started_at).toLocaleDateString()}
+            </span>
+            <span className="flex items-center space-x-2">
+              {attempt.id === counted?.id && (
+                <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">Counts</span>
+              )}
+              <span className="font-semibold text-slate-900">{Math.round((attempt.score ?? 0) * 100)}%</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Lesson, Question, QuizAttempt } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { QuizResponse } from '../lib/adaptiveQuiz';
+import { AnswerValue, GradeResult } from '../lib/grading';
+import { attemptsLeft, resumeResponses } from '../lib/quizAttempts';
+import { Lock } from 'lucide-react';
+import QuizView from './QuizView';
+import QuizAttemptHistory from './QuizAttemptHistory';
+import AttemptReview from './AttemptReview';
+
+type Props = {
+  lesson: Lesson;
+  questions: Question[];
+  grade: (
+    question: Question,
+    answer: AnswerValue,
+    timeTakenSeconds: number,
+    attemptId: string | null
+  ) => Promise<GradeResult | null>;
+  initialQuestionId?: string;
+  onQuestionChange?: (questionId: string | null) => void;
+  onProgress: (status: string, completionPercentage: number) => Promise<void>;
+  onClose: () => void;
+};
+
+/**
+ * Runs a quiz as a persistent attempt: resumes the learner's attempt in
+ * progress, records where they are, and offers retakes within the lesson's
+ * limit. Without a connection the quiz still runs without an attempt, which
+ * the backend only grades as a review of an attempt already finished.
+ */
+export default function QuizSession({
+  lesson,
+  questions,
+  grade,
+  initialQuestionId,
+  onQuestionChange,
+  onProgress,
+  onClose,
+}: Props) {
+  const { user } = useAuth();
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const [resumed, setResumed] = useState<QuizResponse[] | null>(null);
+  const [locked, setLocked] = useState(false);
+  const [retaken, setRetaken] = useState(false);
+  const [error, setError] = useState('');
+  // Answers wait for the question to be recorded, since the attempt only accepts questions it has shown.
+  const advancing = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    loadAttempts();
+  }, [lesson.id, user?.id]);
+
+  const loadAttempts = async () => {
+    if (!user) return;
+
+    try {
+      const history = await db.quizAttempts.listByLesson(user.id, lesson.id);
+      setAttempts(history);
+      if (!history.some(a => a.status === 'in_progress') && attemptsLeft(lesson, history) === 0) {
+        setLocked(true);
+        return;
+      }
+      await beginAttempt();
+    } catch (error) {
+      console.error('Error starting quiz attempt:', error);
+      setAttempt(null);
+      setResumed([]);
+    }
+  };
+
+  const beginAttempt = async () => {
+    const started = await db.quizAttempts.start(lesson.id);
+    const answers = started.question_ids.length > 0 ? await db.answers.listByAttempt(started.id) : [];
+    setAttempt(started);
+    setAttempts(prev => (prev.some(a => a.id === started.id) ? prev : [...prev, started]));
+    setResumed(resumeResponses(started, questions, answers));
+  };
+
+  const handleQuestionChange = (questionId: string | null) => {
+    onQuestionChange?.(questionId);
+    if (attempt && questionId) {
+      advancing.current = db.quizAttempts
+        .advance(attempt.id, questionId)
+        .catch(error => console.error('Error saving quiz position:', error));
+    }
+  };
+
+  // The lesson only counts as completed once its attempt is finished, so
+  // completion is recorded after finishing rather than when the quiz ends.
+  const handleProgress = (status: string, completionPercentage: number) =>
+    attempt && status === 'completed' ? Promise.resolve() : onProgress(status, completionPercentage);
+
+  const handleComplete = async () => {
+    if (!attempt) return;
+
+    try {
+      const finished = await db.quizAttempts.finish(attempt.id);
+      setAttempt(finished);
+      setAttempts(prev => prev.map(a => (a.id === finished.id ? finished : a)));
+      await onProgress('completed', 100);
+    } catch (error) {
+      console.error('Error finishing quiz attempt:', error);
+    }
+  };
+
+  const handleRetake = async () => {
+    setError('');
+    setResumed(null);
+    setRetaken(true);
+    try {
+      await beginAttempt();
+    } catch (error) {
+      setError((error as Error).message);
+      setLocked(true);
+    }
+  };
+
+  if (locked) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-20 h-20 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-6">
+          <Lock className="w-10 h-10 text-slate-500" />
+        </div>
+        <h3 className="text-2xl font-bold text-slate-900 mb-2">No attempts left</h3>
+        <p className="text-slate-600 mb-8">
+          {error || `This quiz allows ${lesson.max_attempts} ${lesson.max_attempts === 1 ? 'attempt' : 'attempts'}.`}
+        </p>
+        <QuizAttemptHistory lesson={lesson} attempts={attempts} />
+        <button
+          onClick={onClose}
+          className="px-8 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+        >
+          Continue Learning
+        </button>
+      </div>
+    );
+  }
+
+  if (!resumed) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const canRetake = attempt?.status === 'completed' && attemptsLeft(lesson, attempts) !== 0;
+
+  return (
+    <QuizView
+      key={attempt?.id ?? 'offline'}
+      questions={questions}
+      grade={async (question, answer, seconds) => {
+        await advancing.current;
+        return grade(question, answer, seconds, attempt?.id ?? null);
+      }}
+      initialQuestionId={retaken ? undefined : initialQuestionId ?? attempt?.current_question_id ?? undefined}
+      initialResponses={resumed}
+      onQuestionChange={handleQuestionChange}
+      onProgress={handleProgress}
+      onComplete={handleComplete}
+      onRetake={canRetake ? handleRetake : undefined}
+      onClose={onClose}
+    >
+      <QuizAttemptHistory lesson={lesson} attempts={attempts} />
+      {attempt?.status === 'completed' && <AttemptReview attempt={attempt} questions={questions} />}
+    </QuizView>
+  );
+}
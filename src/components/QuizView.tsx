@@ -0,0 +1,249 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { Question } from '../lib/supabase';
+import {
+  estimateAbility,
+  selectNextAssessment,
+  shouldStopQuiz,
+  QuizResponse,
+  MAX_QUESTIONS,
+} from '../lib/adaptiveQuiz';
+import { AnswerValue, GradeResult, emptyAnswer, isAnswerComplete } from '../lib/grading';
+import { CheckCircle, ChevronRight, Gauge, RotateCcw } from 'lucide-react';
+import QuestionInput from './QuestionInput';
+import AnswerFeedback from './AnswerFeedback';
+
+type Props = {
+  questions: Question[];
+  /** Grades and records an answer; resolves to null when it was queued for later. */
+  grade: (question: Question, answer: AnswerValue, timeTakenSeconds: number) => Promise<GradeResult | null>;
+  initialQuestionId?: string;
+  /** Answers already given in a resumed attempt. */
+  initialResponses?: QuizResponse[];
+  onQuestionChange?: (questionId: string | null) => void;
+  onProgress: (status: string, completionPercentage: number) => Promise<void>;
+  onComplete?: () => void;
+  /** Offered on the completion screen when another attempt is allowed. */
+  onRetake?: () => void;
+  /** Extra content for the completion screen, such as attempt history. */
+  children?: ReactNode;
+  onClose: () => void;
+};
+
+export default function QuizView({
+  questions,
+  grade,
+  initialQuestionId,
+  initialResponses = [],
+  onQuestionChange,
+  onProgress,
+  onComplete,
+  onRetake,
+  children,
+  onClose,
+}: Props) {
+  const [responses, setResponses] = useState<QuizResponse[]>(initialResponses);
+  const [current, setCurrent] = useState<Question | null>(() => {
+    const answered = new Set(initialResponses.map(r => r.assessment.id));
+    const estimate = estimateAbility(initialResponses);
+    return (
+      questions.find(q => q.id === initialQuestionId && !answered.has(q.id)) ??
+      (shouldStopQuiz(questions, initialResponses, estimate)
+        ? null
+        : selectNextAssessment(questions, initialResponses, estimate))
+    );
+  });
+  const [answer, setAnswer] = useState<AnswerValue>(() => (current ? emptyAnswer(current) : ''));
+  const [submitting, setSubmitting] = useState(false);
+  const [showExplanation, setShowExplanation] = useState(false);
+  const [result, setResult] = useState<GradeResult | null>(null);
+  const [error, setError] = useState('');
+  const [quizCompleted, setQuizCompleted] = useState(false);
+  const [questionStart, setQuestionStart] = useState(Date.now());
+
+  useEffect(() => {
+    onQuestionChange?.(quizCompleted ? null : current?.id ?? null);
+  }, [current?.id, quizCompleted]);
+
+  // A resumed attempt may already have every question it needs.
+  useEffect(() => {
+    if (!current && responses.length > 0) completeQuiz();
+  }, []);
+
+  const maxQuestions = Math.min(questions.length, MAX_QUESTIONS);
+  const estimate = estimateAbility(responses);
+
+  const handleAnswerSubmit = async () => {
+    if (!current || submitting || !isAnswerComplete(current, answer)) return;
+
+    setSubmitting(true);
+    setError('');
+    let graded: GradeResult | null;
+    try {
+      graded = await grade(current, answer, Math.round((Date.now() - questionStart) / 1000));
+    } catch (error) {
+      console.error('Error grading answer:', error);
+      setError((error as Error).message || 'Your answer could not be submitted.');
+      return;
+    } finally {
+      setSubmitting(false);
+    }
+
+    const nextResponses = [...responses, { assessment: current, score: graded?.score ?? null }];
+    setResult(graded);
+    setShowExplanation(true);
+    setResponses(nextResponses);
+
+    const progress = Math.round((nextResponses.length / maxQuestions) * 100);
+    await onProgress('in_progress', Math.min(progress, 99));
+  };
+
+  const handleNextQuestion = () => {
+    const next = shouldStopQuiz(questions, responses, estimate)
+      ? null
+      : selectNextAssessment(questions, responses, estimate);
+
+    if (next) {
+      setCurrent(next);
+      setAnswer(emptyAnswer(next));
+      setShowExplanation(false);
+      setResult(null);
+      setQuestionStart(Date.now());
+    } else {
+      completeQuiz();
+    }
+  };
+
+  const completeQuiz = () => {
+    setQuizCompleted(true);
+    onProgress('completed', 100);
+    onComplete?.();
+  };
+
+  if (quizCompleted || !current) {
+    const correctCount = responses.filter(r => r.score === 1).length;
+    const pendingCount = responses.filter(r => r.score === null).length;
+    const confidence = Math.round(Math.max(0, 1 - estimate.standardError) * 100);
+
+    return (
+      <div className="text-center py-12">
+        <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-6">
+          <CheckCircle className="w-10 h-10 text-green-600" />
+        </div>
+        <h3 className="text-3xl font-bold text-slate-900 mb-2">Quiz Completed!</h3>
+        <p className="text-xl text-slate-600 mb-2">
+          Estimated mastery: <span className="font-semibold text-slate-900">{estimate.label}</span>
+        </p>
+        <p className="text-sm text-slate-500 mb-8">
+          {correctCount} of {responses.length} correct · estimate confidence {confidence}%
+          {pendingCount > 0 && ` · ${pendingCount} waiting to be graded`}
+        </p>
+        <div className="w-full max-w-md mx-auto mb-8">
+          <div className="flex justify-between text-xs font-medium text-slate-500 mb-2">
+            <span>Beginning</span>
+            <span>Developing</span>
+            <span>Proficient</span>
+            <span>Advanced</span>
+          </div>
+          <div className="bg-slate-200 rounded-full h-4">
+            <div
+              className="bg-green-600 h-4 rounded-full transition-all duration-300"
+              style={{ width: `${estimate.mastery}%` }}
+            ></div>
+          </div>
+        </div>
+        {children}
+        <div className="flex items-center justify-center space-x-3">
+          {onRetake && (
+            <button
+              onClick={onRetake}
+              className="flex items-center space-x-2 px-6 py-3 text-slate-700 border border-slate-300 rounded-lg font-medium hover:bg-slate-50 transition"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>Retake Quiz</span>
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-8 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+          >
+            Continue Learning
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const answeredCount = responses.length - (showExplanation ? 1 : 0);
+
+  return (
+    <div>
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-sm font-medium text-slate-600">
+            Question {answeredCount + 1} · up to {maxQuestions}
+          </span>
+          <div className="flex items-center space-x-3">
+            {responses.length > 0 && (
+              <span className="flex items-center space-x-1 text-xs font-medium text-slate-500">
+                <Gauge className="w-4 h-4" />
+                <span>{estimate.label}</span>
+              </span>
+            )}
+            <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+              current.difficulty === 'easy' ? 'bg-green-100 text-green-700' :
+              current.difficulty === 'hard' ? 'bg-red-100 text-red-700' :
+              'bg-yellow-100 text-yellow-700'
+            }`}>
+              {current.difficulty}
+            </span>
+          </div>
+        </div>
+        <div className="w-full bg-slate-200 rounded-full h-2">
+          <div
+            className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${((answeredCount + 1) / maxQuestions) * 100}%` }}
+          ></div>
+        </div>
+      </div>
+
+      <div className="mb-8">
+        <h3 className="text-xl font-semibold text-slate-900 mb-6">
+          {current.question}
+        </h3>
+
+        <QuestionInput
+          key={current.id}
+          question={current}
+          answer={answer}
+          submitted={showExplanation}
+          result={result}
+          onChange={setAnswer}
+        />
+      </div>
+
+      {showExplanation && <AnswerFeedback result={result} />}
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <div className="flex justify-end">
+        {!showExplanation ? (
+          <button
+            onClick={handleAnswerSubmit}
+            disabled={submitting || !isAnswerComplete(current, answer)}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Submit Answer
+          </button>
+        ) : (
+          <button
+            onClick={handleNextQuestion}
+            className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+          >
+            <span>{shouldStopQuiz(questions, responses, estimate) ? 'Complete Quiz' : 'Next Question'}</span>
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Profile } from '../lib/supabase';
+import { browserTimeZone, isValidTimeZone, WEEKDAY_LABELS } from '../lib/goals';
+import { browserRemindersSupported, requestBrowserReminders } from '../lib/goalReminders';
+
+type Props = {
+  profile: Profile;
+  onChange: (updates: Partial<Profile>) => void;
+};
+
+const inputClass =
+  'w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export default function ReminderSettings({ profile, onChange }: Props) {
+  const [timeZone, setTimeZone] = useState(profile.time_zone || 'UTC');
+  const [error, setError] = useState('');
+  const deviceTimeZone = browserTimeZone();
+
+  const saveTimeZone = (value: string) => {
+    const trimmed = value.trim();
+    setTimeZone(trimmed);
+    if (!isValidTimeZone(trimmed)) {
+      setError('Enter a time zone such as Europe/Berlin or America/New_York.');
+      return;
+    }
+    setError('');
+    if (trimmed !== profile.time_zone) onChange({ time_zone: trimmed });
+  };
+
+  const handleBrowserReminders = async (enabled: boolean) => {
+    setError('');
+    if (enabled && !(await requestBrowserReminders())) {
+      setError('Your browser is blocking notifications from this site. Allow them in its settings and try again.');
+      return;
+    }
+    onChange({ browser_reminders: enabled });
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-slate-700 mb-2">Goals and Reminders</h3>
+      <div className="space-y-4 border border-slate-200 rounded-lg p-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Time Zone</label>
+          <div className="flex items-center space-x-2">
+            <input
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              onBlur={(e) => saveTimeZone(e.target.value)}
+              className={inputClass}
+            />
+            {deviceTimeZone !== profile.time_zone && (
+              <button
+                onClick={() => saveTimeZone(deviceTimeZone)}
+                className="flex-shrink-0 px-3 py-2 text-sm text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition"
+              >
+                Use {deviceTimeZone}
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Week Starts On</label>
+            <select
+              value={profile.week_starts_on ?? 1}
+              onChange={(e) => onChange({ week_starts_on: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {WEEKDAY_LABELS.map((label, day) => (
+                <option key={day} value={day}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Remind Me From</label>
+            <select
+              value={profile.reminder_hour ?? 18}
+              onChange={(e) => onChange({ reminder_hour: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {HOURS.map(hour => (
+                <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={!!profile.browser_reminders}
+            disabled={!browserRemindersSupported()}
+            onChange={(e) => handleBrowserReminders(e.target.checked)}
+          />
+          <span>
+            {browserRemindersSupported()
+              ? 'Also send reminders as browser notifications'
+              : 'This browser does not support notifications'}
+          </span>
+        </label>
+
+        <p className="text-xs text-slate-500">
+          Reminders are checked while the app is open, so they arrive the next time you open it after the hour above.
+        </p>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
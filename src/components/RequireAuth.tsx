@@ -0,0 +1,19 @@
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { paths } from '../lib/routes';
+
+type Props = {
+  children: React.ReactNode;
+};
+
+/** Sends signed-out visitors to the login page, remembering where they were headed. */
+export default function RequireAuth({ children }: Props) {
+  const { user } = useAuth();
+  const location = useLocation();
+
+  if (!user) {
+    return <Navigate to={paths.login} replace state={{ from: location }} />;
+  }
+
+  return <>{children}</>;
+}
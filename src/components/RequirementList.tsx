@@ -0,0 +1,20 @@
+import { RequirementStatus } from '../lib/prerequisites';
+import { CheckCircle, Lock } from 'lucide-react';
+
+type Props = {
+  requirements: RequirementStatus[];
+};
+
+/** Unlock requirements of a locked lesson or course, ticking off the ones already met. */
+export default function RequirementList({ requirements }: Props) {
+  return (
+    <ul className="space-y-1">
+      {requirements.map(({ rule, met, label }) => (
+        <li key={rule.id} className={`flex items-center space-x-2 text-sm ${met ? 'text-green-700' : 'text-slate-600'}`}>
+          {met ? <CheckCircle className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+          <span>{label}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
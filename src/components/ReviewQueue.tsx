@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Question, ReviewState } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { submitAnswer } from '../lib/offlineSync';
+import {
+  AnswerValue,
+  GradeResult,
+  emptyAnswer,
+  isAnswerComplete,
+  describeCorrectAnswer,
+} from '../lib/grading';
+import { Brain, CheckCircle, ChevronRight } from 'lucide-react';
+import QuestionInput from './QuestionInput';
+import AnswerFeedback from './AnswerFeedback';
+
+type DueReview = {
+  state: ReviewState;
+  question: Question;
+};
+
+type Props = {
+  onReviewed: () => void;
+};
+
+export default function ReviewQueue({ onReviewed }: Props) {
+  const { user } = useAuth();
+  const [queue, setQueue] = useState<DueReview[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [answer, setAnswer] = useState<AnswerValue>('');
+  const [submitting, setSubmitting] = useState(false);
+  const [showExplanation, setShowExplanation] = useState(false);
+  const [result, setResult] = useState<GradeResult | null>(null);
+  const [error, setError] = useState('');
+  const [correctCount, setCorrectCount] = useState(0);
+  const [questionStart, setQuestionStart] = useState(Date.now());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadQueue();
+  }, [user]);
+
+  const loadQueue = async () => {
+    if (!user) return;
+
+    try {
+      const states = await db.reviewStates.listDue(user.id, new Date().toISOString());
+
+      if (states.length === 0) {
+        setQueue([]);
+        return;
+      }
+
+      const questions = await db.questions.listByIds(states.map(s => s.assessment_id));
+
+      const due = states.flatMap(state => {
+        const question = questions.find(q => q.id === state.assessment_id);
+        return question ? [{ state, question }] : [];
+      });
+      setQueue(due);
+      if (due.length > 0) setAnswer(emptyAnswer(due[0].question));
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAnswerSubmit = async () => {
+    const { question } = queue[current];
+    if (!user || submitting || !isAnswerComplete(question, answer)) return;
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const graded = await submitAnswer(user.id, {
+        assessment_id: question.id,
+        answer,
+        time_taken_seconds: Math.round((Date.now() - questionStart) / 1000),
+      });
+      setResult(graded);
+      setShowExplanation(true);
+
+      if (graded?.is_correct) {
+        setCorrectCount(correctCount + 1);
+      }
+    } catch (error) {
+      console.error('Error grading review:', error);
+      setError((error as Error).message || 'Your answer could not be submitted.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleNext = () => {
+    setCurrent(current + 1);
+    setAnswer(queue[current + 1] ? emptyAnswer(queue[current + 1].question) : '');
+    setShowExplanation(false);
+    setResult(null);
+    setQuestionStart(Date.now());
+
+    if (current + 1 >= queue.length) {
+      onReviewed();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const header = (
+    <div className="mb-8">
+      <h1 className="text-3xl font-bold text-slate-900 mb-2">Reviews Due</h1>
+      <p className="text-slate-600">Revisit questions right before you would forget them</p>
+    </div>
+  );
+
+  if (queue.length === 0 || current >= queue.length) {
+    const finished = queue.length > 0;
+    return (
+      <div className="max-w-3xl mx-auto">
+        {header}
+        <div className="bg-white rounded-xl border border-slate-200 p-12 text-center">
+          <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <CheckCircle className="w-10 h-10 text-green-600" />
+          </div>
+          <h3 className="text-2xl font-bold text-slate-900 mb-2">
+            {finished ? 'Review session complete!' : "You're all caught up"}
+          </h3>
+          <p className="text-slate-600">
+            {finished
+              ? `You recalled ${correctCount} of ${queue.length} questions. Missed ones will come back tomorrow.`
+              : 'Questions you answer in quizzes will show up here when they are due for review.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { state, question } = queue[current];
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      {header}
+      <div className="bg-white rounded-xl border border-slate-200 p-8">
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <span className="text-sm font-medium text-slate-600">
+              Review {current + 1} of {queue.length}
+            </span>
+            <span className="flex items-center space-x-1 text-xs font-medium text-slate-500">
+              <Brain className="w-4 h-4" />
+              <span>
+                {state.lapses > 0 ? `Missed ${state.lapses}×` : `Interval ${state.interval_days}d`}
+              </span>
+            </span>
+          </div>
+          <div className="w-full bg-slate-200 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${((current + 1) / queue.length) * 100}%` }}
+            ></div>
+          </div>
+        </div>
+
+        <div className="mb-8">
+          <h3 className="text-xl font-semibold text-slate-900 mb-6">{question.question}</h3>
+          <QuestionInput
+            key={question.id}
+            question={question}
+            answer={answer}
+            submitted={showExplanation}
+            result={result}
+            onChange={setAnswer}
+          />
+        </div>
+
+        {showExplanation && (
+          <AnswerFeedback
+            result={result}
+            correctAnswer={result?.solution ? describeCorrectAnswer(question.question_type, result.solution) : undefined}
+          />
+        )}
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        <div className="flex justify-end">
+          {!showExplanation ? (
+            <button
+              onClick={handleAnswerSubmit}
+              disabled={submitting || !isAnswerComplete(question, answer)}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Submit Answer
+            </button>
+          ) : (
+            <button
+              onClick={handleNext}
+              className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+            >
+              <span>{current < queue.length - 1 ? 'Next Review' : 'Finish Session'}</span>
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
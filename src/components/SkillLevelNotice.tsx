@@ -0,0 +1,61 @@
+import { SkillLevelCalibration } from '../lib/supabase';
+import { LEVELS, LEVEL_LABELS } from '../lib/skillCalibration';
+import { Gauge, X } from 'lucide-react';
+
+type Props = {
+  calibration: SkillLevelCalibration;
+  onAccept: () => void;
+  onDismiss: () => void;
+};
+
+/** Offers a suggested skill level change, or reports one that was applied automatically. */
+export default function SkillLevelNotice({ calibration, onAccept, onDismiss }: Props) {
+  const pending = calibration.status === 'pending';
+  const to = LEVEL_LABELS[calibration.to_level];
+  const raising = LEVELS.indexOf(calibration.to_level) > LEVELS.indexOf(calibration.from_level);
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-xl p-6 mb-8">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start space-x-4">
+          <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center flex-shrink-0">
+            <Gauge className="w-6 h-6 text-blue-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900 mb-1">
+              {pending
+                ? raising ? `Ready for ${to}?` : `Would ${to} suit you better?`
+                : `Your skill level is now ${to}`}
+            </h2>
+            <ul className="text-sm text-slate-600 space-y-1 mb-4">
+              {calibration.reasons.map(reason => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+            {pending && (
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={onAccept}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+                >
+                  Switch to {to}
+                </button>
+                <button
+                  onClick={onDismiss}
+                  className="px-4 py-2 text-slate-700 border border-slate-300 rounded-lg hover:bg-white transition"
+                >
+                  Keep {LEVEL_LABELS[calibration.from_level]}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+        {!pending && (
+          <button onClick={onDismiss} aria-label="Close" className="p-1 text-slate-400 hover:text-slate-600 transition">
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState, useEffect } from 'react';
+import { Skill } from '../lib/supabase';
+import { db, Saveable, SkillInput } from '../lib/repositories';
+import { emptySkill, saveSkill, deleteSkill } from '../lib/authoring';
+import { buildSkillMap, SkillNode } from '../lib/knowledgeTracing';
+import { ArrowLeft, Pencil, Trash2, Plus, Save } from 'lucide-react';
+
+type Props = {
+  onBack: () => void;
+};
+
+const PARAM_FIELDS: { key: 'p_init' | 'p_learn' | 'p_slip' | 'p_guess'; label: string; hint: string }[] = [
+  { key: 'p_init', label: 'Prior knowledge', hint: 'Knows it before any practice' },
+  { key: 'p_learn', label: 'Learn rate', hint: 'Learns it from one answer' },
+  { key: 'p_slip', label: 'Slip', hint: 'Answers wrong despite knowing it' },
+  { key: 'p_guess', label: 'Guess', hint: 'Answers right without knowing it' },
+];
+
+const inputClass =
+  'w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+const flatten = (nodes: SkillNode[], depth = 0): { skill: Skill; depth: number }[] =>
+  nodes.flatMap(node => [{ skill: node.skill, depth }, ...flatten(node.children, depth + 1)]);
+
+export default function SkillManager({ onBack }: Props) {
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [draft, setDraft] = useState<Saveable<SkillInput>>(emptySkill());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadSkills();
+  }, []);
+
+  const loadSkills = async () => {
+    try {
+      setSkills(await db.skills.list());
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const rows = flatten(buildSkillMap(skills, []));
+
+  // A skill can't sit under itself or anything beneath it.
+  const descendants = (id: string): string[] =>
+    skills.filter(s => s.parent_id === id).flatMap(s => [s.id, ...descendants(s.id)]);
+  const excluded = draft.id ? [draft.id, ...descendants(draft.id)] : [];
+  const parents = rows.filter(r => !excluded.includes(r.skill.id));
+
+  const update = (changes: Partial<SkillInput>) => setDraft({ ...draft, ...changes });
+
+  const handleSave = async () => {
+    setError('');
+    if (!draft.name.trim()) {
+      setError('Skill name is required.');
+      return;
+    }
+    if (PARAM_FIELDS.some(({ key }) => !(draft[key] > 0 && draft[key] < 1))) {
+      setError('Every probability must be between 1 and 99%.');
+      return;
+    }
+    if (draft.p_slip + draft.p_guess >= 1) {
+      setError('Slip and guess together must stay below 100%.');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveSkill(draft);
+    setSaving(false);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setDraft(emptySkill());
+    loadSkills();
+  };
+
+  const handleEdit = ({ id, name, description, parent_id, p_init, p_learn, p_slip, p_guess }: Skill) => {
+    setError('');
+    setDraft({ id, name, description, parent_id, p_init, p_learn, p_slip, p_guess });
+  };
+
+  const handleDelete = async (skill: Skill) => {
+    if (!confirm(`Delete "${skill.name}"? It will be removed from every lesson and question.`)) return;
+    const { error } = await deleteSkill(skill.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    if (draft.id === skill.id) setDraft(emptySkill());
+    loadSkills();
+  };
+
+  return (
+    <div>
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 mb-6 transition"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        <span>Back to Authoring</span>
+      </button>
+
+      <div className="bg-white rounded-xl border border-slate-200 p-8 mb-8">
+        <h2 className="text-2xl font-bold text-slate-900 mb-1">Skills</h2>
+        <p className="text-sm text-slate-500 mb-6">
+          Tag lessons and questions with skills to track how well each learner knows every concept.
+        </p>
+
+        <div className="space-y-2">
+          {rows.map(({ skill, depth }) => (
+            <div
+              key={skill.id}
+              style={{ marginLeft: depth * 24 }}
+              className={`flex items-center justify-between p-3 border rounded-lg ${
+                draft.id === skill.id ? 'border-blue-400 bg-blue-50' : 'border-slate-200'
+              }`}
+            >
+              <div>
+                <span className="font-medium text-slate-900">{skill.name}</span>
+                {skill.description && <p className="text-sm text-slate-500 line-clamp-1">{skill.description}</p>}
+              </div>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => handleEdit(skill)}
+                  aria-label="Edit"
+                  className="p-2 text-slate-400 hover:text-blue-600 transition"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(skill)}
+                  aria-label="Delete"
+                  className="p-2 text-slate-400 hover:text-red-600 transition"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+          {rows.length === 0 && <p className="text-sm text-slate-500">No skills yet. Add the first one below.</p>}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 p-8">
+        <h3 className="text-xl font-bold text-slate-900 mb-6">{draft.id ? 'Edit Skill' : 'New Skill'}</h3>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Name</label>
+              <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Part Of</label>
+              <select
+                value={draft.parent_id ?? ''}
+                onChange={(e) => update({ parent_id: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">Nothing (top level)</option>
+                {parents.map(({ skill, depth }) => (
+                  <option key={skill.id} value={skill.id}>
+                    {'  '.repeat(depth)}{skill.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Description</label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => update({ description: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-900 mb-1">Knowledge Tracing</h4>
+            <p className="text-sm text-slate-500 mb-3">
+              Probabilities used to estimate mastery from answers. The defaults suit most skills.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {PARAM_FIELDS.map(({ key, label, hint }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">{label} (%)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={99}
+                    value={Math.round(draft[key] * 100)}
+                    onChange={(e) => update({ [key]: Number(e.target.value) / 100 })}
+                    className={inputClass}
+                  />
+                  <p className="text-xs text-slate-500 mt-1">{hint}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+        <div className="flex items-center justify-end space-x-3 mt-6">
+          {draft.id && (
+            <button
+              onClick={() => { setDraft(emptySkill()); setError(''); }}
+              className="px-4 py-2 text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {draft.id ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+            <span>{draft.id ? 'Save Skill' : 'Add Skill'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
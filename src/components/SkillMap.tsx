@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import { Skill, SkillMastery } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { buildSkillMap, MasteryLevel, MASTERY_LEVEL_LABELS, SkillNode } from '../lib/knowledgeTracing';
+
+type Props = {
+  userId: string;
+};
+
+const LEVEL_STYLES: Record<MasteryLevel, { badge: string; bar: string }> = {
+  not_started: { badge: 'bg-slate-100 text-slate-600', bar: 'bg-slate-300' },
+  learning: { badge: 'bg-orange-100 text-orange-700', bar: 'bg-orange-500' },
+  proficient: { badge: 'bg-blue-100 text-blue-700', bar: 'bg-blue-600' },
+  mastered: { badge: 'bg-green-100 text-green-700', bar: 'bg-green-600' },
+};
+
+export default function SkillMap({ userId }: Props) {
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [mastery, setMastery] = useState<SkillMastery[]>([]);
+
+  useEffect(() => {
+    loadSkillMap();
+  }, [userId]);
+
+  const loadSkillMap = async () => {
+    try {
+      const [skillRows, masteryRows] = await Promise.all([
+        db.skills.list(),
+        db.skillMastery.listByUser(userId),
+      ]);
+      setSkills(skillRows);
+      setMastery(masteryRows);
+    } catch (error) {
+      console.error('Error loading skill map:', error);
+    }
+  };
+
+  if (skills.length === 0) return null;
+
+  const renderNode = (node: SkillNode, depth: number) => {
+    const percent = Math.round((node.mastery?.p_mastery ?? 0) * 100);
+    const styles = LEVEL_STYLES[node.level];
+
+    return (
+      <div key={node.skill.id}>
+        <div className="py-3" style={{ paddingLeft: depth * 24 }}>
+          <div className="flex items-center justify-between mb-2">
+            <div>
+              <span className="font-medium text-slate-900">{node.skill.name}</span>
+              {node.mastery && (
+                <span className="text-xs text-slate-500 ml-2">
+                  {node.mastery.evidence_count} {node.mastery.evidence_count === 1 ? 'answer' : 'answers'}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center space-x-3">
+              {node.level !== 'not_started' && <span className="text-sm font-semibold text-slate-900">{percent}%</span>}
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${styles.badge}`}>
+                {MASTERY_LEVEL_LABELS[node.level]}
+              </span>
+            </div>
+          </div>
+          <div className="w-full bg-slate-200 rounded-full h-2">
+            <div
+              className={`${styles.bar} h-2 rounded-full transition-all duration-300`}
+              style={{ width: `${node.level === 'not_started' ? 0 : percent}%` }}
+            ></div>
+          </div>
+        </div>
+        {node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-8 border border-slate-200 mb-8">
+      <h2 className="text-2xl font-bold text-slate-900 mb-1">Skill Map</h2>
+      <p className="text-sm text-slate-500 mb-6">
+        How likely you are to know each skill, estimated from every answer you give.
+      </p>
+      <div className="divide-y divide-slate-100">
+        {buildSkillMap(skills, mastery).map(node => renderNode(node, 0))}
+      </div>
+    </div>
+  );
+}
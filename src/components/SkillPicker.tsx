@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import { Skill } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { Check } from 'lucide-react';
+
+type Props = {
+  value: string[];
+  onChange: (skillIds: string[]) => void;
+  /** Shown under the label, e.g. what an empty selection means. */
+  hint?: string;
+};
+
+export default function SkillPicker({ value, onChange, hint }: Props) {
+  const [skills, setSkills] = useState<Skill[]>([]);
+
+  useEffect(() => {
+    db.skills.list().then(setSkills).catch(error => console.error('Error loading skills:', error));
+  }, []);
+
+  const toggle = (id: string) => onChange(value.includes(id) ? value.filter(s => s !== id) : [...value, id]);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-1">Skills</label>
+      {hint && <p className="text-xs text-slate-500 mb-2">{hint}</p>}
+      <div className="flex flex-wrap gap-2">
+        {skills.map(skill => {
+          const selected = value.includes(skill.id);
+          return (
+            <button
+              key={skill.id}
+              type="button"
+              onClick={() => toggle(skill.id)}
+              aria-pressed={selected}
+              className={`flex items-center space-x-1 px-3 py-1 rounded-full text-sm border transition ${
+                selected
+                  ? 'bg-blue-50 border-blue-400 text-blue-700'
+                  : 'border-slate-300 text-slate-600 hover:bg-slate-50'
+              }`}
+            >
+              {selected && <Check className="w-3.5 h-3.5" />}
+              <span>{skill.name}</span>
+            </button>
+          );
+        })}
+        {skills.length === 0 && (
+          <p className="text-sm text-slate-500">No skills yet. Add them from Skills in the authoring console.</p>
+        )}
+      </div>
+    </div>
+  );
+}
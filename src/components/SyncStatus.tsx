@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { SyncState, subscribeSyncState, flushOutbox } from '../lib/offlineSync';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+
+export default function SyncStatus() {
+  const [sync, setSync] = useState<SyncState | null>(null);
+
+  useEffect(() => subscribeSyncState(setSync), []);
+
+  if (!sync) return null;
+
+  if (!sync.online) {
+    return (
+      <span
+        title="Progress is saved on this device and will sync when you reconnect"
+        className="flex items-center space-x-1.5 px-3 py-1 rounded-full bg-slate-100 text-slate-700 text-xs font-medium"
+      >
+        <CloudOff className="w-4 h-4" />
+        <span>Offline{sync.pending > 0 && ` · ${sync.pending} pending`}</span>
+      </span>
+    );
+  }
+
+  if (sync.syncing) {
+    return (
+      <span className="flex items-center space-x-1.5 px-3 py-1 rounded-full bg-blue-50 text-blue-700 text-xs font-medium">
+        <RefreshCw className="w-4 h-4 animate-spin" />
+        <span>Syncing {sync.pending}</span>
+      </span>
+    );
+  }
+
+  if (sync.error || sync.pending > 0) {
+    return (
+      <button
+        onClick={() => flushOutbox()}
+        title={sync.error ?? undefined}
+        className="flex items-center space-x-1.5 px-3 py-1 rounded-full bg-orange-100 text-orange-700 text-xs font-medium hover:bg-orange-200 transition"
+      >
+        <AlertTriangle className="w-4 h-4" />
+        <span>{sync.pending} not synced · Retry</span>
+      </button>
+    );
+  }
+
+  return (
+    <span
+      title={sync.lastSyncedAt ? `Last synced ${new Date(sync.lastSyncedAt).toLocaleTimeString()}` : 'All changes saved'}
+      className="flex items-center space-x-1.5 px-3 py-1 rounded-full text-green-700 text-xs font-medium"
+    >
+      <Cloud className="w-4 h-4" />
+      <span>Synced</span>
+    </span>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { LessonVariant, Profile } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { saveLessonVariant, deleteLessonVariant } from '../lib/authoring';
+import { LEARNING_STYLES, LEARNING_STYLE_LABELS } from '../lib/lessonVariants';
+import { Shapes, Save, Trash2 } from 'lucide-react';
+
+type Props = {
+  lessonId: string;
+};
+
+type Style = Profile['learning_style'];
+
+const inputClass =
+  'w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export default function VariantEditor({ lessonId }: Props) {
+  const [variants, setVariants] = useState<LessonVariant[]>([]);
+  const [style, setStyle] = useState<Style>('visual');
+  const [content, setContent] = useState('');
+  const [audioUrl, setAudioUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadVariants();
+  }, [lessonId]);
+
+  const loadVariants = async () => {
+    try {
+      const rows = await db.lessonVariants.listByLessons([lessonId]);
+      setVariants(rows);
+      showStyle(style, rows);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const showStyle = (next: Style, rows = variants) => {
+    const existing = rows.find(v => v.learning_style === next);
+    setStyle(next);
+    setContent(existing?.content ?? '');
+    setAudioUrl(existing?.audio_url ?? '');
+    setError('');
+  };
+
+  const current = variants.find(v => v.learning_style === style);
+
+  const handleSave = async () => {
+    if (!content.trim()) {
+      setError('Write the content for this variant.');
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await saveLessonVariant({
+      lesson_id: lessonId,
+      learning_style: style,
+      content,
+      audio_url: audioUrl,
+    });
+    setSaving(false);
+    if (error || !data) {
+      setError(error?.message ?? 'Could not save the variant.');
+      return;
+    }
+    setVariants([...variants.filter(v => v.learning_style !== style), data]);
+  };
+
+  const handleDelete = async () => {
+    if (!current || !confirm(`Remove the ${LEARNING_STYLE_LABELS[style].toLowerCase()} variant?`)) return;
+    const { error } = await deleteLessonVariant(current.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    const rows = variants.filter(v => v.id !== current.id);
+    setVariants(rows);
+    showStyle(style, rows);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-8 mb-8">
+      <div className="flex items-center space-x-2 mb-1">
+        <Shapes className="w-5 h-5 text-slate-500" />
+        <h2 className="text-2xl font-bold text-slate-900">Learning Style Variants</h2>
+      </div>
+      <p className="text-sm text-slate-500 mb-6">
+        Learners see the variant for their learning style instead of the content above, and can switch between them.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {LEARNING_STYLES.map(option => {
+          const exists = variants.some(v => v.learning_style === option);
+          return (
+            <button
+              key={option}
+              onClick={() => showStyle(option)}
+              className={`px-3 py-1 rounded-full text-sm border transition ${
+                style === option
+                  ? 'bg-blue-50 border-blue-400 text-blue-700'
+                  : 'border-slate-300 text-slate-600 hover:bg-slate-50'
+              }`}
+            >
+              {LEARNING_STYLE_LABELS[option]}
+              {exists && <span className="ml-1 text-green-600">●</span>}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Content (Markdown)</label>
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            rows={10}
+            className={`${inputClass} font-mono text-sm`}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Narration Audio URL (optional)</label>
+          <input value={audioUrl} onChange={(e) => setAudioUrl(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+      <div className="flex items-center justify-end space-x-3 mt-6">
+        {current && (
+          <button
+            onClick={handleDelete}
+            className="flex items-center space-x-2 px-4 py-2 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Remove</span>
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>{current ? 'Save Variant' : 'Add Variant'}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { Lesson, VariantOutcome } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { LEARNING_STYLE_LABELS } from '../lib/lessonVariants';
+import { BarChart3 } from 'lucide-react';
+
+type Props = {
+  courseId: string;
+  lessons: Lesson[];
+};
+
+// Averages over fewer answers than this are too noisy to call a winner.
+const MIN_ANSWERS_TO_COMPARE = 5;
+
+/** Compares quiz results between the learning style variants of each lesson. */
+export default function VariantOutcomes({ courseId, lessons }: Props) {
+  const [outcomes, setOutcomes] = useState<VariantOutcome[]>([]);
+
+  useEffect(() => {
+    db.lessonVariants.outcomesByCourse(courseId)
+      .then(setOutcomes)
+      .catch(error => console.error('Error loading variant outcomes:', error));
+  }, [courseId]);
+
+  const rows = lessons
+    .map(lesson => ({ lesson, outcomes: outcomes.filter(o => o.lesson_id === lesson.id) }))
+    .filter(row => row.outcomes.length > 0);
+  if (rows.length === 0) return null;
+
+  const best = (lessonOutcomes: VariantOutcome[]) => {
+    const comparable = lessonOutcomes.filter(o => o.answers >= MIN_ANSWERS_TO_COMPARE && o.average_score !== null);
+    if (comparable.length < 2) return null;
+    return comparable.reduce((a, b) => ((b.average_score ?? 0) > (a.average_score ?? 0) ? b : a));
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-8 mt-8">
+      <div className="flex items-center space-x-2 mb-1">
+        <BarChart3 className="w-5 h-5 text-slate-500" />
+        <h2 className="text-2xl font-bold text-slate-900">Variant Outcomes</h2>
+      </div>
+      <p className="text-sm text-slate-500 mb-6">
+        Average score on questions from each lesson onwards, grouped by the format learners last read.
+      </p>
+
+      <div className="space-y-6">
+        {rows.map(({ lesson, outcomes: lessonOutcomes }) => {
+          const winner = best(lessonOutcomes);
+          return (
+            <div key={lesson.id}>
+              <h3 className="font-semibold text-slate-900 mb-2">{lesson.title}</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    <th className="py-2 font-medium">Format</th>
+                    <th className="py-2 font-medium">Learners</th>
+                    <th className="py-2 font-medium">Answers</th>
+                    <th className="py-2 font-medium">Average Score</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lessonOutcomes.map(outcome => (
+                    <tr key={outcome.learning_style ?? 'standard'} className="border-b border-slate-100">
+                      <td className="py-2 text-slate-900">
+                        {outcome.learning_style ? LEARNING_STYLE_LABELS[outcome.learning_style] : 'Standard'}
+                        {outcome === winner && (
+                          <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">
+                            Best
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 text-slate-600">{outcome.learners}</td>
+                      <td className="py-2 text-slate-600">{outcome.answers}</td>
+                      <td className="py-2 font-semibold text-slate-900">
+                        {outcome.average_score === null ? '—' : `${Math.round(outcome.average_score * 100)}%`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { LessonVariant, Profile } from '../lib/supabase';
+import { LEARNING_STYLE_LABELS } from '../lib/lessonVariants';
+
+type Style = Profile['learning_style'];
+
+type Props = {
+  variants: LessonVariant[];
+  /** The style shown, null for the lesson's own content. */
+  selected: Style | null;
+  learningStyle?: Style;
+  onSelect: (style: Style | null) => void;
+};
+
+export default function VariantSwitcher({ variants, selected, learningStyle, onSelect }: Props) {
+  const options: { style: Style | null; label: string }[] = [
+    { style: null, label: 'Standard' },
+    ...variants.map(v => ({ style: v.learning_style, label: LEARNING_STYLE_LABELS[v.learning_style] })),
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      <span className="text-sm text-slate-500 mr-1">Format:</span>
+      {options.map(({ style, label }) => (
+        <button
+          key={style ?? 'standard'}
+          onClick={() => onSelect(style)}
+          aria-pressed={selected === style}
+          className={`px-3 py-1 rounded-full text-sm border transition ${
+            selected === style
+              ? 'bg-blue-50 border-blue-400 text-blue-700'
+              : 'border-slate-300 text-slate-600 hover:bg-slate-50'
+          }`}
+        >
+          {label}
+          {style !== null && style === learningStyle && <span className="text-xs text-slate-500"> · your style</span>}
+        </button>
+      ))}
+    </div>
+  );
+}
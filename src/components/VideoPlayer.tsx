@@ -0,0 +1,216 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Lesson } from '../lib/supabase';
+import {
+  loadVideoProgress,
+  saveVideoProgress,
+  mergeSegments,
+  watchedFraction,
+  VIDEO_COMPLETION_THRESHOLD,
+} from '../lib/videoProgress';
+import { CheckCircle, FileText, RotateCcw } from 'lucide-react';
+import MarkdownContent from './MarkdownContent';
+
+type Props = {
+  lesson: Lesson;
+  preview?: boolean;
+  onProgress: (status: string, completionPercentage: number) => Promise<void>;
+};
+
+// Gaps between timeupdate events larger than this are treated as seeks.
+const MAX_PLAYBACK_STEP = 1.5;
+const SAVE_INTERVAL_MS = 10000;
+
+export default function VideoPlayer({ lesson, preview = false, onProgress }: Props) {
+  const { user } = useAuth();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const segmentsRef = useRef<[number, number][]>([]);
+  const lastTimeRef = useRef<number | null>(null);
+  const positionRef = useRef(0);
+  const durationRef = useRef(0);
+  const resumeAtRef = useRef(0);
+  const completedRef = useRef(false);
+  const dirtyRef = useRef(false);
+  const [watched, setWatched] = useState(0);
+  const [resumedFrom, setResumedFrom] = useState<number | null>(null);
+  const [showTranscript, setShowTranscript] = useState(false);
+
+  const persist = async () => {
+    const duration = durationRef.current;
+    if (!user || preview || !dirtyRef.current || !duration) return;
+    dirtyRef.current = false;
+
+    const fraction = watchedFraction(segmentsRef.current, duration);
+    await saveVideoProgress(user.id, lesson.id, {
+      position_seconds: positionRef.current,
+      duration_seconds: duration,
+      watched_segments: segmentsRef.current,
+    });
+
+    if (fraction >= VIDEO_COMPLETION_THRESHOLD) completedRef.current = true;
+    await onProgress(
+      completedRef.current ? 'completed' : 'in_progress',
+      completedRef.current ? 100 : Math.round(fraction * 100)
+    );
+  };
+
+  // The interval and unmount cleanup outlive the render they were set up in.
+  const persistRef = useRef(persist);
+  persistRef.current = persist;
+
+  useEffect(() => {
+    if (!user || preview) return;
+
+    loadVideoProgress(user.id, lesson.id).then(saved => {
+      if (!saved) return;
+      // Playback may already have started while this loaded.
+      segmentsRef.current = saved.watched_segments.reduce(
+        (segments, segment) => mergeSegments(segments, segment),
+        segmentsRef.current
+      );
+      resumeAtRef.current = saved.position_seconds;
+      const fraction = watchedFraction(segmentsRef.current, durationRef.current || saved.duration_seconds);
+      completedRef.current = fraction >= VIDEO_COMPLETION_THRESHOLD;
+      setWatched(fraction);
+
+      const video = videoRef.current;
+      if (video && video.readyState >= 1 && saved.position_seconds > 0) {
+        video.currentTime = saved.position_seconds;
+        setResumedFrom(saved.position_seconds);
+      }
+    });
+
+    const interval = setInterval(() => persistRef.current(), SAVE_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      persistRef.current();
+    };
+  }, [lesson.id, user]);
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    durationRef.current = video.duration;
+    if (resumeAtRef.current > 0 && resumeAtRef.current < video.duration) {
+      video.currentTime = resumeAtRef.current;
+      setResumedFrom(resumeAtRef.current);
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video || video.paused) return;
+
+    const now = video.currentTime;
+    const last = lastTimeRef.current;
+    lastTimeRef.current = now;
+    positionRef.current = now;
+
+    if (last === null || now <= last || now - last > MAX_PLAYBACK_STEP * video.playbackRate) return;
+
+    segmentsRef.current = mergeSegments(segmentsRef.current, [last, now]);
+    dirtyRef.current = true;
+    setWatched(watchedFraction(segmentsRef.current, video.duration));
+  };
+
+  const handleSeeking = () => {
+    lastTimeRef.current = null;
+  };
+
+  const handlePauseOrEnd = () => {
+    const video = videoRef.current;
+    lastTimeRef.current = null;
+    if (video) {
+      positionRef.current = video.ended ? 0 : video.currentTime;
+      dirtyRef.current = true;
+    }
+    persist();
+  };
+
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+  };
+
+  const percentage = Math.round(watched * 100);
+  const complete = watched >= VIDEO_COMPLETION_THRESHOLD;
+  const captionTracks = lesson.caption_tracks ?? [];
+  // Only ask for CORS when a caption file needs it, since it fails on video hosts without it.
+  const crossOriginCaptions = captionTracks.some(
+    track => new URL(track.src, window.location.href).origin !== window.location.origin
+  );
+
+  return (
+    <div className="mb-8">
+      <div className="rounded-xl overflow-hidden bg-black">
+        <video
+          ref={videoRef}
+          src={lesson.video_url}
+          controls
+          preload="metadata"
+          crossOrigin={crossOriginCaptions ? 'anonymous' : undefined}
+          className="w-full aspect-video"
+          onLoadedMetadata={handleLoadedMetadata}
+          onTimeUpdate={handleTimeUpdate}
+          onSeeking={handleSeeking}
+          onPause={handlePauseOrEnd}
+          onEnded={handlePauseOrEnd}
+        >
+          {captionTracks.map((track, index) => (
+            <track
+              key={track.src}
+              src={track.src}
+              srcLang={track.srclang}
+              label={track.label}
+              kind={track.kind ?? 'captions'}
+              default={index === 0}
+            />
+          ))}
+        </video>
+      </div>
+
+      <div className="mt-4 flex items-center justify-between">
+        <div className="flex items-center space-x-3 text-sm">
+          {complete ? (
+            <span className="flex items-center space-x-1 text-green-700 font-medium">
+              <CheckCircle className="w-4 h-4" />
+              <span>Lesson complete</span>
+            </span>
+          ) : (
+            <span className="text-slate-600">
+              Watched {percentage}% · watch {Math.round(VIDEO_COMPLETION_THRESHOLD * 100)}% to complete
+            </span>
+          )}
+          {resumedFrom !== null && (
+            <span className="flex items-center space-x-1 text-slate-500">
+              <RotateCcw className="w-3.5 h-3.5" />
+              <span>Resumed at {formatTime(resumedFrom)}</span>
+            </span>
+          )}
+        </div>
+        {lesson.transcript && (
+          <button
+            onClick={() => setShowTranscript(!showTranscript)}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition"
+          >
+            <FileText className="w-4 h-4" />
+            <span>{showTranscript ? 'Hide transcript' : 'Show transcript'}</span>
+          </button>
+        )}
+      </div>
+
+      <div className="w-full bg-slate-200 rounded-full h-2 mt-3">
+        <div
+          className={`h-2 rounded-full transition-all duration-300 ${complete ? 'bg-green-600' : 'bg-blue-600'}`}
+          style={{ width: `${percentage}%` }}
+        ></div>
+      </div>
+
+      {showTranscript && lesson.transcript && (
+        <div className="mt-6 p-6 bg-slate-50 border border-slate-200 rounded-xl max-h-80 overflow-y-auto">
+          <MarkdownContent content={lesson.transcript} />
+        </div>
+      )}
+    </div>
+  );
+}
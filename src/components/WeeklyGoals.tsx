@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Course, LearningGoal } from '../lib/supabase';
+import { db } from '../lib/repositories';
+import { GoalProgress, GOAL_KIND_LABELS, GOAL_STATE_LABELS, GoalState } from '../lib/goals';
+import { Pencil, Trash2, Plus } from 'lucide-react';
+import GoalRing from './GoalRing';
+import GoalEditor from './GoalEditor';
+
+type Props = {
+  userId: string;
+  timeZone: string;
+  weekStart: Date;
+  courses: Course[];
+  results: GoalProgress[];
+  onChanged: () => void;
+};
+
+const STATE_CLASSES: Record<GoalState, string> = {
+  done: 'bg-green-100 text-green-700',
+  on_track: 'bg-blue-100 text-blue-700',
+  behind: 'bg-orange-100 text-orange-700',
+  overdue: 'bg-red-100 text-red-700',
+};
+
+export default function WeeklyGoals({ userId, timeZone, weekStart, courses, results, onChanged }: Props) {
+  // The goal being edited, or null while adding one.
+  const [editing, setEditing] = useState<LearningGoal | null | undefined>(undefined);
+  const goals = results.map(r => r.goal);
+
+  const describe = ({ goal, target }: GoalProgress) => {
+    if (goal.kind === 'weekly_minutes') return `${target} minutes a week`;
+    if (goal.kind === 'weekly_lessons') return `${target} ${target === 1 ? 'lesson' : 'lessons'} a week`;
+    const course = courses.find(c => c.id === goal.course_id);
+    return `Finish ${course?.title ?? 'course'} by ${new Date(`${goal.deadline}T00:00:00`).toLocaleDateString()}`;
+  };
+
+  const handleDelete = async (goal: LearningGoal) => {
+    if (!confirm(`Remove the goal "${GOAL_KIND_LABELS[goal.kind]}"?`)) return;
+    try {
+      await db.goals.delete(goal.id);
+      onChanged();
+    } catch (error) {
+      console.error('Error deleting goal:', error);
+    }
+  };
+
+  const handleSaved = () => {
+    setEditing(undefined);
+    onChanged();
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-8 border border-slate-200 mb-8">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Goals</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            This week started {weekStart.toLocaleDateString(undefined, { timeZone, weekday: 'long', day: 'numeric' })}{' '}
+            ({timeZone}).
+          </p>
+        </div>
+        {editing === undefined && (
+          <button
+            onClick={() => setEditing(null)}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Goal</span>
+          </button>
+        )}
+      </div>
+
+      {editing !== undefined && (
+        <div className="mb-6">
+          <GoalEditor
+            key={editing?.id ?? 'new'}
+            userId={userId}
+            timeZone={timeZone}
+            courses={courses}
+            goals={goals}
+            goal={editing ?? undefined}
+            onSaved={handleSaved}
+            onCancel={() => setEditing(undefined)}
+          />
+        </div>
+      )}
+
+      {results.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {results.map(result => (
+            <div key={result.goal.id} className="flex items-center space-x-4 border border-slate-200 rounded-lg p-4">
+              <GoalRing fraction={result.fraction} state={result.state}>
+                <span className="text-xl font-bold text-slate-900">{result.current}</span>
+                <span className="text-xs text-slate-500">of {result.target}</span>
+              </GoalRing>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-medium text-slate-500 uppercase tracking-wide">
+                  {GOAL_KIND_LABELS[result.goal.kind]}
+                </p>
+                <p className="font-semibold text-slate-900 mt-1">{describe(result)}</p>
+                <span className={`inline-block mt-2 px-2 py-0.5 rounded-full text-xs font-medium ${STATE_CLASSES[result.state]}`}>
+                  {GOAL_STATE_LABELS[result.state]}
+                </span>
+                <div className="flex items-center space-x-1 mt-2">
+                  <button
+                    onClick={() => setEditing(result.goal)}
+                    aria-label="Edit"
+                    className="p-1 text-slate-400 hover:text-blue-600 transition"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(result.goal)}
+                    aria-label="Delete"
+                    className="p-1 text-slate-400 hover:text-red-600 transition"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        editing === undefined && (
+          <p className="text-slate-600">
+            Set a weekly target or a date to finish a course by, and we will remind you if you fall behind.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { ActivityEvent, DailyActivity } from './supabase';
+import { localDay } from './goals';
+
+/** Local calendar days (`YYYY-MM-DD`), both inclusive. */
+export type ActivityRange = { from: string; to: string };
+
+export type RangePreset = '7d' | '30d' | '90d' | '365d';
+
+const PRESET_DAYS: Record<RangePreset, number> = { '7d': 7, '30d': 30, '90d': 90, '365d': 365 };
+
+export const RANGE_PRESET_LABELS: Record<RangePreset, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  '365d': 'Last year',
+};
+
+/** Longest custom range, which keeps the heatmap readable. */
+export const MAX_RANGE_DAYS = 731;
+
+// Heatmap shades start at these daily minutes.
+const HEAT_LEVELS = [1, 15, 30, 60];
+
+export type DaySummary = {
+  day: string;
+  minutes: number;
+  answers: number;
+  correct: number;
+  /** Correct answers over answers; null on days without any. */
+  accuracy: number | null;
+  lessonsCompleted: number;
+};
+
+export type CourseVelocity = {
+  courseId: string;
+  lessonsCompleted: number;
+  perWeek: number;
+  /** Lessons completed in each week of the range, oldest first. */
+  weekly: number[];
+};
+
+export const addDays = (day: string, days: number) => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+/** The number of days in a range. */
+export const rangeLength = ({ from, to }: ActivityRange) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000) + 1;
+
+export function presetRange(preset: RangePreset, now: Date, timeZone: string): ActivityRange {
+  const to = localDay(now, timeZone);
+  return { from: addDays(to, 1 - PRESET_DAYS[preset]), to };
+}
+
+export function rangeDays(range: ActivityRange) {
+  return Array.from({ length: Math.max(rangeLength(range), 0) }, (_, i) => addDays(range.from, i));
+}
+
+/** Totals events per local day and course. Mirrors the `daily_activity` function. */
+export function aggregateDailyActivity(
+  events: ActivityEvent[],
+  range: ActivityRange,
+  timeZone: string
+): DailyActivity[] {
+  const rows = new Map<string, DailyActivity>();
+  for (const event of events) {
+    const day = localDay(new Date(event.occurred_at), timeZone);
+    if (day < range.from || day > range.to) continue;
+
+    const key = `${day}|${event.course_id}`;
+    const row = rows.get(key) ?? {
+      day,
+      course_id: event.course_id,
+      seconds: 0,
+      lessons_opened: 0,
+      answers: 0,
+      correct_answers: 0,
+      score: 0,
+      lessons_completed: 0,
+    };
+    row.seconds += event.seconds;
+    if (event.kind === 'lesson_opened') row.lessons_opened++;
+    if (event.kind === 'lesson_completed') row.lessons_completed++;
+    if (event.kind === 'answer_submitted') {
+      row.answers++;
+      if (event.is_correct) row.correct_answers++;
+      row.score += event.score ?? 0;
+    }
+    rows.set(key, row);
+  }
+  return [...rows.values()].sort((a, b) => a.day.localeCompare(b.day) || a.course_id.localeCompare(b.course_id));
+}
+
+/** One summary per day of the range, across courses, with empty days filled in. */
+export function summarizeDays(rows: DailyActivity[], range: ActivityRange): DaySummary[] {
+  return rangeDays(range).map(day => {
+    const today = rows.filter(r => r.day === day);
+    const sum = (field: 'seconds' | 'answers' | 'correct_answers' | 'lessons_completed') =>
+      today.reduce((total, r) => total + r[field], 0);
+    const answers = sum('answers');
+    const correct = sum('correct_answers');
+    return {
+      day,
+      minutes: Math.floor(sum('seconds') / 60),
+      answers,
+      correct,
+      accuracy: answers > 0 ? correct / answers : null,
+      lessonsCompleted: sum('lessons_completed'),
+    };
+  });
+}
+
+/** Lessons completed per week for each course with any, fastest first. */
+export function courseVelocity(rows: DailyActivity[], range: ActivityRange): CourseVelocity[] {
+  const weeks = Math.max(1, Math.ceil(rangeLength(range) / 7));
+  const byCourse = new Map<string, number[]>();
+  for (const row of rows) {
+    if (row.lessons_completed === 0) continue;
+    const weekly = byCourse.get(row.course_id) ?? new Array<number>(weeks).fill(0);
+    const week = Math.min(weeks - 1, Math.floor((rangeLength({ from: range.from, to: row.day }) - 1) / 7));
+    weekly[week] += row.lessons_completed;
+    byCourse.set(row.course_id, weekly);
+  }
+
+  return [...byCourse.entries()]
+    .map(([courseId, weekly]) => {
+      const lessonsCompleted = weekly.reduce((sum, n) => sum + n, 0);
+      return { courseId, lessonsCompleted, perWeek: lessonsCompleted / (rangeLength(range) / 7), weekly };
+    })
+    .sort((a, b) => b.perWeek - a.perWeek);
+}
+
+/**
+ * Lays the days out as calendar columns, one per week starting on
+ * `weekStartsOn`. Cells before the first day and after the last are null.
+ */
+export function heatmapWeeks(days: DaySummary[], weekStartsOn: number): (DaySummary | null)[][] {
+  if (days.length === 0) return [];
+  const lead = (new Date(`${days[0].day}T00:00:00Z`).getUTCDay() - weekStartsOn + 7) % 7;
+  const cells: (DaySummary | null)[] = [...new Array<null>(lead).fill(null), ...days];
+  while (cells.length % 7 !== 0) cells.push(null);
+  return Array.from({ length: cells.length / 7 }, (_, week) => cells.slice(week * 7, week * 7 + 7));
+}
+
+/** Heatmap shade from 0 (no learning) to 4. */
+export const heatLevel = (minutes: number) => HEAT_LEVELS.filter(threshold => minutes >= threshold).length;
+
+export const HEAT_LEVEL_LABELS = [
+  'No learning',
+  'Under 15 minutes',
+  '15-29 minutes',
+  '30-59 minutes',
+  'An hour or more',
+];
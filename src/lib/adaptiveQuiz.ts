@@ -0,0 +1,105 @@
+import { Question } from './supabase';
+
+// Item difficulty on the ability scale for each authored difficulty label.
+const ITEM_DIFFICULTY: Record<Question['difficulty'], number> = {
+  easy: -1,
+  medium: 0,
+  hard: 1,
+};
+
+// Shared 2PL discrimination; 1.7 approximates the normal ogive.
+const DISCRIMINATION = 1.7;
+
+const GRID = Array.from({ length: 81 }, (_, i) => -4 + i * 0.1);
+
+export const MIN_QUESTIONS = 3;
+export const MAX_QUESTIONS = 10;
+// Stop once the posterior standard deviation of ability drops below this.
+export const TARGET_STANDARD_ERROR = 0.55;
+
+export type QuizResponse = {
+  assessment: Question;
+  /**
+   * Partial credit from 0 to 1; counts as that fraction of a correct response.
+   * Null while the answer is queued offline, so it doesn't move the estimate.
+   */
+  score: number | null;
+};
+
+export type AbilityEstimate = {
+  theta: number;
+  standardError: number;
+  mastery: number;
+  label: 'Beginning' | 'Developing' | 'Proficient' | 'Advanced';
+};
+
+const probabilityCorrect = (theta: number, difficulty: number) =>
+  1 / (1 + Math.exp(-DISCRIMINATION * (theta - difficulty)));
+
+/** Expected a posteriori ability estimate under a standard normal prior. */
+export function estimateAbility(responses: QuizResponse[]): AbilityEstimate {
+  const weights = GRID.map(theta => {
+    let likelihood = Math.exp(-(theta * theta) / 2);
+    for (const { assessment, score } of responses) {
+      if (score === null) continue;
+      const p = probabilityCorrect(theta, ITEM_DIFFICULTY[assessment.difficulty]);
+      likelihood *= p ** score * (1 - p) ** (1 - score);
+    }
+    return likelihood;
+  });
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const theta = GRID.reduce((sum, t, i) => sum + t * weights[i], 0) / total;
+  const variance = GRID.reduce((sum, t, i) => sum + (t - theta) ** 2 * weights[i], 0) / total;
+  const mastery = Math.round(probabilityCorrect(theta, 0) * 100);
+
+  return {
+    theta,
+    standardError: Math.sqrt(variance),
+    mastery,
+    label:
+      theta < -1 ? 'Beginning' :
+      theta < 0 ? 'Developing' :
+      theta < 1 ? 'Proficient' :
+      'Advanced',
+  };
+}
+
+/** Picks the unasked item that is most informative at the current estimate. */
+export function selectNextAssessment(
+  pool: Question[],
+  responses: QuizResponse[],
+  estimate: AbilityEstimate
+): Question | null {
+  const asked = new Set(responses.map(r => r.assessment.id));
+  const remaining = pool.filter(a => !asked.has(a.id));
+  if (remaining.length === 0) return null;
+
+  const information = (a: Question) => {
+    const p = probabilityCorrect(estimate.theta, ITEM_DIFFICULTY[a.difficulty]);
+    return DISCRIMINATION ** 2 * p * (1 - p);
+  };
+
+  return remaining.reduce((best, a) => (information(a) > information(best) ? a : best));
+}
+
+export function shouldStopQuiz(
+  pool: Question[],
+  responses: QuizResponse[],
+  estimate: AbilityEstimate
+) {
+  if (responses.length >= Math.min(pool.length, MAX_QUESTIONS)) return true;
+  if (responses.length < MIN_QUESTIONS) return false;
+  if (estimate.standardError < TARGET_STANDARD_ERROR) return true;
+
+  // Items far from the learner's level barely move the estimate, so stop when
+  // it sits confidently outside the range the remaining questions can measure.
+  const asked = new Set(responses.map(r => r.assessment.id));
+  const remaining = pool
+    .filter(a => !asked.has(a.id))
+    .map(a => ITEM_DIFFICULTY[a.difficulty]);
+  return (
+    estimate.theta - estimate.standardError > Math.max(...remaining) ||
+    estimate.theta + estimate.standardError < Math.min(...remaining)
+  );
+}
@@ -0,0 +1,244 @@
+import { Course, Lesson, Assessment, QuestionType } from './supabase';
+import {
+  db,
+  toResult,
+  PrerequisiteInput,
+  Saveable,
+  SkillInput,
+  LessonVariantInput,
+  AchievementInput,
+} from './repositories';
+import { parseAnswerPattern, TRUE_FALSE_OPTIONS } from './grading';
+import { DEFAULT_SKILL_PARAMS } from './knowledgeTracing';
+
+export type CourseDraft = Omit<Course, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+export type LessonDraft = Omit<Lesson, 'id' | 'created_at'> & { id?: string };
+export type AssessmentDraft = Omit<Assessment, 'id' | 'created_at'> & { id?: string };
+
+export const emptyCourse = (): CourseDraft => ({
+  title: '',
+  description: '',
+  difficulty_level: 'beginner',
+  estimated_hours: 1,
+  thumbnail_url: '',
+  is_published: false,
+  certificate_passing_score: null,
+});
+
+export const emptyLesson = (courseId: string, orderIndex: number): LessonDraft => ({
+  course_id: courseId,
+  title: '',
+  content: '',
+  order_index: orderIndex,
+  difficulty_level: 'beginner',
+  estimated_minutes: 15,
+  content_type: 'text',
+  video_url: '',
+  video_duration_seconds: null,
+  caption_tracks: [],
+  transcript: '',
+  interactive_steps: [],
+  max_attempts: null,
+  attempt_scoring: 'best',
+  skill_ids: [],
+});
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: 'Single choice',
+  multiple_select: 'Multiple select',
+  true_false: 'True / false',
+  numeric: 'Numeric',
+  short_text: 'Short text',
+  ordering: 'Ordering',
+  matching: 'Matching',
+};
+
+export const emptyAssessment = (lessonId: string): AssessmentDraft => ({
+  lesson_id: lessonId,
+  question: '',
+  question_type: 'single_choice',
+  options: ['', ''],
+  correct_answer: '',
+  answer_key: {},
+  explanation: '',
+  difficulty: 'medium',
+  skill_ids: [],
+});
+
+export const emptySkill = (): SkillInput => ({
+  name: '',
+  description: '',
+  parent_id: null,
+  ...DEFAULT_SKILL_PARAMS,
+});
+
+export const emptyAchievement = (): AchievementInput => ({
+  name: '',
+  description: '',
+  icon: 'award',
+  metric: 'lessons_completed',
+  threshold: 1,
+});
+
+/** Resets the answer fields that do not carry over when an author switches question type. */
+export function changeQuestionType(draft: AssessmentDraft, type: QuestionType): AssessmentDraft {
+  const usesOptions = ['single_choice', 'multiple_select', 'ordering'].includes(type);
+  const hadOptions = ['single_choice', 'multiple_select', 'ordering'].includes(draft.question_type);
+  return {
+    ...draft,
+    question_type: type,
+    options:
+      type === 'true_false' ? TRUE_FALSE_OPTIONS :
+      !usesOptions ? [] :
+      hadOptions && draft.options.length >= 2 ? draft.options :
+      ['', ''],
+    correct_answer: type === 'single_choice' && draft.options.includes(draft.correct_answer) ? draft.correct_answer : '',
+    answer_key: type === 'matching' ? { pairs: [{ prompt: '', match: '' }, { prompt: '', match: '' }] } : {},
+  };
+}
+
+function validateOptions(options: string[], label: string): string | null {
+  if (options.length < 2) return `Add at least two ${label}.`;
+  if (new Set(options).size !== options.length) return `${label[0].toUpperCase()}${label.slice(1)} must be unique.`;
+  return null;
+}
+
+export function validateAssessment(draft: AssessmentDraft): string | null {
+  const options = draft.options.map(o => o.trim()).filter(Boolean);
+  const key = draft.answer_key;
+  if (!draft.question.trim()) return 'Enter a question.';
+
+  switch (draft.question_type) {
+    case 'multiple_select': {
+      const correct = (key.correct_options ?? []).map(o => o.trim());
+      if (correct.length === 0) return 'Mark at least one option as correct.';
+      return validateOptions(options, 'answer options') ??
+        (correct.every(option => options.includes(option)) ? null : 'Every correct option must be in the list.');
+    }
+    case 'true_false':
+      return TRUE_FALSE_OPTIONS.includes(draft.correct_answer) ? null : 'Choose whether the statement is true or false.';
+    case 'numeric':
+      if (key.value === undefined || !Number.isFinite(key.value)) return 'Enter the expected number.';
+      if (key.tolerance !== undefined && !(key.tolerance >= 0)) return 'Tolerance cannot be negative.';
+      return null;
+    case 'short_text': {
+      const accepted = (key.accepted ?? []).map(a => a.trim()).filter(Boolean);
+      if (accepted.length === 0) return 'Add at least one accepted answer.';
+      for (const pattern of accepted) {
+        try {
+          parseAnswerPattern(pattern);
+        } catch {
+          return `"${pattern}" is not a valid pattern.`;
+        }
+      }
+      return null;
+    }
+    case 'ordering':
+      return validateOptions(options, 'items');
+    case 'matching': {
+      const pairs = key.pairs ?? [];
+      if (pairs.length < 2) return 'Add at least two pairs.';
+      if (pairs.some(p => !p.prompt.trim() || !p.match.trim())) return 'Fill in both sides of every pair.';
+      const prompts = pairs.map(p => p.prompt.trim());
+      return new Set(prompts).size === prompts.length ? null : 'Each left-hand item must be unique.';
+    }
+    default:
+      return validateOptions(options, 'answer options') ??
+        (options.includes(draft.correct_answer.trim()) ? null : 'Choose which option is correct.');
+  }
+}
+
+/** Trims the draft and drops answer data that its question type does not use. */
+function normalizeAssessment(draft: AssessmentDraft): AssessmentDraft {
+  const options = draft.options.map(o => o.trim()).filter(Boolean);
+  const key = draft.answer_key;
+  const base = { ...draft, options: [], correct_answer: '', answer_key: {} };
+
+  switch (draft.question_type) {
+    case 'single_choice':
+    case 'true_false':
+      return { ...base, options, correct_answer: draft.correct_answer.trim() };
+    case 'multiple_select':
+      return { ...base, options, answer_key: { correct_options: (key.correct_options ?? []).map(o => o.trim()) } };
+    case 'ordering':
+      return { ...base, options };
+    case 'numeric':
+      return { ...base, answer_key: { value: key.value, tolerance: key.tolerance ?? 0 } };
+    case 'short_text':
+      return {
+        ...base,
+        answer_key: {
+          accepted: (key.accepted ?? []).map(a => a.trim()).filter(Boolean),
+          case_sensitive: !!key.case_sensitive,
+        },
+      };
+    case 'matching':
+      return {
+        ...base,
+        answer_key: { pairs: (key.pairs ?? []).map(p => ({ prompt: p.prompt.trim(), match: p.match.trim() })) },
+      };
+  }
+}
+
+export async function saveCourse(draft: CourseDraft) {
+  return toResult(db.courses.save(draft));
+}
+
+export async function saveLesson(draft: LessonDraft) {
+  return toResult(db.lessons.save(draft));
+}
+
+export async function deleteLesson(id: string) {
+  return toResult(db.lessons.delete(id));
+}
+
+/** Rewrites `order_index` so it matches the given lesson order. */
+export async function reorderLessons(lessonIds: string[]) {
+  return toResult(db.lessons.reorder(lessonIds));
+}
+
+export async function saveLessonVariant(variant: LessonVariantInput) {
+  return toResult(db.lessonVariants.save({ ...variant, audio_url: variant.audio_url.trim() }));
+}
+
+export async function deleteLessonVariant(id: string) {
+  return toResult(db.lessonVariants.delete(id));
+}
+
+export async function saveAssessment(draft: AssessmentDraft) {
+  return toResult(db.assessments.save(normalizeAssessment(draft)));
+}
+
+export async function deleteAssessment(id: string) {
+  return toResult(db.assessments.delete(id));
+}
+
+export async function savePrerequisite(rule: PrerequisiteInput) {
+  return toResult(db.prerequisites.save(rule));
+}
+
+export async function deletePrerequisite(id: string) {
+  return toResult(db.prerequisites.delete(id));
+}
+
+export async function saveSkill(skill: Saveable<SkillInput>) {
+  return toResult(db.skills.save({ ...skill, name: skill.name.trim(), description: skill.description.trim() }));
+}
+
+export async function deleteSkill(id: string) {
+  return toResult(db.skills.delete(id));
+}
+
+export async function saveAchievement(achievement: Saveable<AchievementInput>) {
+  return toResult(
+    db.achievements.save({
+      ...achievement,
+      name: achievement.name.trim(),
+      description: achievement.description.trim(),
+    })
+  );
+}
+
+export async function deleteAchievement(id: string) {
+  return toResult(db.achievements.delete(id));
+}
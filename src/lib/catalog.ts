@@ -0,0 +1,180 @@
+import { Course, CourseSearchHit, Lesson, UserProgress } from './supabase';
+
+type Level = Course['difficulty_level'];
+type ContentType = Lesson['content_type'];
+
+export type DurationBucket = 'short' | 'medium' | 'long';
+export type CourseStatus = 'not_started' | 'in_progress' | 'completed';
+export type CatalogSort = 'relevance' | 'newest' | 'title' | 'shortest' | 'longest' | 'difficulty';
+
+/** Search and facet state, kept in the URL so it survives reloads and can be shared. */
+export type CatalogFilters = {
+  query: string;
+  difficulty: Level[];
+  duration: DurationBucket[];
+  types: ContentType[];
+  status: CourseStatus[];
+  sort: CatalogSort;
+};
+
+/** The parts of a lesson the facets need. */
+export type LessonSummary = Pick<Lesson, 'id' | 'course_id' | 'content_type'>;
+
+export const DIFFICULTY_LABELS: Record<Level, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+// Bucket edges in estimated hours.
+const SHORT_COURSE_HOURS = 2;
+const LONG_COURSE_HOURS = 5;
+
+export const DURATION_LABELS: Record<DurationBucket, string> = {
+  short: `Under ${SHORT_COURSE_HOURS} hours`,
+  medium: `${SHORT_COURSE_HOURS} to ${LONG_COURSE_HOURS} hours`,
+  long: `Over ${LONG_COURSE_HOURS} hours`,
+};
+
+export const CONTENT_TYPE_LABELS: Record<ContentType, string> = {
+  text: 'Reading',
+  video: 'Video',
+  interactive: 'Interactive',
+  quiz: 'Quiz',
+};
+
+export const STATUS_LABELS: Record<CourseStatus, string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  completed: 'Completed',
+};
+
+export const SORT_LABELS: Record<CatalogSort, string> = {
+  relevance: 'Best match',
+  newest: 'Newest',
+  title: 'Title (A-Z)',
+  shortest: 'Shortest first',
+  longest: 'Longest first',
+  difficulty: 'Easiest first',
+};
+
+const LEVEL_RANK: Record<Level, number> = { beginner: 0, intermediate: 1, advanced: 2 };
+
+/** Own keys only, so `?sort=constructor` and the like aren't taken for options. */
+const isKey = <T extends string>(allowed: Record<T, unknown>, value: string): value is T =>
+  Object.prototype.hasOwnProperty.call(allowed, value);
+
+const listParam = <T extends string>(params: URLSearchParams, name: string, allowed: Record<T, unknown>) =>
+  (params.get(name) ?? '').split(',').filter((value): value is T => isKey(allowed, value));
+
+export function parseCatalogParams(params: URLSearchParams): CatalogFilters {
+  const query = params.get('q') ?? '';
+  const sort = params.get('sort') ?? '';
+  return {
+    query,
+    difficulty: listParam(params, 'difficulty', DIFFICULTY_LABELS),
+    duration: listParam(params, 'duration', DURATION_LABELS),
+    types: listParam(params, 'type', CONTENT_TYPE_LABELS),
+    status: listParam(params, 'status', STATUS_LABELS),
+    sort: isKey(SORT_LABELS, sort) ? sort : query.trim() ? 'relevance' : 'newest',
+  };
+}
+
+/** The inverse of `parseCatalogParams`, leaving out anything at its default. */
+export function toCatalogParams(filters: CatalogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.query) params.set('q', filters.query);
+  if (filters.difficulty.length) params.set('difficulty', filters.difficulty.join(','));
+  if (filters.duration.length) params.set('duration', filters.duration.join(','));
+  if (filters.types.length) params.set('type', filters.types.join(','));
+  if (filters.status.length) params.set('status', filters.status.join(','));
+  if (filters.sort !== (filters.query.trim() ? 'relevance' : 'newest')) params.set('sort', filters.sort);
+  return params;
+}
+
+export function durationBucket(hours: number): DurationBucket {
+  if (hours < SHORT_COURSE_HOURS) return 'short';
+  if (hours <= LONG_COURSE_HOURS) return 'medium';
+  return 'long';
+}
+
+export function courseStatus(
+  lessons: LessonSummary[],
+  progress: Pick<UserProgress, 'lesson_id' | 'status'>[]
+): CourseStatus {
+  const done = lessons.filter(l => progress.some(p => p.lesson_id === l.id && p.status === 'completed')).length;
+  if (lessons.length > 0 && done === lessons.length) return 'completed';
+  return progress.some(p => p.status !== 'not_started') ? 'in_progress' : 'not_started';
+}
+
+/**
+ * Applies the facets and sort order. With a query, only courses in `hits` are
+ * kept; `hits` is ignored otherwise.
+ */
+export function filterCourses(
+  courses: Course[],
+  filters: CatalogFilters,
+  { hits, lessons, progress }: { hits: CourseSearchHit[]; lessons: LessonSummary[]; progress: UserProgress[] }
+): Course[] {
+  const searching = !!filters.query.trim();
+  const rank = (courseId: string) => hits.find(h => h.course_id === courseId)?.rank ?? 0;
+
+  const matches = courses.filter(course => {
+    const courseLessons = lessons.filter(l => l.course_id === course.id);
+    if (searching && !hits.some(h => h.course_id === course.id)) return false;
+    if (filters.difficulty.length && !filters.difficulty.includes(course.difficulty_level)) return false;
+    if (filters.duration.length && !filters.duration.includes(durationBucket(course.estimated_hours))) return false;
+    if (filters.types.length && !courseLessons.some(l => filters.types.includes(l.content_type))) return false;
+    if (
+      filters.status.length &&
+      !filters.status.includes(courseStatus(courseLessons, progress.filter(p => p.course_id === course.id)))
+    ) {
+      return false;
+    }
+    return true;
+  });
+
+  const compare: Record<CatalogSort, (a: Course, b: Course) => number> = {
+    relevance: (a, b) => rank(b.id) - rank(a.id),
+    newest: (a, b) => b.created_at.localeCompare(a.created_at),
+    title: (a, b) => a.title.localeCompare(b.title),
+    shortest: (a, b) => a.estimated_hours - b.estimated_hours,
+    longest: (a, b) => b.estimated_hours - a.estimated_hours,
+    difficulty: (a, b) => LEVEL_RANK[a.difficulty_level] - LEVEL_RANK[b.difficulty_level],
+  };
+  const sort = filters.sort === 'relevance' && !searching ? 'newest' : filters.sort;
+  return matches.sort(compare[sort]);
+}
+
+const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * A plain-text stand-in for the `search_courses` database function: every
+ * query word must appear somewhere in the course or its lessons, with title
+ * matches weighing most and lesson content least.
+ */
+export function matchCourses(
+  query: string,
+  courses: Pick<Course, 'id' | 'title' | 'description'>[],
+  lessons: Pick<Lesson, 'course_id' | 'title' | 'content' | 'transcript'>[]
+): CourseSearchHit[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  return courses
+    .map(course => {
+      const courseLessons = lessons.filter(l => l.course_id === course.id);
+      const fields: [string[], number][] = [
+        [tokenize(course.title), 1],
+        [tokenize(course.description), 0.4],
+        [courseLessons.flatMap(l => tokenize(l.title)), 0.2],
+        [courseLessons.flatMap(l => tokenize(`${l.content} ${l.transcript ?? ''}`)), 0.1],
+      ];
+      const scores = terms.map(term =>
+        fields.reduce((sum, [words, weight]) => sum + (words.some(w => w.startsWith(term)) ? weight : 0), 0)
+      );
+      return { course_id: course.id, rank: scores.every(s => s > 0) ? scores.reduce((a, b) => a + b, 0) : 0 };
+    })
+    .filter(hit => hit.rank > 0)
+    .sort((a, b) => b.rank - a.rank);
+}
@@ -0,0 +1,131 @@
+import { Certificate, CertificateVerification, Course, QuizAttempt, UserProgress } from './supabase';
+import { LessonSummary } from './catalog';
+import { paths } from './routes';
+
+// Crockford base32: no I, L, O or U, so codes read back unambiguously.
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 12;
+
+export function certificateCode() {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % 32]).join('');
+}
+
+/** Strips what people add when typing a code back in: case, spaces and dashes. */
+export const normalizeCertificateCode = (input: string) => input.toUpperCase().replace(/[^0-9A-Z]/g, '');
+
+export const isCertificateCode = (code: string) =>
+  code.length === CODE_LENGTH && [...code].every(char => CODE_ALPHABET.includes(char));
+
+/** `ABCD-EFGH-JKMN`, the way codes are printed. */
+export const formatCertificateCode = (code: string) => code.match(/.{1,4}/g)?.join('-') ?? code;
+
+export const verificationUrl = (code: string) => `${window.location.origin}${paths.verify(code)}`;
+
+/** What a course asks for, in words. */
+export function certificateCriteria(course: Pick<Course, 'certificate_passing_score'>) {
+  const score = course.certificate_passing_score;
+  return score == null
+    ? 'Complete every lesson to earn a certificate.'
+    : `Complete every lesson and score at least ${Math.round(score * 100)}% on each quiz to earn a certificate.`;
+}
+
+/**
+ * When a learner met a course's certificate criteria, or null if they have
+ * not: every lesson completed and, with a passing score, a finished attempt
+ * at every quiz reaching it. Mirrors the `issue_certificate` function.
+ */
+export function certificateCompletion(
+  course: Pick<Course, 'certificate_passing_score'>,
+  lessons: LessonSummary[],
+  progress: UserProgress[],
+  attempts: QuizAttempt[]
+): string | null {
+  if (lessons.length === 0) return null;
+  const passing = course.certificate_passing_score;
+  const finished = attempts.filter(a => a.status === 'completed');
+
+  const met = lessons.every(
+    lesson =>
+      progress.some(p => p.lesson_id === lesson.id && p.status === 'completed') &&
+      (passing == null ||
+        lesson.content_type !== 'quiz' ||
+        finished.some(a => a.lesson_id === lesson.id && (a.score ?? 0) >= passing))
+  );
+  if (!met) return null;
+
+  const times = [
+    ...progress.map(p => p.completed_at ?? p.last_accessed_at),
+    ...finished.map(a => a.finished_at ?? a.updated_at),
+  ];
+  return times.reduce((latest, time) => (time > latest ? time : latest), times[0]);
+}
+
+const fileName = (title: string) =>
+  `certificate-${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'course'}.pdf`;
+
+/** Renders the certificate as a landscape A4 PDF and downloads it. */
+export async function downloadCertificate(certificate: Certificate | CertificateVerification) {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const center = width / 2;
+  const code = formatCertificateCode(certificate.code);
+  const url = verificationUrl(certificate.code);
+
+  doc.setProperties({ title: `Certificate: ${certificate.course_title}`, subject: `Verification code ${code}` });
+
+  doc.setDrawColor(37, 99, 235);
+  doc.setLineWidth(1.5);
+  doc.rect(10, 10, width - 20, height - 20);
+  doc.setLineWidth(0.3);
+  doc.rect(14, 14, width - 28, height - 28);
+
+  doc.setTextColor(37, 99, 235);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text('ADAPTLEARN', center, 38, { align: 'center' });
+
+  doc.setTextColor(15, 23, 42);
+  doc.setFontSize(34);
+  doc.text('Certificate of Completion', center, 58, { align: 'center' });
+
+  doc.setTextColor(71, 85, 105);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  doc.text('This certifies that', center, 80, { align: 'center' });
+
+  doc.setTextColor(15, 23, 42);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(28);
+  doc.text(certificate.learner_name, center, 97, { align: 'center' });
+
+  doc.setTextColor(71, 85, 105);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  doc.text('has successfully completed the course', center, 113, { align: 'center' });
+
+  doc.setTextColor(15, 23, 42);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  const title = doc.splitTextToSize(certificate.course_title, width - 80);
+  doc.text(title, center, 128, { align: 'center' });
+
+  doc.setTextColor(71, 85, 105);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  const completed = new Date(certificate.completed_at).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+  doc.text(`Completed on ${completed}`, center, 128 + title.length * 9 + 6, { align: 'center' });
+
+  doc.setFontSize(10);
+  doc.text(`Verification code: ${code}`, center, height - 34, { align: 'center' });
+  doc.setTextColor(37, 99, 235);
+  doc.textWithLink(url, center - doc.getTextWidth(url) / 2, height - 27, { url });
+
+  doc.save(fileName(certificate.course_title));
+}
@@ -0,0 +1,455 @@
+import { Course, Lesson, LessonVariant, Assessment } from './supabase';
+import { db } from './repositories';
+import { QUESTION_TYPE_LABELS, validateAssessment } from './authoring';
+import { LEARNING_STYLES } from './lessonVariants';
+
+export const BUNDLE_FORMAT = 'adaptlearn.course-bundle';
+export const BUNDLE_VERSION = 1;
+
+type CourseFields = Omit<Course, 'id' | 'created_at' | 'updated_at'>;
+type LessonFields = Omit<Lesson, 'id' | 'course_id' | 'created_at'>;
+type AssessmentFields = Omit<Assessment, 'id' | 'lesson_id' | 'created_at'>;
+type VariantFields = Pick<LessonVariant, 'learning_style' | 'content' | 'audio_url'>;
+
+export type MediaReference = {
+  url: string;
+  kind: 'thumbnail' | 'video' | 'captions' | 'image' | 'audio';
+  lesson_key?: string;
+};
+
+/**
+ * Portable representation of a course. `key` fields hold the source
+ * environment's ids so lessons and assessments can be linked up again after
+ * every id is regenerated on import.
+ */
+export type CourseBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  exported_at: string;
+  course: CourseFields & { key: string };
+  lessons: (LessonFields & {
+    key: string;
+    assessments: (AssessmentFields & { key: string })[];
+    /** Missing from bundles exported before lessons had variants. */
+    variants?: VariantFields[];
+  })[];
+  /** For people reading the bundle; imports work the media out from the lessons again. */
+  media: MediaReference[];
+};
+
+export type ConflictStrategy = 'abort' | 'rename' | 'replace';
+
+export type ImportReport = {
+  dryRun: boolean;
+  courseTitle: string;
+  lessonCount: number;
+  assessmentCount: number;
+  mediaCount: number;
+  conflicts: string[];
+  warnings: string[];
+  action: 'create' | 'rename' | 'replace' | 'blocked';
+  courseId?: string;
+};
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const MARKDOWN_IMAGE = /!\[[^\]]*\]\(\s*<?([^)\s>]+)>?[^)]*\)/g;
+
+// The fields a bundle carries. Anything else, ids included, is rejected on
+// import so a bundle can only ever create rows, never point at existing ones.
+const COURSE_FIELDS: Record<keyof CourseFields, true> = {
+  title: true,
+  description: true,
+  difficulty_level: true,
+  estimated_hours: true,
+  thumbnail_url: true,
+  is_published: true,
+  certificate_passing_score: true,
+};
+const LESSON_FIELDS: Record<keyof LessonFields, true> = {
+  title: true,
+  content: true,
+  order_index: true,
+  difficulty_level: true,
+  estimated_minutes: true,
+  content_type: true,
+  video_url: true,
+  video_duration_seconds: true,
+  caption_tracks: true,
+  transcript: true,
+  interactive_steps: true,
+  max_attempts: true,
+  attempt_scoring: true,
+  skill_ids: true,
+};
+const ASSESSMENT_FIELDS: Record<keyof AssessmentFields, true> = {
+  question: true,
+  question_type: true,
+  options: true,
+  correct_answer: true,
+  answer_key: true,
+  explanation: true,
+  difficulty: true,
+  skill_ids: true,
+};
+const VARIANT_FIELDS: Record<keyof VariantFields, true> = { learning_style: true, content: true, audio_url: true };
+
+function pick<T extends object, K extends keyof T>(value: T, fields: Record<K, true>): Pick<T, K> {
+  const picked = {} as Pick<T, K>;
+  for (const key of Object.keys(fields) as K[]) {
+    if (key in value) picked[key] = value[key];
+  }
+  return picked;
+}
+
+const unknownKeys = (value: Record<string, unknown>, fields: object, extra: string[] = []) =>
+  Object.keys(value).filter(key => !Object.prototype.hasOwnProperty.call(fields, key) && !extra.includes(key));
+
+// Bundles exported before question types existed only hold single-choice questions.
+const withQuestionDefaults = (assessment: AssessmentFields): AssessmentFields => ({
+  ...assessment,
+  question_type: assessment.question_type ?? 'single_choice',
+  answer_key: assessment.answer_key ?? {},
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function captionTrackProblem(track: unknown): string | null {
+  if (!isObject(track)) return 'is not an object';
+  if (typeof track.src !== 'string' || typeof track.srclang !== 'string' || typeof track.label !== 'string') {
+    return 'needs src, srclang and label';
+  }
+  if (track.kind !== undefined && !['captions', 'subtitles', 'descriptions'].includes(track.kind as string)) {
+    return 'has an invalid kind';
+  }
+  return null;
+}
+
+function interactiveStepProblem(step: unknown): string | null {
+  if (!isObject(step)) return 'is not an object';
+  if (typeof step.id !== 'string' || typeof step.title !== 'string' || typeof step.prompt !== 'string') {
+    return 'needs an id, title and prompt';
+  }
+  switch (step.type) {
+    case 'code':
+      if (typeof step.starter_code !== 'string' || typeof step.function_name !== 'string') {
+        return 'needs starter_code and function_name';
+      }
+      return Array.isArray(step.tests) && step.tests.every(t => isObject(t) && Array.isArray(t.args) && 'expected' in t)
+        ? null
+        : 'tests must be an array of { args, expected }';
+    case 'fill_blank':
+      if (typeof step.template !== 'string') return 'needs a template';
+      return Array.isArray(step.blanks) && step.blanks.every(isStringList)
+        ? null
+        : 'blanks must be an array of accepted answer lists';
+    case 'order':
+      return isStringList(step.items) ? null : 'items must be an array of strings';
+    default:
+      return 'has an invalid type';
+  }
+}
+
+function collectMedia(course: CourseFields, lessons: CourseBundle['lessons']): MediaReference[] {
+  const media: MediaReference[] = [];
+  if (course.thumbnail_url) media.push({ url: course.thumbnail_url, kind: 'thumbnail' });
+
+  for (const lesson of lessons) {
+    if (lesson.video_url) media.push({ url: lesson.video_url, kind: 'video', lesson_key: lesson.key });
+    for (const track of lesson.caption_tracks ?? []) {
+      media.push({ url: track.src, kind: 'captions', lesson_key: lesson.key });
+    }
+    for (const content of [lesson.content, ...(lesson.variants ?? []).map(v => v.content)]) {
+      for (const match of content.matchAll(MARKDOWN_IMAGE)) {
+        media.push({ url: match[1], kind: 'image', lesson_key: lesson.key });
+      }
+    }
+    for (const variant of lesson.variants ?? []) {
+      if (variant.audio_url) media.push({ url: variant.audio_url, kind: 'audio', lesson_key: lesson.key });
+    }
+  }
+
+  return media;
+}
+
+export async function exportCourseBundle(courseId: string): Promise<CourseBundle> {
+  const [source, lessons] = await Promise.all([db.courses.get(courseId), db.lessons.listByCourse(courseId)]);
+  if (!source) throw new Error('Course not found');
+
+  const [questions, variants] = await Promise.all([
+    db.assessments.listByLessons(lessons.map(l => l.id)),
+    db.lessonVariants.listByLessons(lessons.map(l => l.id)),
+  ]);
+  const course = pick(source, COURSE_FIELDS);
+
+  const bundleLessons: CourseBundle['lessons'] = lessons.map(lesson => ({
+    ...pick(lesson, LESSON_FIELDS),
+    key: lesson.id,
+    assessments: questions
+      .filter(a => a.lesson_id === lesson.id)
+      .map(assessment => ({
+        ...pick(assessment, ASSESSMENT_FIELDS),
+        key: assessment.id,
+      })),
+    variants: variants.filter(v => v.lesson_id === lesson.id).map(variant => pick(variant, VARIANT_FIELDS)),
+  }));
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    course: { ...course, key: source.id },
+    lessons: bundleLessons,
+    media: collectMedia(course, bundleLessons),
+  };
+}
+
+/** Checks the shape of untrusted JSON and returns every problem found. */
+export function validateBundle(value: unknown): { bundle: CourseBundle | null; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!isObject(value)) return { bundle: null, errors: ['Bundle must be a JSON object.'] };
+  if (value.format !== BUNDLE_FORMAT) errors.push(`Unknown format "${String(value.format)}".`);
+  if (value.version !== BUNDLE_VERSION) {
+    errors.push(`Unsupported bundle version ${String(value.version)} (expected ${BUNDLE_VERSION}).`);
+  }
+  const unknownFields = (label: string, fields: string[]) => {
+    if (fields.length > 0) errors.push(`${label} has unknown field(s): ${fields.join(', ')}.`);
+  };
+  unknownFields('Bundle', unknownKeys(value, {}, ['format', 'version', 'exported_at', 'course', 'lessons', 'media']));
+
+  const course = value.course;
+  if (!isObject(course)) {
+    errors.push('Missing course.');
+  } else {
+    unknownFields('Course', unknownKeys(course, COURSE_FIELDS, ['key']));
+    if (typeof course.title !== 'string' || !course.title.trim()) errors.push('Course title is required.');
+    if (!['beginner', 'intermediate', 'advanced'].includes(course.difficulty_level as string)) {
+      errors.push('Course difficulty_level is invalid.');
+    }
+  }
+
+  if (!Array.isArray(value.lessons)) {
+    errors.push('Missing lessons array.');
+  } else {
+    const keys = new Set<string>();
+    value.lessons.forEach((lesson, index) => {
+      const label = `Lesson ${index + 1}`;
+      if (!isObject(lesson)) {
+        errors.push(`${label} is not an object.`);
+        return;
+      }
+      unknownFields(label, unknownKeys(lesson, LESSON_FIELDS, ['key', 'assessments', 'variants']));
+      if (typeof lesson.key !== 'string') errors.push(`${label} is missing its key.`);
+      else if (keys.has(lesson.key)) errors.push(`${label} has a duplicate key.`);
+      else keys.add(lesson.key);
+      if (typeof lesson.title !== 'string' || !lesson.title.trim()) errors.push(`${label} needs a title.`);
+      if (typeof lesson.content !== 'string') errors.push(`${label} content must be a string.`);
+      if (!['video', 'text', 'interactive', 'quiz'].includes(lesson.content_type as string)) {
+        errors.push(`${label} content_type is invalid.`);
+      }
+      if (
+        lesson.max_attempts != null &&
+        !(Number.isInteger(lesson.max_attempts) && (lesson.max_attempts as number) > 0)
+      ) {
+        errors.push(`${label} max_attempts must be a positive whole number.`);
+      }
+      if (
+        lesson.video_duration_seconds != null &&
+        !(typeof lesson.video_duration_seconds === 'number' && lesson.video_duration_seconds > 0)
+      ) {
+        errors.push(`${label} video_duration_seconds must be a positive number.`);
+      }
+      if (lesson.caption_tracks !== undefined) {
+        if (!Array.isArray(lesson.caption_tracks)) {
+          errors.push(`${label} caption_tracks must be an array.`);
+        } else {
+          lesson.caption_tracks.forEach((track, tIndex) => {
+            const problem = captionTrackProblem(track);
+            if (problem) errors.push(`${label}, caption track ${tIndex + 1} ${problem}.`);
+          });
+        }
+      }
+      if (lesson.interactive_steps !== undefined) {
+        if (!Array.isArray(lesson.interactive_steps)) {
+          errors.push(`${label} interactive_steps must be an array.`);
+        } else {
+          lesson.interactive_steps.forEach((step, sIndex) => {
+            const problem = interactiveStepProblem(step);
+            if (problem) errors.push(`${label}, step ${sIndex + 1} ${problem}.`);
+          });
+        }
+      }
+      if (lesson.attempt_scoring !== undefined && !['best', 'latest'].includes(lesson.attempt_scoring as string)) {
+        errors.push(`${label} attempt_scoring is invalid.`);
+      }
+      if (lesson.skill_ids !== undefined && !isStringList(lesson.skill_ids)) {
+        errors.push(`${label} skill_ids must be an array of ids.`);
+      }
+      if (lesson.variants !== undefined) {
+        if (!Array.isArray(lesson.variants)) {
+          errors.push(`${label} variants must be an array.`);
+        } else {
+          const styles = lesson.variants.map(v => (isObject(v) ? v.learning_style : undefined));
+          if (lesson.variants.some(v => !isObject(v) || typeof v.content !== 'string')) {
+            errors.push(`${label} variants need content.`);
+          }
+          lesson.variants.forEach((variant, vIndex) => {
+            if (isObject(variant)) unknownFields(`${label}, variant ${vIndex + 1}`, unknownKeys(variant, VARIANT_FIELDS));
+          });
+          if (styles.some(style => !LEARNING_STYLES.includes(style as LessonVariant['learning_style']))) {
+            errors.push(`${label} has a variant with an invalid learning_style.`);
+          } else if (new Set(styles).size !== styles.length) {
+            errors.push(`${label} has more than one variant for a learning style.`);
+          }
+        }
+      }
+      if (!Array.isArray(lesson.assessments)) {
+        errors.push(`${label} is missing its assessments array.`);
+        return;
+      }
+      lesson.assessments.forEach((assessment, qIndex) => {
+        const qLabel = `${label}, question ${qIndex + 1}`;
+        const errorCount = errors.length;
+        if (!isObject(assessment)) {
+          errors.push(`${qLabel} is not an object.`);
+          return;
+        }
+        unknownFields(qLabel, unknownKeys(assessment, ASSESSMENT_FIELDS, ['key']));
+        if (typeof assessment.question !== 'string') errors.push(`${qLabel} needs question text.`);
+        if (!Array.isArray(assessment.options)) errors.push(`${qLabel} options must be an array.`);
+        if (typeof assessment.correct_answer !== 'string') errors.push(`${qLabel} correct_answer must be a string.`);
+        if (assessment.answer_key !== undefined && !isObject(assessment.answer_key)) {
+          errors.push(`${qLabel} answer_key must be an object.`);
+        }
+        if (
+          assessment.question_type !== undefined &&
+          !Object.keys(QUESTION_TYPE_LABELS).includes(assessment.question_type as string)
+        ) {
+          errors.push(`${qLabel} question_type is invalid.`);
+        }
+        if (!['easy', 'medium', 'hard'].includes(assessment.difficulty as string)) {
+          errors.push(`${qLabel} difficulty is invalid.`);
+        }
+        if (assessment.skill_ids !== undefined && !isStringList(assessment.skill_ids)) {
+          errors.push(`${qLabel} skill_ids must be an array of ids.`);
+        }
+        if (errors.length === errorCount) {
+          const problem = validateAssessment({
+            ...withQuestionDefaults(assessment as AssessmentFields),
+            lesson_id: '',
+          });
+          if (problem) errors.push(`${qLabel}: ${problem}`);
+        }
+      });
+    });
+  }
+
+  return { bundle: errors.length === 0 ? (value as CourseBundle) : null, errors };
+}
+
+/**
+ * Imports a validated bundle with freshly generated ids. With `dryRun` nothing
+ * is written and the report describes what would happen.
+ */
+export async function importCourseBundle(
+  bundle: CourseBundle,
+  { dryRun, strategy }: { dryRun: boolean; strategy: ConflictStrategy }
+): Promise<ImportReport> {
+  const courseFields = pick(bundle.course, COURSE_FIELDS);
+  const assessmentCount = bundle.lessons.reduce((sum, l) => sum + l.assessments.length, 0);
+
+  const existing = await db.courses.findByTitle(courseFields.title);
+
+  const conflicts = existing.map(c => `A course named "${c.title}" already exists.`);
+  const warnings: string[] = [];
+  // The bundle's own media list is not trusted to match its lessons.
+  const media = collectMedia(courseFields, bundle.lessons);
+  const external = media.filter(m => /^https?:\/\//.test(m.url));
+  if (external.length < media.length) {
+    warnings.push(`${media.length - external.length} media reference(s) use relative paths and may not resolve.`);
+  }
+  // Skills are shared across courses rather than bundled, so only tags naming
+  // a skill that exists here survive the import.
+  const knownSkills = new Set((await db.skills.list()).map(s => s.id));
+  const knownSkillIds = (ids: string[] | undefined) => (ids ?? []).filter(id => knownSkills.has(id));
+  const tagged = [...bundle.lessons, ...bundle.lessons.flatMap(l => l.assessments)];
+  const droppedTags = tagged.flatMap(item => item.skill_ids ?? []).filter(id => !knownSkills.has(id)).length;
+  if (droppedTags > 0) {
+    warnings.push(`${droppedTags} skill tag(s) refer to skills that don't exist here and will be dropped.`);
+  }
+  if (conflicts.length > 0 && strategy === 'replace') {
+    warnings.push(
+      `Replacing deletes the existing course${existing.length > 1 ? 's' : ''} along with every learner's ` +
+        'progress, quiz attempts and certificates for it.'
+    );
+  }
+  if (courseFields.is_published) {
+    warnings.push('The course will be imported as a draft; publish it once you have reviewed it.');
+  }
+
+  const action: ImportReport['action'] =
+    conflicts.length === 0 ? 'create' : strategy === 'abort' ? 'blocked' : strategy;
+
+  const title = action === 'rename' ? `${courseFields.title} (imported)` : courseFields.title;
+
+  const report: ImportReport = {
+    dryRun,
+    courseTitle: title,
+    lessonCount: bundle.lessons.length,
+    assessmentCount,
+    mediaCount: media.length,
+    conflicts,
+    warnings,
+    action,
+  };
+
+  if (dryRun || action === 'blocked') return report;
+
+  const course = await db.courses.save({ ...courseFields, title, is_published: false });
+
+  try {
+    for (const [index, bundled] of bundle.lessons.entries()) {
+      const lesson = await db.lessons.save({
+        ...pick(bundled, LESSON_FIELDS),
+        course_id: course.id,
+        order_index: index,
+        skill_ids: knownSkillIds(bundled.skill_ids),
+      });
+      await db.assessments.insertMany(
+        bundled.assessments.map(a => ({
+          ...withQuestionDefaults(pick(a, ASSESSMENT_FIELDS)),
+          lesson_id: lesson.id,
+          skill_ids: knownSkillIds(a.skill_ids),
+        }))
+      );
+      for (const variant of bundled.variants ?? []) {
+        await db.lessonVariants.save({
+          ...pick(variant, VARIANT_FIELDS),
+          audio_url: variant.audio_url ?? '',
+          lesson_id: lesson.id,
+        });
+      }
+    }
+    // Only once the new course is complete, so a failed import leaves the old one in place.
+    if (action === 'replace') await db.courses.delete(existing.map(c => c.id));
+  } catch (error) {
+    // Lessons and assessments cascade with the course, so this undoes the partial import.
+    await db.courses.delete([course.id]);
+    throw error;
+  }
+
+  return { ...report, courseId: course.id };
+}
+
+export function downloadBundle(bundle: CourseBundle) {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const slug = bundle.course.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  link.href = url;
+  link.download = `${slug || 'course'}.course.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,392 @@
+import { Course, Lesson, LessonVariant, Assessment, Skill, Achievement } from './supabase';
+import { DEFAULT_SKILL_PARAMS } from './knowledgeTracing';
+import { MemorySeed } from './memoryRepositories';
+
+export const DEMO_EMAIL = 'demo@adaptlearn.dev';
+export const DEMO_PASSWORD = 'demo1234';
+
+const DEMO_USER_ID = '00000000-0000-4000-8000-000000000001';
+const JS_COURSE_ID = '00000000-0000-4000-8000-000000000101';
+const DS_COURSE_ID = '00000000-0000-4000-8000-000000000102';
+
+const lessonId = (n: number) => `00000000-0000-4000-8000-0000000002${String(n).padStart(2, '0')}`;
+const assessmentId = (n: number) => `00000000-0000-4000-8000-0000000003${String(n).padStart(2, '0')}`;
+const skillId = (n: number) => `00000000-0000-4000-8000-0000000004${String(n).padStart(2, '0')}`;
+const achievementId = (n: number) => `00000000-0000-4000-8000-0000000005${String(n).padStart(2, '0')}`;
+
+/** Demo content for the in-memory backend. Sign in as DEMO_EMAIL / DEMO_PASSWORD. */
+export function demoSeed(): MemorySeed {
+  const created = '2026-01-01T00:00:00.000Z';
+
+  const courses: Course[] = [
+    {
+      id: JS_COURSE_ID,
+      title: 'JavaScript Fundamentals',
+      description: 'Values, functions and control flow, with hands-on exercises that run in your browser.',
+      difficulty_level: 'beginner',
+      estimated_hours: 4,
+      thumbnail_url: '',
+      is_published: true,
+      created_at: created,
+      updated_at: created,
+    },
+    {
+      id: DS_COURSE_ID,
+      title: 'Data Structures Essentials',
+      description: 'Arrays, linked lists and hash maps, and how to reason about their cost.',
+      difficulty_level: 'intermediate',
+      estimated_hours: 6,
+      thumbnail_url: '',
+      is_published: true,
+      created_at: created,
+      updated_at: created,
+    },
+  ];
+
+  const skill = (n: number, name: string, description: string, parent: number | null): Skill => ({
+    id: skillId(n),
+    name,
+    description,
+    parent_id: parent === null ? null : skillId(parent),
+    ...DEFAULT_SKILL_PARAMS,
+    created_at: created,
+  });
+
+  const skills: Skill[] = [
+    skill(1, 'JavaScript', 'Writing and reading everyday JavaScript.', null),
+    skill(2, 'Types and Values', 'Primitives, equality and type checks.', 1),
+    skill(3, 'Functions', 'Declaring, calling and hoisting functions.', 1),
+    skill(4, 'Data Structures', 'Choosing a structure for the job.', null),
+    skill(5, 'Complexity Analysis', 'Reasoning about running costs in big-O terms.', 4),
+    skill(6, 'Hash Maps', 'Hashing, buckets and collisions.', 4),
+  ];
+
+  const lessons: Lesson[] = [
+    {
+      id: lessonId(1),
+      course_id: JS_COURSE_ID,
+      title: 'Values and Types',
+      content: [
+        '# Values and Types',
+        '',
+        'JavaScript has seven primitive types. The ones you will use every day are:',
+        '',
+        '| Type | Example |',
+        '| --- | --- |',
+        '| `number` | `42`, `3.14` |',
+        '| `string` | `"hello"` |',
+        '| `boolean` | `true` |',
+        '',
+        '## Checking a type',
+        '',
+        '```js',
+        "typeof 42; // 'number'",
+        '```',
+        '',
+        '## Equality',
+        '',
+        'Prefer `===`, which never converts types before comparing.',
+      ].join('\n'),
+      order_index: 0,
+      difficulty_level: 'beginner',
+      estimated_minutes: 15,
+      content_type: 'text',
+      skill_ids: [skillId(2)],
+      created_at: created,
+    },
+    {
+      id: lessonId(2),
+      course_id: JS_COURSE_ID,
+      title: 'Functions in Practice',
+      content: 'Work through each step. Code runs in a sandbox in your browser.',
+      order_index: 1,
+      difficulty_level: 'beginner',
+      estimated_minutes: 25,
+      content_type: 'interactive',
+      interactive_steps: [
+        {
+          id: 'double',
+          type: 'code',
+          title: 'Write a function',
+          prompt: 'Complete `double` so it returns twice its argument.',
+          starter_code: 'function double(n) {\n  // your code here\n}',
+          function_name: 'double',
+          tests: [
+            { args: [2], expected: 4 },
+            { args: [-3], expected: -6 },
+          ],
+        },
+        {
+          id: 'arrow',
+          type: 'fill_blank',
+          title: 'Arrow functions',
+          prompt: 'Fill in the missing pieces.',
+          template: 'const square = (x) ___ x ___ x;',
+          blanks: [['=>'], ['*']],
+        },
+        {
+          id: 'call-order',
+          type: 'order',
+          title: 'Order of evaluation',
+          prompt: 'Put the steps of a function call in order.',
+          items: ['Evaluate the arguments', 'Bind parameters', 'Run the body', 'Return the result'],
+        },
+      ],
+      skill_ids: [skillId(3)],
+      created_at: created,
+    },
+    {
+      id: lessonId(3),
+      course_id: JS_COURSE_ID,
+      title: 'Fundamentals Check',
+      content: 'A short adaptive quiz covering the course.',
+      order_index: 2,
+      difficulty_level: 'beginner',
+      estimated_minutes: 10,
+      content_type: 'quiz',
+      skill_ids: [skillId(1)],
+      created_at: created,
+    },
+    {
+      id: lessonId(4),
+      course_id: DS_COURSE_ID,
+      title: 'Arrays and Linked Lists',
+      content: [
+        '# Arrays and Linked Lists',
+        '',
+        'Reading index $i$ of an array costs $O(1)$; reaching node $i$ of a linked list costs $O(i)$.',
+        '',
+        '```mermaid',
+        'graph LR',
+        '  A[head] --> B[node] --> C[node] --> D[null]',
+        '```',
+        '',
+        '## When to use which',
+        '',
+        'Use a linked list when you insert and remove at known positions far more often than you index.',
+      ].join('\n'),
+      order_index: 0,
+      difficulty_level: 'intermediate',
+      estimated_minutes: 20,
+      content_type: 'text',
+      skill_ids: [skillId(5)],
+      created_at: created,
+    },
+    {
+      id: lessonId(5),
+      course_id: DS_COURSE_ID,
+      title: 'Hash Maps Explained',
+      content: 'Watch the walkthrough, then read the notes below.\n\n## Notes\n\nA good hash spreads keys evenly across buckets.',
+      order_index: 1,
+      difficulty_level: 'intermediate',
+      estimated_minutes: 12,
+      content_type: 'video',
+      video_url: 'https://interactive-examples.mdn.mozilla.net/media/cc0-videos/flower.mp4',
+      caption_tracks: [],
+      transcript: 'A hash map stores values in buckets chosen by hashing the key.',
+      skill_ids: [skillId(6)],
+      created_at: created,
+    },
+    {
+      id: lessonId(6),
+      course_id: DS_COURSE_ID,
+      title: 'Complexity Quiz',
+      content: 'Check your understanding of running costs.',
+      order_index: 2,
+      difficulty_level: 'intermediate',
+      estimated_minutes: 10,
+      content_type: 'quiz',
+      max_attempts: 3,
+      attempt_scoring: 'best',
+      skill_ids: [skillId(5)],
+      created_at: created,
+    },
+  ];
+
+  // Questions without an entry count towards their lesson's skills.
+  const questionSkills: Record<number, string[]> = {
+    1: [skillId(2)],
+    2: [skillId(2)],
+    3: [skillId(3)],
+    4: [skillId(2)],
+    5: [skillId(2)],
+    6: [skillId(3)],
+    8: [skillId(6), skillId(5)],
+    10: [skillId(6), skillId(5)],
+    11: [skillId(2)],
+    12: [skillId(2)],
+    15: [skillId(6), skillId(5)],
+  };
+
+  const lessonVariants: LessonVariant[] = [
+    {
+      id: '00000000-0000-4000-8000-000000000501',
+      lesson_id: lessonId(1),
+      learning_style: 'visual',
+      content: [
+        '# Values and Types',
+        '',
+        '```mermaid',
+        'graph TD',
+        '  V[value] --> P[primitive]',
+        '  V --> O[object]',
+        '  P --> N[number]',
+        '  P --> S[string]',
+        '  P --> B[boolean]',
+        '```',
+        '',
+        'Everything that is not a primitive is an object, including arrays and functions.',
+        'Use `typeof` to see which branch a value belongs to.',
+      ].join('\n'),
+      audio_url: '',
+      created_at: created,
+      updated_at: created,
+    },
+    {
+      id: '00000000-0000-4000-8000-000000000502',
+      lesson_id: lessonId(4),
+      learning_style: 'kinesthetic',
+      content: [
+        '# Arrays and Linked Lists',
+        '',
+        'Try it: open your browser console and run',
+        '',
+        '```js',
+        'const list = { value: 1, next: { value: 2, next: { value: 3, next: null } } };',
+        'let node = list;',
+        'while (node) { console.log(node.value); node = node.next; }',
+        '```',
+        '',
+        'Count the steps it takes to reach the third value, then compare with `[1, 2, 3][2]`.',
+      ].join('\n'),
+      audio_url: '',
+      created_at: created,
+      updated_at: created,
+    },
+  ];
+
+  const question = (
+    n: number,
+    lesson: number,
+    difficulty: Assessment['difficulty'],
+    text: string,
+    options: string[],
+    correct: string,
+    explanation: string
+  ): Assessment => ({
+    id: assessmentId(n),
+    lesson_id: lessonId(lesson),
+    question: text,
+    question_type: 'single_choice',
+    options,
+    correct_answer: correct,
+    answer_key: {},
+    explanation,
+    difficulty,
+    skill_ids: questionSkills[n] ?? [],
+    created_at: created,
+  });
+
+  const assessments: Assessment[] = [
+    question(1, 3, 'easy', 'What does `typeof "hi"` return?', ['"string"', '"text"', '"object"'], '"string"',
+      'Strings are a primitive type named "string".'),
+    question(2, 3, 'easy', 'Which operator compares without type conversion?', ['==', '===', '='], '===',
+      'Strict equality never converts its operands.'),
+    question(3, 3, 'medium', 'What does `[1, 2, 3].map(n => n * 2)` return?', ['[2, 4, 6]', '6', '[1, 2, 3]'],
+      '[2, 4, 6]', 'map returns a new array with each element transformed.'),
+    question(4, 3, 'medium', 'What is `0.1 + 0.2 === 0.3`?', ['true', 'false'], 'false',
+      'Floating point addition gives 0.30000000000000004.'),
+    question(5, 3, 'hard', 'What does `typeof null` return?', ['"null"', '"object"', '"undefined"'], '"object"',
+      'A long-standing quirk of the language.'),
+    question(6, 3, 'hard', 'Which declaration is hoisted with its value?', ['let', 'const', 'function'], 'function',
+      'Function declarations are hoisted together with their bodies.'),
+    question(7, 6, 'easy', 'Cost of reading `array[i]`?', ['O(1)', 'O(n)', 'O(log n)'], 'O(1)',
+      'Arrays support constant-time indexing.'),
+    question(8, 6, 'medium', 'Average cost of a hash map lookup?', ['O(1)', 'O(n)', 'O(n log n)'], 'O(1)',
+      'With a good hash function, lookups are constant time on average.'),
+    question(9, 6, 'medium', 'Cost of inserting at the head of a linked list?', ['O(1)', 'O(n)'], 'O(1)',
+      'Only the head pointer changes.'),
+    question(10, 6, 'hard', 'Worst-case hash map lookup when every key collides?', ['O(1)', 'O(log n)', 'O(n)'],
+      'O(n)', 'All keys land in one bucket, which is scanned linearly.'),
+    {
+      ...question(11, 3, 'medium', 'Which of these are primitive types?', ['string', 'object', 'boolean', 'array'], '',
+        'Objects and arrays are reference types; strings and booleans are primitives.'),
+      question_type: 'multiple_select',
+      answer_key: { correct_options: ['string', 'boolean'] },
+    },
+    {
+      ...question(12, 3, 'easy', '`const` variables can be reassigned.', ['True', 'False'], 'False',
+        'A `const` binding cannot be reassigned, although an object it holds can still be mutated.'),
+      question_type: 'true_false',
+    },
+    {
+      ...question(13, 3, 'medium', 'Which keyword declares a block-scoped variable that can be reassigned?', [], '',
+        'Use `let` for variables you reassign and `const` for everything else.'),
+      question_type: 'short_text',
+      answer_key: { accepted: ['let'], case_sensitive: true },
+    },
+    {
+      ...question(14, 6, 'medium', 'Order these costs from cheapest to most expensive.', ['O(1)', 'O(log n)', 'O(n)', 'O(n log n)'], '',
+        'Constant, logarithmic, linear, then linearithmic.'),
+      question_type: 'ordering',
+    },
+    {
+      ...question(15, 6, 'hard', 'Match each operation with its average cost.', [], '',
+        'Hash maps trade memory for constant-time lookups; sorted arrays allow binary search.'),
+      question_type: 'matching',
+      answer_key: {
+        pairs: [
+          { prompt: 'Hash map lookup', match: 'O(1)' },
+          { prompt: 'Binary search', match: 'O(log n)' },
+          { prompt: 'Linked list search', match: 'O(n)' },
+        ],
+      },
+    },
+    {
+      ...question(16, 6, 'hard', 'About how many comparisons does binary search need for 1,000 sorted items?', [], '',
+        'log2(1000) is just under 10.'),
+      question_type: 'numeric',
+      answer_key: { value: 10, tolerance: 1 },
+    },
+  ];
+
+  const achievement = (
+    n: number,
+    name: string,
+    description: string,
+    icon: Achievement['icon'],
+    metric: Achievement['metric'],
+    threshold: number
+  ): Achievement => ({ id: achievementId(n), name, description, icon, metric, threshold, created_at: created });
+
+  // The starter set from the gamification migration.
+  const achievements: Achievement[] = [
+    achievement(1, 'First Steps', 'Complete your first lesson.', 'book', 'lessons_completed', 1),
+    achievement(2, 'Course Finisher', 'Complete every lesson of a course.', 'trophy', 'courses_completed', 1),
+    achievement(3, 'Sharpshooter', 'Answer 10 hard questions correctly.', 'target', 'hard_correct_answers', 10),
+    achievement(4, 'Week Warrior', 'Keep a learning streak going for 7 days.', 'flame', 'longest_streak', 7),
+    achievement(5, 'Quick Study', 'Earn 1,000 XP.', 'zap', 'xp', 1000),
+  ];
+
+  return {
+    users: [{ id: DEMO_USER_ID, email: DEMO_EMAIL, password: DEMO_PASSWORD }],
+    profiles: [
+      {
+        id: DEMO_USER_ID,
+        email: DEMO_EMAIL,
+        full_name: 'Demo Learner',
+        learning_style: 'visual',
+        skill_level: 'beginner',
+        role: 'author',
+        created_at: created,
+        updated_at: created,
+      },
+    ],
+    courses,
+    lessons,
+    lesson_variants: lessonVariants,
+    assessments,
+    skills,
+    achievements,
+  };
+}
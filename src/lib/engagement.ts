@@ -0,0 +1,85 @@
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'scroll', 'touchstart'] as const;
+
+export type EngagementOptions = {
+  /** Called with the engaged seconds since the previous heartbeat, whenever there are any. */
+  onHeartbeat: (seconds: number) => void;
+  heartbeatMs?: number;
+  /** How long after the last input the learner counts as idle. */
+  idleMs?: number;
+};
+
+export type EngagementTracker = {
+  /** Returns the engaged seconds not yet reported and resets the count. */
+  takeSeconds(): number;
+  /** Reports any remaining time and stops listening. */
+  stop(): void;
+};
+
+/**
+ * Measures how long the learner actually engages with the page: time only
+ * counts while the tab is visible and there has been input within `idleMs`.
+ * Playing media counts as input, so watching a video is not treated as idle.
+ * Hiding the tab or leaving the page sends a heartbeat straight away, since
+ * the browser may discard the page before the next interval.
+ */
+export function createEngagementTracker({
+  onHeartbeat,
+  heartbeatMs = 30_000,
+  idleMs = 60_000,
+}: EngagementOptions): EngagementTracker {
+  let visible = document.visibilityState === 'visible';
+  let lastActivity = Date.now();
+  let lastCheck = lastActivity;
+  let engagedMs = 0;
+
+  const accrue = () => {
+    const now = Date.now();
+    const until = Math.min(now, lastActivity + idleMs);
+    if (visible && until > lastCheck) engagedMs += until - lastCheck;
+    lastCheck = now;
+  };
+
+  const takeSeconds = () => {
+    accrue();
+    const seconds = Math.floor(engagedMs / 1000);
+    engagedMs -= seconds * 1000;
+    return seconds;
+  };
+
+  const heartbeat = () => {
+    const seconds = takeSeconds();
+    if (seconds > 0) onHeartbeat(seconds);
+  };
+
+  const handleActivity = () => {
+    accrue();
+    lastActivity = Date.now();
+  };
+
+  const handleVisibilityChange = () => {
+    accrue();
+    visible = document.visibilityState === 'visible';
+    if (visible) lastActivity = Date.now();
+    else heartbeat();
+  };
+
+  const listenerOptions = { capture: true, passive: true };
+  ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, listenerOptions));
+  // Media events do not bubble, so they are caught on the way down instead.
+  document.addEventListener('timeupdate', handleActivity, listenerOptions);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('pagehide', heartbeat);
+  const interval = window.setInterval(heartbeat, heartbeatMs);
+
+  return {
+    takeSeconds,
+    stop() {
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity, listenerOptions));
+      document.removeEventListener('timeupdate', handleActivity, listenerOptions);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', heartbeat);
+      heartbeat();
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import {
+  Achievement,
+  AchievementIcon,
+  AchievementMetric,
+  Assessment,
+  LearningStreak,
+  Lesson,
+  UserAssessment,
+  UserProgress,
+  XpEvent,
+} from './supabase';
+import { localDay } from './goals';
+
+/** XP per completed lesson. Matches the `award_lesson_engagement` trigger. */
+export const LESSON_XP: Record<Lesson['difficulty_level'], number> = {
+  beginner: 20,
+  intermediate: 35,
+  advanced: 50,
+};
+
+/** XP per correctly answered question. Matches the `award_answer_engagement` trigger. */
+export const ANSWER_XP: Record<Assessment['difficulty'], number> = {
+  easy: 5,
+  medium: 10,
+  hard: 20,
+};
+
+/** A freeze is earned every this many streak days. */
+export const FREEZE_EVERY_DAYS = 7;
+export const MAX_FREEZES = 2;
+
+export const ACHIEVEMENT_METRIC_LABELS: Record<AchievementMetric, string> = {
+  xp: 'XP earned',
+  lessons_completed: 'Lessons completed',
+  courses_completed: 'Courses completed',
+  correct_answers: 'Questions answered correctly',
+  hard_correct_answers: 'Hard questions answered correctly',
+  longest_streak: 'Longest streak (days)',
+};
+
+export const ACHIEVEMENT_ICONS: AchievementIcon[] = ['award', 'star', 'flame', 'trophy', 'zap', 'target', 'book'];
+
+export type StreakState = Pick<
+  LearningStreak,
+  'current_streak' | 'longest_streak' | 'last_active_on' | 'freezes_available' | 'freezes_used'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The calendar day a timestamp falls on in the learner's time zone, as goals count weeks. */
+export const activityDay = (timestamp: string, timeZone: string) => localDay(new Date(timestamp), timeZone);
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/**
+ * The streak after learning on `day`, or null when that day is already
+ * counted. Missed days are covered by freezes while they last; otherwise the
+ * streak starts over. Mirrors `record_learning_activity`.
+ */
+export function advanceStreak(streak: StreakState | null, day: string): StreakState | null {
+  if (!streak?.last_active_on) {
+    return {
+      current_streak: 1,
+      longest_streak: Math.max(streak?.longest_streak ?? 0, 1),
+      last_active_on: day,
+      freezes_available: streak?.freezes_available ?? 0,
+      freezes_used: streak?.freezes_used ?? 0,
+    };
+  }
+  if (day <= streak.last_active_on) return null;
+
+  const missed = daysBetween(streak.last_active_on, day) - 1;
+  const next = { ...streak, last_active_on: day };
+  if (missed > streak.freezes_available) {
+    next.current_streak = 1;
+  } else {
+    next.freezes_available -= missed;
+    next.freezes_used += missed;
+    next.current_streak += 1;
+  }
+  if (next.current_streak % FREEZE_EVERY_DAYS === 0) {
+    next.freezes_available = Math.min(next.freezes_available + 1, MAX_FREEZES);
+  }
+  next.longest_streak = Math.max(next.longest_streak, next.current_streak);
+  return next;
+}
+
+/**
+ * The streak as of `today`: still alive while the days missed since the last
+ * activity could be covered by freezes, zero once it can no longer be saved.
+ */
+export function activeStreak(streak: StreakState | null, today: string): number {
+  if (!streak?.last_active_on) return 0;
+  const missed = daysBetween(streak.last_active_on, today) - 1;
+  return missed <= streak.freezes_available ? streak.current_streak : 0;
+}
+
+/** Level `n` starts at 50·n·(n−1) XP, so each level takes 100 XP more than the last. */
+export function xpLevel(xp: number): { level: number; levelXp: number; nextLevelXp: number } {
+  const start = (n: number) => 50 * n * (n - 1);
+  let level = 1;
+  while (start(level + 1) <= xp) level++;
+  return { level, levelXp: start(level), nextLevelXp: start(level + 1) };
+}
+
+/**
+ * Answers that count for XP and the answer metrics: those given in a quiz
+ * attempt, and otherwise only the first answer to a question, so answering
+ * until right earns nothing. Mirrors `answer_earns_credit`.
+ */
+export function creditedAnswers(answers: UserAssessment[]) {
+  const first = new Map<string, UserAssessment>();
+  for (const answer of answers) {
+    const earliest = first.get(answer.assessment_id);
+    if (
+      !earliest ||
+      answer.attempted_at < earliest.attempted_at ||
+      (answer.attempted_at === earliest.attempted_at && answer.id < earliest.id)
+    ) {
+      first.set(answer.assessment_id, answer);
+    }
+  }
+  return answers.filter(answer => answer.attempt_id || first.get(answer.assessment_id) === answer);
+}
+
+/** A learner's totals for every metric. Mirrors `learner_metrics`. */
+export function computeMetrics({
+  xpEvents,
+  progress,
+  lessons,
+  answers,
+  assessments,
+  streak,
+}: {
+  xpEvents: XpEvent[];
+  progress: UserProgress[];
+  lessons: Pick<Lesson, 'id' | 'course_id'>[];
+  answers: UserAssessment[];
+  assessments: Pick<Assessment, 'id' | 'difficulty'>[];
+  streak: StreakState | null;
+}): Record<AchievementMetric, number> {
+  const completed = new Set(progress.filter(p => p.status === 'completed').map(p => p.lesson_id));
+  const courseIds = [...new Set(lessons.map(l => l.course_id))];
+  const correct = new Set(creditedAnswers(answers).filter(a => a.is_correct).map(a => a.assessment_id));
+  const hard = assessments.filter(a => a.difficulty === 'hard' && correct.has(a.id));
+
+  return {
+    xp: xpEvents.reduce((sum, e) => sum + e.points, 0),
+    lessons_completed: completed.size,
+    courses_completed: courseIds.filter(courseId =>
+      lessons.filter(l => l.course_id === courseId).every(l => completed.has(l.id))
+    ).length,
+    correct_answers: correct.size,
+    hard_correct_answers: hard.length,
+    longest_streak: streak?.longest_streak ?? 0,
+  };
+}
+
+/** Achievements the metrics have reached that are not unlocked yet. */
+export function newlyUnlocked(
+  achievements: Achievement[],
+  metrics: Record<AchievementMetric, number>,
+  unlockedIds: string[]
+): Achievement[] {
+  return achievements.filter(a => !unlockedIds.includes(a.id) && metrics[a.metric] >= a.threshold);
+}
@@ -0,0 +1,110 @@
+import { AppNotification, Profile } from './supabase';
+import { db } from './repositories';
+import { evaluateGoals, GoalData, GoalProgress, localDay, localHour, weekBounds, weekSettings } from './goals';
+import { paths } from './routes';
+
+const CHECK_INTERVAL_MS = 15 * 60_000;
+
+/** A user's goals and the data to evaluate them in the week starting at `week.start`. */
+export async function loadGoalData(userId: string, week: { start: Date }): Promise<GoalData> {
+  const [goals, time] = await Promise.all([
+    db.goals.listByUser(userId),
+    db.learningTime.listByUser(userId, week.start.toISOString()),
+  ]);
+  const courseIds = goals.flatMap(g => (g.course_id ? [g.course_id] : []));
+  const lessons = courseIds.length > 0 ? await db.lessons.listSummaries(courseIds) : [];
+  return { goals, time, lessons };
+}
+
+export const browserRemindersSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+/** Asks for notification permission; resolves to whether reminders can be shown. */
+export async function requestBrowserReminders() {
+  if (!browserRemindersSupported()) return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+async function reminderText({ goal, current, target, state }: GoalProgress) {
+  if (goal.kind !== 'course_deadline') {
+    const unit = goal.kind === 'weekly_minutes' ? 'minutes' : 'lessons';
+    return {
+      title: 'You are falling behind on your weekly goal',
+      body: `${current} of ${target} ${unit} so far this week.`,
+    };
+  }
+
+  const course = await db.courses.get(goal.course_id ?? '');
+  const title = course?.title ?? 'your course';
+  const due = new Date(`${goal.deadline}T00:00:00`).toLocaleDateString();
+  if (state === 'overdue') {
+    return {
+      title: `The deadline for ${title} has passed`,
+      body: `It was due ${due}. ${current} of ${target} lessons done.`,
+    };
+  }
+  return { title: `You are falling behind on ${title}`, body: `${current} of ${target} lessons done, due ${due}.` };
+}
+
+async function showBrowserNotification({ id, title, body, link }: AppNotification) {
+  if (!browserRemindersSupported() || Notification.permission !== 'granted') return;
+
+  const options = { body, tag: id, data: { link } };
+  // Notifications shown by the service worker can reopen the app when it is closed (see public/sw.js).
+  const registration = await navigator.serviceWorker?.getRegistration();
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    new Notification(title, options).onclick = () => window.focus();
+  }
+}
+
+/**
+ * Sends a reminder for every goal that is behind or overdue, once the
+ * learner's local reminder hour has come. Behind goals are reminded about
+ * at most once a day and overdue deadlines once; returns the new reminders.
+ */
+export async function checkGoalReminders(profile: Profile, now = new Date()) {
+  const settings = weekSettings(profile);
+  if (localHour(now, settings.timeZone) < (profile.reminder_hour ?? 18)) return [];
+
+  const data = await loadGoalData(profile.id, weekBounds(now, settings.timeZone, settings.weekStartsOn));
+  if (data.goals.length === 0) return [];
+  const progress = await db.progress.listByUser(profile.id);
+  const day = localDay(now, settings.timeZone);
+
+  const created: AppNotification[] = [];
+  for (const result of evaluateGoals(data, progress, settings, now)) {
+    if (result.state !== 'behind' && result.state !== 'overdue') continue;
+
+    const notification = await db.notifications.create({
+      user_id: profile.id,
+      ...(await reminderText(result)),
+      link: paths.progress,
+      dedupe_key: `goal:${result.goal.id}:${result.state === 'overdue' ? 'overdue' : day}`,
+    });
+    if (!notification) continue;
+    created.push(notification);
+    if (profile.browser_reminders) {
+      showBrowserNotification(notification).catch(error => console.error('Error showing notification:', error));
+    }
+  }
+  return created;
+}
+
+/**
+ * Checks for reminders now and every 15 minutes until the returned cleanup is
+ * called. Checks only run while the app is open in a tab, so a learner who
+ * doesn't open it gets their reminders the next time they do.
+ */
+export function startGoalReminders(profile: Profile, onNotified: (notifications: AppNotification[]) => void) {
+  const check = () =>
+    checkGoalReminders(profile)
+      .then(created => {
+        if (created.length > 0) onNotified(created);
+      })
+      .catch(error => console.error('Error checking goal reminders:', error));
+
+  check();
+  const timer = window.setInterval(check, CHECK_INTERVAL_MS);
+  return () => window.clearInterval(timer);
+}
@@ -0,0 +1,192 @@
+import { LearningGoal, LearningTime, Profile, UserProgress } from './supabase';
+import { LessonSummary } from './catalog';
+
+export const GOAL_KIND_LABELS: Record<LearningGoal['kind'], string> = {
+  weekly_minutes: 'Minutes this week',
+  weekly_lessons: 'Lessons this week',
+  course_deadline: 'Course deadline',
+};
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export type GoalState = 'done' | 'on_track' | 'behind' | 'overdue';
+
+export const GOAL_STATE_LABELS: Record<GoalState, string> = {
+  done: 'Reached',
+  on_track: 'On track',
+  behind: 'Behind',
+  overdue: 'Overdue',
+};
+
+export type GoalProgress = {
+  goal: LearningGoal;
+  current: number;
+  target: number;
+  /** `current / target`, capped at 1. */
+  fraction: number;
+  /** Where an even pace would be by now, from 0 to 1. */
+  expected: number;
+  state: GoalState;
+};
+
+export type WeekSettings = { timeZone: string; weekStartsOn: number };
+
+/** Everything besides progress that goals are evaluated from. */
+export type GoalData = {
+  goals: LearningGoal[];
+  /** Learning time since the start of the current week. */
+  time: LearningTime[];
+  /** Lessons of the courses that have deadlines. */
+  lessons: LessonSummary[];
+};
+
+// How far behind an even pace a goal may fall before it counts as behind.
+const PACE_SLACK = 0.1;
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** How far ahead of UTC the wall clock in `timeZone` is at `date`, in milliseconds. */
+function zoneOffset(date: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(date)
+      .map(part => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - (date.getTime() - date.getMilliseconds());
+}
+
+/** The wall clock in `timeZone` at `date`, as a Date whose UTC fields hold the local values. */
+const wallClock = (date: Date, timeZone: string) => new Date(date.getTime() + zoneOffset(date, timeZone));
+
+/** The instant local midnight starts a calendar day in `timeZone`. Days may overflow the month. */
+function zonedMidnight(year: number, month: number, day: number, timeZone: string) {
+  const guess = Date.UTC(year, month, day);
+  // The offset can differ between the guess and the answer across a DST change, so settle it twice.
+  const first = guess - zoneOffset(new Date(guess), timeZone);
+  return new Date(guess - zoneOffset(new Date(first), timeZone));
+}
+
+/** A profile's week settings, with the column defaults for profiles saved before they existed. */
+export const weekSettings = (profile: Pick<Profile, 'time_zone' | 'week_starts_on'>): WeekSettings => ({
+  timeZone: profile.time_zone || 'UTC',
+  weekStartsOn: profile.week_starts_on ?? 1,
+});
+
+/** The local calendar day (`YYYY-MM-DD`) of `date` in `timeZone`. */
+export const localDay = (date: Date, timeZone: string) => wallClock(date, timeZone).toISOString().slice(0, 10);
+
+export const localHour = (date: Date, timeZone: string) => wallClock(date, timeZone).getUTCHours();
+
+/** The local week containing `now`, as the instants it starts and ends. */
+export function weekBounds(now: Date, timeZone: string, weekStartsOn: number): { start: Date; end: Date } {
+  const local = wallClock(now, timeZone);
+  const day = local.getUTCDate() - ((local.getUTCDay() - weekStartsOn + 7) % 7);
+  return {
+    start: zonedMidnight(local.getUTCFullYear(), local.getUTCMonth(), day, timeZone),
+    end: zonedMidnight(local.getUTCFullYear(), local.getUTCMonth(), day + 7, timeZone),
+  };
+}
+
+/** When a `YYYY-MM-DD` deadline has passed: the end of that day in `timeZone`. */
+export function deadlineEnd(deadline: string, timeZone: string) {
+  const [year, month, day] = deadline.split('-').map(Number);
+  return zonedMidnight(year, month - 1, day + 1, timeZone);
+}
+
+const within = (timestamp: string | undefined | null, start: Date, end: Date) =>
+  !!timestamp && Date.parse(timestamp) >= start.getTime() && Date.parse(timestamp) < end.getTime();
+
+const elapsed = (now: Date, start: Date, end: Date) =>
+  Math.min(1, Math.max(0, (now.getTime() - start.getTime()) / (end.getTime() - start.getTime())));
+
+/** Whole minutes learned and lessons completed between `start` and `end`. */
+export function weeklyTotals(
+  { start, end }: { start: Date; end: Date },
+  time: LearningTime[],
+  progress: UserProgress[]
+) {
+  const seconds = time.filter(t => within(t.starts_at, start, end)).reduce((sum, t) => sum + t.seconds, 0);
+  return {
+    minutes: Math.floor(seconds / 60),
+    lessons: progress.filter(p => p.status === 'completed' && within(p.completed_at, start, end)).length,
+  };
+}
+
+/**
+ * How a goal is going. Weekly goals count the current local week; a deadline
+ * counts the course's completed lessons against an even pace from when the
+ * goal was set to the end of the deadline day.
+ */
+export function evaluateGoal(
+  goal: LearningGoal,
+  {
+    now,
+    timeZone,
+    weekStartsOn,
+    time,
+    progress,
+    lessons,
+  }: {
+    now: Date;
+    timeZone: string;
+    weekStartsOn: number;
+    time: LearningTime[];
+    progress: UserProgress[];
+    lessons: LessonSummary[];
+  }
+): GoalProgress {
+  let current: number;
+  let target: number;
+  let expected: number;
+  let overdue = false;
+
+  if (goal.kind === 'course_deadline') {
+    const courseLessons = lessons.filter(l => l.course_id === goal.course_id);
+    current = courseLessons.filter(l => progress.some(p => p.lesson_id === l.id && p.status === 'completed')).length;
+    target = courseLessons.length;
+    const end = deadlineEnd(goal.deadline ?? '', timeZone);
+    expected = elapsed(now, new Date(goal.created_at), end);
+    overdue = now >= end;
+  } else {
+    const week = weekBounds(now, timeZone, weekStartsOn);
+    const totals = weeklyTotals(week, time, progress);
+    current = goal.kind === 'weekly_minutes' ? totals.minutes : totals.lessons;
+    target = goal.target ?? 0;
+    expected = elapsed(now, week.start, week.end);
+  }
+
+  const fraction = target > 0 ? Math.min(1, current / target) : 1;
+  let state: GoalState = 'on_track';
+  if (fraction >= 1) state = 'done';
+  else if (overdue) state = 'overdue';
+  else if (fraction < expected - PACE_SLACK) state = 'behind';
+
+  return { goal, current, target, fraction, expected, state };
+}
+
+export const evaluateGoals = (
+  { goals, time, lessons }: GoalData,
+  progress: UserProgress[],
+  settings: WeekSettings,
+  now: Date
+) =>
+  goals.map(goal => evaluateGoal(goal, { now, ...settings, time, progress, lessons }));
@@ -0,0 +1,209 @@
+import { Assessment, Question, QuestionType } from './supabase';
+import { shuffle } from './interactive';
+
+/**
+ * A learner's response: the chosen option or typed text, the chosen options
+ * (multiple_select) or item order (ordering), or each prompt's match (matching).
+ */
+export type AnswerValue = string | string[] | Record<string, string>;
+
+/** The parts of an assessment that reveal its answer. */
+export type Solution = Pick<Assessment, 'options' | 'correct_answer' | 'answer_key'>;
+
+/** A question's solution and explanation, as shown when reviewing a finished attempt. */
+export type QuestionSolution = Solution & Pick<Assessment, 'id' | 'explanation'>;
+
+export type GradeResult = {
+  score: number;
+  is_correct: boolean;
+  /**
+   * The explanation and solution are only sent back when reviewing a question
+   * answered in a finished attempt, so answering can't be used to look them up.
+   */
+  explanation: string | null;
+  solution: Solution | null;
+};
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+// The numbers `grade_answer` accepts: no hex, `+` sign, `Infinity` or the like, which `Number()` would take.
+const NUMBER_PATTERN = /^\s*-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/;
+
+const parseNumber = (value: string) => (NUMBER_PATTERN.test(value) ? Number(value) : NaN);
+
+const normalize = (value: string, caseSensitive: boolean) => {
+  const collapsed = value.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+const roundScore = (score: number) => Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+
+/** Compiles a `/.../flags` accepted answer, or returns null for plain text. Throws on invalid patterns. */
+export function parseAnswerPattern(pattern: string, caseSensitive = false): RegExp | null {
+  const match = pattern.trim().match(REGEX_PATTERN);
+  if (!match) return null;
+  const flags = caseSensitive || match[2].includes('i') ? match[2] : `${match[2]}i`;
+  return new RegExp(`^(?:${match[1]})$`, flags);
+}
+
+function matchesAccepted(answer: string, pattern: string, caseSensitive: boolean) {
+  try {
+    const regex = parseAnswerPattern(pattern, caseSensitive);
+    if (regex) return regex.test(answer.trim());
+  } catch {
+    return false;
+  }
+  return normalize(answer, caseSensitive) === normalize(pattern, caseSensitive);
+}
+
+/** Length of the longest run of items already in the right relative order. */
+function longestOrderedRun(attempt: string[], correct: string[]) {
+  const positions = attempt.map(item => correct.indexOf(item)).filter(i => i >= 0);
+  const tails: number[] = [];
+  for (const position of positions) {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (tails[mid] < position) low = mid + 1;
+      else high = mid;
+    }
+    tails[low] = position;
+  }
+  return tails.length;
+}
+
+/** Strips an assessment down to what learners may see, mirroring the `list_questions` database function. */
+export function toQuestion(assessment: Assessment): Question {
+  const pairs = assessment.answer_key.pairs ?? [];
+  return {
+    id: assessment.id,
+    lesson_id: assessment.lesson_id,
+    question: assessment.question,
+    question_type: assessment.question_type,
+    options: assessment.question_type === 'ordering' ? shuffle(assessment.options) : assessment.options,
+    matching:
+      assessment.question_type === 'matching'
+        ? { prompts: pairs.map(p => p.prompt), choices: shuffle([...new Set(pairs.map(p => p.match))]) }
+        : null,
+    difficulty: assessment.difficulty,
+    created_at: assessment.created_at,
+  };
+}
+
+/** The blank response a question starts from. Ordering items arrive already shuffled. */
+export function emptyAnswer(question: Question): AnswerValue {
+  switch (question.question_type) {
+    case 'multiple_select':
+      return [];
+    case 'ordering':
+      return [...question.options];
+    case 'matching':
+      return {};
+    default:
+      return '';
+  }
+}
+
+export function isAnswerComplete(question: Question, answer: AnswerValue) {
+  switch (question.question_type) {
+    case 'multiple_select':
+      return Array.isArray(answer) && answer.length > 0;
+    case 'ordering':
+      return Array.isArray(answer);
+    case 'matching': {
+      const matches = answer as Record<string, string>;
+      return (question.matching?.prompts ?? []).every(prompt => !!matches[prompt]);
+    }
+    case 'numeric':
+      return typeof answer === 'string' && Number.isFinite(parseNumber(answer));
+    default:
+      return typeof answer === 'string' && answer.trim() !== '';
+  }
+}
+
+/**
+ * Scores a response from 0 to 1. Multiple select loses credit for each wrong
+ * choice, ordering credits the longest run of items in the right relative
+ * order, and matching credits each correct pair; the other types are all or
+ * nothing.
+ */
+function scoreAnswer(assessment: Assessment, answer: AnswerValue): number {
+  const key = assessment.answer_key;
+
+  switch (assessment.question_type) {
+    case 'multiple_select': {
+      const correct = new Set(key.correct_options ?? []);
+      const chosen = [...new Set(answer as string[])];
+      const hits = chosen.filter(option => correct.has(option)).length;
+      return correct.size === 0 ? 0 : roundScore((hits - (chosen.length - hits)) / correct.size);
+    }
+    case 'numeric': {
+      const value = typeof answer === 'string' ? parseNumber(answer) : NaN;
+      if (!Number.isFinite(value) || key.value === undefined) return 0;
+      // The epsilon absorbs floating point error when the tolerance is zero.
+      return Math.abs(value - key.value) <= (key.tolerance ?? 0) + Number.EPSILON ? 1 : 0;
+    }
+    case 'short_text':
+      return (key.accepted ?? []).some(pattern => matchesAccepted(answer as string, pattern, !!key.case_sensitive))
+        ? 1
+        : 0;
+    case 'ordering':
+      return assessment.options.length === 0
+        ? 0
+        : roundScore(longestOrderedRun(answer as string[], assessment.options) / assessment.options.length);
+    case 'matching': {
+      const pairs = key.pairs ?? [];
+      const matches = answer as Record<string, string>;
+      return pairs.length === 0 ? 0 : roundScore(pairs.filter(p => matches[p.prompt] === p.match).length / pairs.length);
+    }
+    default:
+      return answer === assessment.correct_answer ? 1 : 0;
+  }
+}
+
+/**
+ * Grades against the full assessment, mirroring the `grade_answer` database
+ * function. Learners are graded on the server; this serves the in-memory
+ * backend and author previews.
+ */
+export function gradeLocally(assessment: Assessment, answer: AnswerValue): GradeResult {
+  const score = scoreAnswer(assessment, answer);
+  return {
+    score,
+    is_correct: score === 1,
+    explanation: assessment.explanation,
+    solution: {
+      options: assessment.options,
+      correct_answer: assessment.correct_answer,
+      answer_key: assessment.answer_key,
+    },
+  };
+}
+
+/** Stores structured responses as JSON in `user_answer`. */
+export const encodeAnswer = (answer: AnswerValue) => (typeof answer === 'string' ? answer : JSON.stringify(answer));
+
+/** A readable version of the correct answer for feedback and author summaries. */
+export function describeCorrectAnswer(type: QuestionType, solution: Solution): string {
+  const key = solution.answer_key;
+
+  switch (type) {
+    case 'multiple_select':
+      return (key.correct_options ?? []).join(', ');
+    case 'numeric':
+      return key.tolerance ? `${key.value} ± ${key.tolerance}` : String(key.value ?? '');
+    case 'short_text': {
+      const accepted = key.accepted ?? [];
+      return accepted.find(pattern => !REGEX_PATTERN.test(pattern.trim())) ?? accepted[0] ?? '';
+    }
+    case 'ordering':
+      return solution.options.join(' → ');
+    case 'matching':
+      return (key.pairs ?? []).map(pair => `${pair.prompt} → ${pair.match}`).join('; ');
+    default:
+      return solution.correct_answer;
+  }
+}
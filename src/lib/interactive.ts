@@ -0,0 +1,101 @@
+import { CodeTestCase } from './supabase';
+
+export const BLANK_MARKER = '___';
+// Learner code that runs longer than this is assumed to be stuck in a loop.
+const CODE_TIMEOUT_MS = 2000;
+
+export type TestResult = {
+  description: string;
+  passed: boolean;
+  actual?: string;
+  error?: string;
+};
+
+const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export function checkBlanks(answers: string[], accepted: string[][]) {
+  return accepted.map((options, index) =>
+    options.some(option => normalize(option) === normalize(answers[index] ?? ''))
+  );
+}
+
+export function checkOrder(attempt: string[], correct: string[]) {
+  return attempt.length === correct.length && attempt.every((item, index) => item === correct[index]);
+}
+
+export function shuffle<T>(items: T[]): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+// Runs inside a dedicated worker so learner code cannot touch the page or
+// hang the tab. Values are compared through a stable JSON encoding.
+const WORKER_SOURCE = `
+const encode = value => JSON.stringify(value, (_, v) =>
+  v && typeof v === 'object' && !Array.isArray(v)
+    ? Object.keys(v).sort().reduce((o, k) => (o[k] = v[k], o), {})
+    : v
+);
+self.onmessage = event => {
+  const { code, functionName, tests } = event.data;
+  let fn;
+  try {
+    fn = new Function(code + '\\nreturn typeof ' + functionName + " === 'function' ? " + functionName + ' : undefined;')();
+  } catch (error) {
+    self.postMessage({ compileError: String(error) });
+    return;
+  }
+  if (!fn) {
+    self.postMessage({ compileError: 'Define a function named ' + functionName + '.' });
+    return;
+  }
+  const results = tests.map((test, index) => {
+    const description = test.description || functionName + '(' + test.args.map(a => JSON.stringify(a)).join(', ') + ')';
+    try {
+      const actual = fn(...test.args);
+      return { description, passed: encode(actual) === encode(test.expected), actual: encode(actual) };
+    } catch (error) {
+      return { description, passed: false, error: String(error) };
+    }
+  });
+  self.postMessage({ results });
+};
+`;
+
+export function runCodeTests(
+  code: string,
+  functionName: string,
+  tests: CodeTestCase[]
+): Promise<{ results: TestResult[]; error?: string }> {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+
+    const finish = (outcome: { results: TestResult[]; error?: string }) => {
+      clearTimeout(timer);
+      worker.terminate();
+      URL.revokeObjectURL(url);
+      resolve(outcome);
+    };
+
+    const timer = setTimeout(
+      () => finish({ results: [], error: `Your code took longer than ${CODE_TIMEOUT_MS / 1000}s to run.` }),
+      CODE_TIMEOUT_MS
+    );
+
+    worker.onmessage = event => {
+      const { results, compileError } = event.data;
+      finish(compileError ? { results: [], error: compileError } : { results });
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      finish({ results: [], error: event.message });
+    };
+
+    worker.postMessage({ code, functionName, tests });
+  });
+}
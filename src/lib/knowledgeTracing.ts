@@ -0,0 +1,81 @@
+import { Assessment, Lesson, Skill, SkillMastery } from './supabase';
+
+export type SkillParams = Pick<Skill, 'p_init' | 'p_learn' | 'p_slip' | 'p_guess'>;
+
+/** Matches the column defaults of the `skills` table. */
+export const DEFAULT_SKILL_PARAMS: SkillParams = {
+  p_init: 0.2,
+  p_learn: 0.15,
+  p_slip: 0.1,
+  p_guess: 0.2,
+};
+
+/** Estimated probability at which a skill counts as mastered. */
+export const MASTERY_THRESHOLD = 0.95;
+
+export type MasteryLevel = 'not_started' | 'learning' | 'proficient' | 'mastered';
+
+export const MASTERY_LEVEL_LABELS: Record<MasteryLevel, string> = {
+  not_started: 'Not started',
+  learning: 'Learning',
+  proficient: 'Proficient',
+  mastered: 'Mastered',
+};
+
+export type SkillNode = {
+  skill: Skill;
+  mastery: SkillMastery | null;
+  level: MasteryLevel;
+  children: SkillNode[];
+};
+
+/**
+ * One Bayesian Knowledge Tracing step: updates the probability that the skill
+ * is known from an answer's score (0-1, partial credit weights the correct and
+ * incorrect posteriors), then applies the chance of learning it from the
+ * practice. Mirrors the `trace_skill_mastery` database trigger.
+ */
+export function traceMastery(prior: number, score: number, params: SkillParams): number {
+  const { p_learn, p_slip, p_guess } = params;
+  const ifCorrect = (prior * (1 - p_slip)) / (prior * (1 - p_slip) + (1 - prior) * p_guess);
+  const ifWrong = (prior * p_slip) / (prior * p_slip + (1 - prior) * (1 - p_guess));
+  const posterior = score * ifCorrect + (1 - score) * ifWrong;
+  return posterior + (1 - posterior) * p_learn;
+}
+
+/** The skills an answer to the question is evidence for. */
+export const questionSkillIds = (
+  assessment: Pick<Assessment, 'skill_ids'>,
+  lesson: Pick<Lesson, 'skill_ids'> | undefined
+) => (assessment.skill_ids?.length ? assessment.skill_ids : lesson?.skill_ids ?? []);
+
+export function masteryLevel(mastery: SkillMastery | null): MasteryLevel {
+  if (!mastery || mastery.evidence_count === 0) return 'not_started';
+  if (mastery.p_mastery >= MASTERY_THRESHOLD) return 'mastered';
+  if (mastery.p_mastery >= 0.7) return 'proficient';
+  return 'learning';
+}
+
+/**
+ * Arranges skills into the taxonomy tree, alphabetically at each level, with
+ * the learner's mastery attached. Skills whose parent is missing become roots.
+ */
+export function buildSkillMap(skills: Skill[], mastery: SkillMastery[]): SkillNode[] {
+  const ids = new Set(skills.map(s => s.id));
+  const node = (skill: Skill): SkillNode => {
+    const row = mastery.find(m => m.skill_id === skill.id) ?? null;
+    return {
+      skill,
+      mastery: row,
+      level: masteryLevel(row),
+      children: childrenOf(skill.id),
+    };
+  };
+  const childrenOf = (parentId: string | null): SkillNode[] =>
+    skills
+      .filter(s => (parentId === null ? !s.parent_id || !ids.has(s.parent_id) : s.parent_id === parentId))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(node);
+
+  return childrenOf(null);
+}
@@ -0,0 +1,167 @@
+import {
+  Lesson,
+  UserProgress,
+  Assessment,
+  UserAssessment,
+  Profile,
+  LearningPath,
+  LearningPathItem,
+} from './supabase';
+import { db } from './repositories';
+
+type Level = Profile['skill_level'];
+
+const LEVEL_RANK: Record<Level, number> = {
+  beginner: 0,
+  intermediate: 1,
+  advanced: 2,
+};
+
+// Quiz accuracy below this marks a lesson as needing review.
+const REVIEW_THRESHOLD = 0.7;
+
+type PathInput = {
+  lessons: Lesson[];
+  progress: UserProgress[];
+  assessments: Pick<Assessment, 'id' | 'lesson_id'>[];
+  answers: Pick<UserAssessment, 'assessment_id' | 'score'>[];
+  skillLevel: Level;
+};
+
+export type PathResult = {
+  items: LearningPathItem[];
+  priorityScore: number;
+  reason: string;
+};
+
+const lessonAccuracy = (
+  lessonId: string,
+  assessments: PathInput['assessments'],
+  answers: PathInput['answers']
+) => {
+  const ids = new Set(assessments.filter(a => a.lesson_id === lessonId).map(a => a.id));
+  const lessonAnswers = answers.filter(a => ids.has(a.assessment_id));
+  if (lessonAnswers.length === 0) return null;
+  return lessonAnswers.reduce((sum, a) => sum + a.score, 0) / lessonAnswers.length;
+};
+
+export function buildLearningPath({
+  lessons,
+  progress,
+  assessments,
+  answers,
+  skillLevel,
+}: PathInput): PathResult {
+  const ordered = [...lessons].sort((a, b) => a.order_index - b.order_index);
+  const total = ordered.length;
+  const skillRank = LEVEL_RANK[skillLevel];
+  const nextIndex = ordered.findIndex(
+    l => progress.find(p => p.lesson_id === l.id)?.status !== 'completed'
+  );
+  let reviewCount = 0;
+
+  const scored = ordered.flatMap((lesson, index) => {
+    const lessonProgress = progress.find(p => p.lesson_id === lesson.id);
+    const accuracy = lessonAccuracy(lesson.id, assessments, answers);
+    const needsReview = accuracy !== null && accuracy < REVIEW_THRESHOLD;
+
+    if (lessonProgress?.status === 'completed' && !needsReview) return [];
+
+    const reasons: string[] = [];
+    let score = total > 0 ? ((total - index) / total) * 40 : 0;
+
+    if (index === nextIndex && lessonProgress?.status !== 'in_progress') {
+      reasons.push('Next lesson in the course');
+    }
+
+    if (lessonProgress?.status === 'in_progress') {
+      score += 30;
+      reasons.push(
+        lessonProgress.completion_percentage > 0
+          ? `You're ${lessonProgress.completion_percentage}% of the way through`
+          : 'You already started this lesson'
+      );
+    }
+
+    if (needsReview) {
+      reviewCount++;
+      score += 35;
+      reasons.push(`You answered ${Math.round(accuracy * 100)}% of its questions correctly`);
+    }
+
+    const gap = LEVEL_RANK[lesson.difficulty_level] - skillRank;
+    if (gap === 0) {
+      score += 20;
+      reasons.push(`Matches your ${skillLevel} level`);
+    } else if (gap < 0) {
+      score += 10;
+      reasons.push('Builds confidence below your level');
+    } else {
+      score -= 15 * gap;
+      reasons.push(`A stretch above your ${skillLevel} level`);
+    }
+
+    return [{
+      lesson_id: lesson.id,
+      lesson_title: lesson.title,
+      score: Math.round(score),
+      reason: reasons.join(' · '),
+    }];
+  });
+
+  const items = scored.sort((a, b) => b.score - a.score);
+
+  const completed = progress.filter(p => p.status === 'completed').length;
+  const started = progress.some(p => p.status !== 'not_started');
+  const remaining = total > 0 ? (total - completed) / total : 0;
+
+  let priorityScore = 0;
+  let reason = 'Course complete';
+  if (items.length > 0) {
+    priorityScore = Math.round((started ? 50 : 20) + remaining * 30 + Math.min(reviewCount, 4) * 5);
+    reason = reviewCount > 0
+      ? `${reviewCount} lesson${reviewCount === 1 ? '' : 's'} worth revisiting`
+      : started
+        ? `${total - completed} lesson${total - completed === 1 ? '' : 's'} left to finish`
+        : 'Recommended starting point';
+  }
+
+  return { items, priorityScore, reason };
+}
+
+export async function refreshLearningPath(
+  userId: string,
+  courseId: string,
+  skillLevel: Level
+): Promise<LearningPath | null> {
+  const [lessons, progress] = await Promise.all([
+    db.lessons.listByCourse(courseId),
+    db.progress.listByCourse(userId, courseId),
+  ]);
+  if (lessons.length === 0) return null;
+
+  const assessments = await db.questions.listByLessons(lessons.map(l => l.id));
+  const answers = await db.answers.listByUser(userId, assessments.map(a => a.id));
+
+  const path = buildLearningPath({
+    lessons,
+    progress,
+    assessments,
+    answers,
+    skillLevel,
+  });
+
+  try {
+    return await db.learningPaths.upsert({
+      user_id: userId,
+      course_id: courseId,
+      recommended_order: path.items,
+      priority_score: path.priorityScore,
+      reason: path.reason,
+      updated_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error saving learning path:', error);
+    return null;
+  }
+}
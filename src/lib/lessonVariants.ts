@@ -0,0 +1,66 @@
+import { Assessment, Lesson, LessonVariant, LessonVariantView, Profile, UserAssessment, VariantOutcome } from './supabase';
+
+type LearningStyle = Profile['learning_style'];
+
+export const LEARNING_STYLE_LABELS: Record<LearningStyle, string> = {
+  visual: 'Visual',
+  auditory: 'Auditory',
+  kinesthetic: 'Kinesthetic',
+  reading: 'Reading/Writing',
+};
+
+export const LEARNING_STYLES = Object.keys(LEARNING_STYLE_LABELS) as LearningStyle[];
+
+/** The variant for the learner's style, or null to show the lesson's own content. */
+export const pickVariant = (variants: LessonVariant[], style: LearningStyle | null | undefined) =>
+  variants.find(v => v.learning_style === style) ?? null;
+
+/**
+ * Mirrors the `lesson_variant_outcomes` database function: for each lesson and
+ * variant, the learners who last read it and the answers they gave after
+ * reading it to the quiz it leads into, which is the first lesson from that
+ * one onwards with questions.
+ */
+export function computeVariantOutcomes(
+  lessons: Pick<Lesson, 'id' | 'order_index'>[],
+  views: Pick<LessonVariantView, 'user_id' | 'lesson_id' | 'learning_style' | 'viewed_at'>[],
+  assessments: Pick<Assessment, 'id' | 'lesson_id'>[],
+  answers: Pick<UserAssessment, 'user_id' | 'assessment_id' | 'score' | 'attempted_at'>[]
+): VariantOutcome[] {
+  const outcomes = new Map<string, VariantOutcome & { total: number; users: Set<string> }>();
+
+  for (const view of views) {
+    const lesson = lessons.find(l => l.id === view.lesson_id);
+    if (!lesson) continue;
+
+    const key = `${view.lesson_id}:${view.learning_style ?? ''}`;
+    const outcome = outcomes.get(key) ?? {
+      lesson_id: view.lesson_id,
+      learning_style: view.learning_style,
+      learners: 0,
+      answers: 0,
+      average_score: null,
+      total: 0,
+      users: new Set<string>(),
+    };
+    outcomes.set(key, outcome);
+    outcome.users.add(view.user_id);
+
+    const nextQuiz = lessons
+      .filter(l => l.order_index >= lesson.order_index && assessments.some(a => a.lesson_id === l.id))
+      .sort((a, b) => a.order_index - b.order_index || Number(a.id !== lesson.id) - Number(b.id !== lesson.id))[0];
+    const questionIds = new Set(assessments.filter(a => a.lesson_id === nextQuiz?.id).map(a => a.id));
+    for (const answer of answers) {
+      if (answer.user_id !== view.user_id || !questionIds.has(answer.assessment_id)) continue;
+      if (answer.attempted_at < view.viewed_at) continue;
+      outcome.answers++;
+      outcome.total += answer.score;
+    }
+  }
+
+  return [...outcomes.values()].map(({ total, users, ...outcome }) => ({
+    ...outcome,
+    learners: users.size,
+    average_score: outcome.answers > 0 ? total / outcome.answers : null,
+  }));
+}
@@ -0,0 +1,53 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import { visit } from 'unist-util-visit';
+import { toString } from 'mdast-util-to-string';
+import GithubSlugger from 'github-slugger';
+import { defaultSchema } from 'rehype-sanitize';
+import type { Options as SanitizeSchema } from 'rehype-sanitize';
+
+export type TocEntry = {
+  id: string;
+  text: string;
+  depth: number;
+};
+
+// Lessons with at least this many section headings get a table of contents.
+export const TOC_MIN_HEADINGS = 3;
+
+/**
+ * Lists h2/h3 headings in lesson markdown. Ids are slugged the same way
+ * rehype-slug does, so entries link straight to the rendered headings.
+ */
+export function extractToc(markdown: string): TocEntry[] {
+  const tree = unified().use(remarkParse).use(remarkGfm).use(remarkMath).parse(markdown);
+  const slugger = new GithubSlugger();
+  const entries: TocEntry[] = [];
+
+  visit(tree, 'heading', node => {
+    const text = toString(node);
+    const id = slugger.slug(text);
+    if (node.depth === 2 || node.depth === 3) {
+      entries.push({ id, text, depth: node.depth });
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Default GitHub sanitization plus the class names that math and code
+ * highlighting rely on. Raw HTML in lesson bodies is never rendered.
+ */
+export const sanitizeSchema: SanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [
+      ...(defaultSchema.attributes?.code ?? []),
+      ['className', /^language-./, 'math-inline', 'math-display'],
+    ],
+  },
+};
@@ -0,0 +1,1086 @@
+import {
+  Profile,
+  Course,
+  Lesson,
+  LessonVariant,
+  LessonVariantView,
+  Assessment,
+  UserProgress,
+  UserAssessment,
+  QuizAttempt,
+  Prerequisite,
+  Skill,
+  SkillMastery,
+  ReviewState,
+  LearningPath,
+  SkillLevelCalibration,
+  VideoProgress,
+  XpEvent,
+  LearningStreak,
+  Achievement,
+  UserAchievement,
+  LearningGoal,
+  LearningTime,
+  AppNotification,
+  Certificate,
+  ActivityEvent,
+} from './supabase';
+import { AuthUser, PrerequisiteInput, ProgressUpdate, Repositories, Saveable } from './repositories';
+import { applyProgressUpdate } from './progress';
+import { encodeAnswer, gradeLocally, toQuestion } from './grading';
+import { questionSkillIds, traceMastery } from './knowledgeTracing';
+import { computeVariantOutcomes } from './lessonVariants';
+import { matchCourses } from './catalog';
+import { aggregateDailyActivity } from './activity';
+import { certificateCode, certificateCompletion, normalizeCertificateCode } from './certificates';
+import {
+  ANSWER_XP,
+  LESSON_XP,
+  activityDay,
+  advanceStreak,
+  computeMetrics,
+  creditedAnswers,
+  newlyUnlocked,
+} from './gamification';
+
+export type MemoryUser = AuthUser & { email: string; password: string };
+
+export type MemoryTables = {
+  users: MemoryUser[];
+  profiles: Profile[];
+  courses: Course[];
+  lessons: Lesson[];
+  lesson_variants: LessonVariant[];
+  lesson_variant_views: LessonVariantView[];
+  assessments: Assessment[];
+  user_progress: UserProgress[];
+  user_assessments: UserAssessment[];
+  quiz_attempts: QuizAttempt[];
+  prerequisites: Prerequisite[];
+  skills: Skill[];
+  skill_mastery: SkillMastery[];
+  xp_events: XpEvent[];
+  learning_streaks: LearningStreak[];
+  achievements: Achievement[];
+  user_achievements: UserAchievement[];
+  review_states: ReviewState[];
+  learning_paths: LearningPath[];
+  skill_level_calibrations: SkillLevelCalibration[];
+  video_progress: VideoProgress[];
+  learning_goals: LearningGoal[];
+  learning_time: LearningTime[];
+  notifications: AppNotification[];
+  certificates: Certificate[];
+  activity_events: ActivityEvent[];
+};
+
+export type MemorySeed = Partial<MemoryTables>;
+
+const NOTIFICATION_LIMIT = 50;
+
+type XpAward = Pick<XpEvent, 'source' | 'source_id' | 'points'>;
+
+type Snapshot = { tables: MemorySeed; sessionUserId: string | null };
+
+const emptyTables = (): MemoryTables => ({
+  users: [],
+  profiles: [],
+  courses: [],
+  lessons: [],
+  lesson_variants: [],
+  lesson_variant_views: [],
+  assessments: [],
+  user_progress: [],
+  user_assessments: [],
+  quiz_attempts: [],
+  prerequisites: [],
+  skills: [],
+  skill_mastery: [],
+  xp_events: [],
+  learning_streaks: [],
+  achievements: [],
+  user_achievements: [],
+  review_states: [],
+  learning_paths: [],
+  skill_level_calibrations: [],
+  video_progress: [],
+  learning_goals: [],
+  learning_time: [],
+  notifications: [],
+  certificates: [],
+  activity_events: [],
+});
+
+const now = () => new Date().toISOString();
+const newId = () => crypto.randomUUID();
+const copy = <T>(value: T): T => structuredClone(value);
+const byDate = <T>(key: keyof T, direction: 1 | -1 = 1) => (a: T, b: T) =>
+  String(a[key]).localeCompare(String(b[key])) * direction;
+
+/**
+ * Whether saving `rule` would leave lessons waiting on each other in a loop,
+ * as the `reject_prerequisite_cycles` trigger checks. Rules on a course gate
+ * all of its lessons and a required course stands for all of its lessons.
+ */
+function createsCycle(
+  rule: Saveable<PrerequisiteInput>,
+  rules: Prerequisite[],
+  lessons: Pick<Lesson, 'id' | 'course_id'>[]
+) {
+  const others = rules.filter(r => r.id !== rule.id);
+  const required = (r: PrerequisiteInput) =>
+    lessons.filter(l => l.id === r.required_lesson_id || l.course_id === r.required_course_id).map(l => l.id);
+  const gated = new Set(lessons.filter(l => l.id === rule.lesson_id || l.course_id === rule.course_id).map(l => l.id));
+
+  const seen = new Set<string>();
+  const pending = required(rule);
+  while (pending.length > 0) {
+    const lessonId = pending.pop()!;
+    if (gated.has(lessonId)) return true;
+    if (seen.has(lessonId)) continue;
+    seen.add(lessonId);
+    const courseId = lessons.find(l => l.id === lessonId)?.course_id;
+    for (const other of others) {
+      if (other.lesson_id === lessonId || (courseId && other.course_id === courseId)) pending.push(...required(other));
+    }
+  }
+  return false;
+}
+
+/**
+ * A backend that keeps every table in memory, mirroring the cascades and
+ * unique constraints of the Supabase schema. With a `storageKey` the data and
+ * session survive reloads via localStorage. There is no row-level security:
+ * any signed-in user can read and write everything.
+ */
+export function createMemoryRepositories(
+  seed: MemorySeed,
+  { storageKey }: { storageKey?: string } = {}
+): Repositories {
+  const stored = storageKey ? localStorage.getItem(storageKey) : null;
+  const snapshot: Snapshot = stored ? JSON.parse(stored) : { tables: copy(seed), sessionUserId: null };
+  // Tables added since the snapshot was stored start out empty.
+  const tables: MemoryTables = { ...emptyTables(), ...snapshot.tables };
+  let sessionUserId = snapshot.sessionUserId;
+  const authListeners = new Set<(user: AuthUser | null) => void>();
+
+  const persist = () => {
+    if (storageKey) localStorage.setItem(storageKey, JSON.stringify({ tables, sessionUserId }));
+  };
+
+  const currentUser = (): AuthUser | null => {
+    const user = tables.users.find(u => u.id === sessionUserId);
+    return user ? { id: user.id, email: user.email } : null;
+  };
+
+  const requireUser = (): AuthUser => {
+    const user = currentUser();
+    if (!user) throw new Error('Not authenticated');
+    return user;
+  };
+
+  const setSession = (userId: string | null) => {
+    sessionUserId = userId;
+    persist();
+    const user = currentUser();
+    authListeners.forEach(listener => listener(user));
+  };
+
+  const deleteAssessments = (ids: Set<string>) => {
+    tables.assessments = tables.assessments.filter(a => !ids.has(a.id));
+    tables.user_assessments = tables.user_assessments.filter(a => !ids.has(a.assessment_id));
+    tables.review_states = tables.review_states.filter(r => !ids.has(r.assessment_id));
+  };
+
+  const deleteLessons = (ids: Set<string>) => {
+    deleteAssessments(new Set(tables.assessments.filter(a => ids.has(a.lesson_id)).map(a => a.id)));
+    tables.lessons = tables.lessons.filter(l => !ids.has(l.id));
+    tables.lesson_variants = tables.lesson_variants.filter(v => !ids.has(v.lesson_id));
+    tables.lesson_variant_views = tables.lesson_variant_views.filter(v => !ids.has(v.lesson_id));
+    tables.user_progress = tables.user_progress.filter(p => !ids.has(p.lesson_id));
+    tables.quiz_attempts = tables.quiz_attempts.filter(a => !ids.has(a.lesson_id));
+    tables.prerequisites = tables.prerequisites.filter(
+      p => !ids.has(p.lesson_id ?? '') && !ids.has(p.required_lesson_id ?? '')
+    );
+    tables.video_progress = tables.video_progress.filter(v => !ids.has(v.lesson_id));
+    tables.activity_events = tables.activity_events.filter(e => !ids.has(e.lesson_id));
+  };
+
+  const deleteCourses = (ids: Set<string>) => {
+    deleteLessons(new Set(tables.lessons.filter(l => ids.has(l.course_id)).map(l => l.id)));
+    tables.courses = tables.courses.filter(c => !ids.has(c.id));
+    tables.prerequisites = tables.prerequisites.filter(
+      p => !ids.has(p.course_id ?? '') && !ids.has(p.required_course_id ?? '')
+    );
+    tables.learning_paths = tables.learning_paths.filter(p => !ids.has(p.course_id));
+    tables.learning_goals = tables.learning_goals.filter(g => !ids.has(g.course_id ?? ''));
+    tables.certificates = tables.certificates.filter(c => !ids.has(c.course_id));
+  };
+
+  /** Applies the knowledge tracing update of the `trace_skill_mastery` trigger. */
+  const traceAnswer = (answer: UserAssessment, assessment: Assessment) => {
+    const lesson = tables.lessons.find(l => l.id === assessment.lesson_id);
+    for (const skillId of questionSkillIds(assessment, lesson)) {
+      const skill = tables.skills.find(s => s.id === skillId);
+      if (!skill) continue;
+      const existing = tables.skill_mastery.find(m => m.user_id === answer.user_id && m.skill_id === skillId);
+      const p_mastery = traceMastery(existing?.p_mastery ?? skill.p_init, answer.score, skill);
+      if (existing) {
+        Object.assign(existing, { p_mastery, evidence_count: existing.evidence_count + 1, updated_at: now() });
+      } else {
+        tables.skill_mastery.push({
+          id: newId(),
+          user_id: answer.user_id,
+          skill_id: skillId,
+          p_mastery,
+          evidence_count: 1,
+          updated_at: now(),
+        });
+      }
+    }
+  };
+
+  const logActivity = (event: Omit<ActivityEvent, 'id' | 'recorded_at'>) =>
+    tables.activity_events.push({ ...event, id: newId(), recorded_at: now() });
+
+  /** Applies the `log_progress_activity` trigger. */
+  const logProgress = (previous: UserProgress | null, row: UserProgress) => {
+    const seconds = Math.max(row.time_spent_seconds - (previous?.time_spent_seconds ?? 0), 0);
+    const base = {
+      user_id: row.user_id,
+      course_id: row.course_id,
+      lesson_id: row.lesson_id,
+      assessment_id: null,
+      completion_percentage: row.completion_percentage,
+      is_correct: null,
+      score: null,
+    };
+    const status = !previous || row.status !== previous.status ? row.status : null;
+    if (!previous || seconds > 0 || row.completion_percentage !== previous.completion_percentage || status) {
+      logActivity({ ...base, kind: 'progress_changed', seconds, status, occurred_at: row.last_accessed_at });
+    }
+    if (row.status === 'completed' && previous?.status !== 'completed') {
+      const occurredAt = row.completed_at ?? row.last_accessed_at;
+      logActivity({ ...base, kind: 'lesson_completed', seconds: 0, status: null, occurred_at: occurredAt });
+    }
+  };
+
+  /** Applies the `issue_*_certificate` triggers. */
+  const issueCertificate = (userId: string, courseId: string) => {
+    if (tables.certificates.some(c => c.user_id === userId && c.course_id === courseId)) return;
+    const course = tables.courses.find(c => c.id === courseId);
+    const profile = tables.profiles.find(p => p.id === userId);
+    if (!course || !profile) return;
+
+    const completedAt = certificateCompletion(
+      course,
+      tables.lessons.filter(l => l.course_id === courseId),
+      tables.user_progress.filter(p => p.user_id === userId && p.course_id === courseId),
+      tables.quiz_attempts.filter(a => a.user_id === userId && a.course_id === courseId)
+    );
+    if (!completedAt) return;
+    tables.certificates.push({
+      id: newId(),
+      user_id: userId,
+      course_id: courseId,
+      code: certificateCode(),
+      learner_name: profile.full_name.trim() || profile.email,
+      course_title: course.title,
+      completed_at: completedAt,
+      issued_at: now(),
+    });
+  };
+
+  /** Seconds of video covered by the segments, overlaps counted once, as `video_watched_seconds` adds them up. */
+  const watchedSeconds = (segments: [number, number][], duration: number) => {
+    let reached = 0;
+    return [...segments]
+      .map(([start, end]): [number, number] => [Math.max(start, 0), Math.min(end, duration)])
+      .sort((a, b) => a[0] - b[0] || a[1] - b[1])
+      .reduce((sum, [start, end]) => {
+        const added = Math.max(end - Math.max(start, reached), 0);
+        reached = Math.max(reached, end);
+        return sum + added;
+      }, 0);
+  };
+
+  /** Whether a lesson may be recorded as completed, as `completion_proven` checks. */
+  const completionProven = (userId: string, lesson: Lesson) => {
+    if (lesson.content_type === 'quiz' && tables.assessments.some(a => a.lesson_id === lesson.id)) {
+      return tables.quiz_attempts.some(
+        a => a.user_id === userId && a.lesson_id === lesson.id && a.status === 'completed'
+      );
+    }
+    if (lesson.content_type === 'video' && lesson.video_url) {
+      const video = tables.video_progress.find(v => v.user_id === userId && v.lesson_id === lesson.id);
+      const duration = lesson.video_duration_seconds ?? video?.duration_seconds ?? 0;
+      return !!video && duration > 0 && watchedSeconds(video.watched_segments, duration) / duration >= 0.9;
+    }
+    return true;
+  };
+
+  /** Adds to the quarter-hour bucket, as `record_progress` does. */
+  const addLearningTime = (userId: string, at: string, seconds: number) => {
+    const start = new Date(at);
+    start.setUTCMinutes(start.getUTCMinutes() - (start.getUTCMinutes() % 15), 0, 0);
+    const startsAt = start.toISOString();
+    const bucket = tables.learning_time.find(t => t.user_id === userId && t.starts_at === startsAt);
+    if (bucket) bucket.seconds += seconds;
+    else tables.learning_time.push({ id: newId(), user_id: userId, starts_at: startsAt, seconds });
+  };
+
+  const learnerMetrics = (userId: string) =>
+    computeMetrics({
+      xpEvents: tables.xp_events.filter(e => e.user_id === userId),
+      progress: tables.user_progress.filter(p => p.user_id === userId),
+      lessons: tables.lessons,
+      answers: tables.user_assessments.filter(a => a.user_id === userId),
+      assessments: tables.assessments,
+      streak: tables.learning_streaks.find(s => s.user_id === userId) ?? null,
+    });
+
+  /**
+   * Applies the `award_*_engagement` triggers: pays out XP once per source,
+   * extends the streak for the day of the activity and unlocks achievements.
+   */
+  const recordEngagement = (userId: string, at: string, award: XpAward | null) => {
+    const earned = !!award && !tables.xp_events.some(
+      e => e.user_id === userId && e.source === award.source && e.source_id === award.source_id
+    );
+    if (award && earned) tables.xp_events.push({ ...award, id: newId(), user_id: userId, earned_at: at });
+
+    const streak = tables.learning_streaks.find(s => s.user_id === userId);
+    const timeZone = tables.profiles.find(p => p.id === userId)?.time_zone || 'UTC';
+    const next = advanceStreak(streak ?? null, activityDay(at, timeZone));
+    if (next && streak) {
+      Object.assign(streak, { ...next, updated_at: now() });
+    } else if (next) {
+      tables.learning_streaks.push({ ...next, id: newId(), user_id: userId, updated_at: now() });
+    }
+    if (!earned && !next) return;
+
+    const unlockedIds = tables.user_achievements.filter(u => u.user_id === userId).map(u => u.achievement_id);
+    for (const achievement of newlyUnlocked(tables.achievements, learnerMetrics(userId), unlockedIds)) {
+      tables.user_achievements.push({
+        id: newId(),
+        user_id: userId,
+        achievement_id: achievement.id,
+        unlocked_at: now(),
+      });
+    }
+  };
+
+  /** Updates the row with `id`, or inserts one built by `create` when there is no id. */
+  function save<T extends { id: string }>(
+    table: T[],
+    id: string | undefined,
+    fields: Partial<T>,
+    create: () => T
+  ): T {
+    if (id) {
+      const index = table.findIndex(row => row.id === id);
+      if (index < 0) throw new Error('Row not found');
+      table[index] = { ...table[index], ...fields };
+      persist();
+      return copy(table[index]);
+    }
+    const row = create();
+    table.push(row);
+    persist();
+    return copy(row);
+  }
+
+  return {
+    auth: {
+      async getUser() {
+        return currentUser();
+      },
+      onChange(listener) {
+        authListeners.add(listener);
+        return () => {
+          authListeners.delete(listener);
+        };
+      },
+      async signUp(email, password) {
+        if (tables.users.some(u => u.email.toLowerCase() === email.toLowerCase())) {
+          throw new Error('User already registered');
+        }
+        const user = { id: newId(), email, password };
+        tables.users.push(user);
+        setSession(user.id);
+        return { id: user.id, email };
+      },
+      async signIn(email, password) {
+        const user = tables.users.find(u => u.email.toLowerCase() === email.toLowerCase() && u.password === password);
+        if (!user) throw new Error('Invalid login credentials');
+        setSession(user.id);
+      },
+      async signOut() {
+        setSession(null);
+      },
+    },
+
+    profiles: {
+      async get(id) {
+        return copy(tables.profiles.find(p => p.id === id) ?? null);
+      },
+      async create(profile) {
+        tables.profiles.push({ ...profile, role: 'learner', created_at: now(), updated_at: now() });
+        persist();
+      },
+      async update(id, changes) {
+        save(tables.profiles, id, { ...changes, updated_at: now() }, () => {
+          throw new Error('Profile not found');
+        });
+      },
+    },
+
+    courses: {
+      async listPublished() {
+        return copy(tables.courses.filter(c => c.is_published).sort(byDate('created_at', -1)));
+      },
+      async listEditable() {
+        return copy([...tables.courses].sort(byDate('updated_at', -1)));
+      },
+      async get(id) {
+        return copy(tables.courses.find(c => c.id === id) ?? null);
+      },
+      async findByTitle(title) {
+        return tables.courses
+          .filter(c => c.title.toLowerCase() === title.toLowerCase())
+          .map(({ id, title }) => ({ id, title }));
+      },
+      async search(query) {
+        return matchCourses(query, tables.courses, tables.lessons);
+      },
+      async save({ id, ...fields }) {
+        return save(tables.courses, id, { ...fields, updated_at: now() }, () => ({
+          ...fields,
+          id: newId(),
+          created_at: now(),
+          updated_at: now(),
+        }));
+      },
+      async delete(ids) {
+        deleteCourses(new Set(ids));
+        persist();
+      },
+    },
+
+    lessons: {
+      async listByCourse(courseId) {
+        return copy(
+          tables.lessons.filter(l => l.course_id === courseId).sort((a, b) => a.order_index - b.order_index)
+        );
+      },
+      async listByIds(ids) {
+        return copy(tables.lessons.filter(l => ids.includes(l.id)));
+      },
+      async listSummaries(courseIds) {
+        return tables.lessons
+          .filter(l => courseIds.includes(l.course_id))
+          .map(({ id, course_id, content_type }) => ({ id, course_id, content_type }));
+      },
+      async save({ id, ...fields }) {
+        return save(tables.lessons, id, fields, () => ({ ...fields, id: newId(), created_at: now() }));
+      },
+      async delete(id) {
+        deleteLessons(new Set([id]));
+        persist();
+      },
+      async reorder(lessonIds) {
+        for (const lesson of tables.lessons) {
+          const index = lessonIds.indexOf(lesson.id);
+          if (index >= 0) lesson.order_index = index;
+        }
+        persist();
+      },
+    },
+
+    lessonVariants: {
+      async listByLessons(lessonIds) {
+        return copy(tables.lesson_variants.filter(v => lessonIds.includes(v.lesson_id)));
+      },
+      async save(variant) {
+        const existing = tables.lesson_variants.find(
+          v => v.lesson_id === variant.lesson_id && v.learning_style === variant.learning_style
+        );
+        return save(tables.lesson_variants, existing?.id, { ...variant, updated_at: now() }, () => ({
+          ...variant,
+          id: newId(),
+          created_at: now(),
+          updated_at: now(),
+        }));
+      },
+      async delete(id) {
+        tables.lesson_variants = tables.lesson_variants.filter(v => v.id !== id);
+        persist();
+      },
+      async recordView(view) {
+        const existing = tables.lesson_variant_views.find(
+          v => v.user_id === view.user_id && v.lesson_id === view.lesson_id
+        );
+        // Like `stamp_lesson_variant_view`, the time only moves when the style changes.
+        const viewed_at = existing?.learning_style === view.learning_style ? existing.viewed_at : now();
+        const saved = { ...view, viewed_at };
+        save(tables.lesson_variant_views, existing?.id, saved, () => ({ ...saved, id: newId() }));
+      },
+      async outcomesByCourse(courseId) {
+        const lessons = tables.lessons.filter(l => l.course_id === courseId);
+        const lessonIds = new Set(lessons.map(l => l.id));
+        return computeVariantOutcomes(
+          lessons,
+          tables.lesson_variant_views.filter(v => lessonIds.has(v.lesson_id)),
+          tables.assessments.filter(a => lessonIds.has(a.lesson_id)),
+          tables.user_assessments
+        );
+      },
+    },
+
+    assessments: {
+      async listByLessons(lessonIds) {
+        return copy(tables.assessments.filter(a => lessonIds.includes(a.lesson_id)).sort(byDate('created_at')));
+      },
+      async listByIds(ids) {
+        return copy(tables.assessments.filter(a => ids.includes(a.id)));
+      },
+      async save({ id, ...fields }) {
+        return save(tables.assessments, id, fields, () => ({ ...fields, id: newId(), created_at: now() }));
+      },
+      async insertMany(assessments) {
+        tables.assessments.push(...assessments.map(a => ({ ...a, id: newId(), created_at: now() })));
+        persist();
+      },
+      async delete(id) {
+        deleteAssessments(new Set([id]));
+        persist();
+      },
+    },
+
+    prerequisites: {
+      async listByCourse(courseId) {
+        const lessonIds = new Set(tables.lessons.filter(l => l.course_id === courseId).map(l => l.id));
+        return copy(
+          tables.prerequisites
+            .filter(p => p.course_id === courseId || (p.lesson_id !== null && lessonIds.has(p.lesson_id)))
+            .sort(byDate('created_at'))
+        );
+      },
+      async save({ id, ...fields }) {
+        if (createsCycle({ id, ...fields }, tables.prerequisites, tables.lessons)) {
+          throw new Error('This prerequisite would make lessons wait on each other in a loop');
+        }
+        return save(tables.prerequisites, id, fields, () => ({ ...fields, id: newId(), created_at: now() }));
+      },
+      async delete(id) {
+        tables.prerequisites = tables.prerequisites.filter(p => p.id !== id);
+        persist();
+      },
+    },
+
+    skills: {
+      async list() {
+        return copy([...tables.skills].sort((a, b) => a.name.localeCompare(b.name)));
+      },
+      async save({ id, ...fields }) {
+        if (tables.skills.some(s => s.id !== id && s.name === fields.name)) {
+          throw new Error('A skill with that name already exists');
+        }
+        return save(tables.skills, id, fields, () => ({ ...fields, id: newId(), created_at: now() }));
+      },
+      async delete(id) {
+        for (const row of [...tables.lessons, ...tables.assessments]) {
+          if (row.skill_ids?.includes(id)) row.skill_ids = row.skill_ids.filter(s => s !== id);
+        }
+        for (const skill of tables.skills) {
+          if (skill.parent_id === id) skill.parent_id = null;
+        }
+        tables.skills = tables.skills.filter(s => s.id !== id);
+        tables.skill_mastery = tables.skill_mastery.filter(m => m.skill_id !== id);
+        persist();
+      },
+    },
+
+    skillMastery: {
+      async listByUser(userId) {
+        return copy(tables.skill_mastery.filter(m => m.user_id === userId));
+      },
+    },
+
+    achievements: {
+      async list() {
+        return copy(
+          [...tables.achievements].sort((a, b) => a.metric.localeCompare(b.metric) || a.threshold - b.threshold)
+        );
+      },
+      async save({ id, ...fields }) {
+        if (tables.achievements.some(a => a.id !== id && a.name === fields.name)) {
+          throw new Error('An achievement with that name already exists');
+        }
+        return save(tables.achievements, id, fields, () => ({ ...fields, id: newId(), created_at: now() }));
+      },
+      async delete(id) {
+        tables.achievements = tables.achievements.filter(a => a.id !== id);
+        tables.user_achievements = tables.user_achievements.filter(u => u.achievement_id !== id);
+        persist();
+      },
+    },
+
+    engagement: {
+      async listXp(userId) {
+        return copy(tables.xp_events.filter(e => e.user_id === userId).sort(byDate('earned_at', -1)));
+      },
+      async getStreak(userId) {
+        return copy(tables.learning_streaks.find(s => s.user_id === userId) ?? null);
+      },
+      async metrics(userId) {
+        const metrics = learnerMetrics(userId);
+        return (Object.keys(metrics) as (keyof typeof metrics)[]).map(metric => ({ metric, value: metrics[metric] }));
+      },
+      async listAchievements(userId) {
+        return copy(tables.user_achievements.filter(u => u.user_id === userId));
+      },
+    },
+
+    questions: {
+      async listByLessons(lessonIds) {
+        return tables.assessments
+          .filter(a => lessonIds.includes(a.lesson_id))
+          .sort(byDate('created_at'))
+          .map(a => toQuestion(copy(a)));
+      },
+      async listByIds(ids) {
+        return tables.assessments.filter(a => ids.includes(a.id)).map(a => toQuestion(copy(a)));
+      },
+    },
+
+    progress: {
+      async listByUser(userId) {
+        return copy(tables.user_progress.filter(p => p.user_id === userId));
+      },
+      async listByCourse(userId, courseId) {
+        return copy(tables.user_progress.filter(p => p.user_id === userId && p.course_id === courseId));
+      },
+      async get(userId, lessonId) {
+        return copy(tables.user_progress.find(p => p.user_id === userId && p.lesson_id === lessonId) ?? null);
+      },
+      async record(received) {
+        const user = requireUser();
+        if (received.user_id !== user.id) throw new Error('Progress can only be recorded for yourself');
+        const lesson = tables.lessons.find(l => l.id === received.lesson_id);
+        if (!lesson) throw new Error('Lesson not found');
+
+        const update: ProgressUpdate = {
+          ...received,
+          course_id: lesson.course_id,
+          completion_percentage: Math.min(Math.max(received.completion_percentage, 0), 100),
+          time_delta_seconds: Math.max(received.time_delta_seconds, 0),
+          last_accessed_at: received.last_accessed_at < now() ? received.last_accessed_at : now(),
+          ...(received.status === 'completed' &&
+            !completionProven(user.id, lesson) && {
+              status: 'in_progress',
+              completion_percentage: Math.min(received.completion_percentage, 99),
+              completed_at: undefined,
+            }),
+        };
+        const index = tables.user_progress.findIndex(
+          p => p.user_id === update.user_id && p.lesson_id === update.lesson_id
+        );
+        const previous = tables.user_progress[index] ?? null;
+        const row = applyProgressUpdate(previous, update, {
+          id: newId(),
+          started_at: now(),
+        });
+        if (index >= 0) tables.user_progress[index] = row;
+        else tables.user_progress.push(row);
+        logProgress(previous, row);
+        if (update.time_delta_seconds > 0) {
+          addLearningTime(update.user_id, update.last_accessed_at, update.time_delta_seconds);
+        }
+        recordEngagement(
+          row.user_id,
+          row.last_accessed_at,
+          row.status === 'completed'
+            ? { source: 'lesson', source_id: lesson.id, points: LESSON_XP[lesson.difficulty_level] }
+            : null
+        );
+        if (row.status === 'completed') issueCertificate(row.user_id, row.course_id);
+        persist();
+      },
+    },
+
+    answers: {
+      async submit(submission) {
+        const user = requireUser();
+        const assessment = tables.assessments.find(a => a.id === submission.assessment_id);
+        if (!assessment) throw new Error('Question not found');
+        const { score, is_correct, explanation, solution } = gradeLocally(copy(assessment), submission.answer);
+        let attempt: QuizAttempt | undefined;
+        if (submission.attempt_id) {
+          attempt = tables.quiz_attempts.find(
+            a => a.id === submission.attempt_id && a.user_id === user.id && a.lesson_id === assessment.lesson_id
+          );
+          if (!attempt) throw new Error('Attempt not found');
+          if (attempt.status !== 'in_progress') throw new Error('This attempt is already finished');
+          if (!attempt.question_ids.includes(assessment.id)) {
+            throw new Error('This question is not part of the attempt');
+          }
+          if (tables.user_assessments.some(a => a.attempt_id === attempt?.id && a.assessment_id === assessment.id)) {
+            throw new Error('This question has already been answered in the attempt');
+          }
+        }
+        const attempts = tables.quiz_attempts.filter(
+          a => a.user_id === user.id && a.lesson_id === assessment.lesson_id
+        );
+        // Outside an attempt only reviews are graded, and they get the solution, as in `grade_answer`.
+        const review =
+          !attempt &&
+          !attempts.some(a => a.status === 'in_progress') &&
+          tables.user_assessments.some(
+            a =>
+              a.user_id === user.id &&
+              a.assessment_id === assessment.id &&
+              attempts.some(other => other.id === a.attempt_id && other.status === 'completed')
+          );
+        if (!attempt && !review) {
+          throw new Error('Questions can only be answered in a quiz attempt, or reviewed once it is finished');
+        }
+        const answer: UserAssessment = {
+          id: newId(),
+          user_id: user.id,
+          assessment_id: assessment.id,
+          attempt_id: attempt?.id ?? null,
+          user_answer: encodeAnswer(submission.answer),
+          is_correct,
+          score,
+          attempted_at: now(),
+          time_taken_seconds: Math.max(submission.time_taken_seconds, 0),
+        };
+        tables.user_assessments.push(answer);
+        traceAnswer(answer, assessment);
+        logActivity({
+          user_id: user.id,
+          kind: 'answer_submitted',
+          course_id: tables.lessons.find(l => l.id === assessment.lesson_id)?.course_id ?? '',
+          lesson_id: assessment.lesson_id,
+          assessment_id: assessment.id,
+          seconds: 0,
+          completion_percentage: null,
+          status: null,
+          is_correct: answer.is_correct,
+          score: answer.score,
+          occurred_at: answer.attempted_at,
+        });
+        const credited = creditedAnswers(
+          tables.user_assessments.filter(a => a.user_id === user.id && a.assessment_id === assessment.id)
+        ).includes(answer);
+        recordEngagement(
+          user.id,
+          answer.attempted_at,
+          answer.is_correct && credited
+            ? { source: 'answer', source_id: assessment.id, points: ANSWER_XP[assessment.difficulty] }
+            : null
+        );
+        persist();
+        return { score, is_correct, explanation: review ? explanation : null, solution: review ? solution : null };
+      },
+      async listByUser(userId, assessmentIds) {
+        return copy(
+          tables.user_assessments
+            .filter(a => a.user_id === userId && (!assessmentIds || assessmentIds.includes(a.assessment_id)))
+            .sort(byDate('attempted_at'))
+        );
+      },
+      async listByAttempt(attemptId) {
+        return copy(tables.user_assessments.filter(a => a.attempt_id === attemptId).sort(byDate('attempted_at')));
+      },
+    },
+
+    quizAttempts: {
+      async listByLesson(userId, lessonId) {
+        return copy(
+          tables.quiz_attempts
+            .filter(a => a.user_id === userId && a.lesson_id === lessonId)
+            .sort(byDate('started_at'))
+        );
+      },
+      async start(lessonId) {
+        const user = requireUser();
+        const lesson = tables.lessons.find(l => l.id === lessonId);
+        if (!lesson) throw new Error('Lesson not found');
+
+        const attempts = tables.quiz_attempts.filter(a => a.user_id === user.id && a.lesson_id === lessonId);
+        const inProgress = attempts.find(a => a.status === 'in_progress');
+        if (inProgress) return copy(inProgress);
+        if (lesson.max_attempts && attempts.length >= lesson.max_attempts) throw new Error('No attempts left');
+
+        const attempt: QuizAttempt = {
+          id: newId(),
+          user_id: user.id,
+          lesson_id: lessonId,
+          course_id: lesson.course_id,
+          status: 'in_progress',
+          question_ids: [],
+          current_question_id: null,
+          score: null,
+          started_at: now(),
+          finished_at: null,
+          updated_at: now(),
+        };
+        tables.quiz_attempts.push(attempt);
+        persist();
+        return copy(attempt);
+      },
+      async advance(attemptId, questionId) {
+        const user = requireUser();
+        const attempt = tables.quiz_attempts.find(
+          a => a.id === attemptId && a.user_id === user.id && a.status === 'in_progress'
+        );
+        if (!attempt) return;
+        if (!attempt.question_ids.includes(questionId)) attempt.question_ids.push(questionId);
+        attempt.current_question_id = questionId;
+        attempt.updated_at = now();
+        persist();
+      },
+      async finish(attemptId) {
+        const user = requireUser();
+        const attempt = tables.quiz_attempts.find(a => a.id === attemptId && a.user_id === user.id);
+        if (!attempt) throw new Error('Attempt not found');
+        if (attempt.status === 'in_progress') {
+          // Only the first answer to each question counts.
+          const first = new Map(
+            tables.user_assessments
+              .filter(a => a.attempt_id === attemptId)
+              .sort(byDate('attempted_at', -1))
+              .map(a => [a.assessment_id, a.score])
+          );
+          const scores = [...first.values()];
+          attempt.status = 'completed';
+          attempt.score = scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : 0;
+          attempt.current_question_id = null;
+          attempt.finished_at = now();
+          attempt.updated_at = now();
+          issueCertificate(user.id, attempt.course_id);
+          persist();
+        }
+        return copy(attempt);
+      },
+      async review(attemptId) {
+        const user = requireUser();
+        const attempt = tables.quiz_attempts.find(
+          a => a.id === attemptId && a.user_id === user.id && a.status === 'completed'
+        );
+        return copy(
+          (attempt?.question_ids ?? []).flatMap(id => {
+            const assessment = tables.assessments.find(a => a.id === id);
+            if (!assessment) return [];
+            const { options, correct_answer, answer_key, explanation } = assessment;
+            return [{ id, explanation, options, correct_answer, answer_key }];
+          })
+        );
+      },
+    },
+
+    reviewStates: {
+      async get(userId, assessmentId) {
+        return copy(
+          tables.review_states.find(r => r.user_id === userId && r.assessment_id === assessmentId) ?? null
+        );
+      },
+      async listDue(userId, dueBy) {
+        return copy(
+          tables.review_states.filter(r => r.user_id === userId && r.due_at <= dueBy).sort(byDate('due_at'))
+        );
+      },
+      async countDue(userId, dueBy) {
+        return tables.review_states.filter(r => r.user_id === userId && r.due_at <= dueBy).length;
+      },
+      async listByUser(userId) {
+        return copy(tables.review_states.filter(r => r.user_id === userId));
+      },
+      async upsert(states, { ignoreDuplicates = false } = {}) {
+        for (const state of states) {
+          const existing = tables.review_states.find(
+            r => r.user_id === state.user_id && r.assessment_id === state.assessment_id
+          );
+          if (existing && !ignoreDuplicates) Object.assign(existing, state, { updated_at: now() });
+          if (!existing) tables.review_states.push({ ...state, id: newId(), created_at: now(), updated_at: now() });
+        }
+        persist();
+      },
+    },
+
+    learningPaths: {
+      async listByUser(userId) {
+        return copy(
+          tables.learning_paths
+            .filter(p => p.user_id === userId)
+            .sort((a, b) => b.priority_score - a.priority_score)
+        );
+      },
+      async upsert(path) {
+        const existing = tables.learning_paths.find(p => p.user_id === path.user_id && p.course_id === path.course_id);
+        return save(tables.learning_paths, existing?.id, path, () => ({ ...path, id: newId(), created_at: now() }));
+      },
+    },
+
+    calibrations: {
+      async listByUser(userId) {
+        return copy(
+          tables.skill_level_calibrations.filter(c => c.user_id === userId).sort(byDate('created_at', -1))
+        );
+      },
+      async insert(calibration) {
+        return save(tables.skill_level_calibrations, undefined, calibration, () => ({
+          ...calibration,
+          id: newId(),
+          created_at: now(),
+        }));
+      },
+      async resolve(id, status) {
+        const calibration = tables.skill_level_calibrations.find(c => c.id === id && c.status === 'pending');
+        if (!calibration) return;
+        calibration.status = status;
+        calibration.resolved_at = now();
+        persist();
+      },
+    },
+
+    videoProgress: {
+      async get(userId, lessonId) {
+        return copy(tables.video_progress.find(v => v.user_id === userId && v.lesson_id === lessonId) ?? null);
+      },
+      async upsert(progress) {
+        const existing = tables.video_progress.find(
+          v => v.user_id === progress.user_id && v.lesson_id === progress.lesson_id
+        );
+        // The lesson's own length wins; without one the reported length may only grow, as in `limit_video_progress`.
+        const lesson = tables.lessons.find(l => l.id === progress.lesson_id);
+        const saved = {
+          ...progress,
+          duration_seconds: lesson?.video_duration_seconds ?? Math.max(
+            progress.duration_seconds,
+            existing?.duration_seconds ?? 0,
+            ...progress.watched_segments.map(([, end]) => end)
+          ),
+        };
+        save(tables.video_progress, existing?.id, saved, () => ({ ...saved, id: newId() }));
+      },
+    },
+
+    goals: {
+      async listByUser(userId) {
+        return copy(tables.learning_goals.filter(g => g.user_id === userId).sort(byDate('created_at')));
+      },
+      async save({ id, ...fields }) {
+        const clash = tables.learning_goals.some(
+          g =>
+            g.id !== id &&
+            g.user_id === fields.user_id &&
+            g.kind === fields.kind &&
+            (fields.kind !== 'course_deadline' || g.course_id === fields.course_id)
+        );
+        if (clash) throw new Error('There is already a goal like this');
+        return save(tables.learning_goals, id, { ...fields, updated_at: now() }, () => ({
+          ...fields,
+          id: newId(),
+          created_at: now(),
+          updated_at: now(),
+        }));
+      },
+      async delete(id) {
+        tables.learning_goals = tables.learning_goals.filter(g => g.id !== id);
+        persist();
+      },
+    },
+
+    learningTime: {
+      async listByUser(userId, since) {
+        return copy(tables.learning_time.filter(t => t.user_id === userId && t.starts_at >= since));
+      },
+    },
+
+    notifications: {
+      async listByUser(userId) {
+        return copy(
+          tables.notifications
+            .filter(n => n.user_id === userId)
+            .sort(byDate('created_at', -1))
+            .slice(0, NOTIFICATION_LIMIT)
+        );
+      },
+      async create(notification) {
+        const duplicate = tables.notifications.some(
+          n => n.user_id === notification.user_id && n.dedupe_key === notification.dedupe_key
+        );
+        if (duplicate) return null;
+        return save(tables.notifications, undefined, notification, () => ({
+          ...notification,
+          id: newId(),
+          read_at: null,
+          created_at: now(),
+        }));
+      },
+      async markRead(ids) {
+        for (const notification of tables.notifications) {
+          if (ids.includes(notification.id) && !notification.read_at) notification.read_at = now();
+        }
+        persist();
+      },
+    },
+
+    certificates: {
+      async listByUser(userId) {
+        return copy(tables.certificates.filter(c => c.user_id === userId).sort(byDate('issued_at', -1)));
+      },
+      async get(userId, courseId) {
+        return copy(tables.certificates.find(c => c.user_id === userId && c.course_id === courseId) ?? null);
+      },
+      async verify(code) {
+        const certificate = tables.certificates.find(c => c.code === normalizeCertificateCode(code));
+        if (!certificate) return null;
+        const { code: found, learner_name, course_title, completed_at, issued_at } = certificate;
+        return { code: found, learner_name, course_title, completed_at, issued_at };
+      },
+    },
+
+    activity: {
+      async recordLessonOpened(event) {
+        logActivity({
+          ...event,
+          kind: 'lesson_opened',
+          assessment_id: null,
+          seconds: 0,
+          completion_percentage: null,
+          status: null,
+          is_correct: null,
+          score: null,
+        });
+        persist();
+      },
+      async daily(userId, range, timeZone) {
+        return aggregateDailyActivity(
+          tables.activity_events.filter(e => e.user_id === userId),
+          range,
+          timeZone
+        );
+      },
+      async listByUser(userId, since) {
+        // Events saved before they had a recording time count as recorded when they happened,
+        // and those saved before progress events had a status as not changing it.
+        return copy(
+          tables.activity_events
+            .map(e => ({ ...e, recorded_at: e.recorded_at ?? e.occurred_at, status: e.status ?? null }))
+            .filter(e => e.user_id === userId && (!since || e.recorded_at > since))
+            .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at) || a.id.localeCompare(b.id))
+        );
+      },
+    },
+
+    learningRecords: {
+      async send() {
+        throw new Error('Statements can only be sent to a Learning Record Store from a Supabase project');
+      },
+    },
+  };
+}
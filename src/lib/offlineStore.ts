@@ -0,0 +1,81 @@
+import { Course, Lesson, LessonVariant, Question } from './supabase';
+
+const DB_NAME = 'adaptlearn-offline';
+const DB_VERSION = 2;
+
+export type OfflineCourse = {
+  course: Course;
+  lessons: Lesson[];
+  /** Questions as learners see them; answers are only ever graded online. */
+  questions: Question[];
+  /** Missing from courses downloaded before lessons had variants. */
+  variants?: LessonVariant[];
+  downloaded_at: string;
+};
+
+type StoreName = 'courses' | 'outbox' | 'xapi_outbox' | 'xapi_cursors';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('courses')) {
+          db.createObjectStore('courses', { keyPath: 'course.id' });
+        }
+        if (!db.objectStoreNames.contains('outbox')) {
+          db.createObjectStore('outbox', { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains('xapi_outbox')) {
+          db.createObjectStore('xapi_outbox', { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains('xapi_cursors')) {
+          db.createObjectStore('xapi_cursors', { keyPath: 'user_id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const getRecord = <T>(store: StoreName, key: string) =>
+  run<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const getAllRecords = <T>(store: StoreName) =>
+  run<T[]>(store, 'readonly', s => s.getAll());
+
+export const putRecord = <T>(store: StoreName, value: T) =>
+  run<IDBValidKey>(store, 'readwrite', s => s.put(value));
+
+export const deleteRecord = (store: StoreName, key: string) =>
+  run<undefined>(store, 'readwrite', s => s.delete(key));
+
+export const getOfflineCourse = (courseId: string) =>
+  getRecord<OfflineCourse>('courses', courseId);
+
+export const listOfflineCourses = () => getAllRecords<OfflineCourse>('courses');
+
+export const saveOfflineCourse = (entry: OfflineCourse) => putRecord('courses', entry);
+
+export const removeOfflineCourse = (courseId: string) => deleteRecord('courses', courseId);
@@ -0,0 +1,217 @@
+import { UserProgress } from './supabase';
+import { db, AnswerSubmission, BackendUnavailableError, ProgressUpdate } from './repositories';
+import { GradeResult } from './grading';
+import { applyProgressUpdate, combineProgressUpdates } from './progress';
+import { recordReview } from './spacedRepetition';
+import { getAllRecords, putRecord, deleteRecord, getRecord, saveOfflineCourse } from './offlineStore';
+
+/** A submission waiting to be graded, tagged with who answered so it is never graded for someone else. */
+export type AnswerRecord = AnswerSubmission & { user_id: string };
+
+type OutboxEntry = { key: string; queued_at: string; attempts: number } & (
+  | { kind: 'progress'; payload: ProgressUpdate }
+  | { kind: 'answer'; payload: AnswerRecord }
+);
+
+export type SyncState = {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  lastSyncedAt: string | null;
+  error: string | null;
+};
+
+// An entry the server keeps failing on is dropped after this many tries, so it
+// cannot hold up the queue for good.
+const MAX_ATTEMPTS = 5;
+
+let state: SyncState = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  pending: 0,
+  lastSyncedAt: null,
+  error: null,
+};
+const listeners = new Set<(state: SyncState) => void>();
+let flushing: Promise<void> | null = null;
+
+function setState(changes: Partial<SyncState>) {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener(state));
+}
+
+export function subscribeSyncState(listener: (state: SyncState) => void) {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+async function refreshPending() {
+  const entries = await getAllRecords<OutboxEntry>('outbox');
+  setState({ pending: entries.length });
+  return entries;
+}
+
+async function applyAnswer({ user_id, ...submission }: AnswerRecord) {
+  const user = await db.auth.getUser();
+  if (user?.id !== user_id) throw new Error('Queued answers belong to a different account');
+  const result = await db.answers.submit(submission);
+  await recordReview(user_id, submission.assessment_id, result.score);
+  return result;
+}
+
+/** Sends queued writes to the backend in the order they were made. */
+export function flushOutbox(): Promise<void> {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    const entries = (await refreshPending()).sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+    if (entries.length === 0 || isOffline()) return;
+
+    setState({ syncing: true, error: null });
+    const user = await db.auth.getUser();
+    let syncError: string | null = null;
+    for (const entry of entries) {
+      // Changes wait for the learner who made them to sign in again.
+      if (entry.payload.user_id !== user?.id) continue;
+      try {
+        if (entry.kind === 'progress') await db.progress.record(entry.payload);
+        else await applyAnswer(entry.payload);
+        await deleteRecord('outbox', entry.key);
+      } catch (error) {
+        if (isOffline()) break;
+        console.error('Error syncing offline change:', error);
+        syncError = (error as Error).message ?? 'Sync failed';
+        if (error instanceof BackendUnavailableError) {
+          if (entry.attempts + 1 >= MAX_ATTEMPTS) {
+            await deleteRecord('outbox', entry.key);
+          } else {
+            await putRecord('outbox', { ...entry, attempts: entry.attempts + 1 });
+          }
+          // The entries after it would not get through either.
+          break;
+        }
+        // The server turned it down, which trying again would not change.
+        await deleteRecord('outbox', entry.key);
+      }
+    }
+
+    const remaining = await refreshPending();
+    setState({
+      syncing: false,
+      error: syncError,
+      ...(remaining.length === 0 && { lastSyncedAt: new Date().toISOString() }),
+    });
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+}
+
+async function enqueue(entry: OutboxEntry) {
+  await putRecord('outbox', entry);
+  await refreshPending();
+  flushOutbox().catch(error => console.error('Error flushing outbox:', error));
+}
+
+/**
+ * Queues a lesson progress write. Repeated updates to the same lesson while
+ * offline are merged into one entry, adding up their time.
+ */
+export async function saveProgress(update: ProgressUpdate) {
+  const key = `progress:${update.user_id}:${update.lesson_id}`;
+  const existing = await getRecord<OutboxEntry>('outbox', key);
+  const payload = existing?.kind === 'progress' ? combineProgressUpdates(existing.payload, update) : update;
+
+  await enqueue({ key, kind: 'progress', payload, queued_at: existing?.queued_at ?? new Date().toISOString(), attempts: 0 });
+}
+
+/**
+ * Submits an answer for grading. When the backend can't be reached the answer
+ * is queued and graded once the browser is back online, and this resolves to
+ * null. Rejects when the server turns the answer down.
+ */
+export async function submitAnswer(
+  userId: string,
+  submission: AnswerSubmission
+): Promise<GradeResult | null> {
+  const answer: AnswerRecord = { ...submission, user_id: userId };
+
+  if (!isOffline()) {
+    try {
+      return await applyAnswer(answer);
+    } catch (error) {
+      if (!(error instanceof BackendUnavailableError) && !isOffline()) throw error;
+      console.error('Error grading answer, queueing it for later:', error);
+    }
+  }
+
+  await enqueue({
+    key: `answer:${crypto.randomUUID()}`,
+    kind: 'answer',
+    payload: answer,
+    queued_at: new Date().toISOString(),
+    attempts: 0,
+  });
+  return null;
+}
+
+/** Overlays progress that is still waiting in the outbox on rows loaded from the server. */
+export async function withPendingProgress(rows: UserProgress[], userId: string, courseId: string) {
+  const entries = await getAllRecords<OutboxEntry>('outbox').catch(() => [] as OutboxEntry[]);
+  const merged = [...rows];
+
+  for (const entry of entries) {
+    if (entry.kind !== 'progress') continue;
+    const update = entry.payload;
+    if (update.user_id !== userId || update.course_id !== courseId) continue;
+
+    const index = merged.findIndex(row => row.lesson_id === update.lesson_id);
+    const row = applyProgressUpdate(merged[index] ?? null, update, { id: entry.key, started_at: entry.queued_at });
+    if (index >= 0) merged[index] = row;
+    else merged.push(row);
+  }
+
+  return merged;
+}
+
+export async function downloadCourse(courseId: string) {
+  const [course, lessons] = await Promise.all([db.courses.get(courseId), db.lessons.listByCourse(courseId)]);
+  if (!course) throw new Error('Course not found');
+  const [questions, variants] = await Promise.all([
+    db.questions.listByLessons(lessons.map(l => l.id)),
+    db.lessonVariants.listByLessons(lessons.map(l => l.id)),
+  ]);
+
+  await saveOfflineCourse({
+    course,
+    lessons,
+    questions,
+    variants,
+    downloaded_at: new Date().toISOString(),
+  });
+}
+
+/** Tracks connectivity and flushes the outbox whenever the browser comes back online. */
+export function startOfflineSync() {
+  const handleOnline = () => {
+    setState({ online: true });
+    flushOutbox().catch(error => console.error('Error flushing outbox:', error));
+  };
+  const handleOffline = () => setState({ online: false });
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  if (isOffline()) handleOffline();
+  else handleOnline();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+}
@@ -0,0 +1,114 @@
+import { Course, Lesson, Prerequisite, QuizAttempt, UserProgress } from './supabase';
+import { db } from './repositories';
+import { countedAttempt } from './quizAttempts';
+
+export type RequirementStatus = {
+  rule: Prerequisite;
+  met: boolean;
+  /** What the learner has to do, e.g. `Score at least 80% on "Loops Quiz"`. */
+  label: string;
+};
+
+/** Everything needed to check a set of rules for one learner. */
+export type GatingContext = {
+  /** Every lesson a rule names, plus all lessons of every required course. */
+  lessons: Lesson[];
+  courses: Pick<Course, 'id' | 'title'>[];
+  progress: Pick<UserProgress, 'lesson_id' | 'status'>[];
+  attempts: QuizAttempt[];
+};
+
+export type CourseGating = {
+  /** Rules on the course itself, which gate every lesson in it. */
+  course: RequirementStatus[];
+  /** Rules on individual lessons, by lesson id. */
+  lessons: Record<string, RequirementStatus[]>;
+};
+
+const completed = (context: GatingContext, lessonId: string) =>
+  context.progress.some(p => p.lesson_id === lessonId && p.status === 'completed');
+
+/** Mirrors the `prerequisite_met` database function. */
+export function isRequirementMet(rule: Prerequisite, context: GatingContext): boolean {
+  if (rule.required_course_id) {
+    const lessons = context.lessons.filter(l => l.course_id === rule.required_course_id);
+    return lessons.length > 0 && lessons.every(l => completed(context, l.id));
+  }
+
+  const lessonId = rule.required_lesson_id ?? '';
+  if (rule.min_score === null) return completed(context, lessonId);
+
+  const lesson = context.lessons.find(l => l.id === lessonId);
+  if (!lesson) return false;
+  const counted = countedAttempt(lesson, context.attempts.filter(a => a.lesson_id === lessonId));
+  return (counted?.score ?? 0) >= rule.min_score;
+}
+
+export function describeRequirement(
+  rule: Prerequisite,
+  lessons: Pick<Lesson, 'id' | 'title'>[],
+  courses: Pick<Course, 'id' | 'title'>[]
+): string {
+  if (rule.required_course_id) {
+    const course = courses.find(c => c.id === rule.required_course_id);
+    return `Complete the course "${course?.title ?? 'Unknown course'}"`;
+  }
+
+  const title = lessons.find(l => l.id === rule.required_lesson_id)?.title ?? 'Unknown lesson';
+  return rule.min_score === null
+    ? `Complete "${title}"`
+    : `Score at least ${Math.round(rule.min_score * 100)}% on "${title}"`;
+}
+
+export function evaluateRequirements(rules: Prerequisite[], context: GatingContext): RequirementStatus[] {
+  return rules.map(rule => ({
+    rule,
+    met: isRequirementMet(rule, context),
+    label: describeRequirement(rule, context.lessons, context.courses),
+  }));
+}
+
+export const isUnlocked = (requirements: RequirementStatus[]) => requirements.every(r => r.met);
+
+/** Course rules followed by the lesson's own rules; the lesson is open only when all are met. */
+export const lessonRequirements = (gating: CourseGating, lessonId: string) => [
+  ...gating.course,
+  ...(gating.lessons[lessonId] ?? []),
+];
+
+/** Loads and checks every rule gating a course and its lessons for one learner. */
+export async function loadCourseGating(userId: string, courseId: string): Promise<CourseGating> {
+  const rules = await db.prerequisites.listByCourse(courseId);
+  if (rules.length === 0) return { course: [], lessons: {} };
+
+  const unique = (ids: (string | null)[]) => [...new Set(ids.filter((id): id is string => !!id))];
+  const lessonIds = unique(rules.map(r => r.required_lesson_id));
+  const courseIds = unique(rules.map(r => r.required_course_id));
+  const scoredLessonIds = unique(rules.filter(r => r.min_score !== null).map(r => r.required_lesson_id));
+
+  const [requiredLessons, courseLessons, courses, progress, attempts] = await Promise.all([
+    db.lessons.listByIds(lessonIds),
+    Promise.all(courseIds.map(id => db.lessons.listByCourse(id))),
+    Promise.all(courseIds.map(id => db.courses.get(id))),
+    db.progress.listByUser(userId),
+    Promise.all(scoredLessonIds.map(id => db.quizAttempts.listByLesson(userId, id))),
+  ]);
+
+  const context: GatingContext = {
+    lessons: [...requiredLessons, ...courseLessons.flat()],
+    courses: courses.filter((c): c is Course => !!c),
+    progress,
+    attempts: attempts.flat(),
+  };
+
+  const lessons: CourseGating['lessons'] = {};
+  for (const requirement of evaluateRequirements(rules.filter(r => r.lesson_id), context)) {
+    const lessonId = requirement.rule.lesson_id!;
+    lessons[lessonId] = [...(lessons[lessonId] ?? []), requirement];
+  }
+
+  return {
+    course: evaluateRequirements(rules.filter(r => r.course_id), context),
+    lessons,
+  };
+}
@@ -0,0 +1,78 @@
+import { UserProgress, StepProgress } from './supabase';
+import { ProgressUpdate } from './repositories';
+
+type MergedFields = Pick<
+  UserProgress,
+  'status' | 'completion_percentage' | 'last_accessed_at' | 'completed_at' | 'step_progress'
+>;
+
+function mergeSteps(a?: Record<string, StepProgress>, b?: Record<string, StepProgress>) {
+  if (!a || !b) return a ?? b;
+  const merged = { ...a };
+  for (const [id, step] of Object.entries(b)) {
+    const existing = merged[id];
+    merged[id] = !existing
+      ? step
+      : {
+          completed: existing.completed || step.completed,
+          attempts: Math.max(existing.attempts, step.attempts),
+          completed_at: existing.completed_at ?? step.completed_at,
+        };
+  }
+  return merged;
+}
+
+/**
+ * Reconciles two copies of the same lesson's progress. The copy with the later
+ * `last_accessed_at` wins the status, but progress never moves backwards: a
+ * completed lesson stays completed and the higher percentage and per-step
+ * results are kept from either side.
+ */
+function mergeFields(a: MergedFields, b: MergedFields): MergedFields {
+  const [older, newer] =
+    new Date(a.last_accessed_at).getTime() > new Date(b.last_accessed_at).getTime() ? [b, a] : [a, b];
+  const completed = a.status === 'completed' || b.status === 'completed';
+  const completedAt = [a.completed_at, b.completed_at].filter((d): d is string => !!d).sort()[0];
+
+  return {
+    status: completed ? 'completed' : newer.status,
+    completion_percentage: Math.max(older.completion_percentage, newer.completion_percentage),
+    last_accessed_at: newer.last_accessed_at,
+    completed_at: completedAt,
+    step_progress: mergeSteps(older.step_progress, newer.step_progress),
+  };
+}
+
+/** Combines two pending updates for the same lesson; their time deltas add up. */
+export function combineProgressUpdates(a: ProgressUpdate, b: ProgressUpdate): ProgressUpdate {
+  return {
+    ...a,
+    ...mergeFields(a, b),
+    time_delta_seconds: a.time_delta_seconds + b.time_delta_seconds,
+  };
+}
+
+/**
+ * Applies an update to a stored row, or to an empty row when there is none
+ * yet. This mirrors the `record_progress` database function.
+ */
+export function applyProgressUpdate(
+  row: UserProgress | null,
+  update: ProgressUpdate,
+  fallback: Pick<UserProgress, 'id' | 'started_at'>
+): UserProgress {
+  const { time_delta_seconds, ...fields } = update;
+  const seconds = (row?.time_spent_seconds ?? 0) + Math.max(0, time_delta_seconds);
+
+  return {
+    ...(row ?? { ...fields, ...fallback }),
+    ...(row ? mergeFields(row, fields) : fields),
+    time_spent_seconds: seconds,
+    time_spent_minutes: Math.floor(seconds / 60),
+  };
+}
+
+/** Total engaged time in whole minutes, summed in seconds so partial minutes are not lost per lesson. */
+export function learningMinutes(rows: UserProgress[]) {
+  return Math.round(rows.reduce((sum, p) => sum + p.time_spent_seconds, 0) / 60);
+}
@@ -0,0 +1,43 @@
+import { Lesson, Question, QuizAttempt, UserAssessment } from './supabase';
+import { QuizResponse } from './adaptiveQuiz';
+
+const finished = (attempts: QuizAttempt[]) =>
+  attempts.filter(a => a.status === 'completed' && a.score !== null);
+
+/** Finished attempts the learner may still make, or null when retakes are unlimited. */
+export function attemptsLeft(lesson: Lesson, attempts: QuizAttempt[]): number | null {
+  if (!lesson.max_attempts) return null;
+  return Math.max(0, lesson.max_attempts - finished(attempts).length);
+}
+
+/** The finished attempt whose score counts for the lesson under its `attempt_scoring` rule. */
+export function countedAttempt(lesson: Lesson, attempts: QuizAttempt[]): QuizAttempt | null {
+  const done = finished(attempts).sort((a, b) => (a.finished_at ?? '').localeCompare(b.finished_at ?? ''));
+  if (done.length === 0) return null;
+  if (lesson.attempt_scoring === 'latest') return done[done.length - 1];
+  return done.reduce((best, a) => ((a.score ?? 0) > (best.score ?? 0) ? a : best));
+}
+
+/**
+ * Rebuilds the responses of an attempt in progress from its graded answers, in
+ * the order the questions were asked, so the adaptive quiz resumes with the
+ * same ability estimate.
+ */
+export function resumeResponses(
+  attempt: QuizAttempt,
+  questions: Question[],
+  answers: Pick<UserAssessment, 'assessment_id' | 'score' | 'attempted_at'>[]
+): QuizResponse[] {
+  // The first answer to each question is the one that counts.
+  const first = new Map(
+    [...answers]
+      .sort((a, b) => b.attempted_at.localeCompare(a.attempted_at))
+      .map(a => [a.assessment_id, a.score])
+  );
+
+  return attempt.question_ids.flatMap(id => {
+    const question = questions.find(q => q.id === id);
+    const score = first.get(id);
+    return question && score !== undefined ? [{ assessment: question, score }] : [];
+  });
+}
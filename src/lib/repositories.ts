@@ -0,0 +1,392 @@
+import {
+  supabase,
+  Profile,
+  Course,
+  Lesson,
+  LessonVariant,
+  LessonVariantView,
+  VariantOutcome,
+  CourseSearchHit,
+  Assessment,
+  Question,
+  QuizAttempt,
+  Prerequisite,
+  Skill,
+  SkillMastery,
+  UserProgress,
+  UserAssessment,
+  ReviewState,
+  LearningPath,
+  SkillLevelCalibration,
+  VideoProgress,
+  XpEvent,
+  LearningStreak,
+  Achievement,
+  UserAchievement,
+  LearnerMetric,
+  LearningGoal,
+  LearningTime,
+  AppNotification,
+  Certificate,
+  CertificateVerification,
+  ActivityEvent,
+  DailyActivity,
+} from './supabase';
+import { createSupabaseRepositories } from './supabaseRepositories';
+import { createMemoryRepositories } from './memoryRepositories';
+import { demoSeed } from './demoData';
+import { AnswerValue, GradeResult, QuestionSolution } from './grading';
+import { LessonSummary } from './catalog';
+import { ActivityRange } from './activity';
+
+/**
+ * Thrown by writes that never got an answer from the database: the network
+ * failed or the server errored. Such writes can be tried again later; any
+ * other error means the write was turned down.
+ */
+export class BackendUnavailableError extends Error {
+  name = 'BackendUnavailableError';
+}
+
+export type AuthUser = {
+  id: string;
+  email?: string;
+};
+
+export type CourseInput = Omit<Course, 'id' | 'created_at' | 'updated_at'>;
+export type LessonInput = Omit<Lesson, 'id' | 'created_at'>;
+export type LessonVariantInput = Omit<LessonVariant, 'id' | 'created_at' | 'updated_at'>;
+export type AssessmentInput = Omit<Assessment, 'id' | 'created_at'>;
+export type PrerequisiteInput = Omit<Prerequisite, 'id' | 'created_at'>;
+export type SkillInput = Omit<Skill, 'id' | 'created_at'>;
+export type AchievementInput = Omit<Achievement, 'id' | 'created_at'>;
+export type ProfileInput = Omit<Profile, 'role' | 'created_at' | 'updated_at'>;
+export type ReviewStateInput = Omit<ReviewState, 'id' | 'created_at' | 'updated_at'>;
+export type CalibrationInput = Omit<SkillLevelCalibration, 'id' | 'created_at'>;
+export type LearningPathInput = Omit<LearningPath, 'id' | 'created_at'>;
+export type VideoProgressInput = Omit<VideoProgress, 'id'>;
+export type GoalInput = Omit<LearningGoal, 'id' | 'created_at' | 'updated_at'>;
+export type LessonOpenedInput = Pick<ActivityEvent, 'user_id' | 'course_id' | 'lesson_id' | 'occurred_at'>;
+export type NotificationInput = Omit<AppNotification, 'id' | 'read_at' | 'created_at'>;
+
+/**
+ * A change to one lesson's progress. Time is the engaged seconds since the
+ * previous update rather than a running total, so updates from several tabs
+ * or devices add up instead of overwriting each other.
+ */
+export type ProgressUpdate = Pick<
+  UserProgress,
+  | 'user_id'
+  | 'lesson_id'
+  | 'course_id'
+  | 'status'
+  | 'completion_percentage'
+  | 'last_accessed_at'
+  | 'completed_at'
+  | 'step_progress'
+> & { time_delta_seconds: number };
+
+/** A learner's response to one question, graded by the backend when it is submitted. */
+export type AnswerSubmission = {
+  assessment_id: string;
+  answer: AnswerValue;
+  time_taken_seconds: number;
+  /** Files the answer under a quiz attempt. */
+  attempt_id?: string | null;
+};
+
+/** Passing an `id` updates that row; leaving it out inserts a new one. */
+export type Saveable<T> = T & { id?: string };
+
+export interface AuthRepository {
+  getUser(): Promise<AuthUser | null>;
+  onChange(listener: (user: AuthUser | null) => void): () => void;
+  signUp(email: string, password: string): Promise<AuthUser | null>;
+  signIn(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+}
+
+export interface ProfileRepository {
+  get(id: string): Promise<Profile | null>;
+  create(profile: ProfileInput): Promise<void>;
+  update(id: string, changes: Partial<Profile>): Promise<void>;
+}
+
+export interface CourseRepository {
+  /** Published courses, newest first. */
+  listPublished(): Promise<Course[]>;
+  /** Every course the current user may edit, most recently updated first. */
+  listEditable(): Promise<Course[]>;
+  get(id: string): Promise<Course | null>;
+  /** Case-insensitive exact title match. */
+  findByTitle(title: string): Promise<Pick<Course, 'id' | 'title'>[]>;
+  /** Full-text search over courses and their lessons, best match first. */
+  search(query: string): Promise<CourseSearchHit[]>;
+  save(course: Saveable<CourseInput>): Promise<Course>;
+  delete(ids: string[]): Promise<void>;
+}
+
+export interface LessonRepository {
+  /** Lessons of a course in `order_index` order. */
+  listByCourse(courseId: string): Promise<Lesson[]>;
+  listByIds(ids: string[]): Promise<Lesson[]>;
+  listSummaries(courseIds: string[]): Promise<LessonSummary[]>;
+  save(lesson: Saveable<LessonInput>): Promise<Lesson>;
+  delete(id: string): Promise<void>;
+  /** Rewrites `order_index` so it matches the given lesson order. */
+  reorder(lessonIds: string[]): Promise<void>;
+}
+
+export interface LessonVariantRepository {
+  listByLessons(lessonIds: string[]): Promise<LessonVariant[]>;
+  /** Upserts on (lesson_id, learning_style). */
+  save(variant: LessonVariantInput): Promise<LessonVariant>;
+  delete(id: string): Promise<void>;
+  /** Upserts the user's latest view of the lesson on (user_id, lesson_id). */
+  recordView(view: Omit<LessonVariantView, 'id'>): Promise<void>;
+  /** For authors: results per lesson and variant across a course's learners. */
+  outcomesByCourse(courseId: string): Promise<VariantOutcome[]>;
+}
+
+export interface AssessmentRepository {
+  /** Full questions including answers, for authors. Questions of the given lessons, oldest first. */
+  listByLessons(lessonIds: string[]): Promise<Assessment[]>;
+  listByIds(ids: string[]): Promise<Assessment[]>;
+  save(assessment: Saveable<AssessmentInput>): Promise<Assessment>;
+  insertMany(assessments: AssessmentInput[]): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/** Questions as learners see them, without answers or explanations. */
+export interface QuestionRepository {
+  /** Questions of the given lessons, oldest first. */
+  listByLessons(lessonIds: string[]): Promise<Question[]>;
+  listByIds(ids: string[]): Promise<Question[]>;
+}
+
+export interface PrerequisiteRepository {
+  /** Rules gating the course itself or any of its lessons. */
+  listByCourse(courseId: string): Promise<Prerequisite[]>;
+  save(rule: Saveable<PrerequisiteInput>): Promise<Prerequisite>;
+  delete(id: string): Promise<void>;
+}
+
+export interface SkillRepository {
+  /** The whole taxonomy, by name. */
+  list(): Promise<Skill[]>;
+  save(skill: Saveable<SkillInput>): Promise<Skill>;
+  /** Also untags the skill from lessons and questions. */
+  delete(id: string): Promise<void>;
+}
+
+/** Written by the backend whenever an answer is recorded; read-only here. */
+export interface SkillMasteryRepository {
+  listByUser(userId: string): Promise<SkillMastery[]>;
+}
+
+export interface AchievementRepository {
+  /** Every configured achievement, by threshold within each metric. */
+  list(): Promise<Achievement[]>;
+  save(achievement: Saveable<AchievementInput>): Promise<Achievement>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * XP, streaks and unlocked achievements, written by the backend whenever a
+ * lesson is completed or a question answered; read-only here.
+ */
+export interface EngagementRepository {
+  /** A user's XP awards, newest first. */
+  listXp(userId: string): Promise<XpEvent[]>;
+  getStreak(userId: string): Promise<LearningStreak | null>;
+  /** The current user's totals that achievements unlock on. */
+  metrics(userId: string): Promise<LearnerMetric[]>;
+  listAchievements(userId: string): Promise<UserAchievement[]>;
+}
+
+export interface ProgressRepository {
+  listByUser(userId: string): Promise<UserProgress[]>;
+  listByCourse(userId: string, courseId: string): Promise<UserProgress[]>;
+  get(userId: string, lessonId: string): Promise<UserProgress | null>;
+  /**
+   * Creates or updates the current user's row for the lesson in one atomic
+   * step, merging as `applyProgressUpdate` does. A quiz or video lesson is
+   * only recorded as completed once its attempt is finished or its video
+   * watched; until then it stays in progress. Throws
+   * `BackendUnavailableError` when it can be retried.
+   */
+  record(update: ProgressUpdate): Promise<void>;
+}
+
+export interface AnswerRepository {
+  /**
+   * Grades the answer and records it for the current user at the time it
+   * arrives. Without `attempt_id` it must be a review of a question the user
+   * answered in a finished attempt, with no attempt at the lesson in
+   * progress; only reviews include the solution. Throws
+   * `BackendUnavailableError` when it can be retried.
+   */
+  submit(submission: AnswerSubmission): Promise<GradeResult>;
+  /** All of a user's answers, oldest first, optionally limited to some questions. */
+  listByUser(userId: string, assessmentIds?: string[]): Promise<UserAssessment[]>;
+  /** Answers given in one quiz attempt, oldest first. */
+  listByAttempt(attemptId: string): Promise<UserAssessment[]>;
+}
+
+export interface QuizAttemptRepository {
+  /** A user's attempts at a quiz lesson, oldest first. */
+  listByLesson(userId: string, lessonId: string): Promise<QuizAttempt[]>;
+  /**
+   * Returns the current user's attempt in progress, or starts a new one.
+   * Rejects when the lesson's `max_attempts` have all been used.
+   */
+  start(lessonId: string): Promise<QuizAttempt>;
+  /**
+   * Records the question being shown so the attempt can resume there. A
+   * question can only be answered in the attempt once it has been shown.
+   */
+  advance(attemptId: string, questionId: string): Promise<void>;
+  /** Scores the attempt from its first answer to each question and closes it. */
+  finish(attemptId: string): Promise<QuizAttempt>;
+  /** Solutions to the questions of one of the current user's finished attempts, in the order asked. */
+  review(attemptId: string): Promise<QuestionSolution[]>;
+}
+
+export interface ReviewStateRepository {
+  get(userId: string, assessmentId: string): Promise<ReviewState | null>;
+  /** States due at or before `now`, soonest first. */
+  listDue(userId: string, now: string): Promise<ReviewState[]>;
+  countDue(userId: string, now: string): Promise<number>;
+  listByUser(userId: string): Promise<ReviewState[]>;
+  /** Upserts on (user_id, assessment_id); `ignoreDuplicates` keeps existing rows untouched. */
+  upsert(states: ReviewStateInput[], options?: { ignoreDuplicates?: boolean }): Promise<void>;
+}
+
+export interface LearningPathRepository {
+  /** A user's paths, highest priority first. */
+  listByUser(userId: string): Promise<LearningPath[]>;
+  /** Upserts on (user_id, course_id). */
+  upsert(path: LearningPathInput): Promise<LearningPath>;
+}
+
+export interface CalibrationRepository {
+  /** A user's skill level history, newest first. */
+  listByUser(userId: string): Promise<SkillLevelCalibration[]>;
+  insert(calibration: CalibrationInput): Promise<SkillLevelCalibration>;
+  /** Settles a pending suggestion. */
+  resolve(id: string, status: 'applied' | 'dismissed'): Promise<void>;
+}
+
+export interface VideoProgressRepository {
+  get(userId: string, lessonId: string): Promise<VideoProgress | null>;
+  /** Upserts on (user_id, lesson_id). */
+  upsert(progress: VideoProgressInput): Promise<void>;
+}
+
+export interface GoalRepository {
+  /** A user's goals, oldest first. */
+  listByUser(userId: string): Promise<LearningGoal[]>;
+  save(goal: Saveable<GoalInput>): Promise<LearningGoal>;
+  delete(id: string): Promise<void>;
+}
+
+/** Learning time per quarter hour, added to by `ProgressRepository.record`; read-only here. */
+export interface LearningTimeRepository {
+  /** A user's buckets starting at or after `since`. */
+  listByUser(userId: string, since: string): Promise<LearningTime[]>;
+}
+
+export interface NotificationRepository {
+  /** A user's 50 most recent notifications, newest first. */
+  listByUser(userId: string): Promise<AppNotification[]>;
+  /** Returns null, creating nothing, when the user already has one with the same `dedupe_key`. */
+  create(notification: NotificationInput): Promise<AppNotification | null>;
+  markRead(ids: string[]): Promise<void>;
+}
+
+/** Certificates are issued by the backend as learners meet the criteria; there is no way to create one here. */
+export interface CertificateRepository {
+  /** A user's certificates, most recent first. */
+  listByUser(userId: string): Promise<Certificate[]>;
+  get(userId: string, courseId: string): Promise<Certificate | null>;
+  /** Looks a certificate up by its code, for anyone, signed in or not. */
+  verify(code: string): Promise<CertificateVerification | null>;
+}
+
+/**
+ * The learning activity log. Progress and answer events are added by the
+ * backend as `ProgressRepository.record` and `AnswerRepository.submit` save
+ * them; only lesson opens are logged from here, and nothing is ever changed.
+ */
+export interface ActivityRepository {
+  recordLessonOpened(event: LessonOpenedInput): Promise<void>;
+  /** Totals per course for each day of the range that has any activity, in `timeZone`. */
+  daily(userId: string, range: ActivityRange, timeZone: string): Promise<DailyActivity[]>;
+  /** A user's events in the order they were saved, optionally only those saved after `since`. */
+  listByUser(userId: string, since?: string | null): Promise<ActivityEvent[]>;
+}
+
+/**
+ * The organisation's Learning Record Store. The backend builds the statements
+ * from the saved activity and holds the LRS credentials (see
+ * supabase/functions/xapi-statements), so only statement ids are sent from here.
+ */
+export interface LearningRecordRepository {
+  /**
+   * Sends the statements with these ids, which are those of the current
+   * user's activity events and certificates. Resolves to whether the LRS
+   * stored them, or false when they were turned down as invalid; throws when
+   * they should be sent again later.
+   */
+  send(statementIds: string[]): Promise<boolean>;
+}
+
+/**
+ * Everything the app reads and writes. Components and lib modules go through
+ * this instead of talking to a backend directly, so the backend can be
+ * swapped (see `createMemoryRepositories`).
+ */
+export interface Repositories {
+  auth: AuthRepository;
+  profiles: ProfileRepository;
+  courses: CourseRepository;
+  lessons: LessonRepository;
+  lessonVariants: LessonVariantRepository;
+  assessments: AssessmentRepository;
+  questions: QuestionRepository;
+  prerequisites: PrerequisiteRepository;
+  skills: SkillRepository;
+  skillMastery: SkillMasteryRepository;
+  achievements: AchievementRepository;
+  engagement: EngagementRepository;
+  progress: ProgressRepository;
+  answers: AnswerRepository;
+  quizAttempts: QuizAttemptRepository;
+  reviewStates: ReviewStateRepository;
+  learningPaths: LearningPathRepository;
+  calibrations: CalibrationRepository;
+  videoProgress: VideoProgressRepository;
+  goals: GoalRepository;
+  learningTime: LearningTimeRepository;
+  notifications: NotificationRepository;
+  certificates: CertificateRepository;
+  activity: ActivityRepository;
+  learningRecords: LearningRecordRepository;
+}
+
+/** Adapts a throwing call to the `{ data, error }` shape the editors render from. */
+export async function toResult<T>(promise: Promise<T>): Promise<{ data: T | null; error: Error | null }> {
+  try {
+    return { data: await promise, error: null };
+  } catch (error) {
+    return { data: null, error: error as Error };
+  }
+}
+
+// Without Supabase credentials (or with VITE_DATA_BACKEND=memory) the app runs
+// against an in-memory store seeded with demo content and persisted to localStorage.
+export const usingMemoryBackend = import.meta.env.VITE_DATA_BACKEND === 'memory' || !supabase;
+
+export const db: Repositories = !usingMemoryBackend && supabase
+  ? createSupabaseRepositories(supabase)
+  : createMemoryRepositories(demoSeed(), { storageKey: 'adaptlearn-demo-db' });
@@ -0,0 +1,15 @@
+/** Path builders for every linkable screen, so links are never assembled by hand. */
+export const paths = {
+  login: '/login',
+  courses: '/courses',
+  course: (courseId: string) => `/courses/${courseId}`,
+  lesson: (courseId: string, lessonId: string) => `/courses/${courseId}/lessons/${lessonId}`,
+  question: (courseId: string, lessonId: string, questionId: string) =>
+    `/courses/${courseId}/lessons/${lessonId}/questions/${questionId}`,
+  progress: '/progress',
+  reviews: '/reviews',
+  author: '/author',
+  profile: '/profile',
+  /** Public; anyone can check a certificate's code here. */
+  verify: (code?: string) => (code ? `/verify/${code}` : '/verify'),
+};
@@ -0,0 +1,221 @@
+import {
+  Assessment,
+  CalibrationEvidence,
+  Lesson,
+  Profile,
+  Question,
+  SkillLevelCalibration,
+  UserAssessment,
+  UserProgress,
+} from './supabase';
+import { db } from './repositories';
+
+type Level = Profile['skill_level'];
+type Difficulty = Assessment['difficulty'];
+
+export const LEVELS: Level[] = ['beginner', 'intermediate', 'advanced'];
+
+/** The question difficulty that suits each level. */
+const LEVEL_DIFFICULTY: Record<Level, Difficulty> = {
+  beginner: 'easy',
+  intermediate: 'medium',
+  advanced: 'hard',
+};
+
+// Fewer answers or lessons than this at a difficulty say too little to act on.
+const MIN_ANSWERS = 5;
+const MIN_TIMED_LESSONS = 3;
+
+// A dismissed suggestion isn't offered again for this long.
+const DISMISS_COOLDOWN_DAYS = 14;
+
+export const LEVEL_LABELS: Record<Level, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+type EvidenceInput = {
+  answers: Pick<UserAssessment, 'assessment_id' | 'score'>[];
+  questions: Pick<Question, 'id' | 'difficulty'>[];
+  progress: Pick<UserProgress, 'lesson_id' | 'status' | 'time_spent_seconds'>[];
+  lessons: Pick<Lesson, 'id' | 'difficulty_level' | 'estimated_minutes'>[];
+};
+
+export type LevelRecommendation = {
+  level: Level;
+  reasons: string[];
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export function collectEvidence({ answers, questions, progress, lessons }: EvidenceInput): CalibrationEvidence {
+  const accuracy = {} as CalibrationEvidence['accuracy'];
+  for (const difficulty of ['easy', 'medium', 'hard'] as Difficulty[]) {
+    const ids = new Set(questions.filter(q => q.difficulty === difficulty).map(q => q.id));
+    const scores = answers.filter(a => ids.has(a.assessment_id)).map(a => a.score);
+    accuracy[difficulty] = {
+      answered: scores.length,
+      score: scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null,
+    };
+  }
+
+  const completedLessons = progress
+    .filter(p => p.status === 'completed')
+    .flatMap(p => {
+      const lesson = lessons.find(l => l.id === p.lesson_id);
+      return lesson ? [{ progress: p, lesson }] : [];
+    });
+
+  const ratios = completedLessons
+    .filter(({ progress, lesson }) => progress.time_spent_seconds > 0 && lesson.estimated_minutes > 0)
+    .map(({ progress, lesson }) => progress.time_spent_seconds / 60 / lesson.estimated_minutes);
+
+  const completed = { beginner: 0, intermediate: 0, advanced: 0 };
+  for (const { lesson } of completedLessons) completed[lesson.difficulty_level]++;
+
+  return {
+    accuracy,
+    pace: ratios.length >= MIN_TIMED_LESSONS ? median(ratios) : null,
+    completed,
+  };
+}
+
+/**
+ * Weighs the evidence for moving one level up or down. Quiz accuracy counts
+ * double; pace and the difficulty of completed lessons count once each. A move
+ * needs a net weight of two, so accuracy alone can justify one, and so can
+ * pace and lesson difficulty agreeing, but never accuracy against the move.
+ */
+export function recommendLevel(level: Level, evidence: CalibrationEvidence): LevelRecommendation | null {
+  const rank = LEVELS.indexOf(level);
+  const up: string[] = [];
+  const down: string[] = [];
+  let weight = 0;
+  let accuracySignal: 'up' | 'down' | null = null;
+
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const describe = (difficulty: Difficulty) => {
+    const { answered, score } = evidence.accuracy[difficulty];
+    return `You averaged ${percent(score ?? 0)} on ${answered} ${difficulty} questions.`;
+  };
+  const measured = (difficulty: Difficulty | undefined) =>
+    difficulty && evidence.accuracy[difficulty].answered >= MIN_ANSWERS ? evidence.accuracy[difficulty].score : null;
+
+  const own = LEVEL_DIFFICULTY[level];
+  const harder = LEVELS[rank + 1] && LEVEL_DIFFICULTY[LEVELS[rank + 1]];
+  const easier = LEVELS[rank - 1] && LEVEL_DIFFICULTY[LEVELS[rank - 1]];
+  const ownScore = measured(own);
+  const harderScore = measured(harder);
+  const easierScore = measured(easier);
+
+  if (harder && ownScore !== null && ownScore >= 0.85 && (harderScore === null || harderScore >= 0.7)) {
+    accuracySignal = 'up';
+    up.push(describe(own));
+    if (harderScore !== null) up.push(describe(harder));
+  } else if (easier && ownScore !== null && ownScore < 0.5) {
+    accuracySignal = 'down';
+    down.push(describe(own));
+  } else if (easier && easierScore !== null && easierScore < 0.6) {
+    accuracySignal = 'down';
+    down.push(describe(easier));
+  }
+  if (accuracySignal === 'up') weight += 2;
+  if (accuracySignal === 'down') weight -= 2;
+
+  if (evidence.pace !== null && evidence.pace <= 0.6 && harder) {
+    weight += 1;
+    up.push(`You finish lessons in about ${percent(evidence.pace)} of their estimated time.`);
+  } else if (evidence.pace !== null && evidence.pace >= 1.75 && easier) {
+    weight -= 1;
+    down.push(`Lessons take you about ${evidence.pace.toFixed(1)}× their estimated time.`);
+  }
+
+  const above = LEVELS.slice(rank + 1).reduce((sum, l) => sum + evidence.completed[l], 0);
+  if (above >= 2) {
+    weight += 1;
+    up.push(`You completed ${above} lessons above your current level.`);
+  }
+
+  if (weight >= 2 && accuracySignal !== 'down') return { level: LEVELS[rank + 1], reasons: up };
+  if (weight <= -2 && accuracySignal !== 'up') return { level: LEVELS[rank - 1], reasons: down };
+  return null;
+}
+
+/**
+ * Checks the learner's performance since their level last changed and, when
+ * it points to a different level, applies the change or records a suggestion,
+ * depending on `skill_level_mode`. Returns the pending suggestion or the change
+ * just applied, if any.
+ */
+export async function calibrateSkillLevel(profile: Profile): Promise<SkillLevelCalibration | null> {
+  const history = await db.calibrations.listByUser(profile.id);
+
+  const pending = history.find(c => c.status === 'pending');
+  if (pending?.from_level === profile.skill_level) return pending;
+  // The level changed some other way since the suggestion was made.
+  if (pending) await db.calibrations.resolve(pending.id, 'dismissed');
+
+  const since = history.find(c => c.status === 'applied')?.created_at ?? '';
+  const [answers, progress] = await Promise.all([
+    db.answers.listByUser(profile.id).then(rows => rows.filter(a => a.attempted_at > since)),
+    db.progress.listByUser(profile.id).then(rows => rows.filter(p => (p.completed_at ?? '') > since)),
+  ]);
+  const [questions, lessons] = await Promise.all([
+    db.questions.listByIds([...new Set(answers.map(a => a.assessment_id))]),
+    db.lessons.listByIds(progress.map(p => p.lesson_id)),
+  ]);
+
+  const evidence = collectEvidence({ answers, questions, progress, lessons });
+  const recommendation = recommendLevel(profile.skill_level, evidence);
+  if (!recommendation) return null;
+
+  const cooldownStart = new Date(Date.now() - DISMISS_COOLDOWN_DAYS * 86400000).toISOString();
+  const recentlyDismissed = history.some(
+    c => c.status === 'dismissed' && c.to_level === recommendation.level && (c.resolved_at ?? '') > cooldownStart
+  );
+  if (recentlyDismissed) return null;
+
+  const auto = profile.skill_level_mode === 'auto';
+  if (auto) await db.profiles.update(profile.id, { skill_level: recommendation.level });
+
+  return db.calibrations.insert({
+    user_id: profile.id,
+    from_level: profile.skill_level,
+    to_level: recommendation.level,
+    source: 'calibration',
+    status: auto ? 'applied' : 'pending',
+    reasons: recommendation.reasons,
+    evidence,
+    resolved_at: auto ? new Date().toISOString() : null,
+  });
+}
+
+export async function acceptCalibration(calibration: SkillLevelCalibration) {
+  await db.profiles.update(calibration.user_id, { skill_level: calibration.to_level });
+  await db.calibrations.resolve(calibration.id, 'applied');
+}
+
+export async function dismissCalibration(calibration: SkillLevelCalibration) {
+  await db.calibrations.resolve(calibration.id, 'dismissed');
+}
+
+/** Records a level the learner picked themselves, which also restarts calibration from here. */
+export async function changeSkillLevel(profile: Profile, level: Level) {
+  if (level === profile.skill_level) return;
+  await db.profiles.update(profile.id, { skill_level: level });
+  await db.calibrations.insert({
+    user_id: profile.id,
+    from_level: profile.skill_level,
+    to_level: level,
+    source: 'manual',
+    status: 'applied',
+    reasons: ['Chosen on your profile.'],
+    evidence: null,
+    resolved_at: new Date().toISOString(),
+  });
+}
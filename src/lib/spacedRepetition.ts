@@ -0,0 +1,109 @@
+import { ReviewState, UserAssessment } from './supabase';
+import { db } from './repositories';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Schedule = Pick<ReviewState, 'ease_factor' | 'interval_days' | 'repetitions' | 'lapses' | 'due_at'>;
+
+export const INITIAL_SCHEDULE: Omit<Schedule, 'due_at'> = {
+  ease_factor: 2.5,
+  interval_days: 0,
+  repetitions: 0,
+  lapses: 0,
+};
+
+// SM-2 recall quality (0-5). Quiz answers only tell us how much was right, so
+// a mostly right answer counts as a hard recall and anything less as a lapse.
+export const qualityFor = (score: number) => (score >= 1 ? 4 : score >= 0.5 ? 3 : 1);
+
+export function schedule(
+  state: Omit<Schedule, 'due_at'>,
+  quality: number,
+  reviewedAt: Date = new Date()
+): Schedule {
+  let { repetitions, interval_days, lapses } = state;
+
+  if (quality >= 3) {
+    interval_days =
+      repetitions === 0 ? 1 :
+      repetitions === 1 ? 6 :
+      Math.round(interval_days * state.ease_factor);
+    repetitions += 1;
+  } else {
+    repetitions = 0;
+    interval_days = 1;
+    lapses += 1;
+  }
+
+  const ease_factor = Math.max(
+    1.3,
+    state.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    ease_factor: Math.round(ease_factor * 100) / 100,
+    interval_days,
+    repetitions,
+    lapses,
+    due_at: new Date(reviewedAt.getTime() + interval_days * DAY_MS).toISOString(),
+  };
+}
+
+export async function recordReview(userId: string, assessmentId: string, score: number) {
+  try {
+    const existing = await db.reviewStates.get(userId, assessmentId);
+    const now = new Date();
+    const next = schedule(existing ?? INITIAL_SCHEDULE, qualityFor(score), now);
+
+    await db.reviewStates.upsert([
+      {
+        user_id: userId,
+        assessment_id: assessmentId,
+        ...next,
+        last_reviewed_at: now.toISOString(),
+      },
+    ]);
+  } catch (error) {
+    console.error('Error saving review state:', error);
+  }
+}
+
+/**
+ * Builds review state for answers recorded before the queue existed by
+ * replaying each question's answer history through the scheduler.
+ */
+export async function syncReviewStates(userId: string) {
+  const [allAnswers, states] = await Promise.all([
+    db.answers.listByUser(userId),
+    db.reviewStates.listByUser(userId),
+  ]);
+
+  const known = new Set(states.map(s => s.assessment_id));
+  const history = new Map<string, Pick<UserAssessment, 'score' | 'attempted_at'>[]>();
+
+  for (const answer of allAnswers) {
+    if (known.has(answer.assessment_id)) continue;
+    history.set(answer.assessment_id, [...(history.get(answer.assessment_id) ?? []), answer]);
+  }
+
+  const rows = [...history.entries()].map(([assessmentId, answers]) => {
+    let state: Schedule = { ...INITIAL_SCHEDULE, due_at: new Date().toISOString() };
+    for (const answer of answers) {
+      state = schedule(state, qualityFor(answer.score), new Date(answer.attempted_at));
+    }
+    return {
+      user_id: userId,
+      assessment_id: assessmentId,
+      ...state,
+      last_reviewed_at: answers[answers.length - 1].attempted_at,
+    };
+  });
+
+  if (rows.length === 0) return;
+
+  try {
+    await db.reviewStates.upsert(rows, { ignoreDuplicates: true });
+  } catch (error) {
+    console.error('Error syncing review states:', error);
+  }
+}
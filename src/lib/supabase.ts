@@ -3,7 +3,8 @@ import { createClient } from '@supabase/supabase-js';
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Only ever used through `db` in ./repositories; null when no project is configured.
+export const supabase = supabaseUrl && supabaseAnonKey ? createClient(supabaseUrl, supabaseAnonKey) : null;
 
 export type Profile = {
   id: string;
@@ -11,6 +12,16 @@ export type Profile = {
   full_name: string;
   learning_style: 'visual' | 'auditory' | 'kinesthetic' | 'reading';
   skill_level: 'beginner' | 'intermediate' | 'advanced';
+  /** Whether calibrated level changes are applied directly or suggested first. Defaults to `suggest`. */
+  skill_level_mode?: 'suggest' | 'auto';
+  /** IANA time zone that days and weeks are counted in. Defaults to `UTC`. */
+  time_zone?: string;
+  /** First day of the week, 0 for Sunday. Defaults to 1 (Monday). */
+  week_starts_on?: number;
+  /** Local hour from which goal reminders are sent. Defaults to 18. */
+  reminder_hour?: number;
+  browser_reminders?: boolean;
+  role: 'learner' | 'author' | 'admin';
   created_at: string;
   updated_at: string;
 };
@@ -23,6 +34,8 @@ export type Course = {
   estimated_hours: number;
   thumbnail_url: string;
   is_published: boolean;
+  /** Minimum score from 0 to 1 on every quiz lesson for a certificate. Null requires only completing every lesson. */
+  certificate_passing_score?: number | null;
   created_at: string;
   updated_at: string;
 };
@@ -36,9 +49,100 @@ export type Lesson = {
   difficulty_level: 'beginner' | 'intermediate' | 'advanced';
   estimated_minutes: number;
   content_type: 'video' | 'text' | 'interactive' | 'quiz';
+  video_url?: string;
+  /** Length of the video, read from it when the lesson is saved; progress is measured against it. */
+  video_duration_seconds?: number | null;
+  caption_tracks?: CaptionTrack[];
+  transcript?: string;
+  interactive_steps?: InteractiveStep[];
+  /** Quiz lessons only. Null means unlimited attempts. */
+  max_attempts?: number | null;
+  /** Which finished quiz attempt counts for the lesson. */
+  attempt_scoring?: 'best' | 'latest';
+  /** Skills the lesson teaches; also counted for its questions that have none of their own. */
+  skill_ids?: string[];
   created_at: string;
 };
 
+/** Alternative content for learners with one learning style; the lesson's own content is the default. */
+export type LessonVariant = {
+  id: string;
+  lesson_id: string;
+  learning_style: Profile['learning_style'];
+  content: string;
+  /** Optional narration, empty when there is none. */
+  audio_url: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/** The variant a learner last read, `null` for the lesson's own content. */
+export type LessonVariantView = {
+  id: string;
+  user_id: string;
+  lesson_id: string;
+  learning_style: Profile['learning_style'] | null;
+  viewed_at: string;
+};
+
+/** Quiz results of the learners who read one variant of a lesson. */
+export type VariantOutcome = {
+  lesson_id: string;
+  learning_style: Profile['learning_style'] | null;
+  learners: number;
+  /** Answers to questions from this lesson onwards in the course. */
+  answers: number;
+  average_score: number | null;
+};
+
+/** A course matching a catalog search, with higher ranks for better matches. */
+export type CourseSearchHit = {
+  course_id: string;
+  rank: number;
+};
+
+export type CaptionTrack = {
+  src: string;
+  srclang: string;
+  label: string;
+  kind?: 'captions' | 'subtitles' | 'descriptions';
+};
+
+type StepBase = {
+  id: string;
+  title: string;
+  prompt: string;
+};
+
+export type CodeTestCase = {
+  args: unknown[];
+  expected: unknown;
+  description?: string;
+};
+
+export type InteractiveStep =
+  | (StepBase & {
+      type: 'code';
+      starter_code: string;
+      function_name: string;
+      tests: CodeTestCase[];
+    })
+  | (StepBase & {
+      type: 'fill_blank';
+      template: string;
+      blanks: string[][];
+    })
+  | (StepBase & {
+      type: 'order';
+      items: string[];
+    });
+
+export type StepProgress = {
+  completed: boolean;
+  attempts: number;
+  completed_at?: string;
+};
+
 export type UserProgress = {
   id: string;
   user_id: string;
@@ -47,28 +151,359 @@ export type UserProgress = {
   status: 'not_started' | 'in_progress' | 'completed';
   completion_percentage: number;
   time_spent_minutes: number;
+  time_spent_seconds: number;
   started_at: string;
   completed_at?: string;
   last_accessed_at: string;
+  step_progress?: Record<string, StepProgress>;
 };
 
+export type QuizAttempt = {
+  id: string;
+  user_id: string;
+  lesson_id: string;
+  course_id: string;
+  status: 'in_progress' | 'completed';
+  /** Questions in the order they were asked. */
+  question_ids: string[];
+  /** The question on screen, where the attempt resumes. */
+  current_question_id: string | null;
+  /** Average answer score from 0 to 1, set when the attempt finishes. */
+  score: number | null;
+  started_at: string;
+  finished_at: string | null;
+  updated_at: string;
+};
+
+/**
+ * A rule gating a lesson or a whole course (exactly one of `lesson_id` and
+ * `course_id`) behind a required lesson or course (exactly one of
+ * `required_lesson_id` and `required_course_id`).
+ */
+export type Prerequisite = {
+  id: string;
+  lesson_id: string | null;
+  course_id: string | null;
+  required_lesson_id: string | null;
+  required_course_id: string | null;
+  /** For a required quiz lesson, the counted attempt's minimum score from 0 to 1. */
+  min_score: number | null;
+  created_at: string;
+};
+
+/**
+ * A concept in the skills taxonomy. The `p_*` fields are its Bayesian
+ * Knowledge Tracing parameters, each a probability from 0 to 1.
+ */
+export type Skill = {
+  id: string;
+  name: string;
+  description: string;
+  /** The broader skill this one belongs to. */
+  parent_id: string | null;
+  p_init: number;
+  p_learn: number;
+  p_slip: number;
+  p_guess: number;
+  created_at: string;
+};
+
+/** A learner's estimated probability of having mastered a skill. */
+export type SkillMastery = {
+  id: string;
+  user_id: string;
+  skill_id: string;
+  p_mastery: number;
+  /** Number of answers the estimate is based on. */
+  evidence_count: number;
+  updated_at: string;
+};
+
+export type QuestionType =
+  | 'single_choice'
+  | 'multiple_select'
+  | 'true_false'
+  | 'numeric'
+  | 'short_text'
+  | 'ordering'
+  | 'matching';
+
+export type MatchingPair = {
+  prompt: string;
+  match: string;
+};
+
+/** Type-specific answer data; which fields apply depends on `question_type`. */
+export type AnswerKey = {
+  /** multiple_select: every option that must be chosen. */
+  correct_options?: string[];
+  /** numeric: the expected value and how far off an answer may be. */
+  value?: number;
+  tolerance?: number;
+  /** short_text: accepted answers; `/.../` entries are regular expressions. */
+  accepted?: string[];
+  case_sensitive?: boolean;
+  /** matching: each prompt with the item it belongs to. */
+  pairs?: MatchingPair[];
+};
+
+/**
+ * `options` holds the choices for single_choice, multiple_select and
+ * true_false, and the items in their correct order for ordering.
+ * `correct_answer` is the chosen option for single_choice and true_false.
+ */
 export type Assessment = {
   id: string;
   lesson_id: string;
   question: string;
+  question_type: QuestionType;
   options: string[];
   correct_answer: string;
+  answer_key: AnswerKey;
   explanation: string;
   difficulty: 'easy' | 'medium' | 'hard';
+  /** Skills the question tests. Empty means the lesson's skills. */
+  skill_ids?: string[];
   created_at: string;
 };
 
+/**
+ * An assessment as learners receive it: no answer, answer key or explanation,
+ * ordering items shuffled, and matching pairs split into prompts and
+ * shuffled choices.
+ */
+export type Question = Pick<
+  Assessment,
+  'id' | 'lesson_id' | 'question' | 'question_type' | 'options' | 'difficulty' | 'created_at'
+> & {
+  matching?: { prompts: string[]; choices: string[] } | null;
+};
+
 export type UserAssessment = {
   id: string;
   user_id: string;
   assessment_id: string;
   user_answer: string;
   is_correct: boolean;
+  /** Fraction of the answer that was right, from 0 to 1. */
+  score: number;
   attempted_at: string;
   time_taken_seconds: number;
+  /** The quiz attempt the answer was given in; null for reviews. */
+  attempt_id?: string | null;
+};
+
+export type LearningPathItem = {
+  lesson_id: string;
+  lesson_title: string;
+  score: number;
+  reason: string;
+};
+
+export type LearningPath = {
+  id: string;
+  user_id: string;
+  course_id: string;
+  recommended_order: LearningPathItem[];
+  priority_score: number;
+  reason: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Performance figures a skill level recommendation was based on. */
+export type CalibrationEvidence = {
+  /** Answers and average score per question difficulty. */
+  accuracy: Record<Assessment['difficulty'], { answered: number; score: number | null }>;
+  /** Median time spent on completed lessons divided by their `estimated_minutes`. */
+  pace: number | null;
+  /** Completed lessons per difficulty level. */
+  completed: Record<Profile['skill_level'], number>;
+};
+
+/** One change, or suggested change, to a learner's skill level. */
+export type SkillLevelCalibration = {
+  id: string;
+  user_id: string;
+  from_level: Profile['skill_level'];
+  to_level: Profile['skill_level'];
+  source: 'calibration' | 'manual';
+  status: 'pending' | 'applied' | 'dismissed';
+  reasons: string[];
+  evidence: CalibrationEvidence | null;
+  created_at: string;
+  resolved_at: string | null;
+};
+
+/** XP paid out once per completed lesson or correctly answered question. */
+export type XpEvent = {
+  id: string;
+  user_id: string;
+  source: 'lesson' | 'answer';
+  /** The lesson or question the XP was earned for. */
+  source_id: string;
+  points: number;
+  earned_at: string;
+};
+
+/** Days are UTC calendar dates (`YYYY-MM-DD`). */
+export type LearningStreak = {
+  id: string;
+  user_id: string;
+  /** Consecutive active days up to `last_active_on`, counting frozen days as kept. */
+  current_streak: number;
+  longest_streak: number;
+  last_active_on: string | null;
+  /** Missed days that can still be covered without breaking the streak. */
+  freezes_available: number;
+  freezes_used: number;
+  updated_at: string;
+};
+
+export type AchievementMetric =
+  | 'xp'
+  | 'lessons_completed'
+  | 'courses_completed'
+  | 'correct_answers'
+  | 'hard_correct_answers'
+  | 'longest_streak';
+
+export type AchievementIcon = 'award' | 'star' | 'flame' | 'trophy' | 'zap' | 'target' | 'book';
+
+/** A badge that unlocks once a learner's `metric` reaches `threshold`. */
+export type Achievement = {
+  id: string;
+  name: string;
+  description: string;
+  icon: AchievementIcon;
+  metric: AchievementMetric;
+  threshold: number;
+  created_at: string;
+};
+
+export type UserAchievement = {
+  id: string;
+  user_id: string;
+  achievement_id: string;
+  unlocked_at: string;
+};
+
+export type LearnerMetric = {
+  metric: AchievementMetric;
+  value: number;
+};
+
+export type ReviewState = {
+  id: string;
+  user_id: string;
+  assessment_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at?: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type VideoProgress = {
+  id: string;
+  user_id: string;
+  lesson_id: string;
+  position_seconds: number;
+  duration_seconds: number;
+  watched_segments: [number, number][];
+  updated_at: string;
+};
+
+/**
+ * A weekly target (`target` minutes or lessons) or a date to finish a course
+ * by (`course_id` and `deadline`, a `YYYY-MM-DD` date).
+ */
+export type LearningGoal = {
+  id: string;
+  user_id: string;
+  kind: 'weekly_minutes' | 'weekly_lessons' | 'course_deadline';
+  target: number | null;
+  course_id: string | null;
+  deadline: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Engaged learning time within the quarter hour starting at `starts_at`. */
+export type LearningTime = {
+  id: string;
+  user_id: string;
+  starts_at: string;
+  seconds: number;
+};
+
+/** An entry in the in-app notification center. */
+export type AppNotification = {
+  id: string;
+  user_id: string;
+  title: string;
+  body: string;
+  /** App path to open from the notification. */
+  link: string | null;
+  /** Only one notification per user is kept for each key. */
+  dedupe_key: string;
+  read_at: string | null;
+  created_at: string;
+};
+
+/** Issued once a learner meets a course's completion criteria. Name and title are as they were then. */
+export type Certificate = {
+  id: string;
+  user_id: string;
+  course_id: string;
+  /** 12 characters of Crockford base32, without the dashes it is shown with. */
+  code: string;
+  learner_name: string;
+  course_title: string;
+  completed_at: string;
+  issued_at: string;
+};
+
+/** What anyone checking a verification code is shown. */
+export type CertificateVerification = Pick<
+  Certificate,
+  'code' | 'learner_name' | 'course_title' | 'completed_at' | 'issued_at'
+>;
+
+/** One entry in the append-only learning activity log. */
+export type ActivityEvent = {
+  id: string;
+  user_id: string;
+  kind: 'lesson_opened' | 'progress_changed' | 'answer_submitted' | 'lesson_completed';
+  course_id: string;
+  lesson_id: string;
+  /** Answers only. */
+  assessment_id: string | null;
+  /** Engaged time added by a progress change. */
+  seconds: number;
+  completion_percentage: number | null;
+  /** The lesson's new status, on progress changes that moved it to one. */
+  status: UserProgress['status'] | null;
+  is_correct: boolean | null;
+  score: number | null;
+  occurred_at: string;
+  /** When the event was saved, which for synced offline learning is after later events. */
+  recorded_at: string;
+};
+
+/** Activity totals for one course on one local day, as returned by `daily_activity`. */
+export type DailyActivity = {
+  /** `YYYY-MM-DD` */
+  day: string;
+  course_id: string;
+  seconds: number;
+  lessons_opened: number;
+  answers: number;
+  correct_answers: number;
+  /** Sum of the answer scores; divide by `answers` for the average. */
+  score: number;
+  lessons_completed: number;
 };
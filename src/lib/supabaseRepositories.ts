@@ -0,0 +1,620 @@
+import { FunctionsHttpError, SupabaseClient } from '@supabase/supabase-js';
+import {
+  Profile,
+  Course,
+  Lesson,
+  LessonVariant,
+  VariantOutcome,
+  CourseSearchHit,
+  Assessment,
+  Question,
+  QuizAttempt,
+  Prerequisite,
+  Skill,
+  SkillMastery,
+  UserProgress,
+  UserAssessment,
+  ReviewState,
+  LearningPath,
+  SkillLevelCalibration,
+  VideoProgress,
+  XpEvent,
+  LearningStreak,
+  Achievement,
+  UserAchievement,
+  LearnerMetric,
+  LearningGoal,
+  LearningTime,
+  AppNotification,
+  Certificate,
+  CertificateVerification,
+  DailyActivity,
+  ActivityEvent,
+} from './supabase';
+import { BackendUnavailableError, Repositories } from './repositories';
+import { GradeResult, QuestionSolution } from './grading';
+import { LessonSummary } from './catalog';
+import { normalizeCertificateCode } from './certificates';
+
+type Result<T> = { data: T | null; error: { message: string } | null };
+
+const NOTIFICATION_LIMIT = 50;
+
+function unwrap<T>({ data, error }: Result<T>): T {
+  if (error) throw error;
+  return data as T;
+}
+
+function check({ error }: { error: { message: string } | null }) {
+  if (error) throw error;
+}
+
+/** Like `unwrap`, but a request that failed on the way or on the server can be retried. */
+function unwrapWrite<T>(result: Result<T> & { status: number }): T {
+  // postgrest-js reports a failed fetch with status 0.
+  if (result.error && (result.status === 0 || result.status >= 500)) {
+    throw new BackendUnavailableError(result.error.message);
+  }
+  return unwrap(result);
+}
+
+export function createSupabaseRepositories(client: SupabaseClient): Repositories {
+  return {
+    auth: {
+      async getUser() {
+        const { data } = await client.auth.getSession();
+        return data.session?.user ?? null;
+      },
+      onChange(listener) {
+        const { data: { subscription } } = client.auth.onAuthStateChange((_event, session) => {
+          listener(session?.user ?? null);
+        });
+        return () => subscription.unsubscribe();
+      },
+      async signUp(email, password) {
+        const { data, error } = await client.auth.signUp({ email, password });
+        if (error) throw error;
+        return data.user;
+      },
+      async signIn(email, password) {
+        const { error } = await client.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+      },
+      async signOut() {
+        await client.auth.signOut();
+      },
+    },
+
+    profiles: {
+      async get(id) {
+        return unwrap<Profile | null>(await client.from('profiles').select('*').eq('id', id).maybeSingle());
+      },
+      async create(profile) {
+        check(await client.from('profiles').insert(profile));
+      },
+      async update(id, changes) {
+        check(await client.from('profiles').update(changes).eq('id', id));
+      },
+    },
+
+    courses: {
+      async listPublished() {
+        return unwrap<Course[]>(
+          await client.from('courses').select('*').eq('is_published', true).order('created_at', { ascending: false })
+        );
+      },
+      async listEditable() {
+        return unwrap<Course[]>(await client.from('courses').select('*').order('updated_at', { ascending: false }));
+      },
+      async get(id) {
+        return unwrap<Course | null>(await client.from('courses').select('*').eq('id', id).maybeSingle());
+      },
+      async findByTitle(title) {
+        return unwrap<Pick<Course, 'id' | 'title'>[]>(
+          await client.from('courses').select('id, title').ilike('title', title.replace(/[%_\\]/g, '\\$&'))
+        );
+      },
+      async search(query) {
+        return unwrap<CourseSearchHit[]>(await client.rpc('search_courses', { p_query: query }));
+      },
+      async save({ id, ...fields }) {
+        const payload = { ...fields, updated_at: new Date().toISOString() };
+        return unwrap<Course>(
+          id
+            ? await client.from('courses').update(payload).eq('id', id).select().single()
+            : await client.from('courses').insert(payload).select().single()
+        );
+      },
+      async delete(ids) {
+        if (ids.length > 0) check(await client.from('courses').delete().in('id', ids));
+      },
+    },
+
+    lessons: {
+      async listByCourse(courseId) {
+        return unwrap<Lesson[]>(
+          await client.from('lessons').select('*').eq('course_id', courseId).order('order_index', { ascending: true })
+        );
+      },
+      async listByIds(ids) {
+        if (ids.length === 0) return [];
+        return unwrap<Lesson[]>(await client.from('lessons').select('*').in('id', ids));
+      },
+      async listSummaries(courseIds) {
+        if (courseIds.length === 0) return [];
+        return unwrap<LessonSummary[]>(
+          await client.from('lessons').select('id, course_id, content_type').in('course_id', courseIds)
+        );
+      },
+      async save({ id, ...fields }) {
+        return unwrap<Lesson>(
+          id
+            ? await client.from('lessons').update(fields).eq('id', id).select().single()
+            : await client.from('lessons').insert(fields).select().single()
+        );
+      },
+      async delete(id) {
+        check(await client.from('lessons').delete().eq('id', id));
+      },
+      async reorder(lessonIds) {
+        const results = await Promise.all(
+          lessonIds.map((id, index) => client.from('lessons').update({ order_index: index }).eq('id', id))
+        );
+        results.forEach(check);
+      },
+    },
+
+    assessments: {
+      async listByLessons(lessonIds) {
+        if (lessonIds.length === 0) return [];
+        return unwrap<Assessment[]>(
+          await client
+            .from('assessments')
+            .select('*')
+            .in('lesson_id', lessonIds)
+            .order('created_at', { ascending: true })
+        );
+      },
+      async listByIds(ids) {
+        if (ids.length === 0) return [];
+        return unwrap<Assessment[]>(await client.from('assessments').select('*').in('id', ids));
+      },
+      async save({ id, ...fields }) {
+        return unwrap<Assessment>(
+          id
+            ? await client.from('assessments').update(fields).eq('id', id).select().single()
+            : await client.from('assessments').insert(fields).select().single()
+        );
+      },
+      async insertMany(assessments) {
+        if (assessments.length > 0) check(await client.from('assessments').insert(assessments));
+      },
+      async delete(id) {
+        check(await client.from('assessments').delete().eq('id', id));
+      },
+    },
+
+    lessonVariants: {
+      async listByLessons(lessonIds) {
+        if (lessonIds.length === 0) return [];
+        return unwrap<LessonVariant[]>(await client.from('lesson_variants').select('*').in('lesson_id', lessonIds));
+      },
+      async save(variant) {
+        return unwrap<LessonVariant>(
+          await client
+            .from('lesson_variants')
+            .upsert({ ...variant, updated_at: new Date().toISOString() }, { onConflict: 'lesson_id,learning_style' })
+            .select()
+            .single()
+        );
+      },
+      async delete(id) {
+        check(await client.from('lesson_variants').delete().eq('id', id));
+      },
+      async recordView(view) {
+        check(await client.from('lesson_variant_views').upsert(view, { onConflict: 'user_id,lesson_id' }));
+      },
+      async outcomesByCourse(courseId) {
+        return unwrap<VariantOutcome[]>(await client.rpc('lesson_variant_outcomes', { p_course_id: courseId }));
+      },
+    },
+
+    prerequisites: {
+      async listByCourse(courseId) {
+        const lessons = unwrap<{ id: string }[]>(await client.from('lessons').select('id').eq('course_id', courseId));
+        const gated = [`course_id.eq.${courseId}`];
+        if (lessons.length > 0) gated.push(`lesson_id.in.(${lessons.map(l => l.id).join(',')})`);
+        return unwrap<Prerequisite[]>(
+          await client.from('prerequisites').select('*').or(gated.join(',')).order('created_at', { ascending: true })
+        );
+      },
+      async save({ id, ...fields }) {
+        return unwrap<Prerequisite>(
+          id
+            ? await client.from('prerequisites').update(fields).eq('id', id).select().single()
+            : await client.from('prerequisites').insert(fields).select().single()
+        );
+      },
+      async delete(id) {
+        check(await client.from('prerequisites').delete().eq('id', id));
+      },
+    },
+
+    skills: {
+      async list() {
+        return unwrap<Skill[]>(await client.from('skills').select('*').order('name', { ascending: true }));
+      },
+      async save({ id, ...fields }) {
+        return unwrap<Skill>(
+          id
+            ? await client.from('skills').update(fields).eq('id', id).select().single()
+            : await client.from('skills').insert(fields).select().single()
+        );
+      },
+      async delete(id) {
+        const [lessons, assessments] = await Promise.all([
+          client.from('lessons').select('id, skill_ids').contains('skill_ids', [id]),
+          client.from('assessments').select('id, skill_ids').contains('skill_ids', [id]),
+        ]);
+        type Tagged = { id: string; skill_ids: string[] };
+        const untag = (table: string, rows: Tagged[]) =>
+          rows.map(async row =>
+            check(await client.from(table).update({ skill_ids: row.skill_ids.filter(s => s !== id) }).eq('id', row.id))
+          );
+        await Promise.all([
+          ...untag('lessons', unwrap<Tagged[]>(lessons)),
+          ...untag('assessments', unwrap<Tagged[]>(assessments)),
+        ]);
+        check(await client.from('skills').delete().eq('id', id));
+      },
+    },
+
+    skillMastery: {
+      async listByUser(userId) {
+        return unwrap<SkillMastery[]>(await client.from('skill_mastery').select('*').eq('user_id', userId));
+      },
+    },
+
+    achievements: {
+      async list() {
+        return unwrap<Achievement[]>(
+          await client
+            .from('achievements')
+            .select('*')
+            .order('metric', { ascending: true })
+            .order('threshold', { ascending: true })
+        );
+      },
+      async save({ id, ...fields }) {
+        return unwrap<Achievement>(
+          id
+            ? await client.from('achievements').update(fields).eq('id', id).select().single()
+            : await client.from('achievements').insert(fields).select().single()
+        );
+      },
+      async delete(id) {
+        check(await client.from('achievements').delete().eq('id', id));
+      },
+    },
+
+    engagement: {
+      async listXp(userId) {
+        return unwrap<XpEvent[]>(
+          await client.from('xp_events').select('*').eq('user_id', userId).order('earned_at', { ascending: false })
+        );
+      },
+      async getStreak(userId) {
+        return unwrap<LearningStreak | null>(
+          await client.from('learning_streaks').select('*').eq('user_id', userId).maybeSingle()
+        );
+      },
+      async metrics(userId) {
+        return unwrap<LearnerMetric[]>(await client.rpc('learner_metrics', { p_user_id: userId }));
+      },
+      async listAchievements(userId) {
+        return unwrap<UserAchievement[]>(await client.from('user_achievements').select('*').eq('user_id', userId));
+      },
+    },
+
+    questions: {
+      async listByLessons(lessonIds) {
+        if (lessonIds.length === 0) return [];
+        return unwrap<Question[]>(await client.rpc('list_questions', { p_lesson_ids: lessonIds }));
+      },
+      async listByIds(ids) {
+        if (ids.length === 0) return [];
+        return unwrap<Question[]>(await client.rpc('list_questions', { p_ids: ids }));
+      },
+    },
+
+    progress: {
+      async listByUser(userId) {
+        return unwrap<UserProgress[]>(await client.from('user_progress').select('*').eq('user_id', userId));
+      },
+      async listByCourse(userId, courseId) {
+        return unwrap<UserProgress[]>(
+          await client.from('user_progress').select('*').eq('user_id', userId).eq('course_id', courseId)
+        );
+      },
+      async get(userId, lessonId) {
+        return unwrap<UserProgress | null>(
+          await client.from('user_progress').select('*').eq('user_id', userId).eq('lesson_id', lessonId).maybeSingle()
+        );
+      },
+      async record(update) {
+        unwrapWrite(
+          await client.rpc('record_progress', {
+            p_user_id: update.user_id,
+            p_lesson_id: update.lesson_id,
+            p_course_id: update.course_id,
+            p_status: update.status,
+            p_completion_percentage: update.completion_percentage,
+            p_time_delta_seconds: update.time_delta_seconds,
+            p_last_accessed_at: update.last_accessed_at,
+            p_completed_at: update.completed_at ?? null,
+            p_step_progress: update.step_progress ?? null,
+          })
+        );
+      },
+    },
+
+    answers: {
+      async submit(submission) {
+        return unwrapWrite<GradeResult>(
+          await client.rpc('grade_answer', {
+            p_assessment_id: submission.assessment_id,
+            p_answer: submission.answer,
+            p_time_taken_seconds: submission.time_taken_seconds,
+            p_attempt_id: submission.attempt_id ?? null,
+          })
+        );
+      },
+      async listByUser(userId, assessmentIds) {
+        if (assessmentIds?.length === 0) return [];
+        let query = client.from('user_assessments').select('*').eq('user_id', userId);
+        if (assessmentIds) query = query.in('assessment_id', assessmentIds);
+        return unwrap<UserAssessment[]>(await query.order('attempted_at', { ascending: true }));
+      },
+      async listByAttempt(attemptId) {
+        return unwrap<UserAssessment[]>(
+          await client
+            .from('user_assessments')
+            .select('*')
+            .eq('attempt_id', attemptId)
+            .order('attempted_at', { ascending: true })
+        );
+      },
+    },
+
+    quizAttempts: {
+      async listByLesson(userId, lessonId) {
+        return unwrap<QuizAttempt[]>(
+          await client
+            .from('quiz_attempts')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('lesson_id', lessonId)
+            .order('started_at', { ascending: true })
+        );
+      },
+      async start(lessonId) {
+        return unwrap<QuizAttempt>(await client.rpc('start_quiz_attempt', { p_lesson_id: lessonId }));
+      },
+      async advance(attemptId, questionId) {
+        check(await client.rpc('advance_quiz_attempt', { p_attempt_id: attemptId, p_question_id: questionId }));
+      },
+      async finish(attemptId) {
+        return unwrap<QuizAttempt>(await client.rpc('finish_quiz_attempt', { p_attempt_id: attemptId }));
+      },
+      async review(attemptId) {
+        return unwrap<QuestionSolution[]>(await client.rpc('review_quiz_attempt', { p_attempt_id: attemptId }));
+      },
+    },
+
+    reviewStates: {
+      async get(userId, assessmentId) {
+        return unwrap<ReviewState | null>(
+          await client
+            .from('review_states')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('assessment_id', assessmentId)
+            .maybeSingle()
+        );
+      },
+      async listDue(userId, now) {
+        return unwrap<ReviewState[]>(
+          await client
+            .from('review_states')
+            .select('*')
+            .eq('user_id', userId)
+            .lte('due_at', now)
+            .order('due_at', { ascending: true })
+        );
+      },
+      async countDue(userId, now) {
+        const { count, error } = await client
+          .from('review_states')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .lte('due_at', now);
+        if (error) throw error;
+        return count ?? 0;
+      },
+      async listByUser(userId) {
+        return unwrap<ReviewState[]>(await client.from('review_states').select('*').eq('user_id', userId));
+      },
+      async upsert(states, { ignoreDuplicates = false } = {}) {
+        if (states.length === 0) return;
+        check(
+          await client.from('review_states').upsert(
+            states.map(state => ({ ...state, updated_at: new Date().toISOString() })),
+            { onConflict: 'user_id,assessment_id', ignoreDuplicates }
+          )
+        );
+      },
+    },
+
+    learningPaths: {
+      async listByUser(userId) {
+        return unwrap<LearningPath[]>(
+          await client
+            .from('learning_paths')
+            .select('*')
+            .eq('user_id', userId)
+            .order('priority_score', { ascending: false })
+        );
+      },
+      async upsert(path) {
+        return unwrap<LearningPath>(
+          await client.from('learning_paths').upsert(path, { onConflict: 'user_id,course_id' }).select().single()
+        );
+      },
+    },
+
+    calibrations: {
+      async listByUser(userId) {
+        return unwrap<SkillLevelCalibration[]>(
+          await client
+            .from('skill_level_calibrations')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+        );
+      },
+      async insert(calibration) {
+        return unwrap<SkillLevelCalibration>(
+          await client.from('skill_level_calibrations').insert(calibration).select().single()
+        );
+      },
+      async resolve(id, status) {
+        check(
+          await client
+            .from('skill_level_calibrations')
+            .update({ status, resolved_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('status', 'pending')
+        );
+      },
+    },
+
+    videoProgress: {
+      async get(userId, lessonId) {
+        return unwrap<VideoProgress | null>(
+          await client.from('video_progress').select('*').eq('user_id', userId).eq('lesson_id', lessonId).maybeSingle()
+        );
+      },
+      async upsert(progress) {
+        check(await client.from('video_progress').upsert(progress, { onConflict: 'user_id,lesson_id' }));
+      },
+    },
+
+    goals: {
+      async listByUser(userId) {
+        return unwrap<LearningGoal[]>(
+          await client.from('learning_goals').select('*').eq('user_id', userId).order('created_at', { ascending: true })
+        );
+      },
+      async save({ id, ...fields }) {
+        const payload = { ...fields, updated_at: new Date().toISOString() };
+        return unwrap<LearningGoal>(
+          id
+            ? await client.from('learning_goals').update(payload).eq('id', id).select().single()
+            : await client.from('learning_goals').insert(payload).select().single()
+        );
+      },
+      async delete(id) {
+        check(await client.from('learning_goals').delete().eq('id', id));
+      },
+    },
+
+    learningTime: {
+      async listByUser(userId, since) {
+        return unwrap<LearningTime[]>(
+          await client.from('learning_time').select('*').eq('user_id', userId).gte('starts_at', since)
+        );
+      },
+    },
+
+    notifications: {
+      async listByUser(userId) {
+        return unwrap<AppNotification[]>(
+          await client
+            .from('notifications')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .limit(NOTIFICATION_LIMIT)
+        );
+      },
+      async create(notification) {
+        const rows = unwrap<AppNotification[]>(
+          await client
+            .from('notifications')
+            .upsert(notification, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true })
+            .select()
+        );
+        return rows[0] ?? null;
+      },
+      async markRead(ids) {
+        if (ids.length === 0) return;
+        check(
+          await client
+            .from('notifications')
+            .update({ read_at: new Date().toISOString() })
+            .in('id', ids)
+            .is('read_at', null)
+        );
+      },
+    },
+
+    certificates: {
+      async listByUser(userId) {
+        return unwrap<Certificate[]>(
+          await client.from('certificates').select('*').eq('user_id', userId).order('issued_at', { ascending: false })
+        );
+      },
+      async get(userId, courseId) {
+        return unwrap<Certificate | null>(
+          await client.from('certificates').select('*').eq('user_id', userId).eq('course_id', courseId).maybeSingle()
+        );
+      },
+      async verify(code) {
+        const rows = unwrap<CertificateVerification[]>(
+          await client.rpc('verify_certificate', { p_code: normalizeCertificateCode(code) })
+        );
+        return rows[0] ?? null;
+      },
+    },
+
+    activity: {
+      async recordLessonOpened(event) {
+        check(await client.from('activity_events').insert({ ...event, kind: 'lesson_opened' }));
+      },
+      async daily(userId, { from, to }, timeZone) {
+        return unwrap<DailyActivity[]>(
+          await client.rpc('daily_activity', { p_user_id: userId, p_from: from, p_to: to, p_time_zone: timeZone })
+        );
+      },
+      async listByUser(userId, since) {
+        let query = client.from('activity_events').select('*').eq('user_id', userId);
+        if (since) query = query.gt('recorded_at', since);
+        return unwrap<ActivityEvent[]>(await query.order('recorded_at').order('id'));
+      },
+    },
+
+    learningRecords: {
+      async send(statementIds) {
+        const { error } = await client.functions.invoke('xapi-statements', { body: { ids: statementIds } });
+        if (!error) return true;
+        const status = error instanceof FunctionsHttpError ? (error.context as Response).status : 0;
+        // 409 means the LRS already has a statement with this id. For a batch it
+        // is not clear which, so that counts as rejected and each is sent alone.
+        if (status === 409 && statementIds.length === 1) return true;
+        // An expired session, a timeout or rate limiting are worth trying again.
+        if (status >= 400 && status < 500 && ![401, 408, 429].includes(status)) return false;
+        throw error;
+      },
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import { VideoProgress } from './supabase';
+import { db } from './repositories';
+
+type Segment = [number, number];
+
+// Share of the video that must actually be played before the lesson completes.
+export const VIDEO_COMPLETION_THRESHOLD = 0.9;
+
+/** Adds a played range and merges anything that overlaps or touches it. */
+export function mergeSegments(segments: Segment[], added: Segment): Segment[] {
+  const sorted = [...segments, added]
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+
+  return sorted.reduce<Segment[]>((merged, [start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 0.5) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+    return merged;
+  }, []);
+}
+
+export function watchedFraction(segments: Segment[], duration: number) {
+  if (duration <= 0) return 0;
+  const watched = segments.reduce((sum, [start, end]) => sum + (end - start), 0);
+  return Math.min(1, watched / duration);
+}
+
+export async function loadVideoProgress(userId: string, lessonId: string) {
+  return db.videoProgress.get(userId, lessonId).catch(() => null);
+}
+
+export async function saveVideoProgress(
+  userId: string,
+  lessonId: string,
+  progress: Pick<VideoProgress, 'position_seconds' | 'duration_seconds' | 'watched_segments'>
+) {
+  try {
+    await db.videoProgress.upsert({
+      user_id: userId,
+      lesson_id: lessonId,
+      ...progress,
+      updated_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error saving video progress:', error);
+  }
+}
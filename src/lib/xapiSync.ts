@@ -0,0 +1,260 @@
+import { ActivityEvent, Profile } from './supabase';
+import { db, usingMemoryBackend } from './repositories';
+import { XapiStatement, StatementContext, buildStatements } from '../../supabase/functions/_shared/xapi';
+import { getAllRecords, putRecord, deleteRecord, getRecord } from './offlineStore';
+
+type QueuedStatement = {
+  key: string;
+  statement: XapiStatement;
+  queued_at: string;
+  /** Failed sends, which set how long to wait before the next. */
+  attempts: number;
+  /** Sends the LRS turned down as invalid. */
+  rejections: number;
+  /** Not sent again before this time. */
+  retry_at: string;
+};
+
+/** How far each learner's statements have been queued, by when their sources were saved. */
+type StatementCursor = {
+  user_id: string;
+  events_until: string | null;
+  certificates_until: string | null;
+  /** Events and certificates already queued that were saved within `LATE_SAVE_WINDOW_MS` of the above. */
+  recent_ids?: string[];
+};
+
+export type StatementSyncState = {
+  configured: boolean;
+  sending: boolean;
+  pending: number;
+  lastSentAt: string | null;
+  error: string | null;
+};
+
+// The backend sends the statements on, so only it needs the LRS credentials.
+const configured = import.meta.env.VITE_XAPI_ENABLED === 'true' && !usingMemoryBackend;
+
+const SYNC_INTERVAL_MS = 60_000;
+const BATCH_SIZE = 50;
+// Statements the LRS keeps rejecting are dropped after this many tries;
+// ones that fail for network or server errors are retried indefinitely.
+const MAX_REJECTIONS = 5;
+const MAX_BACKOFF_MS = 60 * 60_000;
+// Saving times come from the database clock when a row is inserted, so a
+// transaction that commits late can add a row older than ones already read.
+// Each collection reads this far back again and skips what it has queued.
+const LATE_SAVE_WINDOW_MS = 5 * 60_000;
+
+let state: StatementSyncState = {
+  configured,
+  sending: false,
+  pending: 0,
+  lastSentAt: null,
+  error: null,
+};
+const listeners = new Set<(state: StatementSyncState) => void>();
+let flushing: Promise<void> | null = null;
+
+function setState(changes: Partial<StatementSyncState>) {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener(state));
+}
+
+export function subscribeStatementSync(listener: (state: StatementSyncState) => void) {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function refreshPending() {
+  const entries = await getAllRecords<QueuedStatement>('xapi_outbox');
+  setState({ pending: entries.length });
+  return entries;
+}
+
+/** Waits 30 seconds after the first failure, doubling up to an hour. */
+const backoff = (attempts: number) => Math.min(30_000 * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+async function statementContext(profile: Profile, events: ActivityEvent[]): Promise<StatementContext> {
+  const courseIds = [...new Set(events.map(e => e.course_id))];
+  const lessonIds = [...new Set(events.map(e => e.lesson_id))];
+  const [courses, lessons] = await Promise.all([
+    Promise.all(courseIds.map(id => db.courses.get(id))),
+    lessonIds.length > 0 ? db.lessons.listByIds(lessonIds) : [],
+  ]);
+
+  const titles: Record<string, string> = {};
+  for (const item of [...courses, ...lessons]) {
+    if (item) titles[item.id] = item.title;
+  }
+  return { homePage: window.location.origin, learner: profile, titles };
+}
+
+const rewind = (until: string | null | undefined) =>
+  until ? new Date(new Date(until).getTime() - LATE_SAVE_WINDOW_MS).toISOString() : null;
+
+async function learnerStatements(profile: Profile, since: Omit<StatementCursor, 'user_id'> | null) {
+  const eventsFrom = rewind(since?.events_until);
+  const certificatesFrom = rewind(since?.certificates_until);
+  const [saved, certificates] = await Promise.all([
+    db.activity.listByUser(profile.id, eventsFrom),
+    db.certificates.listByUser(profile.id),
+  ]);
+  const issued = certificates.filter(c => !certificatesFrom || c.issued_at > certificatesFrom);
+
+  const queued = new Set(since?.recent_ids ?? []);
+  const events = saved.filter(e => !queued.has(e.id));
+  const newlyIssued = issued.filter(c => !queued.has(c.id));
+  const statements = buildStatements(events, newlyIssued, await statementContext(profile, events));
+  return { events: saved, certificates: issued, statements };
+}
+
+const latest = (values: string[], fallback: string | null) =>
+  values.reduce<string | null>((max, value) => (!max || value > max ? value : max), fallback);
+
+/** Ids of what was saved within the window before `until`, which the next collection reads again. */
+const recentIds = (items: { id: string; savedAt: string }[], until: string | null) => {
+  const from = rewind(until);
+  return from ? items.filter(item => item.savedAt > from).map(item => item.id) : [];
+};
+
+/**
+ * Queues statements for activity saved since the last time this ran for the
+ * learner. The first run queues everything they have done so far.
+ */
+export async function collectStatements(profile: Profile) {
+  if (!configured) return;
+
+  const cursor = await getRecord<StatementCursor>('xapi_cursors', profile.id);
+  const { events, certificates, statements } = await learnerStatements(profile, cursor ?? null);
+  const queuedAt = new Date().toISOString();
+
+  for (const statement of statements) {
+    await putRecord<QueuedStatement>('xapi_outbox', {
+      key: statement.id,
+      statement,
+      queued_at: queuedAt,
+      attempts: 0,
+      rejections: 0,
+      retry_at: queuedAt,
+    });
+  }
+  const eventsUntil = latest(events.map(e => e.recorded_at), cursor?.events_until ?? null);
+  const certificatesUntil = latest(certificates.map(c => c.issued_at), cursor?.certificates_until ?? null);
+  await putRecord<StatementCursor>('xapi_cursors', {
+    user_id: profile.id,
+    events_until: eventsUntil,
+    certificates_until: certificatesUntil,
+    recent_ids: [
+      ...recentIds(events.map(e => ({ id: e.id, savedAt: e.recorded_at })), eventsUntil),
+      ...recentIds(certificates.map(c => ({ id: c.id, savedAt: c.issued_at })), certificatesUntil),
+    ],
+  });
+  await refreshPending();
+}
+
+/** Puts a statement back in the queue after a failed send, or drops it once the LRS has rejected it too often. */
+async function markFailed(entry: QueuedStatement, rejected: boolean) {
+  const rejections = entry.rejections + (rejected ? 1 : 0);
+  if (rejections >= MAX_REJECTIONS) {
+    console.error('Dropping xAPI statement the LRS keeps rejecting:', entry.statement);
+    await deleteRecord('xapi_outbox', entry.key);
+    return;
+  }
+  const attempts = entry.attempts + 1;
+  await putRecord<QueuedStatement>('xapi_outbox', {
+    ...entry,
+    attempts,
+    rejections,
+    retry_at: new Date(Date.now() + backoff(attempts)).toISOString(),
+  });
+}
+
+/**
+ * Sends queued statements that are due, oldest first. A rejected batch is
+ * resent one statement at a time so one bad statement can't hold back the rest.
+ */
+export function flushStatements(): Promise<void> {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    const now = new Date().toISOString();
+    const due = (await refreshPending())
+      .filter(entry => entry.retry_at <= now)
+      .sort((a, b) => a.statement.timestamp.localeCompare(b.statement.timestamp));
+    if (!configured || due.length === 0 || !navigator.onLine) return;
+
+    setState({ sending: true, error: null });
+    const handled = new Set<string>();
+    const send = async (entries: QueuedStatement[]) => {
+      const stored = await db.learningRecords.send(entries.map(entry => entry.statement.id));
+      if (stored) {
+        await Promise.all(entries.map(entry => deleteRecord('xapi_outbox', entry.key)));
+        setState({ lastSentAt: new Date().toISOString() });
+      }
+      return stored;
+    };
+
+    try {
+      for (let i = 0; i < due.length; i += BATCH_SIZE) {
+        const batch = due.slice(i, i + BATCH_SIZE);
+        if (batch.length > 1 && (await send(batch))) {
+          batch.forEach(entry => handled.add(entry.key));
+          continue;
+        }
+        for (const entry of batch) {
+          if (!(await send([entry]))) await markFailed(entry, true);
+          handled.add(entry.key);
+        }
+      }
+    } catch (error) {
+      console.error('Error sending xAPI statements:', error);
+      setState({ error: (error as Error).message ?? 'Sending statements failed' });
+      for (const entry of due) {
+        if (!handled.has(entry.key)) await markFailed(entry, false);
+      }
+    }
+
+    await refreshPending();
+    setState({ sending: false });
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+}
+
+/** Queues and sends the learner's statements now, every minute and whenever the browser comes back online. */
+export function startStatementSync(profile: Profile) {
+  if (!configured) return () => {};
+
+  const sync = () =>
+    collectStatements(profile)
+      .then(flushStatements)
+      .catch(error => console.error('Error syncing xAPI statements:', error));
+
+  sync();
+  const timer = window.setInterval(sync, SYNC_INTERVAL_MS);
+  window.addEventListener('online', sync);
+
+  return () => {
+    window.clearInterval(timer);
+    window.removeEventListener('online', sync);
+  };
+}
+
+/** Downloads every statement for the learner's activity as a JSON array, whether or not an LRS is set up. */
+export async function downloadStatements(profile: Profile) {
+  const { statements } = await learnerStatements(profile, null);
+  const blob = new Blob([JSON.stringify(statements, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `xapi-statements-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+  return statements.length;
+}
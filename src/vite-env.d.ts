@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_DATA_BACKEND?: 'supabase' | 'memory';
+  /**
+   * `true` once the `xapi-statements` function is deployed with the Learning
+   * Record Store's endpoint and credentials; statements are only sent then.
+   */
+  readonly VITE_XAPI_ENABLED?: string;
+}
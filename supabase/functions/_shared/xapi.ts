@@ -0,0 +1,199 @@
+/**
+ * Builds xAPI statements from learning activity. Shared by the app, which
+ * exports them, and the `xapi-statements` function, which sends them to the
+ * LRS, so it only imports files both can load.
+ */
+import { paths } from '../../../src/lib/routes.ts';
+
+/** The fields of an `activity_events` row a statement is built from. */
+export type StatementEvent = {
+  id: string;
+  kind: 'lesson_opened' | 'progress_changed' | 'answer_submitted' | 'lesson_completed';
+  course_id: string;
+  lesson_id: string;
+  assessment_id: string | null;
+  seconds: number;
+  completion_percentage: number | null;
+  status: string | null;
+  is_correct: boolean | null;
+  score: number | null;
+  occurred_at: string;
+};
+
+/** The fields of a `certificates` row a statement is built from. */
+export type StatementCertificate = { id: string; course_id: string; course_title: string; completed_at: string };
+
+/** The xAPI version statements are written for and sent with. */
+export const XAPI_VERSION = '1.0.3';
+
+export type XapiVerb = 'attempted' | 'experienced' | 'answered' | 'completed' | 'passed';
+
+export const XAPI_VERBS: Record<XapiVerb, { id: string; display: { 'en-US': string } }> = {
+  attempted: { id: 'http://adlnet.gov/expapi/verbs/attempted', display: { 'en-US': 'attempted' } },
+  experienced: { id: 'http://adlnet.gov/expapi/verbs/experienced', display: { 'en-US': 'experienced' } },
+  answered: { id: 'http://adlnet.gov/expapi/verbs/answered', display: { 'en-US': 'answered' } },
+  completed: { id: 'http://adlnet.gov/expapi/verbs/completed', display: { 'en-US': 'completed' } },
+  passed: { id: 'http://adlnet.gov/expapi/verbs/passed', display: { 'en-US': 'passed' } },
+};
+
+const ACTIVITY_TYPES = {
+  course: 'http://adlnet.gov/expapi/activities/course',
+  lesson: 'http://adlnet.gov/expapi/activities/lesson',
+  question: 'http://adlnet.gov/expapi/activities/cmi.interaction',
+};
+
+const PROGRESS_EXTENSION = 'https://w3id.org/xapi/cmi5/result/extensions/progress';
+
+export type XapiActivity = {
+  objectType: 'Activity';
+  id: string;
+  definition: { type: string; name?: { 'en-US': string } };
+};
+
+export type XapiStatement = {
+  id: string;
+  actor: { objectType: 'Agent'; name: string; account: { homePage: string; name: string } };
+  verb: (typeof XAPI_VERBS)[XapiVerb];
+  object: XapiActivity;
+  result?: {
+    score?: { scaled: number };
+    success?: boolean;
+    completion?: boolean;
+    duration?: string;
+    extensions?: Record<string, unknown>;
+  };
+  context: {
+    platform: string;
+    contextActivities?: { parent?: XapiActivity[]; grouping?: XapiActivity[] };
+  };
+  timestamp: string;
+};
+
+export type StatementContext = {
+  /** The app's origin; activity IRIs are the pages learners see them on. */
+  homePage: string;
+  learner: { id: string; full_name: string };
+  /** Course and lesson titles by id, used as activity names where known. */
+  titles: Record<string, string>;
+};
+
+/** An ISO 8601 duration, as xAPI results expect. */
+export const isoDuration = (seconds: number) => `PT${Math.max(Math.round(seconds), 0)}S`;
+
+function activity(context: StatementContext, type: keyof typeof ACTIVITY_TYPES, path: string, id: string) {
+  const name = context.titles[id];
+  return {
+    objectType: 'Activity' as const,
+    id: `${context.homePage}${path}`,
+    definition: { type: ACTIVITY_TYPES[type], ...(name && { name: { 'en-US': name } }) },
+  };
+}
+
+const courseActivity = (context: StatementContext, courseId: string) =>
+  activity(context, 'course', paths.course(courseId), courseId);
+
+const lessonActivity = (context: StatementContext, courseId: string, lessonId: string) =>
+  activity(context, 'lesson', paths.lesson(courseId, lessonId), lessonId);
+
+function statement(
+  context: StatementContext,
+  id: string,
+  verb: XapiVerb,
+  object: XapiActivity,
+  timestamp: string,
+  extra: Pick<XapiStatement, 'result'> & { parents?: XapiActivity[]; grouping?: XapiActivity[] } = {}
+): XapiStatement {
+  const { result, parents, grouping } = extra;
+  return {
+    id,
+    actor: {
+      objectType: 'Agent',
+      name: context.learner.full_name,
+      account: { homePage: context.homePage, name: context.learner.id },
+    },
+    verb: XAPI_VERBS[verb],
+    object,
+    ...(result && { result }),
+    context: {
+      platform: 'AdaptLearn',
+      ...((parents || grouping) && { contextActivities: { parent: parents, grouping } }),
+    },
+    timestamp,
+  };
+}
+
+/**
+ * The statement for one activity event. Statements take the event's id, so
+ * sending one again never records it twice in the LRS. Progress only makes a
+ * statement when the lesson is started, since completing it has its own
+ * event and the saves in between would flood the LRS; null for the rest.
+ */
+export function eventStatement(event: StatementEvent, context: StatementContext): XapiStatement | null {
+  const course = courseActivity(context, event.course_id);
+  const lesson = lessonActivity(context, event.course_id, event.lesson_id);
+  const { id, occurred_at: timestamp } = event;
+
+  switch (event.kind) {
+    case 'lesson_opened':
+      return statement(context, id, 'attempted', lesson, timestamp, { parents: [course] });
+    case 'progress_changed':
+      if (event.status !== 'in_progress') return null;
+      return statement(context, id, 'experienced', lesson, timestamp, {
+        parents: [course],
+        result: {
+          ...(event.seconds > 0 && { duration: isoDuration(event.seconds) }),
+          ...(event.completion_percentage !== null && {
+            extensions: { [PROGRESS_EXTENSION]: event.completion_percentage },
+          }),
+        },
+      });
+    case 'answer_submitted': {
+      const questionId = event.assessment_id ?? '';
+      const question = activity(
+        context,
+        'question',
+        paths.question(event.course_id, event.lesson_id, questionId),
+        questionId
+      );
+      return statement(context, id, 'answered', question, timestamp, {
+        parents: [lesson],
+        grouping: [course],
+        result: {
+          ...(event.is_correct !== null && { success: event.is_correct }),
+          ...(event.score !== null && { score: { scaled: event.score } }),
+        },
+      });
+    }
+    case 'lesson_completed':
+      return statement(context, id, 'completed', lesson, timestamp, {
+        parents: [course],
+        result: {
+          completion: true,
+          ...(event.completion_percentage !== null && {
+            extensions: { [PROGRESS_EXTENSION]: event.completion_percentage },
+          }),
+        },
+      });
+  }
+}
+
+/** A certificate means the learner met the course's criteria, so it becomes a `passed` statement. */
+export function certificateStatement(certificate: StatementCertificate, context: StatementContext): XapiStatement {
+  const titles = { ...context.titles, [certificate.course_id]: certificate.course_title };
+  const course = courseActivity({ ...context, titles }, certificate.course_id);
+  return statement(context, certificate.id, 'passed', course, certificate.completed_at, {
+    result: { success: true, completion: true },
+  });
+}
+
+/** Statements for events and certificates, oldest first. */
+export function buildStatements(
+  events: StatementEvent[],
+  certificates: StatementCertificate[],
+  context: StatementContext
+): XapiStatement[] {
+  return [
+    ...events.flatMap(event => eventStatement(event, context) ?? []),
+    ...certificates.map(certificate => certificateStatement(certificate, context)),
+  ].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
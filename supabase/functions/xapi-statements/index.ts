@@ -0,0 +1,103 @@
+/**
+ * Sends a learner's xAPI statements to the organisation's Learning Record
+ * Store, so the LRS credentials stay on the server instead of in the app:
+ *
+ *   supabase secrets set XAPI_ENDPOINT=https://lrs.example.com/xapi XAPI_AUTH="Basic <key:secret in base64>"
+ *   supabase secrets set APP_URL=https://learn.example.com
+ *   supabase functions deploy xapi-statements
+ *
+ * and build the app with VITE_XAPI_ENABLED=true. The app only posts the ids
+ * of the statements to send, which are those of the learner's activity
+ * events and certificates; the statements are built here from those rows, so
+ * what reaches the LRS is what was saved. The LRS's status is returned as
+ * is, so the app can tell statements it turned down from ones to retry.
+ */
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { XAPI_VERSION, StatementCertificate, StatementEvent, buildStatements } from '../_shared/xapi.ts';
+
+const endpoint = (Deno.env.get('XAPI_ENDPOINT') ?? '').replace(/\/+$/, '');
+const authorization = Deno.env.get('XAPI_AUTH');
+const appUrl = (Deno.env.get('APP_URL') ?? '').replace(/\/+$/, '');
+
+// At most one batch from the app.
+const MAX_IDS = 50;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, apikey, x-client-info',
+};
+
+const reply = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async request => {
+  if (request.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS });
+  if (request.method !== 'POST') return reply(405, { error: 'Statements can only be posted' });
+  // Retried by the app, so statements wait until an LRS is set up.
+  if (!endpoint) return reply(503, { error: 'No Learning Record Store is configured' });
+
+  const client = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: request.headers.get('Authorization') ?? '' } },
+  });
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return reply(401, { error: 'Not signed in' });
+
+  const body = await request.json().catch(() => null);
+  const ids: unknown = body?.ids;
+  if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_IDS || ids.some(id => typeof id !== 'string')) {
+    return reply(400, { error: `Expected the ids of 1 to ${MAX_IDS} statements` });
+  }
+
+  // Row level security limits all of these to what the learner may read.
+  const [events, certificates, profile] = await Promise.all([
+    client.from('activity_events').select('*').eq('user_id', user.id).in('id', ids),
+    client.from('certificates').select('*').eq('user_id', user.id).in('id', ids),
+    client.from('profiles').select('id, full_name').eq('id', user.id).single(),
+  ]);
+  if (events.error || certificates.error || profile.error) {
+    return reply(500, { error: 'Could not load the activity to send' });
+  }
+  const found = new Set([...events.data, ...certificates.data].map(row => row.id));
+  if (ids.some(id => !found.has(id))) {
+    return reply(404, { error: 'Statements can only be sent for your own activity' });
+  }
+
+  const courseIds = [...new Set(events.data.map(e => e.course_id))];
+  const lessonIds = [...new Set(events.data.map(e => e.lesson_id))];
+  const [courses, lessons] = await Promise.all([
+    client.from('courses').select('id, title').in('id', courseIds),
+    client.from('lessons').select('id, title').in('id', lessonIds),
+  ]);
+  const titles: Record<string, string> = {};
+  for (const item of [...(courses.data ?? []), ...(lessons.data ?? [])]) titles[item.id] = item.title;
+
+  const statements = buildStatements(events.data as StatementEvent[], certificates.data as StatementCertificate[], {
+    homePage: appUrl || request.headers.get('Origin') || '',
+    learner: profile.data,
+    titles,
+  });
+  if (statements.length === 0) return reply(200, []);
+
+  try {
+    const response = await fetch(`${endpoint}/statements`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Experience-API-Version': XAPI_VERSION,
+        ...(authorization && { Authorization: authorization }),
+      },
+      body: JSON.stringify(statements),
+    });
+    return new Response(response.body, {
+      status: response.status,
+      headers: { ...CORS_HEADERS, 'Content-Type': response.headers.get('Content-Type') ?? 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error reaching the LRS:', error);
+    return reply(502, { error: 'The Learning Record Store could not be reached' });
+  }
+});
@@ -0,0 +1,61 @@
+/*
+  # Spaced Repetition Review Queue
+
+  ## Overview
+  Adds per-user scheduling state for every assessment a learner has answered, so
+  questions come back for review on an SM-2 schedule instead of being forgotten.
+
+  ## New Tables
+
+  ### `review_states`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `assessment_id` (uuid) - Foreign key to assessments
+  - `ease_factor` (numeric) - SM-2 ease, never below 1.3
+  - `interval_days` (integer) - Days until the next review
+  - `repetitions` (integer) - Consecutive successful reviews
+  - `lapses` (integer) - Times the learner forgot the answer
+  - `due_at` (timestamptz) - When the question is next due
+  - `last_reviewed_at` (timestamptz) - Last time the question was answered
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Security
+  - RLS enabled; learners can only read and write their own review state
+*/
+
+CREATE TABLE IF NOT EXISTS review_states (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  assessment_id uuid NOT NULL REFERENCES assessments(id) ON DELETE CASCADE,
+  ease_factor numeric(4, 2) NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+  interval_days integer NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+  repetitions integer NOT NULL DEFAULT 0,
+  lapses integer NOT NULL DEFAULT 0,
+  due_at timestamptz NOT NULL DEFAULT now(),
+  last_reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, assessment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_states_user_due ON review_states(user_id, due_at);
+CREATE INDEX IF NOT EXISTS idx_review_states_assessment_id ON review_states(assessment_id);
+
+ALTER TABLE review_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own review states"
+  ON review_states FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can insert own review states"
+  ON review_states FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can update own review states"
+  ON review_states FOR UPDATE
+  TO authenticated
+  USING (user_id = (select auth.uid()))
+  WITH CHECK (user_id = (select auth.uid()));
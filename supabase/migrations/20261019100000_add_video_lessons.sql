@@ -0,0 +1,62 @@
+/*
+  # Video Lessons
+
+  ## Overview
+  Gives video lessons a media source with optional captions and transcript, and
+  tracks per-user playback so learners resume where they left off and lessons
+  complete from the footage actually watched.
+
+  ## Changes to `lessons`
+  - `video_url` (text) - Video source for `content_type = 'video'`
+  - `caption_tracks` (jsonb) - Array of `{ src, srclang, label, kind }` text tracks
+  - `transcript` (text) - Optional full transcript (markdown supported)
+
+  ## New Tables
+
+  ### `video_progress`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `lesson_id` (uuid) - Foreign key to lessons
+  - `position_seconds` (numeric) - Last playback position
+  - `duration_seconds` (numeric) - Video duration reported by the player
+  - `watched_segments` (jsonb) - Merged `[start, end]` ranges actually played
+  - `updated_at` (timestamptz)
+
+  ## Security
+  - RLS enabled; learners can only read and write their own playback state
+*/
+
+ALTER TABLE lessons ADD COLUMN IF NOT EXISTS video_url text DEFAULT '';
+ALTER TABLE lessons ADD COLUMN IF NOT EXISTS caption_tracks jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE lessons ADD COLUMN IF NOT EXISTS transcript text DEFAULT '';
+
+CREATE TABLE IF NOT EXISTS video_progress (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  lesson_id uuid NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  position_seconds numeric NOT NULL DEFAULT 0,
+  duration_seconds numeric NOT NULL DEFAULT 0,
+  watched_segments jsonb NOT NULL DEFAULT '[]'::jsonb,
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, lesson_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_progress_lesson_id ON video_progress(lesson_id);
+
+ALTER TABLE video_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own video progress"
+  ON video_progress FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can insert own video progress"
+  ON video_progress FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can update own video progress"
+  ON video_progress FOR UPDATE
+  TO authenticated
+  USING (user_id = (select auth.uid()))
+  WITH CHECK (user_id = (select auth.uid()));
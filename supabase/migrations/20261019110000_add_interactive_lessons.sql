@@ -0,0 +1,22 @@
+/*
+  # Interactive Lessons
+
+  ## Overview
+  Interactive lessons are defined by a structured payload of exercise steps that
+  run entirely in the browser, and learners' per-step results are stored with
+  their lesson progress.
+
+  ## Changes to `lessons`
+  - `interactive_steps` (jsonb) - Ordered array of exercise steps. Each step has an
+    `id`, a `type` (`code`, `fill_blank` or `order`), a `title`, a `prompt` and
+    type-specific fields:
+    - `code`: `starter_code`, `function_name`, `tests` (`{ args, expected, description }`)
+    - `fill_blank`: `template` with `___` placeholders, `blanks` (accepted answers per blank)
+    - `order`: `items` in their correct order
+
+  ## Changes to `user_progress`
+  - `step_progress` (jsonb) - Map of step id to `{ completed, attempts, completed_at }`
+*/
+
+ALTER TABLE lessons ADD COLUMN IF NOT EXISTS interactive_steps jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE user_progress ADD COLUMN IF NOT EXISTS step_progress jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,135 @@
+/*
+  # Course Authoring
+
+  ## Overview
+  Introduces author roles so instructors can create and edit courses, lessons and
+  assessments from the app instead of raw SQL.
+
+  ## Changes to `profiles`
+  - `role` (text) - `learner` (default), `author` or `admin`
+
+  ## New Functions
+  - `is_author()` - True when the current user is an author or admin. Declared
+    SECURITY DEFINER so policies can read `profiles.role` without recursing
+    through the profiles RLS policies.
+  - `protect_profile_role()` - Trigger that stops anyone but an admin from
+    granting or changing a role, including on their own profile
+
+  ## Security
+  - Authors can view every course, lesson and assessment, including unpublished ones
+  - Authors can insert, update and delete courses, lessons and assessments
+  - Learner policies are unchanged
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'learner'
+  CHECK (role IN ('learner', 'author', 'admin'));
+
+CREATE OR REPLACE FUNCTION is_author()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = (select auth.uid())
+    AND role IN ('author', 'admin')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (select auth.uid()) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'learner';
+  ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only admins can change profile roles';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON profiles;
+CREATE TRIGGER protect_profile_role
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_role();
+
+-- Courses
+CREATE POLICY "Authors can view all courses"
+  ON courses FOR SELECT
+  TO authenticated
+  USING ((select is_author()));
+
+CREATE POLICY "Authors can insert courses"
+  ON courses FOR INSERT
+  TO authenticated
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can update courses"
+  ON courses FOR UPDATE
+  TO authenticated
+  USING ((select is_author()))
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can delete courses"
+  ON courses FOR DELETE
+  TO authenticated
+  USING ((select is_author()));
+
+-- Lessons
+CREATE POLICY "Authors can view all lessons"
+  ON lessons FOR SELECT
+  TO authenticated
+  USING ((select is_author()));
+
+CREATE POLICY "Authors can insert lessons"
+  ON lessons FOR INSERT
+  TO authenticated
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can update lessons"
+  ON lessons FOR UPDATE
+  TO authenticated
+  USING ((select is_author()))
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can delete lessons"
+  ON lessons FOR DELETE
+  TO authenticated
+  USING ((select is_author()));
+
+-- Assessments
+CREATE POLICY "Authors can view all assessments"
+  ON assessments FOR SELECT
+  TO authenticated
+  USING ((select is_author()));
+
+CREATE POLICY "Authors can insert assessments"
+  ON assessments FOR INSERT
+  TO authenticated
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can update assessments"
+  ON assessments FOR UPDATE
+  TO authenticated
+  USING ((select is_author()))
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can delete assessments"
+  ON assessments FOR DELETE
+  TO authenticated
+  USING ((select is_author()));
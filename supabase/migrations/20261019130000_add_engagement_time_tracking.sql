@@ -0,0 +1,92 @@
+/*
+  # Engagement Time Tracking
+
+  ## Overview
+  Lesson time is now measured by the client as engaged seconds (tab visible and
+  the learner not idle) and reported in small increments. Increments are added to
+  the stored total, so time from earlier visits, other tabs and other devices is
+  kept instead of being overwritten by the latest session.
+
+  ## Changes to `user_progress`
+  - `time_spent_seconds` (integer) - Accumulated engaged time. Existing minutes
+    are carried over. `time_spent_minutes` is kept in step with it for older readers.
+
+  ## New Functions
+  - `merge_step_progress(a, b)` - Per-step merge of two `step_progress` maps that
+    never un-completes a step or lowers its attempt count.
+  - `record_progress(...)` - Inserts or updates the caller's row for a lesson in a
+    single statement. The later `last_accessed_at` wins for the status, completed
+    lessons stay completed, the higher percentage is kept and the time delta is
+    added to the total. Runs as the caller, so row-level security still applies.
+*/
+
+ALTER TABLE user_progress ADD COLUMN IF NOT EXISTS time_spent_seconds integer NOT NULL DEFAULT 0;
+
+UPDATE user_progress
+SET time_spent_seconds = coalesce(time_spent_minutes, 0) * 60
+WHERE time_spent_seconds = 0 AND coalesce(time_spent_minutes, 0) > 0;
+
+CREATE OR REPLACE FUNCTION merge_step_progress(a jsonb, b jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    jsonb_object_agg(
+      key,
+      CASE
+        WHEN old.value IS NULL THEN new.value
+        WHEN new.value IS NULL THEN old.value
+        ELSE jsonb_strip_nulls(jsonb_build_object(
+          'completed', coalesce((old.value->>'completed')::boolean, false)
+            OR coalesce((new.value->>'completed')::boolean, false),
+          'attempts', greatest(coalesce((old.value->>'attempts')::integer, 0), coalesce((new.value->>'attempts')::integer, 0)),
+          'completed_at', coalesce(old.value->'completed_at', new.value->'completed_at')
+        ))
+      END
+    ),
+    '{}'::jsonb
+  )
+  FROM jsonb_each(coalesce(a, '{}'::jsonb)) AS old
+  FULL JOIN jsonb_each(coalesce(b, '{}'::jsonb)) AS new USING (key);
+$$;
+
+CREATE OR REPLACE FUNCTION record_progress(
+  p_user_id uuid,
+  p_lesson_id uuid,
+  p_course_id uuid,
+  p_status text,
+  p_completion_percentage integer,
+  p_time_delta_seconds integer,
+  p_last_accessed_at timestamptz,
+  p_completed_at timestamptz DEFAULT NULL,
+  p_step_progress jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  INSERT INTO user_progress AS p (
+    user_id, lesson_id, course_id, status, completion_percentage,
+    time_spent_seconds, time_spent_minutes, last_accessed_at, completed_at, step_progress
+  )
+  VALUES (
+    p_user_id, p_lesson_id, p_course_id, p_status, p_completion_percentage,
+    greatest(p_time_delta_seconds, 0), greatest(p_time_delta_seconds, 0) / 60,
+    p_last_accessed_at, p_completed_at, coalesce(p_step_progress, '{}'::jsonb)
+  )
+  ON CONFLICT (user_id, lesson_id) DO UPDATE SET
+    status = CASE
+      WHEN p.status = 'completed' OR excluded.status = 'completed' THEN 'completed'
+      WHEN excluded.last_accessed_at >= p.last_accessed_at THEN excluded.status
+      ELSE p.status
+    END,
+    completion_percentage = greatest(p.completion_percentage, excluded.completion_percentage),
+    time_spent_seconds = p.time_spent_seconds + excluded.time_spent_seconds,
+    time_spent_minutes = (p.time_spent_seconds + excluded.time_spent_seconds) / 60,
+    last_accessed_at = greatest(p.last_accessed_at, excluded.last_accessed_at),
+    completed_at = least(p.completed_at, excluded.completed_at),
+    step_progress = merge_step_progress(p.step_progress, excluded.step_progress);
+$$;
@@ -0,0 +1,32 @@
+/*
+  # Assessment Question Types
+
+  ## Overview
+  Assessments can now be multiple select, true/false, numeric, short text,
+  ordering or matching questions as well as single choice. Answers are scored
+  from 0 to 1 so types that allow it can award partial credit.
+
+  ## Changes to `assessments`
+  - `question_type` (text) - One of `single_choice`, `multiple_select`,
+    `true_false`, `numeric`, `short_text`, `ordering`, `matching`. Existing
+    questions are single choice.
+  - `answer_key` (jsonb) - Type-specific answer data:
+    - `multiple_select`: `correct_options`
+    - `numeric`: `value`, `tolerance`
+    - `short_text`: `accepted` (plain answers or `/regex/` patterns), `case_sensitive`
+    - `matching`: `pairs` (`{ prompt, match }`)
+  - `options` keeps the choices for choice questions and holds the items in
+    their correct order for ordering questions.
+
+  ## Changes to `user_assessments`
+  - `score` (real) - Fraction of the answer that was right. `is_correct` is true
+    only for a full score. Existing answers score 1 or 0.
+*/
+
+ALTER TABLE assessments ADD COLUMN IF NOT EXISTS question_type text NOT NULL DEFAULT 'single_choice'
+  CHECK (question_type IN ('single_choice', 'multiple_select', 'true_false', 'numeric', 'short_text', 'ordering', 'matching'));
+ALTER TABLE assessments ADD COLUMN IF NOT EXISTS answer_key jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE user_assessments ADD COLUMN IF NOT EXISTS score real CHECK (score >= 0 AND score <= 1);
+UPDATE user_assessments SET score = CASE WHEN is_correct THEN 1 ELSE 0 END WHERE score IS NULL;
+ALTER TABLE user_assessments ALTER COLUMN score SET NOT NULL;
@@ -0,0 +1,231 @@
+/*
+  # Server-Side Answer Grading
+
+  ## Overview
+  Learners could previously read `assessments` directly, which exposed correct
+  answers, explanations and the correct order of ordering questions, and they
+  wrote their own `user_assessments` rows including `is_correct`. Both now go
+  through functions so answers stay on the server until a question is answered
+  and results cannot be forged.
+
+  ## Security Changes
+  - `assessments`: the learner read policy is dropped. Authors keep full access
+    through their existing policies.
+  - `user_assessments`: the learner insert policy is dropped. Rows are written
+    only by `grade_answer`. Learners can still read their own results.
+
+  ## New Functions
+  - `list_questions(p_lesson_ids, p_ids)` - Questions from published courses
+    (or any course, for authors) without `correct_answer`, `answer_key` or
+    `explanation`. Ordering items are shuffled, and matching questions expose
+    their prompts and a shuffled list of choices in `matching`.
+  - `grade_answer(p_assessment_id, p_answer, p_time_taken_seconds, p_attempted_at)` -
+    Scores the answer from 0 to 1, records it for the caller and returns
+    `{ score, is_correct, explanation, solution }`, where `solution` holds the
+    question's `options`, `correct_answer` and `answer_key`. Scoring matches the
+    client's `gradeLocally`; short text patterns are evaluated as PostgreSQL
+    regular expressions.
+*/
+
+DROP POLICY IF EXISTS "Anyone can view assessments" ON assessments;
+DROP POLICY IF EXISTS "Users can insert own assessment results" ON user_assessments;
+
+CREATE OR REPLACE FUNCTION can_view_lesson(p_lesson_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_author() OR EXISTS (
+    SELECT 1 FROM lessons
+    JOIN courses ON courses.id = lessons.course_id
+    WHERE lessons.id = p_lesson_id
+    AND courses.is_published = true
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION list_questions(p_lesson_ids uuid[] DEFAULT NULL, p_ids uuid[] DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  lesson_id uuid,
+  question text,
+  question_type text,
+  options jsonb,
+  matching jsonb,
+  difficulty text,
+  created_at timestamptz
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.id,
+    a.lesson_id,
+    a.question,
+    a.question_type,
+    CASE WHEN a.question_type = 'ordering'
+      THEN (SELECT coalesce(jsonb_agg(item ORDER BY random()), '[]'::jsonb) FROM jsonb_array_elements(a.options) AS item)
+      ELSE a.options
+    END,
+    CASE WHEN a.question_type = 'matching'
+      THEN jsonb_build_object(
+        'prompts', (
+          SELECT coalesce(jsonb_agg(pair->'prompt' ORDER BY ordinality), '[]'::jsonb)
+          FROM jsonb_array_elements(coalesce(a.answer_key->'pairs', '[]'::jsonb)) WITH ORDINALITY AS pairs(pair, ordinality)
+        ),
+        'choices', (
+          SELECT coalesce(jsonb_agg(choice ORDER BY random()), '[]'::jsonb)
+          FROM (
+            SELECT DISTINCT pair->'match' AS choice
+            FROM jsonb_array_elements(coalesce(a.answer_key->'pairs', '[]'::jsonb)) AS pair
+          ) AS choices
+        )
+      )
+    END,
+    a.difficulty,
+    a.created_at
+  FROM assessments a
+  WHERE (p_lesson_ids IS NULL OR a.lesson_id = ANY (p_lesson_ids))
+  AND (p_ids IS NULL OR a.id = ANY (p_ids))
+  AND can_view_lesson(a.lesson_id)
+  ORDER BY a.created_at;
+$$;
+
+CREATE OR REPLACE FUNCTION grade_answer(
+  p_assessment_id uuid,
+  p_answer jsonb,
+  p_time_taken_seconds integer DEFAULT 0,
+  p_attempted_at timestamptz DEFAULT now()
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := (select auth.uid());
+  a assessments%ROWTYPE;
+  v_score numeric := 0;
+  v_text text := CASE WHEN jsonb_typeof(p_answer) = 'string' THEN p_answer #>> '{}' END;
+  v_case_sensitive boolean;
+  v_hits integer;
+  v_count integer;
+  v_pattern text;
+  v_positions integer[];
+  v_lengths integer[];
+  v_longest integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO a FROM assessments WHERE assessments.id = p_assessment_id;
+  IF NOT FOUND OR NOT can_view_lesson(a.lesson_id) THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+  v_case_sensitive := coalesce((a.answer_key->>'case_sensitive')::boolean, false);
+
+  IF a.question_type IN ('single_choice', 'true_false') THEN
+    v_score := CASE WHEN v_text = a.correct_answer THEN 1 ELSE 0 END;
+
+  ELSIF a.question_type = 'multiple_select' AND jsonb_typeof(p_answer) = 'array' THEN
+    -- Each wrong choice cancels out a right one.
+    SELECT
+      count(*) FILTER (WHERE coalesce(a.answer_key->'correct_options', '[]'::jsonb) ? chosen),
+      count(*)
+    INTO v_hits, v_count
+    FROM (SELECT DISTINCT jsonb_array_elements_text(p_answer) AS chosen) AS choices;
+    v_count := v_count - v_hits;
+    v_score := CASE
+      WHEN jsonb_array_length(coalesce(a.answer_key->'correct_options', '[]'::jsonb)) = 0 THEN 0
+      ELSE (v_hits - v_count)::numeric / jsonb_array_length(a.answer_key->'correct_options')
+    END;
+
+  ELSIF a.question_type = 'numeric' THEN
+    IF v_text ~ '^\s*-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$' AND a.answer_key ? 'value' THEN
+      v_score := CASE
+        WHEN abs(trim(v_text)::numeric - (a.answer_key->>'value')::numeric)
+          <= coalesce((a.answer_key->>'tolerance')::numeric, 0) THEN 1
+        ELSE 0
+      END;
+    END IF;
+
+  ELSIF a.question_type = 'short_text' AND v_text IS NOT NULL THEN
+    FOR v_pattern IN SELECT jsonb_array_elements_text(coalesce(a.answer_key->'accepted', '[]'::jsonb)) LOOP
+      v_pattern := trim(v_pattern);
+      IF v_pattern ~ '^/.+/[a-z]*$' THEN
+        BEGIN
+          IF v_case_sensitive AND substring(v_pattern from '/([a-z]*)$') NOT LIKE '%i%' THEN
+            IF trim(v_text) ~ ('^(?:' || substring(v_pattern from '^/(.+)/[a-z]*$') || ')$') THEN v_score := 1; END IF;
+          ELSE
+            IF trim(v_text) ~* ('^(?:' || substring(v_pattern from '^/(.+)/[a-z]*$') || ')$') THEN v_score := 1; END IF;
+          END IF;
+        EXCEPTION WHEN invalid_regular_expression THEN
+          NULL;
+        END;
+      ELSIF v_case_sensitive THEN
+        IF regexp_replace(trim(v_text), '\s+', ' ', 'g') = regexp_replace(v_pattern, '\s+', ' ', 'g') THEN v_score := 1; END IF;
+      ELSE
+        IF lower(regexp_replace(trim(v_text), '\s+', ' ', 'g')) = lower(regexp_replace(v_pattern, '\s+', ' ', 'g')) THEN v_score := 1; END IF;
+      END IF;
+      EXIT WHEN v_score = 1;
+    END LOOP;
+
+  ELSIF a.question_type = 'ordering' AND jsonb_typeof(p_answer) = 'array' THEN
+    -- Credit the longest run of items already in the right relative order.
+    SELECT array_agg(correct.ord ORDER BY submitted.ord)
+    INTO v_positions
+    FROM jsonb_array_elements_text(p_answer) WITH ORDINALITY AS submitted(item, ord)
+    JOIN jsonb_array_elements_text(a.options) WITH ORDINALITY AS correct(item, ord)
+      ON correct.item = submitted.item;
+    v_count := coalesce(array_length(v_positions, 1), 0);
+    FOR i IN 1..v_count LOOP
+      v_lengths[i] := 1;
+      FOR j IN 1..i - 1 LOOP
+        IF v_positions[j] < v_positions[i] AND v_lengths[j] + 1 > v_lengths[i] THEN
+          v_lengths[i] := v_lengths[j] + 1;
+        END IF;
+      END LOOP;
+      v_longest := greatest(v_longest, v_lengths[i]);
+    END LOOP;
+    v_score := CASE
+      WHEN jsonb_array_length(a.options) = 0 THEN 0
+      ELSE v_longest::numeric / jsonb_array_length(a.options)
+    END;
+
+  ELSIF a.question_type = 'matching' AND jsonb_typeof(p_answer) = 'object' THEN
+    SELECT count(*) FILTER (WHERE p_answer->>(pair->>'prompt') = pair->>'match'), count(*)
+    INTO v_hits, v_count
+    FROM jsonb_array_elements(coalesce(a.answer_key->'pairs', '[]'::jsonb)) AS pair;
+    v_score := CASE WHEN v_count = 0 THEN 0 ELSE v_hits::numeric / v_count END;
+  END IF;
+
+  v_score := round(least(1, greatest(0, v_score)), 2);
+
+  INSERT INTO user_assessments (
+    user_id, assessment_id, user_answer, is_correct, score, attempted_at, time_taken_seconds
+  )
+  VALUES (
+    v_user_id,
+    a.id,
+    coalesce(v_text, p_answer::text),
+    v_score = 1,
+    v_score,
+    least(coalesce(p_attempted_at, now()), now()),
+    greatest(coalesce(p_time_taken_seconds, 0), 0)
+  );
+
+  RETURN jsonb_build_object(
+    'score', v_score,
+    'is_correct', v_score = 1,
+    'explanation', a.explanation,
+    'solution', jsonb_build_object(
+      'options', a.options,
+      'correct_answer', a.correct_answer,
+      'answer_key', a.answer_key
+    )
+  );
+END;
+$$;
@@ -0,0 +1,326 @@
+/*
+  # Quiz Attempts
+
+  ## Overview
+  Each run through a quiz lesson is now an attempt with its own start and finish
+  times, the questions in the order they were asked, a resume point and a
+  score. Answers are grouped under their attempt, so a learner who closes a quiz
+  picks up where they left off, and authors can limit retakes.
+
+  ## Changes to `lessons`
+  - `max_attempts` (integer, nullable) - How many attempts a learner may finish.
+    Null means unlimited.
+  - `attempt_scoring` (text) - Which finished attempt counts for the lesson:
+    `best` (default) or `latest`.
+
+  ## New Tables
+
+  ### `quiz_attempts`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `lesson_id` (uuid) - Foreign key to lessons
+  - `course_id` (uuid) - Foreign key to courses
+  - `status` (text) - `in_progress` or `completed`. A learner has at most one
+    attempt in progress per lesson.
+  - `question_ids` (uuid[]) - Questions in the order they were asked
+  - `current_question_id` (uuid, nullable) - The question on screen, where the
+    attempt resumes
+  - `score` (real, nullable) - Average answer score, set when the attempt finishes
+  - `started_at`, `finished_at`, `updated_at` (timestamptz)
+
+  ## Changes to `user_assessments`
+  - `attempt_id` (uuid, nullable) - The attempt the answer was given in. Review
+    answers have none.
+
+  ## Functions
+  - `start_quiz_attempt(p_lesson_id)` - Returns the caller's attempt in
+    progress, or starts a new one if they have attempts left.
+  - `advance_quiz_attempt(p_attempt_id, p_question_id)` - Records the question
+    being shown.
+  - `finish_quiz_attempt(p_attempt_id)` - Scores and closes the attempt.
+  - `grade_answer` gains `p_attempt_id` and files the answer under it.
+
+  ## Security
+  - RLS enabled; learners can read their own attempts. All writes go through
+    the functions above so scores and attempt limits cannot be bypassed.
+*/
+
+ALTER TABLE lessons ADD COLUMN IF NOT EXISTS max_attempts integer CHECK (max_attempts > 0);
+ALTER TABLE lessons ADD COLUMN IF NOT EXISTS attempt_scoring text NOT NULL DEFAULT 'best'
+  CHECK (attempt_scoring IN ('best', 'latest'));
+
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  lesson_id uuid NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  question_ids uuid[] NOT NULL DEFAULT '{}',
+  current_question_id uuid,
+  score real CHECK (score >= 0 AND score <= 1),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user_lesson ON quiz_attempts(user_id, lesson_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_lesson_id ON quiz_attempts(lesson_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_course_id ON quiz_attempts(course_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quiz_attempts_one_in_progress
+  ON quiz_attempts(user_id, lesson_id) WHERE status = 'in_progress';
+
+ALTER TABLE quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own quiz attempts"
+  ON quiz_attempts FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+ALTER TABLE user_assessments ADD COLUMN IF NOT EXISTS attempt_id uuid REFERENCES quiz_attempts(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_user_assessments_attempt_id ON user_assessments(attempt_id);
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_lesson_id uuid)
+RETURNS quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := (select auth.uid());
+  v_lesson lessons%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_lesson FROM lessons WHERE lessons.id = p_lesson_id;
+  IF NOT FOUND OR NOT can_view_lesson(p_lesson_id) THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  SELECT * INTO v_attempt FROM quiz_attempts
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND status = 'in_progress';
+  IF FOUND THEN
+    RETURN v_attempt;
+  END IF;
+
+  IF v_lesson.max_attempts IS NOT NULL AND (
+    SELECT count(*) FROM quiz_attempts
+    WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND status = 'completed'
+  ) >= v_lesson.max_attempts THEN
+    RAISE EXCEPTION 'No attempts left';
+  END IF;
+
+  INSERT INTO quiz_attempts (user_id, lesson_id, course_id)
+  VALUES (v_user_id, p_lesson_id, v_lesson.course_id)
+  RETURNING * INTO v_attempt;
+  RETURN v_attempt;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION advance_quiz_attempt(p_attempt_id uuid, p_question_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE quiz_attempts SET
+    question_ids = CASE
+      WHEN p_question_id = ANY (question_ids) THEN question_ids
+      ELSE array_append(question_ids, p_question_id)
+    END,
+    current_question_id = p_question_id,
+    updated_at = now()
+  WHERE id = p_attempt_id
+  AND user_id = (select auth.uid())
+  AND status = 'in_progress'
+  AND EXISTS (
+    SELECT 1 FROM assessments
+    WHERE assessments.id = p_question_id
+    AND assessments.lesson_id = quiz_attempts.lesson_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION finish_quiz_attempt(p_attempt_id uuid)
+RETURNS quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  -- Only the latest answer to each question counts.
+  UPDATE quiz_attempts SET
+    status = 'completed',
+    score = (
+      SELECT coalesce(avg(latest.score), 0)
+      FROM (
+        SELECT DISTINCT ON (assessment_id) score
+        FROM user_assessments
+        WHERE attempt_id = p_attempt_id
+        ORDER BY assessment_id, attempted_at DESC
+      ) AS latest
+    ),
+    current_question_id = NULL,
+    finished_at = now(),
+    updated_at = now()
+  WHERE id = p_attempt_id
+  AND user_id = (select auth.uid())
+  AND status = 'in_progress';
+
+  SELECT * INTO v_attempt FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = (select auth.uid());
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found';
+  END IF;
+  RETURN v_attempt;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS grade_answer(uuid, jsonb, integer, timestamptz);
+
+CREATE OR REPLACE FUNCTION grade_answer(
+  p_assessment_id uuid,
+  p_answer jsonb,
+  p_time_taken_seconds integer DEFAULT 0,
+  p_attempted_at timestamptz DEFAULT now(),
+  p_attempt_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := (select auth.uid());
+  a assessments%ROWTYPE;
+  v_score numeric := 0;
+  v_text text := CASE WHEN jsonb_typeof(p_answer) = 'string' THEN p_answer #>> '{}' END;
+  v_case_sensitive boolean;
+  v_hits integer;
+  v_count integer;
+  v_pattern text;
+  v_positions integer[];
+  v_lengths integer[];
+  v_longest integer := 0;
+  v_attempt_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO a FROM assessments WHERE assessments.id = p_assessment_id;
+  IF NOT FOUND OR NOT can_view_lesson(a.lesson_id) THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+  v_case_sensitive := coalesce((a.answer_key->>'case_sensitive')::boolean, false);
+
+  -- Answers only join the caller's own attempt at this question's lesson.
+  SELECT id INTO v_attempt_id FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = v_user_id AND lesson_id = a.lesson_id;
+
+  IF a.question_type IN ('single_choice', 'true_false') THEN
+    v_score := CASE WHEN v_text = a.correct_answer THEN 1 ELSE 0 END;
+
+  ELSIF a.question_type = 'multiple_select' AND jsonb_typeof(p_answer) = 'array' THEN
+    -- Each wrong choice cancels out a right one.
+    SELECT
+      count(*) FILTER (WHERE coalesce(a.answer_key->'correct_options', '[]'::jsonb) ? chosen),
+      count(*)
+    INTO v_hits, v_count
+    FROM (SELECT DISTINCT jsonb_array_elements_text(p_answer) AS chosen) AS choices;
+    v_count := v_count - v_hits;
+    v_score := CASE
+      WHEN jsonb_array_length(coalesce(a.answer_key->'correct_options', '[]'::jsonb)) = 0 THEN 0
+      ELSE (v_hits - v_count)::numeric / jsonb_array_length(a.answer_key->'correct_options')
+    END;
+
+  ELSIF a.question_type = 'numeric' THEN
+    IF v_text ~ '^\s*-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$' AND a.answer_key ? 'value' THEN
+      v_score := CASE
+        WHEN abs(trim(v_text)::numeric - (a.answer_key->>'value')::numeric)
+          <= coalesce((a.answer_key->>'tolerance')::numeric, 0) THEN 1
+        ELSE 0
+      END;
+    END IF;
+
+  ELSIF a.question_type = 'short_text' AND v_text IS NOT NULL THEN
+    FOR v_pattern IN SELECT jsonb_array_elements_text(coalesce(a.answer_key->'accepted', '[]'::jsonb)) LOOP
+      v_pattern := trim(v_pattern);
+      IF v_pattern ~ '^/.+/[a-z]*$' THEN
+        BEGIN
+          IF v_case_sensitive AND substring(v_pattern from '/([a-z]*)$') NOT LIKE '%i%' THEN
+            IF trim(v_text) ~ ('^(?:' || substring(v_pattern from '^/(.+)/[a-z]*$') || ')$') THEN v_score := 1; END IF;
+          ELSE
+            IF trim(v_text) ~* ('^(?:' || substring(v_pattern from '^/(.+)/[a-z]*$') || ')$') THEN v_score := 1; END IF;
+          END IF;
+        EXCEPTION WHEN invalid_regular_expression THEN
+          NULL;
+        END;
+      ELSIF v_case_sensitive THEN
+        IF regexp_replace(trim(v_text), '\s+', ' ', 'g') = regexp_replace(v_pattern, '\s+', ' ', 'g') THEN v_score := 1; END IF;
+      ELSE
+        IF lower(regexp_replace(trim(v_text), '\s+', ' ', 'g')) = lower(regexp_replace(v_pattern, '\s+', ' ', 'g')) THEN v_score := 1; END IF;
+      END IF;
+      EXIT WHEN v_score = 1;
+    END LOOP;
+
+  ELSIF a.question_type = 'ordering' AND jsonb_typeof(p_answer) = 'array' THEN
+    -- Credit the longest run of items already in the right relative order.
+    SELECT array_agg(correct.ord ORDER BY submitted.ord)
+    INTO v_positions
+    FROM jsonb_array_elements_text(p_answer) WITH ORDINALITY AS submitted(item, ord)
+    JOIN jsonb_array_elements_text(a.options) WITH ORDINALITY AS correct(item, ord)
+      ON correct.item = submitted.item;
+    v_count := coalesce(array_length(v_positions, 1), 0);
+    FOR i IN 1..v_count LOOP
+      v_lengths[i] := 1;
+      FOR j IN 1..i - 1 LOOP
+        IF v_positions[j] < v_positions[i] AND v_lengths[j] + 1 > v_lengths[i] THEN
+          v_lengths[i] := v_lengths[j] + 1;
+        END IF;
+      END LOOP;
+      v_longest := greatest(v_longest, v_lengths[i]);
+    END LOOP;
+    v_score := CASE
+      WHEN jsonb_array_length(a.options) = 0 THEN 0
+      ELSE v_longest::numeric / jsonb_array_length(a.options)
+    END;
+
+  ELSIF a.question_type = 'matching' AND jsonb_typeof(p_answer) = 'object' THEN
+    SELECT count(*) FILTER (WHERE p_answer->>(pair->>'prompt') = pair->>'match'), count(*)
+    INTO v_hits, v_count
+    FROM jsonb_array_elements(coalesce(a.answer_key->'pairs', '[]'::jsonb)) AS pair;
+    v_score := CASE WHEN v_count = 0 THEN 0 ELSE v_hits::numeric / v_count END;
+  END IF;
+
+  v_score := round(least(1, greatest(0, v_score)), 2);
+
+  INSERT INTO user_assessments (
+    user_id, assessment_id, attempt_id, user_answer, is_correct, score, attempted_at, time_taken_seconds
+  )
+  VALUES (
+    v_user_id,
+    a.id,
+    v_attempt_id,
+    coalesce(v_text, p_answer::text),
+    v_score = 1,
+    v_score,
+    least(coalesce(p_attempted_at, now()), now()),
+    greatest(coalesce(p_time_taken_seconds, 0), 0)
+  );
+
+  RETURN jsonb_build_object(
+    'score', v_score,
+    'is_correct', v_score = 1,
+    'explanation', a.explanation,
+    'solution', jsonb_build_object(
+      'options', a.options,
+      'correct_answer', a.correct_answer,
+      'answer_key', a.answer_key
+    )
+  );
+END;
+$$;
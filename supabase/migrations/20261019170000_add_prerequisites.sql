@@ -0,0 +1,169 @@
+/*
+  # Prerequisites and Gated Progression
+
+  ## Overview
+  Lessons and courses can require other lessons or courses first, so
+  certification tracks can enforce an order. A gated item stays locked until
+  every one of its rules is met. Rules on a course gate all of its lessons.
+
+  ## New Tables
+
+  ### `prerequisites`
+  - `id` (uuid, primary key)
+  - `lesson_id` / `course_id` (uuid) - The gated lesson or course; exactly one is set
+  - `required_lesson_id` / `required_course_id` (uuid) - What must be done
+    first; exactly one is set
+  - `min_score` (real, nullable) - For a required quiz lesson, the score (0-1)
+    the counted attempt must reach. Without it the lesson only has to be
+    completed. A required course is met when all of its lessons are completed.
+  - `created_at` (timestamptz)
+
+  ## New Functions
+  - `prerequisite_met(p_user_id, p_rule)` - Whether a user satisfies one rule.
+    Quiz scores follow the lesson's `attempt_scoring`.
+  - `lesson_unlocked(p_user_id, p_lesson_id)` - True when every rule on the
+    lesson and its course is met. Authors are never locked out.
+  - `enforce_prerequisites()` - Trigger that rejects starting or completing a
+    locked lesson in `user_progress`, and starting a quiz attempt on one.
+
+  ## Security
+  - RLS enabled; signed-in users can read rules so locked items can explain
+    themselves. Only authors can write them.
+*/
+
+CREATE TABLE IF NOT EXISTS prerequisites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id uuid REFERENCES lessons(id) ON DELETE CASCADE,
+  course_id uuid REFERENCES courses(id) ON DELETE CASCADE,
+  required_lesson_id uuid REFERENCES lessons(id) ON DELETE CASCADE,
+  required_course_id uuid REFERENCES courses(id) ON DELETE CASCADE,
+  min_score real CHECK (min_score > 0 AND min_score <= 1),
+  created_at timestamptz DEFAULT now(),
+  CHECK (num_nonnulls(lesson_id, course_id) = 1),
+  CHECK (num_nonnulls(required_lesson_id, required_course_id) = 1),
+  CHECK (min_score IS NULL OR required_lesson_id IS NOT NULL),
+  CHECK (lesson_id IS DISTINCT FROM required_lesson_id AND course_id IS DISTINCT FROM required_course_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prerequisites_lesson_id ON prerequisites(lesson_id);
+CREATE INDEX IF NOT EXISTS idx_prerequisites_course_id ON prerequisites(course_id);
+CREATE INDEX IF NOT EXISTS idx_prerequisites_required_lesson_id ON prerequisites(required_lesson_id);
+CREATE INDEX IF NOT EXISTS idx_prerequisites_required_course_id ON prerequisites(required_course_id);
+
+ALTER TABLE prerequisites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view prerequisites"
+  ON prerequisites FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authors can insert prerequisites"
+  ON prerequisites FOR INSERT
+  TO authenticated
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can update prerequisites"
+  ON prerequisites FOR UPDATE
+  TO authenticated
+  USING ((select is_author()))
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can delete prerequisites"
+  ON prerequisites FOR DELETE
+  TO authenticated
+  USING ((select is_author()));
+
+CREATE OR REPLACE FUNCTION prerequisite_met(p_user_id uuid, p_rule prerequisites)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_rule.required_course_id IS NOT NULL THEN
+      EXISTS (SELECT 1 FROM lessons WHERE course_id = p_rule.required_course_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM lessons
+        WHERE lessons.course_id = p_rule.required_course_id
+        AND NOT EXISTS (
+          SELECT 1 FROM user_progress
+          WHERE user_progress.user_id = p_user_id
+          AND user_progress.lesson_id = lessons.id
+          AND user_progress.status = 'completed'
+        )
+      )
+    WHEN p_rule.min_score IS NULL THEN
+      EXISTS (
+        SELECT 1 FROM user_progress
+        WHERE user_id = p_user_id
+        AND lesson_id = p_rule.required_lesson_id
+        AND status = 'completed'
+      )
+    ELSE coalesce((
+      SELECT CASE WHEN lessons.attempt_scoring = 'latest'
+        THEN (
+          SELECT score FROM quiz_attempts
+          WHERE user_id = p_user_id AND lesson_id = lessons.id AND status = 'completed'
+          ORDER BY finished_at DESC
+          LIMIT 1
+        )
+        ELSE (
+          SELECT max(score) FROM quiz_attempts
+          WHERE user_id = p_user_id AND lesson_id = lessons.id AND status = 'completed'
+        )
+      END
+      FROM lessons
+      WHERE lessons.id = p_rule.required_lesson_id
+    ), 0) >= p_rule.min_score
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION lesson_unlocked(p_user_id uuid, p_lesson_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_author() OR NOT EXISTS (
+    SELECT 1
+    FROM prerequisites
+    JOIN lessons ON lessons.id = p_lesson_id
+    WHERE (prerequisites.lesson_id = lessons.id OR prerequisites.course_id = lessons.course_id)
+    AND NOT prerequisite_met(p_user_id, prerequisites)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_prerequisites()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Existing progress keeps ticking over if rules are added later; only
+  -- starting or completing a lesson is checked.
+  IF TG_TABLE_NAME = 'user_progress'
+    AND TG_OP = 'UPDATE'
+    AND NOT (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT lesson_unlocked(NEW.user_id, NEW.lesson_id) THEN
+    RAISE EXCEPTION 'Lesson is locked until its prerequisites are met';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_prerequisites ON user_progress;
+CREATE TRIGGER enforce_prerequisites
+  BEFORE INSERT OR UPDATE ON user_progress
+  FOR EACH ROW EXECUTE FUNCTION enforce_prerequisites();
+
+DROP TRIGGER IF EXISTS enforce_prerequisites ON quiz_attempts;
+CREATE TRIGGER enforce_prerequisites
+  BEFORE INSERT ON quiz_attempts
+  FOR EACH ROW EXECUTE FUNCTION enforce_prerequisites();
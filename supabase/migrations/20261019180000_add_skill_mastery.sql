@@ -0,0 +1,154 @@
+/*
+  # Skills and Mastery Tracking
+
+  ## Overview
+  Authors tag lessons and questions with skills from a shared taxonomy. Every
+  graded answer updates the learner's estimated mastery of the question's
+  skills using Bayesian Knowledge Tracing (BKT), so progress can be reported
+  per concept rather than per course.
+
+  ## New Tables
+
+  ### `skills`
+  - `id` (uuid, primary key)
+  - `name` (text, unique) - Display name, e.g. "Recursion"
+  - `description` (text)
+  - `parent_id` (uuid, nullable) - Broader skill this one belongs to
+  - `p_init` (real) - Chance a learner already knows the skill before any answer
+  - `p_learn` (real) - Chance of learning it from one practice opportunity
+  - `p_slip` (real) - Chance of answering wrong despite knowing it
+  - `p_guess` (real) - Chance of answering right without knowing it
+  - `created_at` (timestamptz)
+
+  ### `skill_mastery`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `skill_id` (uuid) - Foreign key to skills
+  - `p_mastery` (real) - Estimated probability the learner knows the skill
+  - `evidence_count` (integer) - How many answers went into the estimate
+  - `updated_at` (timestamptz)
+  - Unique on (user_id, skill_id)
+
+  ## Changes to `lessons` and `assessments`
+  - `skill_ids` (uuid[]) - Skills taught or tested. A question without skills
+    of its own counts towards its lesson's skills.
+
+  ## New Functions
+  - `trace_skill_mastery()` - Trigger on `user_assessments` inserts that applies
+    the BKT update for each skill of the answered question. Partial scores
+    weight the correct and incorrect posteriors.
+
+  ## Security
+  - RLS enabled on both tables. Signed-in users can read skills; only authors
+    can write them. Learners can read their own mastery; it is only written by
+    the trigger.
+*/
+
+CREATE TABLE IF NOT EXISTS skills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text NOT NULL DEFAULT '',
+  parent_id uuid REFERENCES skills(id) ON DELETE SET NULL,
+  p_init real NOT NULL DEFAULT 0.2 CHECK (p_init > 0 AND p_init < 1),
+  p_learn real NOT NULL DEFAULT 0.15 CHECK (p_learn > 0 AND p_learn < 1),
+  p_slip real NOT NULL DEFAULT 0.1 CHECK (p_slip > 0 AND p_slip < 1),
+  p_guess real NOT NULL DEFAULT 0.2 CHECK (p_guess > 0 AND p_guess < 1),
+  created_at timestamptz DEFAULT now(),
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_skills_parent_id ON skills(parent_id);
+
+ALTER TABLE lessons ADD COLUMN IF NOT EXISTS skill_ids uuid[] NOT NULL DEFAULT '{}';
+ALTER TABLE assessments ADD COLUMN IF NOT EXISTS skill_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS skill_mastery (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  skill_id uuid NOT NULL REFERENCES skills(id) ON DELETE CASCADE,
+  p_mastery real NOT NULL CHECK (p_mastery >= 0 AND p_mastery <= 1),
+  evidence_count integer NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, skill_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_skill_mastery_skill_id ON skill_mastery(skill_id);
+
+ALTER TABLE skills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE skill_mastery ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view skills"
+  ON skills FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authors can insert skills"
+  ON skills FOR INSERT
+  TO authenticated
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can update skills"
+  ON skills FOR UPDATE
+  TO authenticated
+  USING ((select is_author()))
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can delete skills"
+  ON skills FOR DELETE
+  TO authenticated
+  USING ((select is_author()));
+
+CREATE POLICY "Users can view own skill mastery"
+  ON skill_mastery FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE OR REPLACE FUNCTION trace_skill_mastery()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_skill skills%ROWTYPE;
+  v_prior real;
+  v_if_correct real;
+  v_if_wrong real;
+  v_posterior real;
+BEGIN
+  FOR v_skill IN
+    SELECT skills.*
+    FROM assessments
+    JOIN lessons ON lessons.id = assessments.lesson_id
+    JOIN skills ON skills.id = ANY (
+      CASE WHEN cardinality(assessments.skill_ids) > 0 THEN assessments.skill_ids ELSE lessons.skill_ids END
+    )
+    WHERE assessments.id = NEW.assessment_id
+  LOOP
+    SELECT coalesce((
+      SELECT p_mastery FROM skill_mastery WHERE user_id = NEW.user_id AND skill_id = v_skill.id
+    ), v_skill.p_init) INTO v_prior;
+
+    v_if_correct := v_prior * (1 - v_skill.p_slip)
+      / (v_prior * (1 - v_skill.p_slip) + (1 - v_prior) * v_skill.p_guess);
+    v_if_wrong := v_prior * v_skill.p_slip
+      / (v_prior * v_skill.p_slip + (1 - v_prior) * (1 - v_skill.p_guess));
+    v_posterior := NEW.score * v_if_correct + (1 - NEW.score) * v_if_wrong;
+    v_posterior := v_posterior + (1 - v_posterior) * v_skill.p_learn;
+
+    INSERT INTO skill_mastery (user_id, skill_id, p_mastery, evidence_count, updated_at)
+    VALUES (NEW.user_id, v_skill.id, v_posterior, 1, now())
+    ON CONFLICT (user_id, skill_id) DO UPDATE
+    SET p_mastery = EXCLUDED.p_mastery,
+        evidence_count = skill_mastery.evidence_count + 1,
+        updated_at = now();
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trace_skill_mastery ON user_assessments;
+CREATE TRIGGER trace_skill_mastery
+  AFTER INSERT ON user_assessments
+  FOR EACH ROW EXECUTE FUNCTION trace_skill_mastery();
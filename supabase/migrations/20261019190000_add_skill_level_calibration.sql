@@ -0,0 +1,70 @@
+/*
+  # Skill Level Calibration
+
+  ## Overview
+  A learner's skill level is now adjusted from their performance: quiz accuracy
+  by question difficulty, how long lessons take compared with their estimate,
+  and the difficulty of the lessons they complete. Depending on their
+  preference the change is applied straight away or offered as a suggestion.
+  Every change, including ones made by hand, is kept with its reasoning.
+
+  ## Changes to `profiles`
+  - `skill_level_mode` (text) - `suggest` (default) to ask before changing the
+    level, or `auto` to apply calibrated changes directly
+
+  ## New Tables
+
+  ### `skill_level_calibrations`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `from_level` / `to_level` (text) - The level before and after the change
+  - `source` (text) - `calibration` when recommended from performance,
+    `manual` when the learner picked the level themselves
+  - `status` (text) - `pending` while a suggestion awaits an answer, then
+    `applied` or `dismissed`
+  - `reasons` (text[]) - Why the change was recommended, in plain language
+  - `evidence` (jsonb) - The performance figures the recommendation was based on
+  - `created_at`, `resolved_at` (timestamptz)
+
+  ## Security
+  - RLS enabled; learners can read, record and resolve only their own history
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS skill_level_mode text NOT NULL DEFAULT 'suggest'
+  CHECK (skill_level_mode IN ('suggest', 'auto'));
+
+CREATE TABLE IF NOT EXISTS skill_level_calibrations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  from_level text NOT NULL CHECK (from_level IN ('beginner', 'intermediate', 'advanced')),
+  to_level text NOT NULL CHECK (to_level IN ('beginner', 'intermediate', 'advanced')),
+  source text NOT NULL CHECK (source IN ('calibration', 'manual')),
+  status text NOT NULL CHECK (status IN ('pending', 'applied', 'dismissed')),
+  reasons text[] NOT NULL DEFAULT '{}',
+  evidence jsonb,
+  created_at timestamptz DEFAULT now(),
+  resolved_at timestamptz,
+  CHECK (from_level <> to_level),
+  CHECK (source = 'calibration' OR status = 'applied')
+);
+
+CREATE INDEX IF NOT EXISTS idx_skill_level_calibrations_user_id
+  ON skill_level_calibrations(user_id, created_at DESC);
+
+ALTER TABLE skill_level_calibrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calibrations"
+  ON skill_level_calibrations FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own calibrations"
+  ON skill_level_calibrations FOR INSERT
+  TO authenticated
+  WITH CHECK ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own calibrations"
+  ON skill_level_calibrations FOR UPDATE
+  TO authenticated
+  USING ((select auth.uid()) = user_id)
+  WITH CHECK ((select auth.uid()) = user_id);
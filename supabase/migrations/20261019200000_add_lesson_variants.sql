@@ -0,0 +1,146 @@
+/*
+  # Learning Style Lesson Variants
+
+  ## Overview
+  A lesson's written content can come in alternative versions for each
+  learning style. Learners see the version matching their profile, or the
+  lesson's own content when there is none, and can switch to another. Which
+  version each learner read is recorded so authors can compare quiz outcomes
+  between versions.
+
+  ## New Tables
+
+  ### `lesson_variants`
+  - `id` (uuid, primary key)
+  - `lesson_id` (uuid) - Foreign key to lessons
+  - `learning_style` (text) - `visual`, `auditory`, `kinesthetic` or `reading`;
+    one variant per style and lesson
+  - `content` (text) - Markdown shown instead of the lesson's content
+  - `audio_url` (text) - Optional narration played above the content
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### `lesson_variant_views`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `lesson_id` (uuid) - Foreign key to lessons
+  - `learning_style` (text, nullable) - The variant last shown; null for the
+    lesson's own content
+  - `viewed_at` (timestamptz)
+  - Unique on (user_id, lesson_id)
+
+  ## New Functions
+  - `lesson_variant_outcomes(p_course_id)` - For authors: per lesson and
+    variant, how many learners read it and their average score on questions
+    from that lesson onwards in the course
+
+  ## Security
+  - RLS enabled. Variants are readable wherever their lesson is and writable
+    by authors. Learners can read and record only their own views.
+*/
+
+CREATE TABLE IF NOT EXISTS lesson_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id uuid NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  learning_style text NOT NULL CHECK (learning_style IN ('visual', 'auditory', 'kinesthetic', 'reading')),
+  content text NOT NULL DEFAULT '',
+  audio_url text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (lesson_id, learning_style)
+);
+
+CREATE TABLE IF NOT EXISTS lesson_variant_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  lesson_id uuid NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  learning_style text CHECK (learning_style IN ('visual', 'auditory', 'kinesthetic', 'reading')),
+  viewed_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, lesson_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_variant_views_lesson_id ON lesson_variant_views(lesson_id);
+
+ALTER TABLE lesson_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lesson_variant_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view variants of published lessons"
+  ON lesson_variants FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM lessons
+      JOIN courses ON courses.id = lessons.course_id
+      WHERE lessons.id = lesson_variants.lesson_id
+      AND courses.is_published = true
+    )
+  );
+
+CREATE POLICY "Authors can view all variants"
+  ON lesson_variants FOR SELECT
+  TO authenticated
+  USING ((select is_author()));
+
+CREATE POLICY "Authors can insert variants"
+  ON lesson_variants FOR INSERT
+  TO authenticated
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can update variants"
+  ON lesson_variants FOR UPDATE
+  TO authenticated
+  USING ((select is_author()))
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can delete variants"
+  ON lesson_variants FOR DELETE
+  TO authenticated
+  USING ((select is_author()));
+
+CREATE POLICY "Users can view own variant views"
+  ON lesson_variant_views FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own variant views"
+  ON lesson_variant_views FOR INSERT
+  TO authenticated
+  WITH CHECK ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own variant views"
+  ON lesson_variant_views FOR UPDATE
+  TO authenticated
+  USING ((select auth.uid()) = user_id)
+  WITH CHECK ((select auth.uid()) = user_id);
+
+CREATE OR REPLACE FUNCTION lesson_variant_outcomes(p_course_id uuid)
+RETURNS TABLE (
+  lesson_id uuid,
+  learning_style text,
+  learners bigint,
+  answers bigint,
+  average_score real
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    views.lesson_id,
+    views.learning_style,
+    count(DISTINCT views.user_id),
+    count(user_assessments.id),
+    avg(user_assessments.score)::real
+  FROM lesson_variant_views views
+  JOIN lessons ON lessons.id = views.lesson_id
+  LEFT JOIN lessons later
+    ON later.course_id = lessons.course_id
+    AND later.order_index >= lessons.order_index
+  LEFT JOIN assessments ON assessments.lesson_id = later.id
+  LEFT JOIN user_assessments
+    ON user_assessments.assessment_id = assessments.id
+    AND user_assessments.user_id = views.user_id
+  WHERE lessons.course_id = p_course_id
+  AND is_author()
+  GROUP BY views.lesson_id, views.learning_style;
+$$;
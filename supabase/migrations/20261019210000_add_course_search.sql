@@ -0,0 +1,72 @@
+/*
+  # Course Catalog Search
+
+  ## Overview
+  Full-text search across course titles and descriptions and the title,
+  content and transcript of every lesson, so learners can find courses by what
+  they teach. Matches in a course's own title weigh most, lesson content least.
+
+  ## New Functions
+  - `course_search_vector(p_title, p_description)` and
+    `lesson_search_vector(p_title, p_content, p_transcript)` - The weighted
+    documents that are indexed and searched. Kept as functions so the indexes
+    and the search query always use the same expression.
+  - `search_courses(p_query)` - Courses matching a web-style query (quoted
+    phrases, `or`, `-exclusions`), best match first. Runs with the caller's
+    rights, so only courses and lessons they can see are searched.
+
+  ## Indexes
+  - GIN indexes on both search documents
+*/
+
+CREATE OR REPLACE FUNCTION course_search_vector(p_title text, p_description text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce(p_title, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, coalesce(p_description, '')), 'B');
+$$;
+
+CREATE OR REPLACE FUNCTION lesson_search_vector(p_title text, p_content text, p_transcript text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce(p_title, '')), 'B')
+    || setweight(to_tsvector('english'::regconfig, coalesce(p_content, '')), 'C')
+    || setweight(to_tsvector('english'::regconfig, coalesce(p_transcript, '')), 'D');
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_courses_search
+  ON courses USING gin (course_search_vector(title, description));
+
+CREATE INDEX IF NOT EXISTS idx_lessons_search
+  ON lessons USING gin (lesson_search_vector(title, content, transcript));
+
+CREATE OR REPLACE FUNCTION search_courses(p_query text)
+RETURNS TABLE (course_id uuid, rank real)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q
+  ),
+  hits AS (
+    SELECT courses.id AS course_id, ts_rank(course_search_vector(courses.title, courses.description), query.q) AS rank
+    FROM courses, query
+    WHERE course_search_vector(courses.title, courses.description) @@ query.q
+    UNION ALL
+    SELECT lessons.course_id, max(ts_rank(lesson_search_vector(lessons.title, lessons.content, lessons.transcript), query.q))
+    FROM lessons, query
+    WHERE lesson_search_vector(lessons.title, lessons.content, lessons.transcript) @@ query.q
+    GROUP BY lessons.course_id
+  )
+  SELECT hits.course_id, sum(hits.rank)::real
+  FROM hits
+  GROUP BY hits.course_id
+  ORDER BY 2 DESC;
+$$;
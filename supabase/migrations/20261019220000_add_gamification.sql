@@ -0,0 +1,341 @@
+/*
+  # XP, Learning Streaks and Achievements
+
+  ## Overview
+  Learners earn XP for completing lessons and answering questions correctly,
+  weighted by difficulty. Each lesson and each question pays out once, so
+  retakes and reviews can't be farmed. Any learning on a day extends a daily
+  streak; freeze days earned along the way cover missed days. Achievements
+  are configured by authors as a threshold on one learner metric and unlock
+  automatically.
+
+  Days are calendar days in UTC, taken from when the activity happened rather
+  than when it was synced.
+
+  ## New Tables
+
+  ### `xp_events`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `source` (text) - `lesson` (completed) or `answer` (correct)
+  - `source_id` (uuid) - The lesson or question
+  - `points` (integer)
+  - `earned_at` (timestamptz)
+  - Unique on (user_id, source, source_id)
+
+  ### `learning_streaks`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, unique) - Foreign key to profiles
+  - `current_streak` (integer) - Consecutive active days up to `last_active_on`
+  - `longest_streak` (integer)
+  - `last_active_on` (date)
+  - `freezes_available` (integer) - One is earned every 7 streak days, up to 2
+  - `freezes_used` (integer) - Missed days covered so far
+  - `updated_at` (timestamptz)
+
+  ### `achievements`
+  - `id` (uuid, primary key)
+  - `name` (text, unique)
+  - `description` (text)
+  - `icon` (text) - Badge icon
+  - `metric` (text) - `xp`, `lessons_completed`, `courses_completed`,
+    `correct_answers`, `hard_correct_answers` or `longest_streak`
+  - `threshold` (integer) - Metric value that unlocks the badge
+  - `created_at` (timestamptz)
+
+  ### `user_achievements`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `achievement_id` (uuid) - Foreign key to achievements
+  - `unlocked_at` (timestamptz)
+  - Unique on (user_id, achievement_id)
+
+  ## New Functions
+  - `learner_metrics(p_user_id)` - The current user's totals for every metric.
+  - `record_learning_activity(p_user_id, p_day)` - Extends, freezes or
+    restarts the streak for activity on a day. Returns whether it changed.
+  - `award_achievements(p_user_id)` - Unlocks every achievement whose
+    threshold the user has reached.
+  - `award_answer_engagement()` - Trigger on `user_assessments` inserts.
+  - `award_lesson_engagement()` - Trigger on `user_progress` writes.
+
+  ## Security
+  - RLS enabled on all tables. Learners read their own XP, streak and
+    achievements, which only the triggers write. Signed-in users can read
+    achievement definitions; only authors can write them.
+
+  ## Seed Data
+  - A starter set of achievements
+*/
+
+CREATE TABLE IF NOT EXISTS xp_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('lesson', 'answer')),
+  source_id uuid NOT NULL,
+  points integer NOT NULL CHECK (points > 0),
+  earned_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, source, source_id)
+);
+
+CREATE TABLE IF NOT EXISTS learning_streaks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+  current_streak integer NOT NULL DEFAULT 0,
+  longest_streak integer NOT NULL DEFAULT 0,
+  last_active_on date,
+  freezes_available integer NOT NULL DEFAULT 0 CHECK (freezes_available >= 0),
+  freezes_used integer NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS achievements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text NOT NULL DEFAULT '',
+  icon text NOT NULL DEFAULT 'award'
+    CHECK (icon IN ('award', 'star', 'flame', 'trophy', 'zap', 'target', 'book')),
+  metric text NOT NULL CHECK (metric IN (
+    'xp', 'lessons_completed', 'courses_completed', 'correct_answers', 'hard_correct_answers', 'longest_streak'
+  )),
+  threshold integer NOT NULL CHECK (threshold > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS user_achievements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  achievement_id uuid NOT NULL REFERENCES achievements(id) ON DELETE CASCADE,
+  unlocked_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, achievement_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_achievements_achievement_id ON user_achievements(achievement_id);
+
+ALTER TABLE xp_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE learning_streaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own xp"
+  ON xp_events FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can view own streak"
+  ON learning_streaks FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can view achievements"
+  ON achievements FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authors can insert achievements"
+  ON achievements FOR INSERT
+  TO authenticated
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can update achievements"
+  ON achievements FOR UPDATE
+  TO authenticated
+  USING ((select is_author()))
+  WITH CHECK ((select is_author()));
+
+CREATE POLICY "Authors can delete achievements"
+  ON achievements FOR DELETE
+  TO authenticated
+  USING ((select is_author()));
+
+CREATE POLICY "Users can view own achievements"
+  ON user_achievements FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE OR REPLACE FUNCTION learner_metrics(p_user_id uuid)
+RETURNS TABLE (metric text, value integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH me AS (
+    SELECT p_user_id AS id WHERE p_user_id = (select auth.uid())
+  )
+  SELECT 'xp', coalesce(sum(points), 0)::integer
+  FROM xp_events JOIN me ON xp_events.user_id = me.id
+  UNION ALL
+  SELECT 'lessons_completed', count(*)::integer
+  FROM user_progress JOIN me ON user_progress.user_id = me.id
+  WHERE status = 'completed'
+  UNION ALL
+  SELECT 'courses_completed', count(*)::integer
+  FROM courses, me
+  WHERE EXISTS (SELECT 1 FROM lessons WHERE lessons.course_id = courses.id)
+  AND NOT EXISTS (
+    SELECT 1 FROM lessons
+    WHERE lessons.course_id = courses.id
+    AND NOT EXISTS (
+      SELECT 1 FROM user_progress
+      WHERE user_progress.user_id = me.id
+      AND user_progress.lesson_id = lessons.id
+      AND user_progress.status = 'completed'
+    )
+  )
+  UNION ALL
+  SELECT 'correct_answers', count(DISTINCT assessment_id)::integer
+  FROM user_assessments JOIN me ON user_assessments.user_id = me.id
+  WHERE is_correct
+  UNION ALL
+  SELECT 'hard_correct_answers', count(DISTINCT assessments.id)::integer
+  FROM user_assessments
+  JOIN me ON user_assessments.user_id = me.id
+  JOIN assessments ON assessments.id = user_assessments.assessment_id
+  WHERE user_assessments.is_correct AND assessments.difficulty = 'hard'
+  UNION ALL
+  SELECT 'longest_streak', coalesce(max(longest_streak), 0)::integer
+  FROM learning_streaks JOIN me ON learning_streaks.user_id = me.id;
+$$;
+
+CREATE OR REPLACE FUNCTION record_learning_activity(p_user_id uuid, p_day date)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_streak learning_streaks%ROWTYPE;
+  v_missed integer;
+BEGIN
+  SELECT * INTO v_streak FROM learning_streaks WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO learning_streaks (user_id, current_streak, longest_streak, last_active_on)
+    VALUES (p_user_id, 1, 1, p_day)
+    ON CONFLICT (user_id) DO NOTHING;
+    RETURN FOUND;
+  END IF;
+
+  -- Activity from a day already counted, or replayed late from an earlier one.
+  IF p_day <= v_streak.last_active_on THEN
+    RETURN false;
+  END IF;
+
+  v_missed := coalesce(p_day - v_streak.last_active_on - 1, 0);
+  IF v_missed > v_streak.freezes_available THEN
+    v_streak.current_streak := 1;
+  ELSE
+    v_streak.freezes_available := v_streak.freezes_available - v_missed;
+    v_streak.freezes_used := v_streak.freezes_used + v_missed;
+    v_streak.current_streak := v_streak.current_streak + 1;
+  END IF;
+
+  IF v_streak.current_streak % 7 = 0 THEN
+    v_streak.freezes_available := least(v_streak.freezes_available + 1, 2);
+  END IF;
+
+  UPDATE learning_streaks
+  SET current_streak = v_streak.current_streak,
+      longest_streak = greatest(longest_streak, v_streak.current_streak),
+      last_active_on = p_day,
+      freezes_available = v_streak.freezes_available,
+      freezes_used = v_streak.freezes_used,
+      updated_at = now()
+  WHERE id = v_streak.id;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION award_achievements(p_user_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO user_achievements (user_id, achievement_id)
+  SELECT p_user_id, achievements.id
+  FROM achievements
+  JOIN learner_metrics(p_user_id) metrics ON metrics.metric = achievements.metric
+  WHERE metrics.value >= achievements.threshold
+  ON CONFLICT (user_id, achievement_id) DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION award_answer_engagement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_awarded boolean := false;
+  v_active boolean;
+BEGIN
+  IF NEW.is_correct THEN
+    INSERT INTO xp_events (user_id, source, source_id, points, earned_at)
+    SELECT NEW.user_id, 'answer', assessments.id,
+      CASE assessments.difficulty WHEN 'hard' THEN 20 WHEN 'medium' THEN 10 ELSE 5 END,
+      NEW.attempted_at
+    FROM assessments
+    WHERE assessments.id = NEW.assessment_id
+    ON CONFLICT (user_id, source, source_id) DO NOTHING;
+    v_awarded := FOUND;
+  END IF;
+
+  v_active := record_learning_activity(NEW.user_id, (NEW.attempted_at AT TIME ZONE 'UTC')::date);
+  IF v_awarded OR v_active THEN
+    PERFORM award_achievements(NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS award_answer_engagement ON user_assessments;
+CREATE TRIGGER award_answer_engagement
+  AFTER INSERT ON user_assessments
+  FOR EACH ROW EXECUTE FUNCTION award_answer_engagement();
+
+CREATE OR REPLACE FUNCTION award_lesson_engagement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_awarded boolean := false;
+  v_active boolean;
+BEGIN
+  IF NEW.status = 'completed' THEN
+    INSERT INTO xp_events (user_id, source, source_id, points, earned_at)
+    SELECT NEW.user_id, 'lesson', lessons.id,
+      CASE lessons.difficulty_level WHEN 'advanced' THEN 50 WHEN 'intermediate' THEN 35 ELSE 20 END,
+      coalesce(NEW.completed_at, NEW.last_accessed_at)
+    FROM lessons
+    WHERE lessons.id = NEW.lesson_id
+    ON CONFLICT (user_id, source, source_id) DO NOTHING;
+    v_awarded := FOUND;
+  END IF;
+
+  v_active := record_learning_activity(NEW.user_id, (NEW.last_accessed_at AT TIME ZONE 'UTC')::date);
+  IF v_awarded OR v_active THEN
+    PERFORM award_achievements(NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS award_lesson_engagement ON user_progress;
+CREATE TRIGGER award_lesson_engagement
+  AFTER INSERT OR UPDATE ON user_progress
+  FOR EACH ROW EXECUTE FUNCTION award_lesson_engagement();
+
+INSERT INTO achievements (name, description, icon, metric, threshold) VALUES
+  ('First Steps', 'Complete your first lesson.', 'book', 'lessons_completed', 1),
+  ('Course Finisher', 'Complete every lesson of a course.', 'trophy', 'courses_completed', 1),
+  ('Sharpshooter', 'Answer 10 hard questions correctly.', 'target', 'hard_correct_answers', 10),
+  ('Week Warrior', 'Keep a learning streak going for 7 days.', 'flame', 'longest_streak', 7),
+  ('Quick Study', 'Earn 1,000 XP.', 'zap', 'xp', 1000)
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,212 @@
+/*
+  # Weekly Learning Goals and Reminders
+
+  ## Overview
+  Learners set goals for the week (minutes of learning or lessons completed)
+  or a deadline for finishing a course, and are reminded in the app and,
+  if they allow it, through browser notifications when they fall behind.
+  Weeks follow the learner's own time zone and first day of the week.
+
+  To count minutes per week, learning time is now also kept in hourly
+  buckets. Hours rather than days so the totals can be split on the week
+  boundaries of time zones a whole number of hours from UTC.
+
+  ## Changes to `profiles`
+  - `time_zone` (text) - IANA time zone, e.g. `Europe/Berlin`
+  - `week_starts_on` (smallint) - 0 for Sunday, 1 (default) for Monday
+  - `reminder_hour` (smallint) - Local hour from which reminders are sent
+  - `browser_reminders` (boolean) - Also send reminders as browser notifications
+
+  ## New Tables
+
+  ### `learning_goals`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `kind` (text) - `weekly_minutes`, `weekly_lessons` or `course_deadline`
+  - `target` (integer) - Minutes or lessons per week; null for deadlines
+  - `course_id` (uuid) - The course to finish; only for deadlines
+  - `deadline` (date) - Day to finish the course by; only for deadlines
+  - `created_at`, `updated_at` (timestamptz)
+  - At most one goal of each weekly kind, and one deadline per course
+
+  ### `learning_time`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `hour` (timestamptz) - Start of the hour
+  - `seconds` (integer) - Engaged time within it
+  - Unique on (user_id, hour)
+
+  ### `notifications`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `title`, `body` (text)
+  - `link` (text) - App path to open, if any
+  - `dedupe_key` (text) - Unique per user, so a reminder is only sent once
+  - `read_at` (timestamptz)
+  - `created_at` (timestamptz)
+
+  ## Changes to Functions
+  - `record_progress` also adds the time to the bucket of the hour of
+    `p_last_accessed_at`
+
+  ## Security
+  - RLS enabled on all tables; learners manage only their own rows
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS time_zone text NOT NULL DEFAULT 'UTC';
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS week_starts_on smallint NOT NULL DEFAULT 1
+  CHECK (week_starts_on BETWEEN 0 AND 6);
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS reminder_hour smallint NOT NULL DEFAULT 18
+  CHECK (reminder_hour BETWEEN 0 AND 23);
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS browser_reminders boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS learning_goals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('weekly_minutes', 'weekly_lessons', 'course_deadline')),
+  target integer CHECK (target > 0),
+  course_id uuid REFERENCES courses(id) ON DELETE CASCADE,
+  deadline date,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (
+    CASE kind
+      WHEN 'course_deadline' THEN target IS NULL AND course_id IS NOT NULL AND deadline IS NOT NULL
+      ELSE target IS NOT NULL AND course_id IS NULL AND deadline IS NULL
+    END
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_learning_goals_weekly
+  ON learning_goals(user_id, kind) WHERE kind <> 'course_deadline';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_learning_goals_course
+  ON learning_goals(user_id, course_id) WHERE kind = 'course_deadline';
+CREATE INDEX IF NOT EXISTS idx_learning_goals_course_id ON learning_goals(course_id);
+
+CREATE TABLE IF NOT EXISTS learning_time (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  hour timestamptz NOT NULL,
+  seconds integer NOT NULL DEFAULT 0 CHECK (seconds >= 0),
+  UNIQUE (user_id, hour)
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  link text,
+  dedupe_key text NOT NULL,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+ALTER TABLE learning_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE learning_time ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own goals"
+  ON learning_goals FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own goals"
+  ON learning_goals FOR INSERT
+  TO authenticated
+  WITH CHECK ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own goals"
+  ON learning_goals FOR UPDATE
+  TO authenticated
+  USING ((select auth.uid()) = user_id)
+  WITH CHECK ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own goals"
+  ON learning_goals FOR DELETE
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can view own learning time"
+  ON learning_time FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own learning time"
+  ON learning_time FOR INSERT
+  TO authenticated
+  WITH CHECK ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own learning time"
+  ON learning_time FOR UPDATE
+  TO authenticated
+  USING ((select auth.uid()) = user_id)
+  WITH CHECK ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own notifications"
+  ON notifications FOR INSERT
+  TO authenticated
+  WITH CHECK ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING ((select auth.uid()) = user_id)
+  WITH CHECK ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE OR REPLACE FUNCTION record_progress(
+  p_user_id uuid,
+  p_lesson_id uuid,
+  p_course_id uuid,
+  p_status text,
+  p_completion_percentage integer,
+  p_time_delta_seconds integer,
+  p_last_accessed_at timestamptz,
+  p_completed_at timestamptz DEFAULT NULL,
+  p_step_progress jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  INSERT INTO user_progress AS p (
+    user_id, lesson_id, course_id, status, completion_percentage,
+    time_spent_seconds, time_spent_minutes, last_accessed_at, completed_at, step_progress
+  )
+  VALUES (
+    p_user_id, p_lesson_id, p_course_id, p_status, p_completion_percentage,
+    greatest(p_time_delta_seconds, 0), greatest(p_time_delta_seconds, 0) / 60,
+    p_last_accessed_at, p_completed_at, coalesce(p_step_progress, '{}'::jsonb)
+  )
+  ON CONFLICT (user_id, lesson_id) DO UPDATE SET
+    status = CASE
+      WHEN p.status = 'completed' OR excluded.status = 'completed' THEN 'completed'
+      WHEN excluded.last_accessed_at >= p.last_accessed_at THEN excluded.status
+      ELSE p.status
+    END,
+    completion_percentage = greatest(p.completion_percentage, excluded.completion_percentage),
+    time_spent_seconds = p.time_spent_seconds + excluded.time_spent_seconds,
+    time_spent_minutes = (p.time_spent_seconds + excluded.time_spent_seconds) / 60,
+    last_accessed_at = greatest(p.last_accessed_at, excluded.last_accessed_at),
+    completed_at = least(p.completed_at, excluded.completed_at),
+    step_progress = merge_step_progress(p.step_progress, excluded.step_progress);
+
+  INSERT INTO learning_time AS t (user_id, hour, seconds)
+  SELECT p_user_id, date_trunc('hour', p_last_accessed_at, 'UTC'), p_time_delta_seconds
+  WHERE p_time_delta_seconds > 0
+  ON CONFLICT (user_id, hour) DO UPDATE SET seconds = t.seconds + excluded.seconds;
+$$;
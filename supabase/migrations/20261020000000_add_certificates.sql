@@ -0,0 +1,206 @@
+/*
+  # Course Completion Certificates
+
+  ## Overview
+  Learners who meet a course's completion criteria are issued a certificate
+  with a unique verification code. The criteria are every lesson completed
+  and, when the course sets a passing score, a finished attempt at every quiz
+  lesson scoring at least that. Anyone holding a code can check it, signed in
+  or not, so employers and auditors can verify a certificate.
+
+  The learner's name and the course title are copied onto the certificate
+  when it is issued, so later renames don't change what it says.
+
+  ## Changes to `courses`
+  - `certificate_passing_score` (numeric) - Minimum quiz score from 0 to 1
+    for a certificate; null to only require completing every lesson
+
+  ## New Tables
+
+  ### `certificates`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `course_id` (uuid) - Foreign key to courses
+  - `code` (text, unique) - 12 characters of Crockford base32, shown in
+    groups of four
+  - `learner_name` (text)
+  - `course_title` (text)
+  - `completed_at` (timestamptz) - When the last requirement was met
+  - `issued_at` (timestamptz)
+  - Unique on (user_id, course_id)
+
+  ## New Functions
+  - `certificate_code()` - A random verification code.
+  - `issue_certificate(p_user_id, p_course_id)` - Issues the certificate if
+    the user meets the course's criteria and has none yet.
+  - `issue_lesson_certificate()` - Trigger on `user_progress` writes.
+  - `issue_quiz_certificate()` - Trigger on finished `quiz_attempts`.
+  - `verify_certificate(p_code)` - Looks up a certificate by code, ignoring
+    case, spaces and dashes. Available to anyone.
+
+  ## Security
+  - RLS enabled; learners read their own certificates, which only the
+    triggers write.
+
+  ## Backfill
+  - Certificates are issued to everyone who has already met the criteria.
+*/
+
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS certificate_passing_score numeric
+  CHECK (certificate_passing_score BETWEEN 0 AND 1);
+
+CREATE TABLE IF NOT EXISTS certificates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE CHECK (code ~ '^[0-9A-HJKMNP-TV-Z]{12}$'),
+  learner_name text NOT NULL,
+  course_title text NOT NULL,
+  completed_at timestamptz NOT NULL,
+  issued_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, course_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_certificates_course_id ON certificates(course_id);
+
+ALTER TABLE certificates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own certificates"
+  ON certificates FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE OR REPLACE FUNCTION certificate_code()
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  v_alphabet constant text := '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+  -- Skips the uuid's version and variant bytes, which are not random.
+  v_bytes bytea := substr(uuid_send(gen_random_uuid()), 1, 6) || substr(uuid_send(gen_random_uuid()), 11, 6);
+  v_code text := '';
+BEGIN
+  FOR i IN 0..11 LOOP
+    v_code := v_code || substr(v_alphabet, get_byte(v_bytes, i) % 32 + 1, 1);
+  END LOOP;
+  RETURN v_code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_certificate(p_user_id uuid, p_course_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_course courses;
+  v_completed_at timestamptz;
+BEGIN
+  IF EXISTS (SELECT 1 FROM certificates WHERE user_id = p_user_id AND course_id = p_course_id) THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_course FROM courses WHERE id = p_course_id;
+  IF NOT FOUND OR NOT EXISTS (SELECT 1 FROM lessons WHERE course_id = p_course_id) THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM lessons
+    WHERE lessons.course_id = p_course_id
+    AND NOT EXISTS (
+      SELECT 1 FROM user_progress
+      WHERE user_progress.user_id = p_user_id
+      AND user_progress.lesson_id = lessons.id
+      AND user_progress.status = 'completed'
+    )
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF v_course.certificate_passing_score IS NOT NULL AND EXISTS (
+    SELECT 1 FROM lessons
+    WHERE lessons.course_id = p_course_id
+    AND lessons.content_type = 'quiz'
+    AND NOT EXISTS (
+      SELECT 1 FROM quiz_attempts
+      WHERE quiz_attempts.user_id = p_user_id
+      AND quiz_attempts.lesson_id = lessons.id
+      AND quiz_attempts.status = 'completed'
+      AND quiz_attempts.score >= v_course.certificate_passing_score
+    )
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT greatest(
+    (SELECT max(coalesce(completed_at, last_accessed_at)) FROM user_progress
+      WHERE user_id = p_user_id AND course_id = p_course_id),
+    (SELECT max(finished_at) FROM quiz_attempts
+      WHERE user_id = p_user_id AND course_id = p_course_id AND status = 'completed')
+  ) INTO v_completed_at;
+
+  INSERT INTO certificates (user_id, course_id, code, learner_name, course_title, completed_at)
+  SELECT p_user_id, p_course_id, certificate_code(), coalesce(nullif(trim(full_name), ''), email),
+    v_course.title, coalesce(v_completed_at, now())
+  FROM profiles
+  WHERE id = p_user_id
+  ON CONFLICT (user_id, course_id) DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_lesson_certificate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' THEN
+    PERFORM issue_certificate(NEW.user_id, NEW.course_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS issue_lesson_certificate ON user_progress;
+CREATE TRIGGER issue_lesson_certificate
+  AFTER INSERT OR UPDATE ON user_progress
+  FOR EACH ROW EXECUTE FUNCTION issue_lesson_certificate();
+
+CREATE OR REPLACE FUNCTION issue_quiz_certificate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' THEN
+    PERFORM issue_certificate(NEW.user_id, NEW.course_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS issue_quiz_certificate ON quiz_attempts;
+CREATE TRIGGER issue_quiz_certificate
+  AFTER UPDATE ON quiz_attempts
+  FOR EACH ROW EXECUTE FUNCTION issue_quiz_certificate();
+
+CREATE OR REPLACE FUNCTION verify_certificate(p_code text)
+RETURNS TABLE (code text, learner_name text, course_title text, completed_at timestamptz, issued_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.code, c.learner_name, c.course_title, c.completed_at, c.issued_at
+  FROM certificates c
+  WHERE c.code = upper(regexp_replace(p_code, '[^0-9A-Za-z]', '', 'g'));
+$$;
+
+SELECT issue_certificate(user_id, course_id)
+FROM (SELECT DISTINCT user_id, course_id FROM user_progress WHERE status = 'completed') AS finished;
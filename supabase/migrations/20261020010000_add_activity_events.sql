@@ -0,0 +1,182 @@
+/*
+  # Learning Activity Event Log
+
+  ## Overview
+  `user_progress` keeps only the latest state of each lesson, so there was no
+  way to chart learning over time. Every step of learning is now also
+  appended to an event log that is never updated: opening a lesson, each
+  change to a lesson's progress, each answer and each lesson completion.
+  Progress and answer events are written by triggers as those rows are
+  saved; only lesson opens are logged by the app itself.
+
+  ## New Tables
+
+  ### `activity_events`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Foreign key to profiles
+  - `kind` (text) - `lesson_opened`, `progress_changed`, `answer_submitted`
+    or `lesson_completed`
+  - `course_id`, `lesson_id` (uuid)
+  - `assessment_id` (uuid) - The question; answers only
+  - `seconds` (integer) - Engaged time added; progress changes only
+  - `completion_percentage` (integer) - After the change; progress changes only
+  - `is_correct` (boolean), `score` (numeric) - Answers only
+  - `occurred_at` (timestamptz) - When it happened, which for synced offline
+    learning is earlier than it was saved
+
+  ## New Functions
+  - `log_progress_activity()` - Trigger on `user_progress` writes.
+  - `log_answer_activity()` - Trigger on `user_assessments` inserts.
+  - `daily_activity(p_user_id, p_from, p_to, p_time_zone)` - Totals per
+    local day and course between two dates, inclusive.
+
+  ## Security
+  - RLS enabled. Learners read their own events and may only add
+    `lesson_opened` ones; no one can change or remove an event.
+
+  ## Backfill
+  - Existing progress becomes one `progress_changed` event per lesson at its
+    last access, carrying all its time, plus a `lesson_completed` event for
+    completed lessons. Existing answers become `answer_submitted` events.
+*/
+
+CREATE TABLE IF NOT EXISTS activity_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('lesson_opened', 'progress_changed', 'answer_submitted', 'lesson_completed')),
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  lesson_id uuid NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  assessment_id uuid REFERENCES assessments(id) ON DELETE CASCADE,
+  seconds integer NOT NULL DEFAULT 0 CHECK (seconds >= 0),
+  completion_percentage integer CHECK (completion_percentage BETWEEN 0 AND 100),
+  is_correct boolean,
+  score numeric CHECK (score BETWEEN 0 AND 1),
+  occurred_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_events_user_time ON activity_events(user_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_activity_events_course_id ON activity_events(course_id);
+CREATE INDEX IF NOT EXISTS idx_activity_events_lesson_id ON activity_events(lesson_id);
+
+ALTER TABLE activity_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own activity"
+  ON activity_events FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can log opening lessons"
+  ON activity_events FOR INSERT
+  TO authenticated
+  WITH CHECK ((select auth.uid()) = user_id AND kind = 'lesson_opened');
+
+CREATE OR REPLACE FUNCTION log_progress_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_seconds integer := greatest(NEW.time_spent_seconds - coalesce(OLD.time_spent_seconds, 0), 0);
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR v_seconds > 0
+    OR NEW.completion_percentage IS DISTINCT FROM OLD.completion_percentage
+    OR NEW.status IS DISTINCT FROM OLD.status
+  THEN
+    INSERT INTO activity_events (user_id, kind, course_id, lesson_id, seconds, completion_percentage, occurred_at)
+    VALUES (NEW.user_id, 'progress_changed', NEW.course_id, NEW.lesson_id, v_seconds,
+      NEW.completion_percentage, NEW.last_accessed_at);
+  END IF;
+
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    INSERT INTO activity_events (user_id, kind, course_id, lesson_id, completion_percentage, occurred_at)
+    VALUES (NEW.user_id, 'lesson_completed', NEW.course_id, NEW.lesson_id, NEW.completion_percentage,
+      coalesce(NEW.completed_at, NEW.last_accessed_at));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_progress_activity ON user_progress;
+CREATE TRIGGER log_progress_activity
+  AFTER INSERT OR UPDATE ON user_progress
+  FOR EACH ROW EXECUTE FUNCTION log_progress_activity();
+
+CREATE OR REPLACE FUNCTION log_answer_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO activity_events (user_id, kind, course_id, lesson_id, assessment_id, is_correct, score, occurred_at)
+  SELECT NEW.user_id, 'answer_submitted', lessons.course_id, lessons.id, NEW.assessment_id,
+    NEW.is_correct, NEW.score, NEW.attempted_at
+  FROM assessments
+  JOIN lessons ON lessons.id = assessments.lesson_id
+  WHERE assessments.id = NEW.assessment_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_answer_activity ON user_assessments;
+CREATE TRIGGER log_answer_activity
+  AFTER INSERT ON user_assessments
+  FOR EACH ROW EXECUTE FUNCTION log_answer_activity();
+
+CREATE OR REPLACE FUNCTION daily_activity(p_user_id uuid, p_from date, p_to date, p_time_zone text)
+RETURNS TABLE (
+  day date,
+  course_id uuid,
+  seconds integer,
+  lessons_opened integer,
+  answers integer,
+  correct_answers integer,
+  score numeric,
+  lessons_completed integer
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    (e.occurred_at AT TIME ZONE p_time_zone)::date,
+    e.course_id,
+    sum(e.seconds)::integer,
+    (count(*) FILTER (WHERE e.kind = 'lesson_opened'))::integer,
+    (count(*) FILTER (WHERE e.kind = 'answer_submitted'))::integer,
+    (count(*) FILTER (WHERE e.kind = 'answer_submitted' AND e.is_correct))::integer,
+    coalesce(sum(e.score) FILTER (WHERE e.kind = 'answer_submitted'), 0),
+    (count(*) FILTER (WHERE e.kind = 'lesson_completed'))::integer
+  FROM activity_events e
+  WHERE e.user_id = p_user_id
+  AND e.occurred_at >= p_from::timestamp AT TIME ZONE p_time_zone
+  AND e.occurred_at < (p_to + 1)::timestamp AT TIME ZONE p_time_zone
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+INSERT INTO activity_events (user_id, kind, course_id, lesson_id, seconds, completion_percentage, occurred_at)
+SELECT user_id, 'progress_changed', course_id, lesson_id, time_spent_seconds, completion_percentage,
+  coalesce(last_accessed_at, started_at, now())
+FROM user_progress
+WHERE NOT EXISTS (SELECT 1 FROM activity_events);
+
+INSERT INTO activity_events (user_id, kind, course_id, lesson_id, completion_percentage, occurred_at)
+SELECT user_id, 'lesson_completed', course_id, lesson_id, completion_percentage,
+  coalesce(completed_at, last_accessed_at, now())
+FROM user_progress
+WHERE status = 'completed'
+AND NOT EXISTS (SELECT 1 FROM activity_events WHERE kind = 'lesson_completed');
+
+INSERT INTO activity_events (user_id, kind, course_id, lesson_id, assessment_id, is_correct, score, occurred_at)
+SELECT ua.user_id, 'answer_submitted', lessons.course_id, lessons.id, ua.assessment_id, ua.is_correct, ua.score,
+  coalesce(ua.attempted_at, now())
+FROM user_assessments ua
+JOIN assessments ON assessments.id = ua.assessment_id
+JOIN lessons ON lessons.id = assessments.lesson_id
+WHERE NOT EXISTS (SELECT 1 FROM activity_events WHERE kind = 'answer_submitted');
@@ -0,0 +1,19 @@
+/*
+  # Activity Event Recording Time
+
+  ## Overview
+  Learning activity is sent on to the organisation's Learning Record Store
+  as xAPI statements. The app picks up events it has not sent yet by when
+  they were saved, not when they happened: progress made offline is saved
+  after later activity, so `occurred_at` alone would skip it.
+
+  ## Modified Tables
+
+  ### `activity_events`
+  - `recorded_at` (timestamptz) - When the event was saved. Existing events
+    get the time of this migration.
+*/
+
+ALTER TABLE activity_events ADD COLUMN IF NOT EXISTS recorded_at timestamptz NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_activity_events_user_recorded ON activity_events(user_id, recorded_at);
@@ -0,0 +1,196 @@
+/*
+  # Withhold Solutions When Grading
+
+  ## Overview
+  `grade_answer` returned the question's solution and explanation with every
+  result, so a learner could answer anything once, outside any attempt, and
+  read off the correct answer. It also filed the answer at a time the client
+  chose. Results now carry the solution only when the learner is reviewing a
+  question they already answered in a finished attempt, and answers are
+  always recorded at the time they reach the server.
+
+  Scoring moves into `score_answer` so it is written once. Numeric answers
+  accept the same forms as the client's `gradeLocally` (plain decimals with
+  an optional exponent, no hex or leading `+`), and repeated choices in a
+  multiple select answer count once on both sides.
+
+  ## Changes to Functions
+  - `score_answer(a, p_answer)` - New. Scores a response to an assessment
+    from 0 to 1.
+  - `grade_answer(p_assessment_id, p_answer, p_time_taken_seconds, p_attempt_id)` -
+    Drops `p_attempted_at`; answers are recorded at `now()`. `explanation`
+    and `solution` are null unless the answer is a review: it belongs to no
+    attempt, the learner has answered the question in a finished attempt,
+    and they have no attempt at the lesson in progress.
+*/
+
+CREATE OR REPLACE FUNCTION score_answer(a assessments, p_answer jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_score numeric := 0;
+  v_text text := CASE WHEN jsonb_typeof(p_answer) = 'string' THEN p_answer #>> '{}' END;
+  v_case_sensitive boolean := coalesce((a.answer_key->>'case_sensitive')::boolean, false);
+  v_hits integer;
+  v_count integer;
+  v_pattern text;
+  v_positions integer[];
+  v_lengths integer[];
+  v_longest integer := 0;
+BEGIN
+  IF a.question_type IN ('single_choice', 'true_false') THEN
+    v_score := CASE WHEN v_text = a.correct_answer THEN 1 ELSE 0 END;
+
+  ELSIF a.question_type = 'multiple_select' AND jsonb_typeof(p_answer) = 'array' THEN
+    -- Each wrong choice cancels out a right one.
+    SELECT
+      count(*) FILTER (WHERE coalesce(a.answer_key->'correct_options', '[]'::jsonb) ? chosen),
+      count(*)
+    INTO v_hits, v_count
+    FROM (SELECT DISTINCT jsonb_array_elements_text(p_answer) AS chosen) AS choices;
+    v_count := v_count - v_hits;
+    v_score := CASE
+      WHEN jsonb_array_length(coalesce(a.answer_key->'correct_options', '[]'::jsonb)) = 0 THEN 0
+      ELSE (v_hits - v_count)::numeric / jsonb_array_length(a.answer_key->'correct_options')
+    END;
+
+  ELSIF a.question_type = 'numeric' THEN
+    IF v_text ~ '^\s*-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$' AND a.answer_key ? 'value' THEN
+      v_score := CASE
+        WHEN abs(trim(v_text)::numeric - (a.answer_key->>'value')::numeric)
+          <= coalesce((a.answer_key->>'tolerance')::numeric, 0) THEN 1
+        ELSE 0
+      END;
+    END IF;
+
+  ELSIF a.question_type = 'short_text' AND v_text IS NOT NULL THEN
+    FOR v_pattern IN SELECT jsonb_array_elements_text(coalesce(a.answer_key->'accepted', '[]'::jsonb)) LOOP
+      v_pattern := trim(v_pattern);
+      IF v_pattern ~ '^/.+/[a-z]*$' THEN
+        BEGIN
+          IF v_case_sensitive AND substring(v_pattern from '/([a-z]*)$') NOT LIKE '%i%' THEN
+            IF trim(v_text) ~ ('^(?:' || substring(v_pattern from '^/(.+)/[a-z]*$') || ')$') THEN v_score := 1; END IF;
+          ELSE
+            IF trim(v_text) ~* ('^(?:' || substring(v_pattern from '^/(.+)/[a-z]*$') || ')$') THEN v_score := 1; END IF;
+          END IF;
+        EXCEPTION WHEN invalid_regular_expression THEN
+          NULL;
+        END;
+      ELSIF v_case_sensitive THEN
+        IF regexp_replace(trim(v_text), '\s+', ' ', 'g') = regexp_replace(v_pattern, '\s+', ' ', 'g') THEN v_score := 1; END IF;
+      ELSE
+        IF lower(regexp_replace(trim(v_text), '\s+', ' ', 'g')) = lower(regexp_replace(v_pattern, '\s+', ' ', 'g')) THEN v_score := 1; END IF;
+      END IF;
+      EXIT WHEN v_score = 1;
+    END LOOP;
+
+  ELSIF a.question_type = 'ordering' AND jsonb_typeof(p_answer) = 'array' THEN
+    -- Credit the longest run of items already in the right relative order.
+    SELECT array_agg(correct.ord ORDER BY submitted.ord)
+    INTO v_positions
+    FROM jsonb_array_elements_text(p_answer) WITH ORDINALITY AS submitted(item, ord)
+    JOIN jsonb_array_elements_text(a.options) WITH ORDINALITY AS correct(item, ord)
+      ON correct.item = submitted.item;
+    v_count := coalesce(array_length(v_positions, 1), 0);
+    FOR i IN 1..v_count LOOP
+      v_lengths[i] := 1;
+      FOR j IN 1..i - 1 LOOP
+        IF v_positions[j] < v_positions[i] AND v_lengths[j] + 1 > v_lengths[i] THEN
+          v_lengths[i] := v_lengths[j] + 1;
+        END IF;
+      END LOOP;
+      v_longest := greatest(v_longest, v_lengths[i]);
+    END LOOP;
+    v_score := CASE
+      WHEN jsonb_array_length(a.options) = 0 THEN 0
+      ELSE v_longest::numeric / jsonb_array_length(a.options)
+    END;
+
+  ELSIF a.question_type = 'matching' AND jsonb_typeof(p_answer) = 'object' THEN
+    SELECT count(*) FILTER (WHERE p_answer->>(pair->>'prompt') = pair->>'match'), count(*)
+    INTO v_hits, v_count
+    FROM jsonb_array_elements(coalesce(a.answer_key->'pairs', '[]'::jsonb)) AS pair;
+    v_score := CASE WHEN v_count = 0 THEN 0 ELSE v_hits::numeric / v_count END;
+  END IF;
+
+  RETURN round(least(1, greatest(0, v_score)), 2);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS grade_answer(uuid, jsonb, integer, timestamptz, uuid);
+
+CREATE OR REPLACE FUNCTION grade_answer(
+  p_assessment_id uuid,
+  p_answer jsonb,
+  p_time_taken_seconds integer DEFAULT 0,
+  p_attempt_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := (select auth.uid());
+  a assessments%ROWTYPE;
+  v_score numeric;
+  v_attempt_id uuid;
+  v_review boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO a FROM assessments WHERE assessments.id = p_assessment_id;
+  IF NOT FOUND OR NOT can_view_lesson(a.lesson_id) THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  -- Answers only join the caller's own attempt at this question's lesson.
+  SELECT id INTO v_attempt_id FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = v_user_id AND lesson_id = a.lesson_id;
+
+  v_review := v_attempt_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM user_assessments
+      JOIN quiz_attempts ON quiz_attempts.id = user_assessments.attempt_id
+      WHERE user_assessments.user_id = v_user_id
+      AND user_assessments.assessment_id = a.id
+      AND quiz_attempts.status = 'completed'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM quiz_attempts
+      WHERE user_id = v_user_id AND lesson_id = a.lesson_id AND status = 'in_progress'
+    );
+
+  v_score := score_answer(a, p_answer);
+
+  INSERT INTO user_assessments (
+    user_id, assessment_id, attempt_id, user_answer, is_correct, score, attempted_at, time_taken_seconds
+  )
+  VALUES (
+    v_user_id,
+    a.id,
+    v_attempt_id,
+    coalesce(CASE WHEN jsonb_typeof(p_answer) = 'string' THEN p_answer #>> '{}' END, p_answer::text),
+    v_score = 1,
+    v_score,
+    now(),
+    greatest(coalesce(p_time_taken_seconds, 0), 0)
+  );
+
+  RETURN jsonb_build_object(
+    'score', v_score,
+    'is_correct', v_score = 1,
+    'explanation', CASE WHEN v_review THEN a.explanation END,
+    'solution', CASE WHEN v_review THEN jsonb_build_object(
+      'options', a.options,
+      'correct_answer', a.correct_answer,
+      'answer_key', a.answer_key
+    ) END
+  );
+END;
+$$;
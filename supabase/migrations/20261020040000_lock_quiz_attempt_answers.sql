@@ -0,0 +1,173 @@
+/*
+  # One Answer per Question in Quiz Attempts
+
+  ## Overview
+  A learner could answer a question in an attempt, read the solution and
+  answer it again; the attempt was scored on the latest answer, so every
+  attempt could reach 100%, which then satisfied prerequisite scores and
+  certificates. Each question in an attempt now takes exactly one answer,
+  which is the one scored, and solutions are only handed out once the
+  attempt is finished.
+
+  ## Changes to Functions
+  - `grade_answer` - With `p_attempt_id`, the attempt must be the caller's,
+    still in progress and have already shown the question (it is in the
+    attempt's `question_ids`, see `advance_quiz_attempt`), and the
+    question must not have been answered in it. Anything else raises an error instead of filing the answer
+    outside the attempt.
+  - `finish_quiz_attempt` - Scores the first answer to each question.
+
+  ## New Functions
+  - `review_quiz_attempt(p_attempt_id)` - The explanation and solution of
+    each question in one of the caller's finished attempts.
+*/
+
+CREATE OR REPLACE FUNCTION grade_answer(
+  p_assessment_id uuid,
+  p_answer jsonb,
+  p_time_taken_seconds integer DEFAULT 0,
+  p_attempt_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := (select auth.uid());
+  a assessments%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_score numeric;
+  v_review boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO a FROM assessments WHERE assessments.id = p_assessment_id;
+  IF NOT FOUND OR NOT can_view_lesson(a.lesson_id) THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  IF p_attempt_id IS NOT NULL THEN
+    -- The lock keeps two answers to the same question from both getting in.
+    SELECT * INTO v_attempt FROM quiz_attempts
+    WHERE id = p_attempt_id AND user_id = v_user_id AND lesson_id = a.lesson_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Attempt not found';
+    END IF;
+    IF v_attempt.status <> 'in_progress' THEN
+      RAISE EXCEPTION 'This attempt is already finished';
+    END IF;
+    IF NOT a.id = ANY (v_attempt.question_ids) THEN
+      RAISE EXCEPTION 'This question is not part of the attempt';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM user_assessments WHERE attempt_id = v_attempt.id AND assessment_id = a.id
+    ) THEN
+      RAISE EXCEPTION 'This question has already been answered in the attempt';
+    END IF;
+  END IF;
+
+  v_review := p_attempt_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM user_assessments
+      JOIN quiz_attempts ON quiz_attempts.id = user_assessments.attempt_id
+      WHERE user_assessments.user_id = v_user_id
+      AND user_assessments.assessment_id = a.id
+      AND quiz_attempts.status = 'completed'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM quiz_attempts
+      WHERE user_id = v_user_id AND lesson_id = a.lesson_id AND status = 'in_progress'
+    );
+
+  v_score := score_answer(a, p_answer);
+
+  INSERT INTO user_assessments (
+    user_id, assessment_id, attempt_id, user_answer, is_correct, score, attempted_at, time_taken_seconds
+  )
+  VALUES (
+    v_user_id,
+    a.id,
+    v_attempt.id,
+    coalesce(CASE WHEN jsonb_typeof(p_answer) = 'string' THEN p_answer #>> '{}' END, p_answer::text),
+    v_score = 1,
+    v_score,
+    now(),
+    greatest(coalesce(p_time_taken_seconds, 0), 0)
+  );
+
+  RETURN jsonb_build_object(
+    'score', v_score,
+    'is_correct', v_score = 1,
+    'explanation', CASE WHEN v_review THEN a.explanation END,
+    'solution', CASE WHEN v_review THEN jsonb_build_object(
+      'options', a.options,
+      'correct_answer', a.correct_answer,
+      'answer_key', a.answer_key
+    ) END
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION finish_quiz_attempt(p_attempt_id uuid)
+RETURNS quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  -- Only the first answer to each question counts.
+  UPDATE quiz_attempts SET
+    status = 'completed',
+    score = (
+      SELECT coalesce(avg(first.score), 0)
+      FROM (
+        SELECT DISTINCT ON (assessment_id) score
+        FROM user_assessments
+        WHERE attempt_id = p_attempt_id
+        ORDER BY assessment_id, attempted_at, id
+      ) AS first
+    ),
+    current_question_id = NULL,
+    finished_at = now(),
+    updated_at = now()
+  WHERE id = p_attempt_id
+  AND user_id = (select auth.uid())
+  AND status = 'in_progress';
+
+  SELECT * INTO v_attempt FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = (select auth.uid());
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found';
+  END IF;
+  RETURN v_attempt;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION review_quiz_attempt(p_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  explanation text,
+  options jsonb,
+  correct_answer text,
+  answer_key jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT assessments.id, assessments.explanation, assessments.options, assessments.correct_answer, assessments.answer_key
+  FROM quiz_attempts
+  CROSS JOIN LATERAL unnest(quiz_attempts.question_ids) WITH ORDINALITY AS asked(assessment_id, position)
+  JOIN assessments ON assessments.id = asked.assessment_id
+  WHERE quiz_attempts.id = p_attempt_id
+  AND quiz_attempts.user_id = (select auth.uid())
+  AND quiz_attempts.status = 'completed'
+  ORDER BY asked.position;
+$$;
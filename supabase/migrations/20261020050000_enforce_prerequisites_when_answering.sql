@@ -0,0 +1,197 @@
+/*
+  # Enforce Prerequisites When Answering
+
+  ## Overview
+  Prerequisites were only checked when progress was recorded and when a new
+  quiz attempt row was inserted. Resuming an attempt that was started before
+  a rule was added, or answering questions directly, went straight past a
+  locked lesson. Rules could also point at each other in a loop, which
+  locks every lesson in it for good.
+
+  ## Changes to Functions
+  - `start_quiz_attempt` - Rejects locked lessons, including when an attempt
+    is already in progress.
+  - `grade_answer` - Rejects answers to questions in locked lessons.
+
+  ## New Functions
+  - `reject_prerequisite_cycles()` - Trigger on `prerequisites` that rejects a
+    rule when a lesson it gates is, through other rules, required before a
+    lesson it requires. Rules on a course count for all of its lessons, so a
+    course can't require one of its own lessons either.
+*/
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_lesson_id uuid)
+RETURNS quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := (select auth.uid());
+  v_lesson lessons%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_lesson FROM lessons WHERE lessons.id = p_lesson_id;
+  IF NOT FOUND OR NOT can_view_lesson(p_lesson_id) THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+  IF NOT lesson_unlocked(v_user_id, p_lesson_id) THEN
+    RAISE EXCEPTION 'Lesson is locked until its prerequisites are met';
+  END IF;
+
+  SELECT * INTO v_attempt FROM quiz_attempts
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND status = 'in_progress';
+  IF FOUND THEN
+    RETURN v_attempt;
+  END IF;
+
+  IF v_lesson.max_attempts IS NOT NULL AND (
+    SELECT count(*) FROM quiz_attempts
+    WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND status = 'completed'
+  ) >= v_lesson.max_attempts THEN
+    RAISE EXCEPTION 'No attempts left';
+  END IF;
+
+  INSERT INTO quiz_attempts (user_id, lesson_id, course_id)
+  VALUES (v_user_id, p_lesson_id, v_lesson.course_id)
+  RETURNING * INTO v_attempt;
+  RETURN v_attempt;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION grade_answer(
+  p_assessment_id uuid,
+  p_answer jsonb,
+  p_time_taken_seconds integer DEFAULT 0,
+  p_attempt_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := (select auth.uid());
+  a assessments%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_score numeric;
+  v_review boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO a FROM assessments WHERE assessments.id = p_assessment_id;
+  IF NOT FOUND OR NOT can_view_lesson(a.lesson_id) THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+  IF NOT lesson_unlocked(v_user_id, a.lesson_id) THEN
+    RAISE EXCEPTION 'Lesson is locked until its prerequisites are met';
+  END IF;
+
+  IF p_attempt_id IS NOT NULL THEN
+    -- The lock keeps two answers to the same question from both getting in.
+    SELECT * INTO v_attempt FROM quiz_attempts
+    WHERE id = p_attempt_id AND user_id = v_user_id AND lesson_id = a.lesson_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Attempt not found';
+    END IF;
+    IF v_attempt.status <> 'in_progress' THEN
+      RAISE EXCEPTION 'This attempt is already finished';
+    END IF;
+    IF NOT a.id = ANY (v_attempt.question_ids) THEN
+      RAISE EXCEPTION 'This question is not part of the attempt';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM user_assessments WHERE attempt_id = v_attempt.id AND assessment_id = a.id
+    ) THEN
+      RAISE EXCEPTION 'This question has already been answered in the attempt';
+    END IF;
+  END IF;
+
+  v_review := p_attempt_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM user_assessments
+      JOIN quiz_attempts ON quiz_attempts.id = user_assessments.attempt_id
+      WHERE user_assessments.user_id = v_user_id
+      AND user_assessments.assessment_id = a.id
+      AND quiz_attempts.status = 'completed'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM quiz_attempts
+      WHERE user_id = v_user_id AND lesson_id = a.lesson_id AND status = 'in_progress'
+    );
+
+  v_score := score_answer(a, p_answer);
+
+  INSERT INTO user_assessments (
+    user_id, assessment_id, attempt_id, user_answer, is_correct, score, attempted_at, time_taken_seconds
+  )
+  VALUES (
+    v_user_id,
+    a.id,
+    v_attempt.id,
+    coalesce(CASE WHEN jsonb_typeof(p_answer) = 'string' THEN p_answer #>> '{}' END, p_answer::text),
+    v_score = 1,
+    v_score,
+    now(),
+    greatest(coalesce(p_time_taken_seconds, 0), 0)
+  );
+
+  RETURN jsonb_build_object(
+    'score', v_score,
+    'is_correct', v_score = 1,
+    'explanation', CASE WHEN v_review THEN a.explanation END,
+    'solution', CASE WHEN v_review THEN jsonb_build_object(
+      'options', a.options,
+      'correct_answer', a.correct_answer,
+      'answer_key', a.answer_key
+    ) END
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_prerequisite_cycles()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- One rule change at a time, so two changes can't each close half a loop.
+  PERFORM pg_advisory_xact_lock(hashtext('prerequisites'));
+
+  IF EXISTS (
+    WITH RECURSIVE required(lesson_id) AS (
+      SELECT lessons.id FROM lessons
+      WHERE lessons.id = NEW.required_lesson_id OR lessons.course_id = NEW.required_course_id
+      UNION
+      SELECT next.id
+      FROM required
+      JOIN lessons gated ON gated.id = required.lesson_id
+      JOIN prerequisites rule
+        ON (rule.lesson_id = gated.id OR rule.course_id = gated.course_id)
+        AND rule.id <> NEW.id
+      JOIN lessons next
+        ON next.id = rule.required_lesson_id OR next.course_id = rule.required_course_id
+    )
+    SELECT 1 FROM required
+    JOIN lessons ON lessons.id = required.lesson_id
+    WHERE lessons.id = NEW.lesson_id OR lessons.course_id = NEW.course_id
+  ) THEN
+    RAISE EXCEPTION 'This prerequisite would make lessons wait on each other in a loop';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reject_prerequisite_cycles ON prerequisites;
+CREATE TRIGGER reject_prerequisite_cycles
+  BEFORE INSERT OR UPDATE ON prerequisites
+  FOR EACH ROW EXECUTE FUNCTION reject_prerequisite_cycles();
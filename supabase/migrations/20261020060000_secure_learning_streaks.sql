@@ -0,0 +1,109 @@
+/*
+  # Secure Learning Streaks
+
+  ## Overview
+  `record_learning_activity` and `award_achievements` run as the definer and
+  take any user id, and functions are executable by everyone by default, so
+  anyone could call them over the API to extend another learner's streak or
+  unlock achievements. They are now only run by the engagement triggers.
+
+  Streak days also counted in UTC while weekly goals use the learner's own
+  time zone, so a learner east or west of UTC could see today's activity
+  land on yesterday's streak day. Streak days now follow the profile's
+  `time_zone` too. Streaks recorded before this keep their UTC days.
+
+  ## New Functions
+  - `learner_time_zone(p_user_id)` - The learner's time zone, or `UTC` when
+    it is not one PostgreSQL knows.
+
+  ## Changes to Functions
+  - `award_answer_engagement()` / `award_lesson_engagement()` - Count the
+    activity on its day in the learner's time zone.
+
+  ## Security
+  - `record_learning_activity` and `award_achievements` can no longer be
+    executed by `public`, `anon` or `authenticated`.
+*/
+
+REVOKE EXECUTE ON FUNCTION record_learning_activity(uuid, date) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION award_achievements(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION learner_time_zone(p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((
+    SELECT profiles.time_zone FROM profiles
+    JOIN pg_timezone_names ON pg_timezone_names.name = profiles.time_zone
+    WHERE profiles.id = p_user_id
+  ), 'UTC');
+$$;
+
+CREATE OR REPLACE FUNCTION award_answer_engagement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_awarded boolean := false;
+  v_active boolean;
+BEGIN
+  IF NEW.is_correct THEN
+    INSERT INTO xp_events (user_id, source, source_id, points, earned_at)
+    SELECT NEW.user_id, 'answer', assessments.id,
+      CASE assessments.difficulty WHEN 'hard' THEN 20 WHEN 'medium' THEN 10 ELSE 5 END,
+      NEW.attempted_at
+    FROM assessments
+    WHERE assessments.id = NEW.assessment_id
+    ON CONFLICT (user_id, source, source_id) DO NOTHING;
+    v_awarded := FOUND;
+  END IF;
+
+  v_active := record_learning_activity(
+    NEW.user_id,
+    (NEW.attempted_at AT TIME ZONE learner_time_zone(NEW.user_id))::date
+  );
+  IF v_awarded OR v_active THEN
+    PERFORM award_achievements(NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION award_lesson_engagement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_awarded boolean := false;
+  v_active boolean;
+BEGIN
+  IF NEW.status = 'completed' THEN
+    INSERT INTO xp_events (user_id, source, source_id, points, earned_at)
+    SELECT NEW.user_id, 'lesson', lessons.id,
+      CASE lessons.difficulty_level WHEN 'advanced' THEN 50 WHEN 'intermediate' THEN 35 ELSE 20 END,
+      coalesce(NEW.completed_at, NEW.last_accessed_at)
+    FROM lessons
+    WHERE lessons.id = NEW.lesson_id
+    ON CONFLICT (user_id, source, source_id) DO NOTHING;
+    v_awarded := FOUND;
+  END IF;
+
+  v_active := record_learning_activity(
+    NEW.user_id,
+    (NEW.last_accessed_at AT TIME ZONE learner_time_zone(NEW.user_id))::date
+  );
+  IF v_awarded OR v_active THEN
+    PERFORM award_achievements(NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,132 @@
+/*
+  # Validate Progress Writes
+
+  ## Overview
+  Learners could still insert and update their own `user_progress` rows
+  directly, so marking every lesson of a course completed was enough to be
+  issued its certificate, pass prerequisites and collect lesson XP and
+  achievements. `user_progress` is now written only through
+  `record_progress`, which checks what it is given.
+
+  Completing a lesson needs evidence the server holds: a finished attempt
+  for a quiz lesson with questions, and at least 90% of the video played
+  for a video lesson. Without it the lesson is recorded as in progress
+  (capped at 99%) rather than rejected, so the time spent still counts.
+  Text and interactive lessons are completed on the learner's word, as
+  before.
+
+  ## Changes to Functions
+  - `record_progress` - Now runs as the definer. It records progress only
+    for the caller, takes the course from the lesson, requires the lesson
+    to be visible, clamps the percentage and never accepts times in the
+    future.
+  - `completion_proven(p_user_id, p_lesson_id)` - New. Whether the server
+    has evidence the user finished the lesson.
+
+  ## Security
+  - The "Users can insert own progress" and "Users can update own progress"
+    policies on `user_progress` are dropped. Learners can still read their
+    own progress.
+  - `issue_certificate` can no longer be executed by `public`, `anon` or
+    `authenticated`; only the certificate triggers run it.
+*/
+
+DROP POLICY IF EXISTS "Users can insert own progress" ON user_progress;
+DROP POLICY IF EXISTS "Users can update own progress" ON user_progress;
+
+REVOKE EXECUTE ON FUNCTION issue_certificate(uuid, uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION completion_proven(p_user_id uuid, p_lesson_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN lessons.content_type = 'quiz' AND EXISTS (SELECT 1 FROM assessments WHERE lesson_id = lessons.id) THEN
+      EXISTS (
+        SELECT 1 FROM quiz_attempts
+        WHERE user_id = p_user_id AND lesson_id = lessons.id AND status = 'completed'
+      )
+    WHEN lessons.content_type = 'video' AND coalesce(lessons.video_url, '') <> '' THEN
+      coalesce((
+        SELECT sum((segment->>1)::numeric - (segment->>0)::numeric) / nullif(video_progress.duration_seconds, 0)
+        FROM video_progress
+        CROSS JOIN LATERAL jsonb_array_elements(video_progress.watched_segments) AS segment
+        WHERE video_progress.user_id = p_user_id AND video_progress.lesson_id = lessons.id
+        GROUP BY video_progress.duration_seconds
+      ), 0) >= 0.9
+    ELSE true
+  END
+  FROM lessons
+  WHERE lessons.id = p_lesson_id;
+$$;
+
+CREATE OR REPLACE FUNCTION record_progress(
+  p_user_id uuid,
+  p_lesson_id uuid,
+  p_course_id uuid,
+  p_status text,
+  p_completion_percentage integer,
+  p_time_delta_seconds integer,
+  p_last_accessed_at timestamptz,
+  p_completed_at timestamptz DEFAULT NULL,
+  p_step_progress jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := (select auth.uid());
+  v_course_id uuid;
+  v_status text := p_status;
+  v_percentage integer := least(greatest(coalesce(p_completion_percentage, 0), 0), 100);
+  v_time integer := greatest(coalesce(p_time_delta_seconds, 0), 0);
+  v_accessed_at timestamptz := least(coalesce(p_last_accessed_at, now()), now());
+  v_completed_at timestamptz := least(p_completed_at, now());
+BEGIN
+  IF v_user_id IS NULL OR p_user_id IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'Progress can only be recorded for yourself';
+  END IF;
+
+  SELECT course_id INTO v_course_id FROM lessons WHERE id = p_lesson_id;
+  IF NOT FOUND OR NOT can_view_lesson(p_lesson_id) THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  IF v_status = 'completed' AND NOT completion_proven(v_user_id, p_lesson_id) THEN
+    v_status := 'in_progress';
+    v_percentage := least(v_percentage, 99);
+    v_completed_at := NULL;
+  END IF;
+
+  INSERT INTO user_progress AS p (
+    user_id, lesson_id, course_id, status, completion_percentage,
+    time_spent_seconds, time_spent_minutes, last_accessed_at, completed_at, step_progress
+  )
+  VALUES (
+    v_user_id, p_lesson_id, v_course_id, v_status, v_percentage,
+    v_time, v_time / 60, v_accessed_at, v_completed_at, coalesce(p_step_progress, '{}'::jsonb)
+  )
+  ON CONFLICT (user_id, lesson_id) DO UPDATE SET
+    status = CASE
+      WHEN p.status = 'completed' OR excluded.status = 'completed' THEN 'completed'
+      WHEN excluded.last_accessed_at >= p.last_accessed_at THEN excluded.status
+      ELSE p.status
+    END,
+    completion_percentage = greatest(p.completion_percentage, excluded.completion_percentage),
+    time_spent_seconds = p.time_spent_seconds + excluded.time_spent_seconds,
+    time_spent_minutes = (p.time_spent_seconds + excluded.time_spent_seconds) / 60,
+    last_accessed_at = greatest(p.last_accessed_at, excluded.last_accessed_at),
+    completed_at = least(p.completed_at, excluded.completed_at),
+    step_progress = merge_step_progress(p.step_progress, excluded.step_progress);
+
+  INSERT INTO learning_time AS t (user_id, hour, seconds)
+  SELECT v_user_id, date_trunc('hour', v_accessed_at, 'UTC'), v_time
+  WHERE v_time > 0
+  ON CONFLICT (user_id, hour) DO UPDATE SET seconds = t.seconds + excluded.seconds;
+END;
+$$;
@@ -0,0 +1,70 @@
+/*
+  # Limit Video Progress to Playback Time
+
+  ## Overview
+  Video lessons only complete once 90% of the footage has been played (see
+  `completion_proven`), but `video_progress` is written by the player, so a
+  learner could save a single segment covering the whole video straight away.
+  Each save may now add at most twice the time that has passed since the
+  last accepted one (the fastest speed the player offers), plus half a minute
+  for saves that race each other. A save that adds more keeps the segments
+  already recorded and still moves the resume position; once enough time has
+  passed the player's next save gets in.
+
+  The duration is still the one the player reports.
+
+  ## New Functions
+  - `video_watched_seconds(p_segments)` - Total length of a list of
+    `[start, end]` segments.
+  - `limit_video_progress()` - Trigger on `video_progress` that applies the
+    limit above. `updated_at` is set by the server and marks the last save
+    whose segments were accepted.
+*/
+
+CREATE OR REPLACE FUNCTION video_watched_seconds(p_segments jsonb)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(greatest((segment->>1)::numeric - (segment->>0)::numeric, 0)), 0)
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(p_segments) = 'array' THEN p_segments ELSE '[]'::jsonb END
+  ) AS segment;
+$$;
+
+CREATE OR REPLACE FUNCTION limit_video_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_before numeric := 0;
+  v_since timestamptz := now();
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_before := video_watched_seconds(OLD.watched_segments);
+    v_since := coalesce(OLD.updated_at, now());
+  END IF;
+
+  IF video_watched_seconds(NEW.watched_segments) - v_before
+    > extract(epoch FROM now() - v_since) * 2 + 30 THEN
+    IF TG_OP = 'UPDATE' THEN
+      NEW.watched_segments := OLD.watched_segments;
+      NEW.updated_at := OLD.updated_at;
+    ELSE
+      NEW.watched_segments := '[]'::jsonb;
+      NEW.updated_at := now();
+    END IF;
+  ELSE
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS limit_video_progress ON video_progress;
+CREATE TRIGGER limit_video_progress
+  BEFORE INSERT OR UPDATE ON video_progress
+  FOR EACH ROW EXECUTE FUNCTION limit_video_progress();
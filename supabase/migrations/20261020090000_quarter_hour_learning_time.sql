@@ -0,0 +1,92 @@
+/*
+  # Quarter-Hour Learning Time
+
+  ## Overview
+  Learning time was kept in buckets of whole UTC hours so weekly minutes
+  could be totalled on the learner's own week boundaries. That only works
+  for time zones a whole number of hours from UTC: in India (+05:30) or
+  Nepal (+05:45) a week starts halfway through a bucket, and the time in it
+  was counted in the wrong week. Every time zone in use is a multiple of 15
+  minutes from UTC, so buckets now cover a quarter of an hour.
+
+  Buckets recorded before this still cover a whole hour and keep their
+  start.
+
+  ## Changes to `learning_time`
+  - `hour` is renamed to `starts_at` (timestamptz) - Start of the quarter
+    hour
+
+  ## Changes to Functions
+  - `record_progress` - Adds the time to the bucket of the quarter hour of
+    `p_last_accessed_at`.
+*/
+
+ALTER TABLE learning_time RENAME COLUMN hour TO starts_at;
+
+CREATE OR REPLACE FUNCTION record_progress(
+  p_user_id uuid,
+  p_lesson_id uuid,
+  p_course_id uuid,
+  p_status text,
+  p_completion_percentage integer,
+  p_time_delta_seconds integer,
+  p_last_accessed_at timestamptz,
+  p_completed_at timestamptz DEFAULT NULL,
+  p_step_progress jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := (select auth.uid());
+  v_course_id uuid;
+  v_status text := p_status;
+  v_percentage integer := least(greatest(coalesce(p_completion_percentage, 0), 0), 100);
+  v_time integer := greatest(coalesce(p_time_delta_seconds, 0), 0);
+  v_accessed_at timestamptz := least(coalesce(p_last_accessed_at, now()), now());
+  v_completed_at timestamptz := least(p_completed_at, now());
+BEGIN
+  IF v_user_id IS NULL OR p_user_id IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'Progress can only be recorded for yourself';
+  END IF;
+
+  SELECT course_id INTO v_course_id FROM lessons WHERE id = p_lesson_id;
+  IF NOT FOUND OR NOT can_view_lesson(p_lesson_id) THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  IF v_status = 'completed' AND NOT completion_proven(v_user_id, p_lesson_id) THEN
+    v_status := 'in_progress';
+    v_percentage := least(v_percentage, 99);
+    v_completed_at := NULL;
+  END IF;
+
+  INSERT INTO user_progress AS p (
+    user_id, lesson_id, course_id, status, completion_percentage,
+    time_spent_seconds, time_spent_minutes, last_accessed_at, completed_at, step_progress
+  )
+  VALUES (
+    v_user_id, p_lesson_id, v_course_id, v_status, v_percentage,
+    v_time, v_time / 60, v_accessed_at, v_completed_at, coalesce(p_step_progress, '{}'::jsonb)
+  )
+  ON CONFLICT (user_id, lesson_id) DO UPDATE SET
+    status = CASE
+      WHEN p.status = 'completed' OR excluded.status = 'completed' THEN 'completed'
+      WHEN excluded.last_accessed_at >= p.last_accessed_at THEN excluded.status
+      ELSE p.status
+    END,
+    completion_percentage = greatest(p.completion_percentage, excluded.completion_percentage),
+    time_spent_seconds = p.time_spent_seconds + excluded.time_spent_seconds,
+    time_spent_minutes = (p.time_spent_seconds + excluded.time_spent_seconds) / 60,
+    last_accessed_at = greatest(p.last_accessed_at, excluded.last_accessed_at),
+    completed_at = least(p.completed_at, excluded.completed_at),
+    step_progress = merge_step_progress(p.step_progress, excluded.step_progress);
+
+  INSERT INTO learning_time AS t (user_id, starts_at, seconds)
+  SELECT v_user_id, date_bin('15 minutes', v_accessed_at, timestamptz '2000-01-01 00:00:00+00'), v_time
+  WHERE v_time > 0
+  ON CONFLICT (user_id, starts_at) DO UPDATE SET seconds = t.seconds + excluded.seconds;
+END;
+$$;
@@ -0,0 +1,62 @@
+/*
+  # Progress Status Changes in the Activity Log
+
+  ## Overview
+  Every progress save, including the heartbeat lessons send every 30
+  seconds, is logged as a `progress_changed` event, and each of those was
+  sent to the Learning Record Store as an `experienced` statement. Progress
+  events now say when they moved the lesson to a new status, and only those
+  become statements.
+
+  ## Modified Tables
+
+  ### `activity_events`
+  - `status` (text) - The lesson's new status, on progress events that
+    changed it; null otherwise. Existing events get `in_progress` on the
+    first progress event of each lesson.
+
+  ## Changes to Functions
+  - `log_progress_activity()` - Records the new status when it changed.
+*/
+
+ALTER TABLE activity_events ADD COLUMN IF NOT EXISTS status text
+  CHECK (status IN ('not_started', 'in_progress', 'completed'));
+
+UPDATE activity_events SET status = 'in_progress'
+WHERE id IN (
+  SELECT DISTINCT ON (user_id, lesson_id) id
+  FROM activity_events
+  WHERE kind = 'progress_changed'
+  ORDER BY user_id, lesson_id, occurred_at, id
+)
+AND NOT EXISTS (SELECT 1 FROM activity_events WHERE status IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION log_progress_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_seconds integer := greatest(NEW.time_spent_seconds - coalesce(OLD.time_spent_seconds, 0), 0);
+  v_status text := CASE WHEN TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN NEW.status END;
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR v_seconds > 0
+    OR NEW.completion_percentage IS DISTINCT FROM OLD.completion_percentage
+    OR v_status IS NOT NULL
+  THEN
+    INSERT INTO activity_events (
+      user_id, kind, course_id, lesson_id, seconds, completion_percentage, status, occurred_at
+    )
+    VALUES (NEW.user_id, 'progress_changed', NEW.course_id, NEW.lesson_id, v_seconds,
+      NEW.completion_percentage, v_status, NEW.last_accessed_at);
+  END IF;
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    INSERT INTO activity_events (user_id, kind, course_id, lesson_id, completion_percentage, occurred_at)
+    VALUES (NEW.user_id, 'lesson_completed', NEW.course_id, NEW.lesson_id, NEW.completion_percentage,
+      coalesce(NEW.completed_at, NEW.last_accessed_at));
+  END IF;
+  RETURN NEW;
+END;
+$$;
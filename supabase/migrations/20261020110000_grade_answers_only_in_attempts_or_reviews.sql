@@ -0,0 +1,114 @@
+/*
+  # Grade Answers Only in Attempts or Reviews
+
+  ## Overview
+  `grade_answer` still accepted answers without an attempt to any question
+  the learner could see, and always said whether they were right. Trying
+  each option of a single-choice or true/false question that way gave away
+  the right one before answering it in the attempt, which then counted
+  towards prerequisite scores and certificates. An answer without an
+  attempt is now only accepted as a review: the learner answered the
+  question in a finished attempt and has no attempt at the lesson in
+  progress. Anything else raises an error and is not recorded.
+
+  ## Changes to Functions
+  - `grade_answer` - Rejects answers without an attempt that are not
+    reviews.
+*/
+
+CREATE OR REPLACE FUNCTION grade_answer(
+  p_assessment_id uuid,
+  p_answer jsonb,
+  p_time_taken_seconds integer DEFAULT 0,
+  p_attempt_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := (select auth.uid());
+  a assessments%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_score numeric;
+  v_review boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO a FROM assessments WHERE assessments.id = p_assessment_id;
+  IF NOT FOUND OR NOT can_view_lesson(a.lesson_id) THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+  IF NOT lesson_unlocked(v_user_id, a.lesson_id) THEN
+    RAISE EXCEPTION 'Lesson is locked until its prerequisites are met';
+  END IF;
+
+  IF p_attempt_id IS NOT NULL THEN
+    -- The lock keeps two answers to the same question from both getting in.
+    SELECT * INTO v_attempt FROM quiz_attempts
+    WHERE id = p_attempt_id AND user_id = v_user_id AND lesson_id = a.lesson_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Attempt not found';
+    END IF;
+    IF v_attempt.status <> 'in_progress' THEN
+      RAISE EXCEPTION 'This attempt is already finished';
+    END IF;
+    IF NOT a.id = ANY (v_attempt.question_ids) THEN
+      RAISE EXCEPTION 'This question is not part of the attempt';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM user_assessments WHERE attempt_id = v_attempt.id AND assessment_id = a.id
+    ) THEN
+      RAISE EXCEPTION 'This question has already been answered in the attempt';
+    END IF;
+  END IF;
+
+  v_review := p_attempt_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM user_assessments
+      JOIN quiz_attempts ON quiz_attempts.id = user_assessments.attempt_id
+      WHERE user_assessments.user_id = v_user_id
+      AND user_assessments.assessment_id = a.id
+      AND quiz_attempts.status = 'completed'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM quiz_attempts
+      WHERE user_id = v_user_id AND lesson_id = a.lesson_id AND status = 'in_progress'
+    );
+
+  IF p_attempt_id IS NULL AND NOT v_review THEN
+    RAISE EXCEPTION 'Questions can only be answered in a quiz attempt, or reviewed once it is finished';
+  END IF;
+
+  v_score := score_answer(a, p_answer);
+
+  INSERT INTO user_assessments (
+    user_id, assessment_id, attempt_id, user_answer, is_correct, score, attempted_at, time_taken_seconds
+  )
+  VALUES (
+    v_user_id,
+    a.id,
+    v_attempt.id,
+    coalesce(CASE WHEN jsonb_typeof(p_answer) = 'string' THEN p_answer #>> '{}' END, p_answer::text),
+    v_score = 1,
+    v_score,
+    now(),
+    greatest(coalesce(p_time_taken_seconds, 0), 0)
+  );
+
+  RETURN jsonb_build_object(
+    'score', v_score,
+    'is_correct', v_score = 1,
+    'explanation', CASE WHEN v_review THEN a.explanation END,
+    'solution', CASE WHEN v_review THEN jsonb_build_object(
+      'options', a.options,
+      'correct_answer', a.correct_answer,
+      'answer_key', a.answer_key
+    ) END
+  );
+END;
+$$;
@@ -0,0 +1,112 @@
+/*
+  # Credit First Answers Only
+
+  ## Overview
+  Answer XP was paid on a learner's first correct answer to a question, and
+  the `correct_answers` and `hard_correct_answers` metrics counted every
+  question they had ever got right. A learner who kept answering until they
+  were right earned the XP and moved towards the answer achievements all
+  the same. Now only answers given in a quiz attempt, and otherwise a
+  learner's first answer to the question, earn either. Reviews come after
+  an attempt at the question, so they no longer count.
+
+  ## New Functions
+  - `answer_earns_credit(ua)` - Whether an answer counts for XP and the
+    answer metrics.
+
+  ## Changes to Functions
+  - `award_answer_engagement()` - Pays XP only for answers that earn credit.
+  - `learner_metrics(p_user_id)` - Counts only answers that earn credit.
+*/
+
+CREATE OR REPLACE FUNCTION answer_earns_credit(ua user_assessments)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ua.attempt_id IS NOT NULL OR NOT EXISTS (
+    SELECT 1 FROM user_assessments earlier
+    WHERE earlier.user_id = ua.user_id
+    AND earlier.assessment_id = ua.assessment_id
+    AND (earlier.attempted_at, earlier.id) < (ua.attempted_at, ua.id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION award_answer_engagement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_awarded boolean := false;
+  v_active boolean;
+BEGIN
+  IF NEW.is_correct AND answer_earns_credit(NEW) THEN
+    INSERT INTO xp_events (user_id, source, source_id, points, earned_at)
+    SELECT NEW.user_id, 'answer', assessments.id,
+      CASE assessments.difficulty WHEN 'hard' THEN 20 WHEN 'medium' THEN 10 ELSE 5 END,
+      NEW.attempted_at
+    FROM assessments
+    WHERE assessments.id = NEW.assessment_id
+    ON CONFLICT (user_id, source, source_id) DO NOTHING;
+    v_awarded := FOUND;
+  END IF;
+
+  v_active := record_learning_activity(
+    NEW.user_id,
+    (NEW.attempted_at AT TIME ZONE learner_time_zone(NEW.user_id))::date
+  );
+  IF v_awarded OR v_active THEN
+    PERFORM award_achievements(NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION learner_metrics(p_user_id uuid)
+RETURNS TABLE (metric text, value integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH me AS (
+    SELECT p_user_id AS id WHERE p_user_id = (select auth.uid())
+  )
+  SELECT 'xp', coalesce(sum(points), 0)::integer
+  FROM xp_events JOIN me ON xp_events.user_id = me.id
+  UNION ALL
+  SELECT 'lessons_completed', count(*)::integer
+  FROM user_progress JOIN me ON user_progress.user_id = me.id
+  WHERE status = 'completed'
+  UNION ALL
+  SELECT 'courses_completed', count(*)::integer
+  FROM courses, me
+  WHERE EXISTS (SELECT 1 FROM lessons WHERE lessons.course_id = courses.id)
+  AND NOT EXISTS (
+    SELECT 1 FROM lessons
+    WHERE lessons.course_id = courses.id
+    AND NOT EXISTS (
+      SELECT 1 FROM user_progress
+      WHERE user_progress.user_id = me.id
+      AND user_progress.lesson_id = lessons.id
+      AND user_progress.status = 'completed'
+    )
+  )
+  UNION ALL
+  SELECT 'correct_answers', count(DISTINCT assessment_id)::integer
+  FROM user_assessments JOIN me ON user_assessments.user_id = me.id
+  WHERE is_correct AND answer_earns_credit(user_assessments)
+  UNION ALL
+  SELECT 'hard_correct_answers', count(DISTINCT assessments.id)::integer
+  FROM user_assessments
+  JOIN me ON user_assessments.user_id = me.id
+  JOIN assessments ON assessments.id = user_assessments.assessment_id
+  WHERE user_assessments.is_correct AND answer_earns_credit(user_assessments) AND assessments.difficulty = 'hard'
+  UNION ALL
+  SELECT 'longest_streak', coalesce(max(longest_streak), 0)::integer
+  FROM learning_streaks JOIN me ON learning_streaks.user_id = me.id;
+$$;
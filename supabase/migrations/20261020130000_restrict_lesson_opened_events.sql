@@ -0,0 +1,56 @@
+/*
+  # Restrict Logged Lesson Opens
+
+  ## Overview
+  Learners log their own `lesson_opened` events, and the only check was that
+  the row was theirs and of that kind. They could give it any id (including
+  a certificate's), any lesson or course, answer fields and a saving time of
+  their choosing, and the events are sent on to the Learning Record Store.
+  The insert policy now only accepts opens of lessons the learner can see,
+  in the lesson's own course, that have already happened, and the id and
+  saving time of every event are set by the database.
+
+  ## New Functions
+  - `stamp_activity_event()` - Trigger on `activity_events` inserts that sets
+    `id` and `recorded_at`.
+
+  ## Security
+  - "Users can log opening lessons" on `activity_events` is replaced with the
+    stricter policy above.
+*/
+
+DROP POLICY IF EXISTS "Users can log opening lessons" ON activity_events;
+
+CREATE POLICY "Users can log opening lessons"
+  ON activity_events FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (select auth.uid()) = user_id
+    AND kind = 'lesson_opened'
+    AND assessment_id IS NULL
+    AND seconds = 0
+    AND completion_percentage IS NULL
+    AND status IS NULL
+    AND is_correct IS NULL
+    AND score IS NULL
+    AND occurred_at <= now()
+    AND can_view_lesson(lesson_id)
+    AND course_id = (SELECT lessons.course_id FROM lessons WHERE lessons.id = lesson_id)
+  );
+
+CREATE OR REPLACE FUNCTION stamp_activity_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.id := gen_random_uuid();
+  NEW.recorded_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_activity_event ON activity_events;
+CREATE TRIGGER stamp_activity_event
+  BEFORE INSERT ON activity_events
+  FOR EACH ROW EXECUTE FUNCTION stamp_activity_event();
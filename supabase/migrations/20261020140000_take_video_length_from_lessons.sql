@@ -0,0 +1,135 @@
+/*
+  # Take Video Length from Lessons
+
+  ## Overview
+  `completion_proven` measured the video played against
+  `video_progress.duration_seconds`, which the learner's player writes, so
+  reporting a short enough video was enough to complete the lesson. Video
+  lessons now carry their length, filled in by the lesson editor from the
+  video itself, and that is what progress is measured against.
+
+  Lessons saved before this have no length until an author saves them
+  again. Until then the reported duration is still used, but it can no
+  longer shrink and always covers every watched segment.
+
+  Segments are also merged before they are added up, so playing the same
+  part twice (or saving overlapping segments) no longer counts twice, and
+  anything past the end of the video is ignored.
+
+  ## Changes to Tables
+  - `lessons.video_duration_seconds` (numeric, nullable) - Length of the
+    lesson's video.
+
+  ## Changes to Functions
+  - `video_watched_seconds(p_segments, p_duration)` - Now merges
+    overlapping segments and clips them to `0..p_duration` when given.
+  - `limit_video_progress()` - Sets `duration_seconds` to the lesson's
+    length, or keeps the reported one from shrinking below its previous
+    value and the end of the last segment.
+  - `completion_proven` - Measures against the lesson's length when it has
+    one.
+*/
+
+ALTER TABLE lessons ADD COLUMN IF NOT EXISTS video_duration_seconds numeric
+  CHECK (video_duration_seconds IS NULL OR video_duration_seconds > 0);
+
+-- The new parameter would make one-argument calls ambiguous.
+DROP FUNCTION IF EXISTS video_watched_seconds(jsonb);
+
+CREATE OR REPLACE FUNCTION video_watched_seconds(p_segments jsonb, p_duration numeric DEFAULT NULL)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  WITH segments AS (
+    SELECT
+      greatest((segment->>0)::numeric, 0) AS start_at,
+      least((segment->>1)::numeric, p_duration) AS end_at
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(p_segments) = 'array' THEN p_segments ELSE '[]'::jsonb END
+    ) AS segment
+  ),
+  ordered AS (
+    SELECT
+      start_at,
+      end_at,
+      max(end_at) OVER (ORDER BY start_at, end_at ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING) AS reached
+    FROM segments
+    WHERE end_at > start_at
+  )
+  -- Each segment only adds what lies past the furthest point the earlier ones reached.
+  SELECT coalesce(sum(greatest(end_at - greatest(start_at, coalesce(reached, start_at)), 0)), 0)
+  FROM ordered;
+$$;
+
+CREATE OR REPLACE FUNCTION limit_video_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_before numeric := 0;
+  v_since timestamptz := now();
+BEGIN
+  NEW.duration_seconds := coalesce(
+    (SELECT video_duration_seconds FROM lessons WHERE id = NEW.lesson_id),
+    greatest(
+      NEW.duration_seconds,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.duration_seconds END,
+      (SELECT max((segment->>1)::numeric)
+       FROM jsonb_array_elements(
+         CASE WHEN jsonb_typeof(NEW.watched_segments) = 'array' THEN NEW.watched_segments ELSE '[]'::jsonb END
+       ) AS segment)
+    )
+  );
+
+  IF TG_OP = 'UPDATE' THEN
+    v_before := video_watched_seconds(OLD.watched_segments, NEW.duration_seconds);
+    v_since := coalesce(OLD.updated_at, now());
+  END IF;
+
+  IF video_watched_seconds(NEW.watched_segments, NEW.duration_seconds) - v_before
+    > extract(epoch FROM now() - v_since) * 2 + 30 THEN
+    IF TG_OP = 'UPDATE' THEN
+      NEW.watched_segments := OLD.watched_segments;
+      NEW.updated_at := OLD.updated_at;
+    ELSE
+      NEW.watched_segments := '[]'::jsonb;
+      NEW.updated_at := now();
+    END IF;
+  ELSE
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION completion_proven(p_user_id uuid, p_lesson_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN lessons.content_type = 'quiz' AND EXISTS (SELECT 1 FROM assessments WHERE lesson_id = lessons.id) THEN
+      EXISTS (
+        SELECT 1 FROM quiz_attempts
+        WHERE user_id = p_user_id AND lesson_id = lessons.id AND status = 'completed'
+      )
+    WHEN lessons.content_type = 'video' AND coalesce(lessons.video_url, '') <> '' THEN
+      coalesce((
+        SELECT video_watched_seconds(video_progress.watched_segments, duration.seconds) / nullif(duration.seconds, 0)
+        FROM video_progress
+        CROSS JOIN LATERAL (
+          SELECT coalesce(lessons.video_duration_seconds, video_progress.duration_seconds) AS seconds
+        ) AS duration
+        WHERE video_progress.user_id = p_user_id AND video_progress.lesson_id = lessons.id
+      ), 0) >= 0.9
+    ELSE true
+  END
+  FROM lessons
+  WHERE lessons.id = p_lesson_id;
+$$;
@@ -0,0 +1,25 @@
+/*
+  # Revoke Learner Lookup Functions
+
+  ## Overview
+  Several helpers run as the definer so they can see every row they need,
+  and take the learner to look up as a parameter. Functions can be executed
+  by everyone unless revoked, so any signed-in user (or anonymous visitor)
+  could call them over the API with someone else's id and learn which
+  lessons that learner has unlocked or finished and which time zone they
+  are in.
+
+  None of them is called by the app; they are only used by other functions
+  and triggers that run as the definer and pass the caller's own id, so
+  revoking them changes nothing for those.
+
+  ## Security
+  - `prerequisite_met`, `lesson_unlocked`, `completion_proven` and
+    `learner_time_zone` can no longer be executed by `public`, `anon` or
+    `authenticated`.
+*/
+
+REVOKE EXECUTE ON FUNCTION prerequisite_met(uuid, prerequisites) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION lesson_unlocked(uuid, uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION completion_proven(uuid, uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION learner_time_zone(uuid) FROM public, anon, authenticated;
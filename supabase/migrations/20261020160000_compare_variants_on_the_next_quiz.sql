@@ -0,0 +1,84 @@
+/*
+  # Compare Variants on the Next Quiz
+
+  ## Overview
+  `lesson_variant_outcomes` credited a variant with the reader's answers to
+  every question from its lesson to the end of the course, including ones
+  given before they read it. A variant is now credited only with answers to
+  the quiz it leads into (the questions of the first lesson from its own
+  onwards that has any) given after it was shown.
+
+  A learner has one `lesson_variant_views` row per lesson, holding the style
+  last shown. `viewed_at` is now set by the database and only moves when the
+  style changes, so reopening a lesson keeps the answers that followed it,
+  and answers given while an earlier style was shown are no longer credited
+  to the one that replaced it.
+
+  ## Changes to Functions
+  - `lesson_variant_outcomes(p_course_id)` - Counts only answers to the
+    next quiz given at or after `viewed_at`.
+
+  ## New Functions
+  - `stamp_lesson_variant_view()` - Trigger on `lesson_variant_views` that
+    sets `viewed_at` when a style is first shown.
+*/
+
+CREATE OR REPLACE FUNCTION stamp_lesson_variant_view()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.learning_style IS NOT DISTINCT FROM OLD.learning_style THEN
+    NEW.viewed_at := OLD.viewed_at;
+  ELSE
+    NEW.viewed_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_lesson_variant_view ON lesson_variant_views;
+CREATE TRIGGER stamp_lesson_variant_view
+  BEFORE INSERT OR UPDATE ON lesson_variant_views
+  FOR EACH ROW EXECUTE FUNCTION stamp_lesson_variant_view();
+
+CREATE OR REPLACE FUNCTION lesson_variant_outcomes(p_course_id uuid)
+RETURNS TABLE (
+  lesson_id uuid,
+  learning_style text,
+  learners bigint,
+  answers bigint,
+  average_score real
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    views.lesson_id,
+    views.learning_style,
+    count(DISTINCT views.user_id),
+    count(user_assessments.id),
+    avg(user_assessments.score)::real
+  FROM lesson_variant_views views
+  JOIN lessons ON lessons.id = views.lesson_id
+  LEFT JOIN LATERAL (
+    SELECT quiz.id
+    FROM lessons quiz
+    WHERE quiz.course_id = lessons.course_id
+    AND quiz.order_index >= lessons.order_index
+    AND EXISTS (SELECT 1 FROM assessments WHERE assessments.lesson_id = quiz.id)
+    ORDER BY quiz.order_index, quiz.id <> lessons.id
+    LIMIT 1
+  ) next_quiz ON true
+  LEFT JOIN assessments ON assessments.lesson_id = next_quiz.id
+  LEFT JOIN user_assessments
+    ON user_assessments.assessment_id = assessments.id
+    AND user_assessments.user_id = views.user_id
+    AND user_assessments.attempted_at >= views.viewed_at
+  WHERE lessons.course_id = p_course_id
+  AND is_author()
+  GROUP BY views.lesson_id, views.learning_style;
+$$;